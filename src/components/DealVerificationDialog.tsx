@@ -0,0 +1,95 @@
+import { useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { Player } from '@/hooks/useGameState';
+import { cardToString } from '@/lib/gameLogic';
+import { DealObservation, DealReveal, DealVerification, verifyDeal } from '@/lib/fairness';
+
+interface DealVerificationDialogProps {
+  reveal: DealReveal;
+  observation: DealObservation;
+  players: Player[];
+}
+
+const CHECKS: Array<{ key: keyof DealVerification; label: string }> = [
+  { key: 'secretCommitted', label: 'Server secret was committed before any entropy was sent' },
+  { key: 'secretCommitmentUnchanged', label: 'Secret commitment is the one shown when you sent entropy' },
+  { key: 'commitmentValid', label: 'Revealed secret and entropy match the commitment' },
+  { key: 'seedValid', label: 'Seed is derived from the revealed secret and entropy' },
+  { key: 'commitmentUnchanged', label: 'Commitment is the one shown before the deal' },
+  { key: 'entropyIncluded', label: 'Your entropy was used' },
+  { key: 'handValid', label: 'Your first five cards came from this deck' },
+];
+
+/**
+ * Recomputes a finished round's deal from its reveal (src/lib/fairness.ts)
+ * and shows which checks passed, plus the deck order and hands it produced.
+ */
+export const DealVerificationDialog = ({ reveal, observation, players }: DealVerificationDialogProps) => {
+  const [result, setResult] = useState<DealVerification | null>(null);
+
+  const handleOpenChange = async (open: boolean) => {
+    if (!open || result) return;
+    setResult(await verifyDeal(reveal, observation));
+  };
+
+  return (
+    <Dialog onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <ShieldCheck className="h-4 w-4 mr-2" />
+          Verify Round {reveal.round} Deal
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Round {reveal.round} deal</DialogTitle>
+          <DialogDescription>
+            {reveal.secretCommitment
+              ? 'The server committed to its secret before any seat added entropy, and to the deal before any card was dealt.'
+              : reveal.commitment
+              ? 'Every seat added entropy and the server committed to the deal before any card was dealt.'
+              : 'Practice round: dealt from the public seed chosen when the room was created, so anyone could know these cards.'}
+          </DialogDescription>
+        </DialogHeader>
+        {result ? (
+          <div className="space-y-4 text-sm">
+            <ul className="space-y-1">
+              {CHECKS.filter(({ key }) => result[key] !== null).map(({ key, label }) => (
+                <li key={key} className={result[key] ? 'text-green-600' : 'text-red-500'}>
+                  {result[key] ? '✓' : '✗'} {label}
+                </li>
+              ))}
+            </ul>
+
+            <div className="font-mono text-xs space-y-1">
+              <div className="break-all">Seed: {reveal.seed}</div>
+              {reveal.secretCommitment && (
+                <div className="break-all">Secret commitment: {reveal.secretCommitment}</div>
+              )}
+              {reveal.commitment && <div className="break-all">Commitment: {reveal.commitment}</div>}
+              {players.map(p => (
+                <div key={p.position}>
+                  {p.name} (dealt): {result.hands[p.position].map(cardToString).join(' ')}
+                </div>
+              ))}
+              <div className="break-words">
+                Deck: {result.deck.map(cardToString).join(' ')}
+              </div>
+            </div>
+          </div>
+        ) : (
+          <p className="text-center text-muted-foreground">Verifying...</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
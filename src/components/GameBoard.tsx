@@ -1,4 +1,4 @@
-import { Card as CardType } from '@/lib/gameLogic';
+import { Card as CardType, Suit, evaluateTrick } from '@/lib/gameLogic';
 import { Card } from './Card';
 import { cn } from '@/lib/utils';
 
@@ -8,9 +8,24 @@ interface GameBoardProps {
   currentPlayerIndex: number;
   trump: string | null;
   myPosition: number;
+  turnSecondsLeft?: number | null;  // Countdown for the current player, null when untimed
+  pendingCard?: CardType | null;    // Our play still waiting on the server, drawn faded
 }
 
-export const GameBoard = ({ currentTrick, players, currentPlayerIndex, trump, myPosition }: GameBoardProps) => {
+export const GameBoard = ({
+  currentTrick,
+  players,
+  currentPlayerIndex,
+  trump,
+  myPosition,
+  turnSecondsLeft,
+  pendingCard
+}: GameBoardProps) => {
+  // A finished trick stays up for a moment before the server clears it
+  const trickWinner = currentTrick.length === 3
+    ? players.find(p => p.position === evaluateTrick(currentTrick, trump as Suit | null))
+    : undefined;
+
   return (
     <div className="flex flex-col items-center gap-8 py-8">
       {/* Trump indicator */}
@@ -28,14 +43,26 @@ export const GameBoard = ({ currentTrick, players, currentPlayerIndex, trump, my
             <div className="text-muted-foreground">Waiting for cards...</div>
           ) : (
             <div className="flex gap-4 flex-wrap justify-center">
-              {currentTrick.map((play, index) => (
-                <div key={index} className="flex flex-col items-center gap-2">
-                  <Card card={play.card} isPlayed />
-                  <div className="text-xs text-muted-foreground">
-                    {players.find(p => p.position === play.position)?.name || 'Player'}
+              {currentTrick.map((play, index) => {
+                const isPending = play.position === myPosition && !!pendingCard &&
+                  play.card.suit === pendingCard.suit && play.card.rank === pendingCard.rank;
+
+                return (
+                  <div key={index} className={cn('flex flex-col items-center gap-2', isPending && 'opacity-60')}>
+                    <Card card={play.card} isPlayed />
+                    <div className="text-xs text-muted-foreground">
+                      {isPending
+                        ? 'Sending...'
+                        : players.find(p => p.position === play.position)?.name || 'Player'}
+                    </div>
                   </div>
+                );
+              })}
+              {trickWinner && (
+                <div className="w-full text-sm font-semibold text-primary">
+                  {trickWinner.name} takes the trick
                 </div>
-              ))}
+              )}
             </div>
           )}
         </div>
@@ -67,6 +94,11 @@ export const GameBoard = ({ currentTrick, players, currentPlayerIndex, trump, my
               {isCurrentPlayer && (
                 <div className="text-xs text-primary font-semibold mt-2">
                   Current Turn
+                  {turnSecondsLeft != null && (
+                    <span className={cn('ml-2 font-mono', turnSecondsLeft <= 5 && 'text-destructive')}>
+                      {turnSecondsLeft}s
+                    </span>
+                  )}
                 </div>
               )}
             </div>
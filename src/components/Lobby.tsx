@@ -1,21 +1,100 @@
 import { useState } from 'react';
 import { Button } from './ui/button';
 import { Input } from './ui/input';
+import { Label } from './ui/label';
+import { Switch } from './ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from './ui/select';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from './ui/card';
+import { ActiveGame } from '@/hooks/useActiveGames';
+import {
+  DEFAULT_RULES,
+  MAX_WINNING_SCORE,
+  MIN_WINNING_SCORE,
+  RoomRules,
+  Suit,
+  validateRules,
+} from '@/lib/gameLogic';
+import {
+  DEFAULT_TURN_TIMERS,
+  MAX_TURN_SECONDS,
+  TURN_STAGES,
+  TurnStage,
+  TurnTimers,
+  validateTurnTimers,
+} from '@/lib/turnTimers';
+import { DISCONNECT_POLICIES, DisconnectPolicy } from '@/lib/presence';
+
+const SUITS: Suit[] = ['♠', '♥', '♦', '♣'];
+
+// Match lengths on offer: multiples of 3 so every seat deals equally often
+const MATCH_LENGTHS = [3, 6, 9, 12];
+
+const TIMER_LABELS: Record<TurnStage, string> = {
+  trumpSelection: 'Trump',
+  dealing: 'Deal',
+  cardPull: 'Pull',
+  cardPlay: 'Play',
+};
 
 interface LobbyProps {
-  onCreateRoom: (playerName: string) => void;
+  activeGames: ActiveGame[];
+  onCreateRoom: (
+    playerName: string,
+    practiceSeed: number | null,
+    rules: RoomRules,
+    turnTimers: TurnTimers,
+    disconnectPolicy: DisconnectPolicy,
+    allowSpectators: boolean
+  ) => void;
   onJoinRoom: (roomId: string, playerName: string) => void;
+  onWatchRoom: (roomId: string) => void;
+  onResumeGame: (roomId: string) => void;
+  onRejoinWithCode: (code: string) => void;
+  onOpenAnalysis: () => void;
 }
 
-export const Lobby = ({ onCreateRoom, onJoinRoom }: LobbyProps) => {
+export const Lobby = ({
+  activeGames,
+  onCreateRoom,
+  onJoinRoom,
+  onWatchRoom,
+  onResumeGame,
+  onRejoinWithCode,
+  onOpenAnalysis
+}: LobbyProps) => {
   const [playerName, setPlayerName] = useState('');
   const [roomId, setRoomId] = useState('');
+  const [rejoinCode, setRejoinCode] = useState('');
+  const [isPractice, setIsPractice] = useState(false);
+  const [practiceSeed, setPracticeSeed] = useState('');
   const [isJoining, setIsJoining] = useState(false);
+  const [isRejoining, setIsRejoining] = useState(false);
+  const [rules, setRules] = useState<RoomRules>(DEFAULT_RULES);
+  const [turnTimers, setTurnTimers] = useState<TurnTimers>(DEFAULT_TURN_TIMERS);
+  const [disconnectPolicy, setDisconnectPolicy] = useState<DisconnectPolicy>('pause');
+  const [allowSpectators, setAllowSpectators] = useState(true);
+  const [isEditingRules, setIsEditingRules] = useState(false);
+
+  // Same seed → same deals, for practising a known hand. Anyone who knows
+  // the seed knows every hand, so it is only used when asked for.
+  const parsedSeed = isPractice && /^\d+$/.test(practiceSeed.trim()) ? Number(practiceSeed.trim()) : null;
+  const isSeedValid = !isPractice || (parsedSeed !== null && parsedSeed <= 4294967295);
+
+  // House rules are fixed once the room exists
+  const rulesError = validateRules(rules) ?? validateTurnTimers(turnTimers);
+
+  const toggleSeven = (suit: Suit) => {
+    setRules(r => ({
+      ...r,
+      keptSevens: r.keptSevens.includes(suit)
+        ? r.keptSevens.filter(s => s !== suit)
+        : [...r.keptSevens, suit],
+    }));
+  };
 
   const handleCreateRoom = () => {
-    if (playerName.trim()) {
-      onCreateRoom(playerName.trim());
+    if (playerName.trim() && isSeedValid && !rulesError) {
+      onCreateRoom(playerName.trim(), parsedSeed, rules, turnTimers, disconnectPolicy, allowSpectators);
     }
   };
 
@@ -25,6 +104,18 @@ export const Lobby = ({ onCreateRoom, onJoinRoom }: LobbyProps) => {
     }
   };
 
+  const handleWatchRoom = () => {
+    if (roomId.trim()) {
+      onWatchRoom(roomId.trim());
+    }
+  };
+
+  const handleRejoin = () => {
+    if (rejoinCode.trim()) {
+      onRejoinWithCode(rejoinCode.trim());
+    }
+  };
+
   return (
     <div className="min-h-screen bg-background flex items-center justify-center p-4">
       <Card className="w-full max-w-md">
@@ -35,6 +126,24 @@ export const Lobby = ({ onCreateRoom, onJoinRoom }: LobbyProps) => {
           </CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
+          {/* Active game banner */}
+          {activeGames.map(game => (
+            <div
+              key={game.roomId}
+              className="flex items-center justify-between gap-4 bg-primary/10 border border-primary rounded-lg px-4 py-3"
+            >
+              <div className="text-sm">
+                <div className="font-semibold">You have an active game</div>
+                <div className="text-muted-foreground">
+                  Playing as {game.playerName} • Round {game.roundNumber}
+                </div>
+              </div>
+              <Button size="sm" onClick={() => onResumeGame(game.roomId)}>
+                Resume
+              </Button>
+            </div>
+          ))}
+
           <div className="space-y-2">
             <label className="text-sm font-medium">Your Name</label>
             <Input
@@ -49,12 +158,157 @@ export const Lobby = ({ onCreateRoom, onJoinRoom }: LobbyProps) => {
             <div className="space-y-4">
               <Button
                 onClick={handleCreateRoom}
-                disabled={!playerName.trim()}
+                disabled={!playerName.trim() || !isSeedValid || !!rulesError}
                 className="w-full"
                 size="lg"
               >
-                Create New Room
+                {isPractice ? 'Create Practice Room' : 'Create New Room'}
               </Button>
+              {isEditingRules ? (
+                <div className="space-y-3 border border-border rounded-lg p-4">
+                  <div className="flex items-center justify-between gap-4">
+                    <Label htmlFor="match-length">Game ends</Label>
+                    <Select
+                      value={rules.roundLimit === null ? 'score' : String(rules.roundLimit)}
+                      onValueChange={(value) =>
+                        setRules(r => ({ ...r, roundLimit: value === 'score' ? null : Number(value) }))
+                      }
+                    >
+                      <SelectTrigger id="match-length" className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="score">At the winning score</SelectItem>
+                        {MATCH_LENGTHS.map(length => (
+                          <SelectItem key={length} value={String(length)}>
+                            After {length} rounds
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center justify-between gap-4">
+                    <Label htmlFor="winning-score">Winning score</Label>
+                    <Input
+                      id="winning-score"
+                      type="number"
+                      min={MIN_WINNING_SCORE}
+                      max={MAX_WINNING_SCORE}
+                      value={rules.winningScore}
+                      onChange={(e) => setRules(r => ({ ...r, winningScore: Number(e.target.value) }))}
+                      disabled={rules.roundLimit !== null}
+                      className="w-20"
+                    />
+                  </div>
+                  <div className="flex items-center justify-between gap-4">
+                    <Label htmlFor="card-pull">Card pull</Label>
+                    <Switch
+                      id="card-pull"
+                      checked={rules.cardPull}
+                      onCheckedChange={(checked) => setRules(r => ({ ...r, cardPull: checked }))}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between gap-4">
+                    <Label htmlFor="trump-lead-rule">Trump leading rule</Label>
+                    <Switch
+                      id="trump-lead-rule"
+                      checked={rules.trumpLeadRule}
+                      onCheckedChange={(checked) => setRules(r => ({ ...r, trumpLeadRule: checked }))}
+                    />
+                  </div>
+                  <div className="flex items-center justify-between gap-4">
+                    <Label>7s in the deck</Label>
+                    <div className="flex gap-1">
+                      {SUITS.map(suit => (
+                        <Button
+                          key={suit}
+                          size="sm"
+                          variant={rules.keptSevens.includes(suit) ? 'default' : 'outline'}
+                          onClick={() => toggleSeven(suit)}
+                        >
+                          7{suit}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Turn timers (seconds, 0 = no limit)</Label>
+                    <div className="grid grid-cols-4 gap-2">
+                      {TURN_STAGES.map(stage => (
+                        <div key={stage} className="space-y-1">
+                          <Label htmlFor={`timer-${stage}`} className="text-xs text-muted-foreground">
+                            {TIMER_LABELS[stage]}
+                          </Label>
+                          <Input
+                            id={`timer-${stage}`}
+                            type="number"
+                            min={0}
+                            max={MAX_TURN_SECONDS}
+                            value={turnTimers[stage]}
+                            onChange={(e) => setTurnTimers(t => ({ ...t, [stage]: Number(e.target.value) }))}
+                          />
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                  <div className="flex items-center justify-between gap-4">
+                    <Label htmlFor="disconnect-policy">If a player drops</Label>
+                    <Select
+                      value={disconnectPolicy}
+                      onValueChange={(value) => setDisconnectPolicy(value as DisconnectPolicy)}
+                    >
+                      <SelectTrigger id="disconnect-policy" className="w-44">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(DISCONNECT_POLICIES) as DisconnectPolicy[]).map(policy => (
+                          <SelectItem key={policy} value={policy}>
+                            {DISCONNECT_POLICIES[policy]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="flex items-center justify-between gap-4">
+                    <Label htmlFor="allow-spectators">Allow spectators</Label>
+                    <Switch
+                      id="allow-spectators"
+                      checked={allowSpectators}
+                      onCheckedChange={setAllowSpectators}
+                    />
+                  </div>
+                  {rulesError && <p className="text-sm text-destructive">{rulesError}</p>}
+                </div>
+              ) : (
+                <Button
+                  onClick={() => setIsEditingRules(true)}
+                  variant="ghost"
+                  className="w-full"
+                >
+                  House rules
+                </Button>
+              )}
+              <div className="space-y-2">
+                <div className="flex items-center justify-between gap-4">
+                  <Label htmlFor="practice-room">Practice room with fixed deals</Label>
+                  <Switch id="practice-room" checked={isPractice} onCheckedChange={setIsPractice} />
+                </div>
+                {isPractice && (
+                  <>
+                    <Input
+                      placeholder="Practice deal seed"
+                      value={practiceSeed}
+                      onChange={(e) => setPracticeSeed(e.target.value)}
+                      inputMode="numeric"
+                      className="font-mono"
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Anyone who knows the seed can work out every hand. Use it to practise, not for
+                      competitive games.
+                    </p>
+                  </>
+                )}
+              </div>
               <Button
                 onClick={() => setIsJoining(true)}
                 variant="secondary"
@@ -63,6 +317,27 @@ export const Lobby = ({ onCreateRoom, onJoinRoom }: LobbyProps) => {
               >
                 Join Existing Room
               </Button>
+              {isRejoining ? (
+                <div className="flex gap-2">
+                  <Input
+                    placeholder="Rejoin code"
+                    value={rejoinCode}
+                    onChange={(e) => setRejoinCode(e.target.value)}
+                    className="font-mono uppercase"
+                  />
+                  <Button onClick={handleRejoin} disabled={!rejoinCode.trim()}>
+                    Rejoin
+                  </Button>
+                </div>
+              ) : (
+                <Button
+                  onClick={() => setIsRejoining(true)}
+                  variant="ghost"
+                  className="w-full"
+                >
+                  Rejoin with a code
+                </Button>
+              )}
             </div>
           ) : (
             <div className="space-y-4">
@@ -83,6 +358,14 @@ export const Lobby = ({ onCreateRoom, onJoinRoom }: LobbyProps) => {
               >
                 Join Room
               </Button>
+              <Button
+                onClick={handleWatchRoom}
+                disabled={!roomId.trim()}
+                variant="outline"
+                className="w-full"
+              >
+                Watch as Spectator
+              </Button>
               <Button
                 onClick={() => setIsJoining(false)}
                 variant="secondary"
@@ -102,6 +385,9 @@ export const Lobby = ({ onCreateRoom, onJoinRoom }: LobbyProps) => {
               <li>• Follow suit if possible</li>
               <li>• Trump cards beat all others</li>
             </ul>
+            <Button variant="link" className="px-0 mt-2" onClick={onOpenAnalysis}>
+              Open the analysis board
+            </Button>
           </div>
         </CardContent>
       </Card>
@@ -1,5 +1,6 @@
-import { Card as CardType } from '@/lib/gameLogic';
+import { Card as CardType, LegalMove } from '@/lib/gameLogic';
 import { Card } from './Card';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import { cn } from '@/lib/utils';
 
 interface PlayerHandProps {
@@ -8,23 +9,41 @@ interface PlayerHandProps {
   canPlay?: boolean;
   className?: string;
   highlightCards?: CardType[];
+  legalMoves?: LegalMove[];       // From getLegalMoves: illegal cards are dimmed with their reason
 }
 
-export const PlayerHand = ({ cards, onCardClick, canPlay, className, highlightCards }: PlayerHandProps) => {
+export const PlayerHand = ({ cards, onCardClick, canPlay, className, highlightCards, legalMoves }: PlayerHandProps) => {
   const isHighlighted = (card: CardType) =>
     highlightCards?.some(hc => hc.suit === card.suit && hc.rank === card.rank) ?? false;
 
+  const illegalMove = (card: CardType) =>
+    legalMoves?.find(m => !m.legal && m.card.suit === card.suit && m.card.rank === card.rank);
+
   return (
     <div className={cn('flex flex-wrap gap-2 justify-center', className)}>
-      {cards.map((card, index) => (
-        <Card
-          key={`${card.rank}-${card.suit}-${index}`}
-          card={card}
-          onClick={() => onCardClick?.(card)}
-          disabled={!canPlay}
-          highlighted={isHighlighted(card)}
-        />
-      ))}
+      {cards.map((card, index) => {
+        const illegal = illegalMove(card);
+        const cardView = (
+          <Card
+            key={`${card.rank}-${card.suit}-${index}`}
+            card={card}
+            onClick={() => onCardClick?.(card)}
+            disabled={!canPlay || !!illegal}
+            highlighted={isHighlighted(card)}
+          />
+        );
+
+        if (!illegal) return cardView;
+
+        return (
+          <Tooltip key={`${card.rank}-${card.suit}-${index}`}>
+            <TooltipTrigger asChild>
+              <div>{cardView}</div>
+            </TooltipTrigger>
+            <TooltipContent>{illegal.reason}</TooltipContent>
+          </Tooltip>
+        );
+      })}
     </div>
   );
 };
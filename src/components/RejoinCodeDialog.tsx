@@ -0,0 +1,81 @@
+import { useState } from 'react';
+import { KeyRound } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger
+} from '@/components/ui/dialog';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+
+interface RejoinCodeDialogProps {
+  roomId: string;
+  playerId: string;
+}
+
+/**
+ * Shows this seat's rejoin code and link.
+ * Opening the link (or entering the code in the Lobby) on another device
+ * moves the seat there. Each code works once, so it is fetched every time
+ * the dialog opens.
+ */
+export const RejoinCodeDialog = ({ roomId, playerId }: RejoinCodeDialogProps) => {
+  const { toast } = useToast();
+  const [code, setCode] = useState<string | null>(null);
+
+  const rejoinLink = code ? `${window.location.origin}/rejoin/${code}` : '';
+
+  const handleOpenChange = async (open: boolean) => {
+    if (!open) return;
+
+    setCode(null);
+
+    const { data, error } = await supabase.rpc('get_rejoin_code', {
+      p_room_id: roomId,
+      p_player_id: playerId
+    });
+    if (error) {
+      toast({ title: error.message, variant: 'destructive' });
+      return;
+    }
+    setCode(data);
+  };
+
+  const handleCopyLink = () => {
+    navigator.clipboard.writeText(rejoinLink);
+    toast({ title: 'Rejoin link copied to clipboard' });
+  };
+
+  return (
+    <Dialog onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="icon" title="Rejoin code">
+          <KeyRound className="h-4 w-4" />
+        </Button>
+      </DialogTrigger>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Continue on another device</DialogTitle>
+          <DialogDescription>
+            Open this link or enter the code in the lobby to take your seat with you.
+            It works once. Keep it private: anyone with it can take over your seat.
+          </DialogDescription>
+        </DialogHeader>
+        {code ? (
+          <div className="space-y-4 text-center">
+            <div className="text-xl font-mono tracking-widest break-all">{code}</div>
+            <Button onClick={handleCopyLink} className="w-full">
+              Copy Rejoin Link
+            </Button>
+          </div>
+        ) : (
+          <p className="text-center text-muted-foreground">Loading...</p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -0,0 +1,83 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from './Card';
+import { ReplayRound } from '@/lib/replay';
+import { cardToString } from '@/lib/gameLogic';
+import { cn } from '@/lib/utils';
+
+interface TrickHistoryProps {
+  round: ReplayRound | null;
+  playerNames: string[];          // By position
+  myPosition: number;
+}
+
+/**
+ * The last completed trick with its winner, and an expandable list of every
+ * trick taken so far this round.
+ */
+export const TrickHistory = ({ round, playerNames, myPosition }: TrickHistoryProps) => {
+  const [expanded, setExpanded] = useState(false);
+  const lastTrick = round?.steps[round.steps.length - 1];
+
+  if (!round || !lastTrick) return null;
+
+  const nameOf = (position: number) => (position === myPosition ? 'You' : playerNames[position]);
+
+  return (
+    <div className="bg-card border border-border rounded-lg p-4 mt-8">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="font-semibold">Last Trick</h3>
+        <span className="text-sm text-muted-foreground">
+          Trick {lastTrick.trickNumber} won by {nameOf(lastTrick.winner)}
+        </span>
+      </div>
+
+      {/* Cards in play order, winner highlighted */}
+      <div className="flex gap-4 justify-center">
+        {lastTrick.cardsPlayed.map(play => (
+          <div key={play.position} className="flex flex-col items-center gap-1">
+            <Card
+              card={play.card}
+              isPlayed
+              highlighted={play.position === lastTrick.winner}
+              className="w-12 h-16 text-xs"
+            />
+            <div className="text-xs text-muted-foreground">{nameOf(play.position)}</div>
+          </div>
+        ))}
+      </div>
+
+      <Button
+        variant="ghost"
+        size="sm"
+        className="w-full mt-3"
+        onClick={() => setExpanded(e => !e)}
+      >
+        {expanded ? <ChevronUp className="h-4 w-4 mr-2" /> : <ChevronDown className="h-4 w-4 mr-2" />}
+        All tricks this round ({round.steps.length})
+      </Button>
+
+      {expanded && (
+        <ol className="mt-2 space-y-1 text-sm font-mono">
+          {round.steps.map(step => (
+            <li key={step.trickNumber} className="flex justify-between gap-4">
+              <span>
+                {step.trickNumber}.{' '}
+                {step.cardsPlayed.map(play => (
+                  <span
+                    key={play.position}
+                    className={cn('mr-2', play.position === step.winner && 'font-bold')}
+                  >
+                    {cardToString(play.card)}
+                  </span>
+                ))}
+              </span>
+              <span className="text-muted-foreground">{nameOf(step.winner)}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,6 @@
 import { Button } from '@/components/ui/button';
 import { PlayerHand } from '@/components/PlayerHand';
-import { Card, CardPullState, getValidReturnCards } from '@/lib/gameLogic';
+import { Card, CardPullState } from '@/lib/gameLogic';
 import { Player } from '@/hooks/useGameState';
 
 interface CardPullPhaseProps {
@@ -9,6 +9,9 @@ interface CardPullPhaseProps {
   hand: Card[];
   myPosition: number | null;
   trumpSuit: string | null;
+  pullTargets: number[];          // Under-scorers this seat may pull from now
+  canPull: boolean;               // This seat may pick a card from the target
+  returnableCards: Card[];        // Cards this seat may give back now
   onSelectTarget: (targetPosition: number) => void;
   onSelectCard: (cardIndex: number) => void;
   onReturnCard: (card: Card) => void;
@@ -21,6 +24,9 @@ interface CardPullPhaseProps {
  * 1. selecting_target - Over-scorer chooses which under-scorer to pull from
  * 2. selecting_card - Over-scorer selects a card position (face-down)
  * 3. returning_card - Over-scorer sees the card and chooses what to return
+ *
+ * What this seat may do in each step comes from the game machine
+ * (src/lib/gameMachine.ts), as for card play.
  */
 export function CardPullPhase({
   cardPullState,
@@ -28,17 +34,22 @@ export function CardPullPhase({
   hand,
   myPosition,
   trumpSuit,
+  pullTargets,
+  canPull,
+  returnableCards,
   onSelectTarget,
   onSelectCard,
   onReturnCard
 }: CardPullPhaseProps) {
   const currentPuller = cardPullState.pullers[cardPullState.currentPullerIndex];
-  const isMyTurn = myPosition === currentPuller?.position;
+  const isMyTurn = {
+    selecting_target: pullTargets.length > 0,
+    selecting_card: canPull,
+    returning_card: returnableCards.length > 0,
+    complete: false,
+  }[cardPullState.phase];
   const pullerName = players.find(p => p.position === currentPuller?.position)?.name || 'Unknown';
   const targetPlayer = players.find(p => p.position === cardPullState.selectedTarget);
-  const validReturnCards = cardPullState.pulledCard
-    ? getValidReturnCards(cardPullState.pulledCard, hand)
-    : [];
 
   return (
     <div className="text-center py-8 space-y-6">
@@ -64,7 +75,7 @@ export function CardPullPhase({
         <SelectingTargetUI
           isMyTurn={isMyTurn}
           pullerName={pullerName}
-          underScorers={cardPullState.underScorers}
+          targets={pullTargets}
           players={players}
           onSelectTarget={onSelectTarget}
         />
@@ -84,14 +95,14 @@ export function CardPullPhase({
       )}
 
       {/* Phase 3: Returning Card */}
-      {cardPullState.phase === 'returning_card' && cardPullState.pulledCard && (
+      {cardPullState.phase === 'returning_card' && (
         <ReturningCardUI
           isMyTurn={isMyTurn}
           pullerName={pullerName}
           targetPlayer={targetPlayer}
           pulledCard={cardPullState.pulledCard}
           hand={hand}
-          validReturnCards={validReturnCards}
+          validReturnCards={returnableCards}
           onReturnCard={onReturnCard}
         />
       )}
@@ -114,7 +125,7 @@ export function CardPullPhase({
 interface SelectingTargetUIProps {
   isMyTurn: boolean;
   pullerName: string;
-  underScorers: { position: number }[];
+  targets: number[];
   players: Player[];
   onSelectTarget: (position: number) => void;
 }
@@ -122,7 +133,7 @@ interface SelectingTargetUIProps {
 function SelectingTargetUI({
   isMyTurn,
   pullerName,
-  underScorers,
+  targets,
   players,
   onSelectTarget
 }: SelectingTargetUIProps) {
@@ -138,18 +149,18 @@ function SelectingTargetUI({
     <div className="space-y-4">
       <p className="text-lg font-medium">Select a player to pull a card from:</p>
       <div className="flex gap-4 justify-center">
-        {underScorers.map(underScorer => {
-          const player = players.find(p => p.position === underScorer.position);
+        {targets.map(target => {
+          const player = players.find(p => p.position === target);
           return (
             <Button
-              key={underScorer.position}
-              onClick={() => onSelectTarget(underScorer.position)}
+              key={target}
+              onClick={() => onSelectTarget(target)}
               variant="outline"
               className="px-6 py-8 flex flex-col gap-2"
             >
               <span className="font-semibold">{player?.name}</span>
               <span className="text-sm text-muted-foreground">
-                Position {underScorer.position + 1}
+                Position {target + 1}
               </span>
             </Button>
           );
@@ -198,7 +209,7 @@ function SelectingCardUI({
     <div className="space-y-4">
       <p className="text-lg font-medium">Select a card from {targetPlayer?.name}'s hand:</p>
       <div className="flex gap-2 justify-center flex-wrap">
-        {Array.from({ length: 10 }).map((_, index) => (
+        {Array.from({ length: targetPlayer?.hand_count ?? 10 }).map((_, index) => (
           <button
             key={index}
             onClick={() => onSelectCard(index)}
@@ -216,7 +227,7 @@ interface ReturningCardUIProps {
   isMyTurn: boolean;
   pullerName: string;
   targetPlayer: Player | undefined;
-  pulledCard: Card;
+  pulledCard: Card | null;
   hand: Card[];
   validReturnCards: Card[];
   onReturnCard: (card: Card) => void;
@@ -231,29 +242,33 @@ function ReturningCardUI({
   validReturnCards,
   onReturnCard
 }: ReturningCardUIProps) {
-  const isRed = pulledCard.suit === '♥' || pulledCard.suit === '♦';
+  const isRed = pulledCard?.suit === '♥' || pulledCard?.suit === '♦';
 
   return (
     <div className="space-y-4">
-      {/* Show the pulled card */}
+      {/* Show the pulled card (face-down for everyone except the puller) */}
       <div className="bg-card border rounded-lg p-4 max-w-md mx-auto">
         <p className="text-sm text-muted-foreground mb-2">
           Card pulled from {targetPlayer?.name}:
         </p>
         <div className="flex justify-center">
-          <div
-            className={`w-20 h-28 rounded-lg border-2 flex items-center justify-center text-3xl font-bold shadow-lg ${
-              isRed
-                ? 'bg-white text-red-600 border-red-300'
-                : 'bg-white text-gray-900 border-gray-300'
-            }`}
-          >
-            {pulledCard.rank}{pulledCard.suit}
-          </div>
+          {pulledCard ? (
+            <div
+              className={`w-20 h-28 rounded-lg border-2 flex items-center justify-center text-3xl font-bold shadow-lg ${
+                isRed
+                  ? 'bg-white text-red-600 border-red-300'
+                  : 'bg-white text-gray-900 border-gray-300'
+              }`}
+            >
+              {pulledCard.rank}{pulledCard.suit}
+            </div>
+          ) : (
+            <div className="w-20 h-28 bg-gradient-to-br from-blue-800 to-blue-950 rounded-lg border-2 border-blue-600 shadow-lg" />
+          )}
         </div>
       </div>
 
-      {isMyTurn ? (
+      {isMyTurn && pulledCard ? (
         <>
           <p className="text-lg font-medium">Select a card to return:</p>
           <p className="text-sm text-muted-foreground">
@@ -1,39 +1,168 @@
 import { useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableFooter,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { DealVerificationDialog } from '@/components/DealVerificationDialog';
 import { Player } from '@/hooks/useGameState';
+import { ScoredRound } from '@/hooks/useRoundResults';
+import { DealObservation, DealReveal } from '@/lib/fairness';
+import { RoomRules, getWinners } from '@/lib/gameLogic';
+import { cn } from '@/lib/utils';
 
 interface FinishedPhaseProps {
+  roomId: string;
   players: Player[];
+  rules: RoomRules;
+  rounds: ScoredRound[];          // round_end results, for the per-round breakdown
+  forfeitedPosition: number | null; // Seat that left under the forfeit policy
+  dealSeeds: DealReveal[];
+  observeDeal: (round: number) => DealObservation;
 }
 
 /**
  * Game over screen showing final standings.
- * Players are sorted by score (highest first) with winner highlighted.
+ * Players are sorted by score (highest first) with the winners highlighted;
+ * leaders tied on cumulative overachievement share the win. A seat that
+ * forfeited by leaving can't win.
+ * Breaks the score down round by round and lists every round's deal seed,
+ * each verifiable from its reveal.
  */
-export function FinishedPhase({ players }: FinishedPhaseProps) {
+export function FinishedPhase({
+  roomId, players, rules, rounds, forfeitedPosition, dealSeeds, observeDeal
+}: FinishedPhaseProps) {
   const navigate = useNavigate();
 
   // Sort players by score (highest first)
   const sortedPlayers = [...players].sort(
     (a, b) => (b.overachievement_score || 0) - (a.overachievement_score || 0)
   );
+  const byPosition = [...players].sort((a, b) => a.position - b.position);
+  const contenders = byPosition.filter(p => p.position !== forfeitedPosition);
+  const winners = getWinners(contenders.map(p => p.overachievement_score || 0))
+    .map(index => contenders[index].position);
+  const forfeiter = players.find(p => p.position === forfeitedPosition);
 
   return (
     <div className="text-center py-12">
-      <h2 className="text-3xl font-bold mb-4">Game Over!</h2>
+      <h2 className="text-3xl font-bold mb-2">Game Over!</h2>
+      <p className="text-sm text-muted-foreground mb-4">
+        {rules.roundLimit !== null
+          ? `Match of ${rules.roundLimit} rounds${winners.length > 1 ? ' • Shared win' : ''}`
+          : `First to +${rules.winningScore}`}
+        {forfeiter && ` • ${forfeiter.name} left the game`}
+      </p>
 
       <div className="space-y-2">
         {sortedPlayers.map((player, index) => (
           <div key={player.position} className="text-lg">
-            {index === 0 ? '🏆 ' : `${index + 1}. `}
+            {winners.includes(player.position) ? '🏆 ' : `${index + 1}. `}
             {player.name}: {player.overachievement_score || 0} points
+            {player.position === forfeitedPosition && ' (forfeited)'}
           </div>
         ))}
       </div>
 
-      <Button onClick={() => navigate('/')} className="mt-8">
-        Back to Lobby
-      </Button>
+      {rounds.length > 0 && (
+        <RoundBreakdown rounds={rounds} players={byPosition} winners={winners} />
+      )}
+
+      {dealSeeds.length > 0 && (
+        <>
+          <p className="text-xs text-muted-foreground mt-6 font-mono">
+            Deal seeds: {dealSeeds.map(d => `R${d.round} ${typeof d.seed === 'string' ? d.seed.slice(0, 8) : d.seed}`).join(' • ')}
+          </p>
+          <div className="flex flex-wrap justify-center gap-2 mt-4">
+            {dealSeeds.map(reveal => (
+              <DealVerificationDialog
+                key={reveal.round}
+                reveal={reveal}
+                observation={observeDeal(reveal.round)}
+                players={players}
+              />
+            ))}
+          </div>
+        </>
+      )}
+
+      <div className="flex justify-center gap-4 mt-8">
+        <Button variant="outline" onClick={() => navigate(`/game/${roomId}/replay`)}>
+          Watch Replay
+        </Button>
+        <Button onClick={() => navigate('/')}>
+          Back to Lobby
+        </Button>
+      </div>
+    </div>
+  );
+}
+
+// ============================================================================
+// SUB-COMPONENTS
+// ============================================================================
+
+interface RoundBreakdownProps {
+  rounds: ScoredRound[];
+  players: Player[];              // By position
+  winners: number[];
+}
+
+/** Tricks won against target and the over/under for each seat, every round */
+function RoundBreakdown({ rounds, players, winners }: RoundBreakdownProps) {
+  const diff = (value: number) => (value > 0 ? `+${value}` : `${value}`);
+
+  return (
+    <div className="max-w-2xl mx-auto mt-8">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead className="text-center">Round</TableHead>
+            {players.map(player => (
+              <TableHead key={player.position} className="text-center">
+                {player.name}
+              </TableHead>
+            ))}
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rounds.map(({ roundNumber, results }) => (
+            <TableRow key={roundNumber}>
+              <TableCell>{roundNumber}</TableCell>
+              {players.map(player => {
+                const result = results.find(r => r.position === player.position);
+                if (!result) return <TableCell key={player.position}>—</TableCell>;
+                return (
+                  <TableCell key={player.position} className="font-mono">
+                    {result.tricksWon}/{result.targetTricks}{' '}
+                    <span className="text-muted-foreground">
+                      ({diff(result.tricksWon - result.targetTricks)})
+                    </span>
+                  </TableCell>
+                );
+              })}
+            </TableRow>
+          ))}
+        </TableBody>
+        <TableFooter>
+          <TableRow>
+            <TableCell>Total</TableCell>
+            {players.map(player => (
+              <TableCell
+                key={player.position}
+                className={cn('font-mono', winners.includes(player.position) && 'font-bold')}
+              >
+                {diff(player.overachievement_score || 0)}
+              </TableCell>
+            ))}
+          </TableRow>
+        </TableFooter>
+      </Table>
     </div>
   );
 }
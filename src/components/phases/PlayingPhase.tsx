@@ -1,35 +1,52 @@
 import { GameBoard } from '@/components/GameBoard';
 import { PlayerHand } from '@/components/PlayerHand';
-import { Card } from '@/lib/gameLogic';
+import { TrickHistory } from '@/components/TrickHistory';
+import { Card, RoomRules, Suit, getLegalMoves } from '@/lib/gameLogic';
 import { Player } from '@/hooks/useGameState';
+import { ReplayRound } from '@/lib/replay';
 
 interface PlayingPhaseProps {
   currentTrick: Array<{ position: number; card: Card }>;
   players: Player[];
   currentPlayerIndex: number;
   trumpSuit: string | null;
+  trumpLedAtStart: boolean | null;
+  rules: RoomRules;
   myPosition: number;
   hand: Card[];
   myPlayerData: Player | undefined;
+  canPlay: boolean;              // From the game machine: it's our turn and a card is legal
+  pendingCard: Card | null;      // Our card on the table that the server hasn't confirmed yet
+  roundTricks: ReplayRound | null;  // Completed tricks this round, from api.tricks
+  turnSecondsLeft: number | null;   // Until the server plays for the current player
   onPlayCard: (card: Card) => void;
 }
 
 /**
  * Main gameplay phase where players take turns playing cards.
- * Displays the game board with current trick and player's hand.
+ * Displays the game board with current trick, the last completed trick and
+ * player's hand. On our turn, cards that may not be played are dimmed and
+ * explain why on hover.
  */
 export function PlayingPhase({
   currentTrick,
   players,
   currentPlayerIndex,
   trumpSuit,
+  trumpLedAtStart,
+  rules,
   myPosition,
   hand,
   myPlayerData,
+  canPlay,
+  pendingCard,
+  roundTricks,
+  turnSecondsLeft,
   onPlayCard
 }: PlayingPhaseProps) {
-  const isMyTurn = myPosition === currentPlayerIndex;
-  const canPlay = isMyTurn && currentTrick.length < 3;
+  const legalMoves = canPlay
+    ? getLegalMoves(hand, currentTrick, trumpSuit as Suit | null, 10 - hand.length, trumpLedAtStart, rules)
+    : undefined;
 
   return (
     <>
@@ -39,6 +56,8 @@ export function PlayingPhase({
         currentPlayerIndex={currentPlayerIndex}
         trump={trumpSuit}
         myPosition={myPosition}
+        turnSecondsLeft={turnSecondsLeft}
+        pendingCard={pendingCard}
       />
 
       <div className="mt-8">
@@ -50,8 +69,16 @@ export function PlayingPhase({
           cards={hand}
           onCardClick={onPlayCard}
           canPlay={canPlay}
+          highlightCards={legalMoves?.filter(m => m.legal).map(m => m.card)}
+          legalMoves={legalMoves}
         />
       </div>
+
+      <TrickHistory
+        round={roundTricks}
+        playerNames={[0, 1, 2].map(pos => players.find(p => p.position === pos)?.name ?? `Seat ${pos + 1}`)}
+        myPosition={myPosition}
+      />
     </>
   );
 }
@@ -1,21 +1,28 @@
 import { Button } from '@/components/ui/button';
+import { DealVerificationDialog } from '@/components/DealVerificationDialog';
 import { Player } from '@/hooks/useGameState';
+import { DealObservation, DealReveal } from '@/lib/fairness';
 
 interface RedistributionPhaseProps {
   players: Player[];
   roundNumber: number;
   dealerIndex: number;
+  dealReveal: DealReveal | null;   // How the finished round was dealt
+  observeDeal: (round: number) => DealObservation;
   onStartNewRound: () => void;
 }
 
 /**
  * Shown between rounds to display results and allow starting the next round.
  * Shows each player's performance (won/target) and their score change.
+ * The finished round's deal can be verified and reproduced from its reveal.
  */
 export function RedistributionPhase({
   players,
   roundNumber,
   dealerIndex,
+  dealReveal,
+  observeDeal,
   onStartNewRound
 }: RedistributionPhaseProps) {
   const nextDealer = players.find(p => p.position === dealerIndex);
@@ -51,6 +58,16 @@ export function RedistributionPhase({
         Next round: {nextDealer?.name} will be dealer (2 tricks)
       </p>
 
+      {dealReveal && (
+        <div className="mb-4">
+          <DealVerificationDialog
+            reveal={dealReveal}
+            observation={observeDeal(dealReveal.round)}
+            players={players}
+          />
+        </div>
+      )}
+
       <Button onClick={onStartNewRound} size="lg">
         Start Round {roundNumber}
       </Button>
@@ -0,0 +1,75 @@
+import { GameBoard } from '@/components/GameBoard';
+import { TrickHistory } from '@/components/TrickHistory';
+import { Card, CardPullState } from '@/lib/gameLogic';
+import { GameState, Player } from '@/hooks/useGameState';
+import { ReplayRound } from '@/lib/replay';
+
+interface SpectatorPhaseProps {
+  gameState: GameState;
+  players: Player[];
+  currentTrick: Array<{ position: number; card: Card }>;
+  roundTricks: ReplayRound | null;  // Completed tricks this round, from api.tricks
+  turnSecondsLeft: number | null;
+}
+
+/**
+ * Read-only view of the table for someone who isn't seated: what the game
+ * is waiting for, the board and this round's tricks. No hand is shown;
+ * spectators only ever receive the public rows.
+ */
+export function SpectatorPhase({
+  gameState,
+  players,
+  currentTrick,
+  roundTricks,
+  turnSecondsLeft
+}: SpectatorPhaseProps) {
+  const nameAt = (position: number) =>
+    players.find(p => p.position === position)?.name ?? `Seat ${position + 1}`;
+  const cardPullState = gameState.card_pull_state as CardPullState | null;
+
+  let caption: string;
+  if (gameState.status === 'waiting') {
+    caption = `Waiting for players... (${players.length}/3)`;
+  } else if (gameState.status === 'redistribution') {
+    caption = `Round ${gameState.round_number - 1} complete`;
+  } else if (gameState.dealing_phase === 'trump_selection') {
+    caption = `${nameAt((gameState.dealer_index + 1) % 3)} is choosing trump`;
+  } else if (gameState.dealing_phase === 'dealing_3') {
+    caption = `${nameAt(gameState.dealer_index)} is dealing the final cards`;
+  } else if (gameState.dealing_phase === 'card_pull' && cardPullState) {
+    caption = `${nameAt(cardPullState.pullers[cardPullState.currentPullerIndex].position)} is pulling a card`;
+  } else {
+    caption = `${nameAt(gameState.current_player_index)} to play`;
+  }
+
+  return (
+    <>
+      <p className="text-center text-sm text-muted-foreground">
+        You are watching • {caption}
+      </p>
+
+      {gameState.status !== 'waiting' && (
+        <GameBoard
+          currentTrick={currentTrick}
+          players={players.map(p => ({
+            name: p.name,
+            position: p.position,
+            tricksWon: p.tricks_won,
+            targetTricks: p.target_tricks,
+          }))}
+          currentPlayerIndex={gameState.current_player_index}
+          trump={gameState.trump_suit}
+          myPosition={-1}
+          turnSecondsLeft={gameState.status === 'playing' ? turnSecondsLeft : null}
+        />
+      )}
+
+      <TrickHistory
+        round={roundTricks}
+        playerNames={[0, 1, 2].map(nameAt)}
+        myPosition={-1}
+      />
+    </>
+  );
+}
@@ -1,16 +1,31 @@
+import { useState } from 'react';
+import { X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Player } from '@/hooks/useGameState';
+import { BotDifficulty, BOT_DIFFICULTIES } from '@/lib/bots';
 
 interface WaitingPhaseProps {
   players: Player[];
+  isHost: boolean;
   onStartGame: () => void;
+  onAddBot: (difficulty: BotDifficulty) => void;
+  onRemoveBot: (playerId: string) => void;
 }
 
 /**
  * Shown while waiting for 3 players to join.
  * Displays player count and Start Game button when ready.
+ * The room creator can fill empty seats with bots.
  */
-export function WaitingPhase({ players, onStartGame }: WaitingPhaseProps) {
+export function WaitingPhase({
+  players,
+  isHost,
+  onStartGame,
+  onAddBot,
+  onRemoveBot
+}: WaitingPhaseProps) {
+  const [difficulty, setDifficulty] = useState<BotDifficulty>('medium');
   const canStart = players.length === 3;
 
   return (
@@ -18,6 +33,44 @@ export function WaitingPhase({ players, onStartGame }: WaitingPhaseProps) {
       <p className="text-lg mb-4">
         Waiting for players... ({players.length}/3)
       </p>
+
+      {/* Bot seats */}
+      {isHost && players.some(p => p.is_bot) && (
+        <div className="flex gap-2 justify-center flex-wrap mb-4">
+          {players.filter(p => p.is_bot).map(bot => (
+            <span
+              key={bot.id}
+              className="inline-flex items-center gap-1 bg-secondary px-3 py-1 rounded-full text-sm"
+            >
+              {bot.name}
+              <button onClick={() => onRemoveBot(bot.id)} title="Remove bot">
+                <X className="h-3 w-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {isHost && !canStart && (
+        <div className="flex gap-4 justify-center mb-4">
+          <Select value={difficulty} onValueChange={(v) => setDifficulty(v as BotDifficulty)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {BOT_DIFFICULTIES.map(d => (
+                <SelectItem key={d} value={d} className="capitalize">
+                  {d}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="secondary" onClick={() => onAddBot(difficulty)}>
+            Add Bot
+          </Button>
+        </div>
+      )}
+
       {canStart && (
         <Button onClick={onStartGame} size="lg">
           Start Game
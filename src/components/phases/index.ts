@@ -5,3 +5,4 @@ export { CardPullPhase } from './CardPullPhase';
 export { PlayingPhase } from './PlayingPhase';
 export { RedistributionPhase } from './RedistributionPhase';
 export { FinishedPhase } from './FinishedPhase';
+export { SpectatorPhase } from './SpectatorPhase';
@@ -0,0 +1,64 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { getSessionUserId } from '@/lib/session';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A seat held by this browser's session in a game that has not finished */
+export interface ActiveGame {
+  roomId: string;
+  playerName: string;
+  status: string;
+  roundNumber: number;
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+/**
+ * Lists the unfinished games this session is seated in.
+ * Used by the Lobby to offer resuming a game after closing the tab.
+ */
+export function useActiveGames(): ActiveGame[] {
+  const [activeGames, setActiveGames] = useState<ActiveGame[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const load = async () => {
+      // Don't create a session just to look: no session means no seats
+      const userId = await getSessionUserId();
+      if (!userId) return;
+
+      const { data } = await supabase
+        .from('players')
+        .select('room_id, name, rooms(status, round_number)')
+        .eq('user_id', userId)
+        .order('joined_at', { ascending: false });
+
+      if (cancelled || !data) return;
+
+      setActiveGames(
+        data
+          .filter(p => p.room_id && p.rooms && p.rooms.status !== 'finished')
+          .map(p => ({
+            roomId: p.room_id!,
+            playerName: p.name,
+            status: p.rooms!.status || 'waiting',
+            roundNumber: p.rooms!.round_number || 1
+          }))
+      );
+    };
+
+    load();
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return activeGames;
+}
@@ -0,0 +1,105 @@
+import { useEffect, useRef } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useToast } from '@/hooks/use-toast';
+import { CardPullState, getFiveTrickPlayerPosition } from '@/lib/gameLogic';
+import { GameState, Player } from './useGameState';
+
+/** Pause before a bot acts, so humans can follow what happened */
+const BOT_DELAY_MS = 800;
+
+/** Pause before asking again after the server refused a bot move */
+const BOT_RETRY_MS = 2000;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Position that must act next, or null when nobody is waited on */
+function actingPosition(gameState: GameState): number | null {
+  if (gameState.dealing_phase === 'trump_selection') {
+    return getFiveTrickPlayerPosition(gameState.dealer_index);
+  }
+
+  if (gameState.dealing_phase === 'dealing_3') {
+    return gameState.dealer_index;
+  }
+
+  if (gameState.dealing_phase === 'card_pull') {
+    const cardPullState = gameState.card_pull_state as CardPullState | null;
+    return cardPullState?.pullers[cardPullState.currentPullerIndex]?.position ?? null;
+  }
+
+  if (gameState.status === 'playing' && gameState.current_trick.length < 3) {
+    return gameState.current_player_index;
+  }
+
+  return null;
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+/**
+ * Asks the server to move for the bot and stand-in seats in this room.
+ *
+ * Bots move on the server (supabase/migrations/20260124000001_server_bots.sql)
+ * and no browser ever sees their hands. Every seated player's browser asks
+ * for the awaited bot move once the table has been on show for a moment;
+ * the server makes it for the first request at that room version and
+ * ignores the rest. A pg_cron sweep covers tables nobody is watching.
+ */
+export function useBotDriver(
+  roomId: string | undefined,
+  gameState: GameState | null,
+  players: Player[],
+  isSeated: boolean
+): void {
+  const { toast } = useToast();
+  // Room version this browser last asked for a bot move at
+  const handledTurnRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    if (!roomId || !gameState || !isSeated) return;
+
+    const position = actingPosition(gameState);
+    const bot = players.find(p => p.position === position && (p.is_bot || p.bot_stand_in));
+    if (!bot) return;
+
+    // Any change to the room gets its own request: the server only moves
+    // at the version it was asked at
+    if (handledTurnRef.current === gameState.version) return;
+    handledTurnRef.current = gameState.version;
+
+    let fired = false;
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout>;
+
+    const act = async (attempt: number) => {
+      fired = true;
+      handledTurnRef.current = gameState.version;
+
+      const { error } = await supabase.rpc('play_bot_turn', {
+        p_room_id: roomId,
+        p_expected_version: gameState.version
+      });
+      if (!error || cancelled) return;
+
+      // Untimed tables would wait forever: ask again until the room moves on
+      if (attempt === 0) {
+        toast({ title: `${bot.name}: ${error.message}`, variant: 'destructive' });
+      }
+      handledTurnRef.current = null;
+      timer = setTimeout(() => act(attempt + 1), BOT_RETRY_MS);
+    };
+
+    timer = setTimeout(() => act(0), BOT_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+      // State refreshed before the bot acted: let the next render retry this turn
+      if (!fired) handledTurnRef.current = null;
+    };
+  }, [roomId, gameState, players, isSeated, toast]);
+}
@@ -0,0 +1,91 @@
+import { useEffect, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card } from '@/lib/gameLogic';
+import { DealObservation, createEntropy } from '@/lib/fairness';
+import { GameState } from './useGameState';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Per-round records live in localStorage so a refresh can still verify */
+function storageKey(roomId: string, round: number, field: string): string {
+  return `fairness:${roomId}:${round}:${field}`;
+}
+
+function load<T>(roomId: string, round: number, field: string): T | null {
+  const value = localStorage.getItem(storageKey(roomId, round, field));
+  return value ? JSON.parse(value) as T : null;
+}
+
+function save(roomId: string, round: number, field: string, value: unknown) {
+  localStorage.setItem(storageKey(roomId, round, field), JSON.stringify(value));
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+/**
+ * This seat's part of commit-reveal dealing (src/lib/fairness.ts).
+ *
+ * - Before each deal, submits fresh entropy via api.submit_entropy and
+ *   records the server's secret commitment it was sent against
+ * - During the round, records the published commitment and the first five
+ *   cards, so the reveal can be checked against what was actually seen
+ *
+ * Returns what was recorded for a round, for verifyDeal.
+ */
+export function useDealFairness(
+  roomId: string | undefined,
+  gameState: GameState | null,
+  myPosition: number | null,
+  myPlayerId: string | null,
+  hand: Card[]
+): (round: number) => DealObservation {
+  const status = gameState?.status;
+  const round = gameState?.round_number;
+  const commitment = gameState?.deal_commitment ?? null;
+  const secretCommitment = gameState?.secret_commitment ?? null;
+  const dealingPhase = gameState?.dealing_phase;
+
+  // ----------------------------------------
+  // Contribute entropy before the deal
+  // ----------------------------------------
+  useEffect(() => {
+    if (!roomId || !myPlayerId || !round) return;
+    if (status !== 'waiting' && status !== 'redistribution') return;
+    if (load(roomId, round, 'entropy')) return;
+
+    const entropy = createEntropy();
+    supabase
+      .rpc('submit_entropy', { p_room_id: roomId, p_player_id: myPlayerId, p_entropy: entropy })
+      .then(({ error }) => {
+        if (error) return;
+        save(roomId, round, 'entropy', entropy);
+        save(roomId, round, 'secretCommitment', secretCommitment);
+      });
+  }, [roomId, myPlayerId, round, status, secretCommitment]);
+
+  // ----------------------------------------
+  // Record what the deal looked like
+  // ----------------------------------------
+  useEffect(() => {
+    if (!roomId || !round || status !== 'dealing') return;
+
+    if (commitment && !load(roomId, round, 'commitment')) {
+      save(roomId, round, 'commitment', commitment);
+    }
+    if (dealingPhase === 'trump_selection' && hand.length === 5 && !load(roomId, round, 'firstFive')) {
+      save(roomId, round, 'firstFive', hand);
+    }
+  }, [roomId, round, status, commitment, dealingPhase, hand]);
+
+  return useCallback((observedRound: number): DealObservation => ({
+    position: myPosition,
+    entropy: roomId ? load<string>(roomId, observedRound, 'entropy') : null,
+    secretCommitment: roomId ? load<string>(roomId, observedRound, 'secretCommitment') : null,
+    commitment: roomId ? load<string>(roomId, observedRound, 'commitment') : null,
+    firstFive: roomId ? load<Card[]>(roomId, observedRound, 'firstFive') : null,
+  }), [roomId, myPosition]);
+}
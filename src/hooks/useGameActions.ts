@@ -1,28 +1,22 @@
 import { useState, useCallback } from 'react';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
 import { useToast } from '@/hooks/use-toast';
-import {
-  Card,
-  Suit,
-  shuffle,
-  createDeck,
-  evaluateTrick,
-  isValidMove,
-  getTargetTricks,
-  getFiveTrickPlayerPosition,
-  PreviousRoundResult,
-  CardPullState,
-  calculatePullEligibility,
-  initializeCardPullState,
-  canReturnCard,
-} from '@/lib/gameLogic';
+import { Card, Suit, CardPullState } from '@/lib/gameLogic';
+import { EngineState, GameAction, TrickPlay, applyAction, createInitialState } from '@/lib/gameEngine';
+import { BotDifficulty } from '@/lib/bots';
 import { GameState, Player } from './useGameState';
+import { UseOptimisticPlayReturn } from './useOptimisticPlay';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
 export interface UseGameActionsReturn {
+  // Waiting phase actions (room creator only)
+  addBot: (difficulty: BotDifficulty) => Promise<void>;
+  removeBot: (playerId: string) => Promise<void>;
+
   // Dealing phase actions
   startGame: () => Promise<void>;
   selectTrump: (trump: Suit) => Promise<void>;
@@ -45,6 +39,46 @@ export interface UseGameActionsReturn {
   setSelectedTrump: (trump: Suit | null) => void;
 }
 
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/**
+ * The room as this seat sees it, as a game engine state, so its actions are
+ * checked by the same reducer as bot searches and the analysis board. Other
+ * seats' hands are private and left empty: none of this seat's own actions
+ * depend on them, except which position to pull, which the server checks.
+ */
+function seatEngineState(
+  gameState: GameState,
+  players: Player[],
+  hand: Card[],
+  myPosition: number,
+  currentTrick: TrickPlay[]
+): EngineState {
+  const seatAt = (position: number) => players.find(p => p.position === position);
+
+  return {
+    ...createInitialState(gameState.dealer_index, gameState.rules),
+    status: gameState.status,
+    dealingPhase: gameState.dealing_phase,
+    roundNumber: gameState.round_number,
+    currentPlayerIndex: gameState.current_player_index,
+    firstTrickLeader: gameState.first_trick_leader,
+    trumpSuit: gameState.trump_suit as Suit | null,
+    trumpLedAtStart: gameState.trump_led_at_start,
+    currentTrick,
+    previousRoundResults: gameState.previous_round_results,
+    cardPullState: gameState.card_pull_state as CardPullState | null,
+    seats: [0, 1, 2].map(position => ({
+      hand: position === myPosition ? hand : [],
+      tricksWon: seatAt(position)?.tricks_won ?? 0,
+      targetTricks: seatAt(position)?.target_tricks ?? 0,
+      overachievementScore: seatAt(position)?.overachievement_score ?? 0,
+    })),
+  };
+}
+
 // ============================================================================
 // HOOK
 // ============================================================================
@@ -53,9 +87,18 @@ export interface UseGameActionsReturn {
  * Provides all game mutation actions.
  *
  * Each action:
- * - Validates the action is allowed
- * - Updates Supabase (room and/or players)
- * - Shows toast on errors
+ * - Checks the move with the game engine (applyAction in src/lib/gameEngine.ts)
+ *   for instant feedback, with the engine's error message
+ * - Calls the matching server RPC (api.start_game, api.play_card, ...), which
+ *   re-validates turn order and rules and commits everything in one transaction
+ * - Shows toast on errors, including rule violations rejected by the server
+ * - Card plays go through the optimistic layer (useOptimisticPlay), so the
+ *   card is on the table before the server answers
+ *
+ * Phase transitions (start game, trump, final deal, next round) send the room
+ * version they were made from. Only the first request commits; a later one
+ * gets 'already_done' back and is a quiet no-op, since the new phase arrives
+ * over realtime like any other update.
  *
  * Actions are grouped by game phase for clarity.
  */
@@ -65,13 +108,64 @@ export function useGameActions(
   players: Player[],
   hand: Card[],
   myPosition: number | null,
-  setHand: (hand: Card[]) => void,
+  submitPlay: UseOptimisticPlayReturn['submitPlay'],
   currentTrick: Array<{ position: number; card: Card }>
 ): UseGameActionsReturn {
   const { toast } = useToast();
   const [isDealing, setIsDealing] = useState(false);
   const [selectedTrump, setSelectedTrump] = useState<Suit | null>(null);
 
+  const myPlayerId = players.find(p => p.position === myPosition)?.id ?? null;
+
+  /** Checks one of this seat's actions with the engine. Toasts why it is refused. */
+  const checkAction = useCallback((action: GameAction) => {
+    if (!gameState || myPosition === null) return false;
+
+    const result = applyAction(seatEngineState(gameState, players, hand, myPosition, currentTrick), action);
+    if ('error' in result) {
+      toast({ title: result.error.message, variant: 'destructive' });
+      return false;
+    }
+    return true;
+  }, [gameState, players, hand, myPosition, currentTrick, toast]);
+
+  /** Shows a server-side rejection as a toast. Returns true if there was one. */
+  const reportError = useCallback((error: { message: string } | null) => {
+    if (!error) return false;
+    toast({ title: error.message, variant: 'destructive' });
+    return true;
+  }, [toast]);
+
+  // ==========================================================================
+  // WAITING PHASE ACTIONS
+  // ==========================================================================
+
+  /**
+   * Seats a computer opponent in the next free position.
+   */
+  const addBot = useCallback(async (difficulty: BotDifficulty) => {
+    if (!roomId) return;
+
+    const { error } = await supabase.rpc('add_bot', {
+      p_room_id: roomId,
+      p_difficulty: difficulty
+    });
+    reportError(error);
+  }, [roomId, reportError]);
+
+  /**
+   * Frees a bot's seat before the game starts.
+   */
+  const removeBot = useCallback(async (playerId: string) => {
+    if (!roomId) return;
+
+    const { error } = await supabase.rpc('remove_bot', {
+      p_room_id: roomId,
+      p_player_id: playerId
+    });
+    reportError(error);
+  }, [roomId, reportError]);
+
   // ==========================================================================
   // DEALING PHASE ACTIONS
   // ==========================================================================
@@ -81,7 +175,7 @@ export function useGameActions(
    * Can only be called when status is 'waiting' and 3 players are present.
    */
   const startGame = useCallback(async () => {
-    if (!gameState || !roomId) return;
+    if (!gameState || !roomId || !myPlayerId) return;
 
     // Guard: can only start from waiting
     if (gameState.status !== 'waiting') return;
@@ -91,170 +185,55 @@ export function useGameActions(
       return;
     }
 
-    // Create and shuffle deck
-    const deck = shuffle(createDeck());
-
-    // Deal first 5 cards to each player (15 total)
-    const firstFiveHands: Card[][] = [[], [], []];
-    for (let i = 0; i < 5; i++) {
-      for (let player = 0; player < 3; player++) {
-        firstFiveHands[player].push(deck[i * 3 + player]);
-      }
-    }
-
-    // Store remaining 15 cards for later dealing phases
-    const remainingCards = deck.slice(15);
-
-    // Update room first (acts as lock to prevent race conditions)
-    await supabase
-      .from('rooms')
-      .update({
-        dealing_phase: 'trump_selection',
-        status: 'dealing',
-        remaining_cards: remainingCards as any
-      })
-      .eq('id', roomId);
-
-    // Update each player's hand and target
-    for (let i = 0; i < 3; i++) {
-      await supabase
-        .from('players')
-        .update({
-          hand: firstFiveHands[i] as any,
-          target_tricks: getTargetTricks(i, gameState.dealer_index),
-          tricks_won: 0
-        })
-        .eq('room_id', roomId)
-        .eq('position', i);
-    }
-  }, [gameState, roomId, players, toast]);
+    const { error } = await supabase.rpc('start_game', {
+      p_room_id: roomId,
+      p_player_id: myPlayerId,
+      p_expected_version: gameState.version
+    });
+    reportError(error);
+  }, [gameState, roomId, myPlayerId, players, toast, reportError]);
 
   /**
    * 5-trick player selects trump suit and deals 3 more cards.
    */
   const selectTrump = useCallback(async (trump: Suit) => {
-    if (!gameState || !roomId) return;
+    if (!gameState || !roomId || myPosition === null || !myPlayerId) return;
 
     // Guard: can only select trump during trump_selection phase
     if (gameState.dealing_phase !== 'trump_selection') return;
+    if (!checkAction({ type: 'SELECT_TRUMP', position: myPosition, trump })) return;
 
-    const remainingCards = (gameState.remaining_cards || []) as unknown as Card[];
-
-    if (remainingCards.length !== 15) {
-      toast({ title: 'Error: Invalid remaining cards', variant: 'destructive' });
-      return;
-    }
-
-    // Add 3 more cards to each player's hand
-    const hands: Card[][] = players.map(p => [...(p.hand as unknown as Card[])]);
-    for (let i = 0; i < 3; i++) {
-      for (let player = 0; player < 3; player++) {
-        hands[player].push(remainingCards[i * 3 + player]);
-      }
-    }
-
-    // Store remaining 6 cards for final deal
-    const finalCards = remainingCards.slice(9);
-
-    // Update room first
-    await supabase
-      .from('rooms')
-      .update({
-        trump_suit: trump,
-        dealing_phase: 'dealing_3',
-        remaining_cards: finalCards as any
-      })
-      .eq('id', roomId);
-
-    // Update players
-    for (let i = 0; i < 3; i++) {
-      await supabase
-        .from('players')
-        .update({ hand: hands[i] as any })
-        .eq('room_id', roomId)
-        .eq('position', i);
-    }
-  }, [gameState, roomId, players, toast]);
+    const { error } = await supabase.rpc('select_trump', {
+      p_room_id: roomId,
+      p_player_id: myPlayerId,
+      p_trump: trump,
+      p_expected_version: gameState.version
+    });
+    reportError(error);
+  }, [gameState, roomId, myPosition, myPlayerId, checkAction, reportError]);
 
   /**
    * Dealer deals final 2 cards to each player.
-   * May also trigger card pull phase if applicable.
+   * May also trigger card pull phase if applicable (decided by the server).
    */
   const dealFinalCards = useCallback(async () => {
-    if (!gameState || !roomId) return;
+    if (!gameState || !roomId || myPosition === null || !myPlayerId) return;
 
     // Guard: prevent double-dealing
     if (gameState.dealing_phase !== 'dealing_3' || isDealing) return;
+    if (!checkAction({ type: 'DEAL_FINAL', position: myPosition })) return;
 
     setIsDealing(true);
 
-    const remainingCards = (gameState.remaining_cards || []) as unknown as Card[];
+    const { error } = await supabase.rpc('deal_final', {
+      p_room_id: roomId,
+      p_player_id: myPlayerId,
+      p_expected_version: gameState.version
+    });
 
-    if (remainingCards.length !== 6) {
-      toast({ title: 'Error: Invalid remaining cards', variant: 'destructive' });
-      setIsDealing(false);
-      return;
-    }
-
-    // Add final 2 cards to each player
-    const hands: Card[][] = players.map(p => [...(p.hand as unknown as Card[])]);
-    for (let i = 0; i < 2; i++) {
-      for (let player = 0; player < 3; player++) {
-        hands[player].push(remainingCards[i * 3 + player]);
-      }
-    }
-
-    // 5-trick player leads first trick
-    const firstTrickLeader = getFiveTrickPlayerPosition(gameState.dealer_index);
-
-    // Check if card pull phase should happen (round > 1 with over/under-scorers)
-    const previousResults = gameState.previous_round_results as PreviousRoundResult[] | null;
-    const shouldDoCardPull = gameState.round_number > 1 && previousResults && previousResults.length > 0;
-
-    let cardPullState: CardPullState | null = null;
-    let nextPhase = 'playing';
-    let nextStatus = 'playing';
-
-    if (shouldDoCardPull) {
-      const { overScorers, underScorers } = calculatePullEligibility(previousResults, gameState.dealer_index);
-
-      // Only do card pull if there are both over-scorers AND under-scorers
-      if (overScorers.length > 0 && underScorers.length > 0) {
-        cardPullState = initializeCardPullState(overScorers, underScorers);
-        nextPhase = 'card_pull';
-        nextStatus = 'dealing';
-      }
-    }
-
-    // Update room
-    const { error: roomError } = await supabase
-      .from('rooms')
-      .update({
-        status: nextStatus,
-        dealing_phase: nextPhase,
-        current_player_index: firstTrickLeader,
-        first_trick_leader: firstTrickLeader,
-        remaining_cards: null,
-        trump_led_at_start: null,
-        card_pull_state: cardPullState as any
-      })
-      .eq('id', roomId);
-
-    if (roomError) {
-      toast({ title: `Error: ${roomError.message}`, variant: 'destructive' });
-      setIsDealing(false);
-      return;
-    }
-
-    // Update players
-    for (let i = 0; i < 3; i++) {
-      await supabase
-        .from('players')
-        .update({ hand: hands[i] as any })
-        .eq('room_id', roomId)
-        .eq('position', i);
-    }
-  }, [gameState, roomId, players, isDealing, toast]);
+    setIsDealing(false);
+    reportError(error);
+  }, [gameState, roomId, myPosition, myPlayerId, isDealing, checkAction, reportError]);
 
   // ==========================================================================
   // PLAYING PHASE ACTIONS
@@ -262,184 +241,22 @@ export function useGameActions(
 
   /**
    * Plays a card in the current trick.
-   * Validates the move, updates state, and handles trick completion.
+   * The server evaluates completed tricks, records them and ends the round.
    */
   const playCard = useCallback(async (card: Card) => {
-    if (!gameState || !roomId || myPosition === null) return;
-
-    // Guard: must be your turn
-    if (myPosition !== gameState.current_player_index) {
-      toast({ title: 'Not your turn', variant: 'destructive' });
-      return;
-    }
+    if (!gameState || !roomId || myPosition === null || !myPlayerId) return;
 
-    // Guard: wait for previous trick to clear
-    if (currentTrick.length >= 3) {
-      toast({ title: 'Wait for the trick to clear', variant: 'destructive' });
-      return;
-    }
-
-    // Validate the move
-    const trickIndex = 10 - hand.length;
-    const moveValidation = isValidMove(
-      card,
-      hand,
-      currentTrick,
-      gameState.trump_suit as Suit | null,
-      trickIndex,
-      gameState.trump_led_at_start
-    );
-
-    if (!moveValidation.valid) {
-      toast({ title: moveValidation.reason || 'Invalid move', variant: 'destructive' });
-      return;
-    }
-
-    // Update local state immediately
-    const newTrick = [...currentTrick, { position: myPosition, card }];
-    const newHand = hand.filter(c => !(c.suit === card.suit && c.rank === card.rank));
-    setHand(newHand);
-
-    // Handle trick completion (3 cards played)
-    if (newTrick.length === 3) {
-      const winnerPosition = evaluateTrick(newTrick, gameState.trump_suit as Suit | null);
-      const winner = players[winnerPosition];
-
-      // Update player's hand
-      await supabase
-        .from('players')
-        .update({ hand: newHand as any })
-        .eq('room_id', roomId)
-        .eq('position', myPosition);
-
-      // Update winner's trick count
-      await supabase
-        .from('players')
-        .update({ tricks_won: winner.tricks_won + 1 })
-        .eq('room_id', roomId)
-        .eq('position', winnerPosition);
-
-      // Save trick to history
-      await supabase.from('tricks').insert({
-        room_id: roomId,
-        round_number: gameState.round_number,
-        trick_number: 10 - newHand.length,
-        cards_played: newTrick as any,
-        winner_position: winnerPosition,
-      });
-
-      // Update room
-      await supabase
-        .from('rooms')
-        .update({
-          current_trick: newTrick as any,
-          current_player_index: winnerPosition
-        })
-        .eq('id', roomId);
-
-      // Check if round is over
-      if (newHand.length === 0) {
-        setTimeout(async () => {
-          await supabase
-            .from('rooms')
-            .update({ current_trick: [] as any })
-            .eq('id', roomId);
-        }, 2000);
-        await handleRoundEnd();
-      } else {
-        // Clear trick after delay
-        setTimeout(async () => {
-          await supabase
-            .from('rooms')
-            .update({ current_trick: [] as any })
-            .eq('id', roomId);
-        }, 2000);
-      }
-    } else {
-      // Trick not complete - update and move to next player
-      const isFirstCardOfFirstTrick = trickIndex === 0 && currentTrick.length === 0;
-      const roomUpdate: any = {
-        current_trick: newTrick as any,
-        current_player_index: (gameState.current_player_index + 1) % 3
-      };
-
-      // Track if trump was led on first trick
-      if (isFirstCardOfFirstTrick) {
-        roomUpdate.trump_led_at_start = card.suit === gameState.trump_suit;
-      }
-
-      await supabase
-        .from('players')
-        .update({ hand: newHand as any })
-        .eq('room_id', roomId)
-        .eq('position', myPosition);
-
-      await supabase
-        .from('rooms')
-        .update(roomUpdate)
-        .eq('id', roomId);
-    }
-  }, [gameState, roomId, myPosition, hand, currentTrick, players, toast, setHand]);
+    // Turn, a trick still on the table, and the card itself
+    if (!checkAction({ type: 'PLAY_CARD', position: myPosition, card })) return;
 
-  /**
-   * Handles end of round: calculates scores, checks for winner, prepares next round.
-   */
-  const handleRoundEnd = async () => {
-    if (!gameState || !roomId) return;
-
-    // Calculate overachievement for each player
-    const updatedPlayers = players.map(p => ({
-      ...p,
-      overachievement: p.tricks_won - p.target_tricks,
-      overachievement_score: (p.overachievement_score || 0) + (p.tricks_won - p.target_tricks)
+    // Shown as played right away; rolled back with a toast if rejected. The
+    // server clears a finished trick after its pause.
+    await submitPlay(card, () => supabase.rpc('play_card', {
+      p_room_id: roomId,
+      p_player_id: myPlayerId,
+      p_card: card as unknown as Json
     }));
-
-    // Check for winner (score >= 5)
-    const winner = updatedPlayers.find(p => p.overachievement_score >= 5);
-
-    if (winner) {
-      toast({
-        title: `${winner.name} wins the game!`,
-        description: `Overachievement score: ${winner.overachievement_score}`
-      });
-      await supabase
-        .from('rooms')
-        .update({ status: 'finished', dealing_phase: 'finished' })
-        .eq('id', roomId);
-      return;
-    }
-
-    // Save results for card pull calculation
-    const previousRoundResults: PreviousRoundResult[] = players.map(p => ({
-      position: p.position,
-      tricksWon: p.tricks_won,
-      targetTricks: p.target_tricks
-    }));
-
-    // Rotate dealer: 5-trick player becomes new dealer
-    const newDealerIndex = (gameState.dealer_index + 1) % 3;
-
-    // Update player scores
-    for (const player of updatedPlayers) {
-      await supabase
-        .from('players')
-        .update({ overachievement_score: player.overachievement_score })
-        .eq('room_id', roomId)
-        .eq('position', player.position);
-    }
-
-    // Update room for redistribution phase
-    await supabase
-      .from('rooms')
-      .update({
-        dealer_index: newDealerIndex,
-        round_number: gameState.round_number + 1,
-        dealing_phase: 'redistribution',
-        status: 'redistribution',
-        previous_round_results: previousRoundResults as any
-      })
-      .eq('id', roomId);
-  };
+  }, [gameState, roomId, myPosition, myPlayerId, checkAction, submitPlay]);
 
   // ==========================================================================
   // CARD PULL ACTIONS
@@ -449,203 +266,61 @@ export function useGameActions(
    * Selects which under-scorer to pull a card from.
    */
   const selectPullTarget = useCallback(async (targetPosition: number) => {
-    if (!gameState || !roomId || myPosition === null) return;
-
-    const cardPullState = gameState.card_pull_state as CardPullState | null;
-    if (!cardPullState || cardPullState.phase !== 'selecting_target') {
-      toast({ title: 'Invalid action', variant: 'destructive' });
-      return;
-    }
-
-    // Verify it's this player's turn to pull
-    const currentPuller = cardPullState.pullers[cardPullState.currentPullerIndex];
-    if (myPosition !== currentPuller.position) {
-      toast({ title: 'Not your turn to pull', variant: 'destructive' });
-      return;
-    }
-
-    // Verify target is an under-scorer
-    const isValidTarget = cardPullState.underScorers.some(u => u.position === targetPosition);
-    if (!isValidTarget) {
-      toast({ title: 'Invalid target', variant: 'destructive' });
-      return;
-    }
+    if (!gameState || !roomId || myPosition === null || !myPlayerId) return;
 
-    // Move to selecting_card phase
-    const newState: CardPullState = {
-      ...cardPullState,
-      phase: 'selecting_card',
-      selectedTarget: targetPosition
-    };
+    if (!checkAction({ type: 'SELECT_PULL_TARGET', position: myPosition, target: targetPosition })) return;
 
-    await supabase
-      .from('rooms')
-      .update({ card_pull_state: newState as any })
-      .eq('id', roomId);
-  }, [gameState, roomId, myPosition, toast]);
+    const { error } = await supabase.rpc('select_pull_target', {
+      p_room_id: roomId,
+      p_player_id: myPlayerId,
+      p_target_position: targetPosition
+    });
+    reportError(error);
+  }, [gameState, roomId, myPosition, myPlayerId, checkAction, reportError]);
 
   /**
    * Selects which card position to pull from target's hand.
    */
   const selectCardPosition = useCallback(async (cardIndex: number) => {
-    if (!gameState || !roomId || myPosition === null) return;
+    if (!gameState || !roomId || myPosition === null || !myPlayerId) return;
 
+    // Checked here rather than by the engine: the target's hand is private
     const cardPullState = gameState.card_pull_state as CardPullState | null;
     if (!cardPullState || cardPullState.phase !== 'selecting_card' || cardPullState.selectedTarget === null) {
       toast({ title: 'Invalid action', variant: 'destructive' });
       return;
     }
 
-    const currentPuller = cardPullState.pullers[cardPullState.currentPullerIndex];
-    if (myPosition !== currentPuller.position) {
-      toast({ title: 'Not your turn to pull', variant: 'destructive' });
-      return;
-    }
-
-    // Get target's hand
-    const targetPlayer = players.find(p => p.position === cardPullState.selectedTarget);
-    if (!targetPlayer) {
-      toast({ title: 'Target player not found', variant: 'destructive' });
-      return;
-    }
-
-    const targetHand = targetPlayer.hand as unknown as Card[];
-    if (cardIndex < 0 || cardIndex >= targetHand.length) {
-      toast({ title: 'Invalid card position', variant: 'destructive' });
-      return;
-    }
-
-    // Reveal the pulled card and move to returning_card phase
-    const pulledCard = targetHand[cardIndex];
-    const newState: CardPullState = {
-      ...cardPullState,
-      phase: 'returning_card',
-      pulledCard,
-      pulledCardIndex: cardIndex
-    };
-
-    await supabase
-      .from('rooms')
-      .update({ card_pull_state: newState as any })
-      .eq('id', roomId);
-  }, [gameState, roomId, myPosition, players, toast]);
+    const { error } = await supabase.rpc('pull_card', {
+      p_room_id: roomId,
+      p_player_id: myPlayerId,
+      p_card_index: cardIndex
+    });
+    reportError(error);
+  }, [gameState, roomId, myPosition, myPlayerId, toast, reportError]);
 
   /**
    * Returns a card to complete the pull exchange.
    */
   const returnCard = useCallback(async (returnCardToGive: Card) => {
-    if (!gameState || !roomId || myPosition === null) return;
+    if (!gameState || !roomId || myPosition === null || !myPlayerId) return;
 
+    // The pulled card arrives with this seat's private view
     const cardPullState = gameState.card_pull_state as CardPullState | null;
-    if (!cardPullState || cardPullState.phase !== 'returning_card' ||
-        !cardPullState.pulledCard || cardPullState.selectedTarget === null) {
+    if (!cardPullState?.pulledCard) {
       toast({ title: 'Invalid action', variant: 'destructive' });
       return;
     }
 
-    const currentPuller = cardPullState.pullers[cardPullState.currentPullerIndex];
-    if (myPosition !== currentPuller.position) {
-      toast({ title: 'Not your turn to pull', variant: 'destructive' });
-      return;
-    }
+    if (!checkAction({ type: 'RETURN_CARD', position: myPosition, card: returnCardToGive })) return;
 
-    // Validate return card
-    const validation = canReturnCard(returnCardToGive, cardPullState.pulledCard, hand);
-    if (!validation.valid) {
-      toast({ title: validation.reason || 'Invalid return card', variant: 'destructive' });
-      return;
-    }
-
-    const targetPlayer = players.find(p => p.position === cardPullState.selectedTarget);
-    if (!targetPlayer) {
-      toast({ title: 'Target player not found', variant: 'destructive' });
-      return;
-    }
-
-    // Execute the swap
-    // Puller: remove returnCard, add pulledCard
-    const pullerNewHand = hand.filter(c => !(c.suit === returnCardToGive.suit && c.rank === returnCardToGive.rank));
-    pullerNewHand.push(cardPullState.pulledCard);
-
-    // Target: remove pulledCard, add returnCard
-    const targetHand = targetPlayer.hand as unknown as Card[];
-    const targetNewHand = targetHand.filter(c =>
-      !(c.suit === cardPullState.pulledCard!.suit && c.rank === cardPullState.pulledCard!.rank)
-    );
-    targetNewHand.push(returnCardToGive);
-
-    // Update local state
-    setHand(pullerNewHand);
-
-    // Update pulls remaining
-    const updatedPullers = [...cardPullState.pullers];
-    updatedPullers[cardPullState.currentPullerIndex] = {
-      ...currentPuller,
-      pullsRemaining: currentPuller.pullsRemaining - 1
-    };
-
-    // Determine next state
-    let newState: CardPullState | null;
-
-    if (updatedPullers[cardPullState.currentPullerIndex].pullsRemaining > 0) {
-      // Same puller has more pulls
-      newState = {
-        ...cardPullState,
-        pullers: updatedPullers,
-        phase: 'selecting_target',
-        selectedTarget: null,
-        pulledCard: null,
-        pulledCardIndex: null
-      };
-    } else {
-      // Move to next puller
-      const nextPullerIndex = cardPullState.currentPullerIndex + 1;
-      if (nextPullerIndex < updatedPullers.length) {
-        newState = {
-          ...cardPullState,
-          pullers: updatedPullers,
-          currentPullerIndex: nextPullerIndex,
-          phase: 'selecting_target',
-          selectedTarget: null,
-          pulledCard: null,
-          pulledCardIndex: null
-        };
-      } else {
-        // All pulls complete
-        newState = null;
-      }
-    }
-
-    // Update database
-    await supabase
-      .from('players')
-      .update({ hand: pullerNewHand as any })
-      .eq('room_id', roomId)
-      .eq('position', myPosition);
-
-    await supabase
-      .from('players')
-      .update({ hand: targetNewHand as any })
-      .eq('room_id', roomId)
-      .eq('position', cardPullState.selectedTarget);
-
-    if (newState) {
-      await supabase
-        .from('rooms')
-        .update({ card_pull_state: newState as any })
-        .eq('id', roomId);
-    } else {
-      // Transition to playing phase
-      await supabase
-        .from('rooms')
-        .update({
-          status: 'playing',
-          dealing_phase: 'playing',
-          card_pull_state: null
-        })
-        .eq('id', roomId);
-    }
-  }, [gameState, roomId, myPosition, hand, players, toast, setHand]);
+    const { error } = await supabase.rpc('return_card', {
+      p_room_id: roomId,
+      p_player_id: myPlayerId,
+      p_card: returnCardToGive as unknown as Json
+    });
+    reportError(error);
+  }, [gameState, roomId, myPosition, myPlayerId, toast, checkAction, reportError]);
 
   // ==========================================================================
   // ROUND MANAGEMENT
@@ -655,67 +330,24 @@ export function useGameActions(
    * Starts a new round after redistribution phase.
    */
   const startNewRound = useCallback(async () => {
-    if (!gameState || !roomId) return;
+    if (!gameState || !roomId || !myPlayerId) return;
 
     // Guard: can only start new round from redistribution
     if (gameState.status !== 'redistribution') return;
 
     setSelectedTrump(null);
 
-    // Get latest dealer index
-    const { data: latestRoom } = await supabase
-      .from('rooms')
-      .select('dealer_index')
-      .eq('id', roomId)
-      .single();
-
-    if (!latestRoom) {
-      toast({ title: 'Error fetching room state', variant: 'destructive' });
-      return;
-    }
-
-    const currentDealerIndex = latestRoom.dealer_index;
-
-    // Deal first 5 cards
-    const deck = shuffle(createDeck());
-    const firstFiveHands: Card[][] = [[], [], []];
-
-    for (let i = 0; i < 5; i++) {
-      for (let player = 0; player < 3; player++) {
-        firstFiveHands[player].push(deck[i * 3 + player]);
-      }
-    }
-
-    const remainingCards = deck.slice(15);
-
-    // Update room
-    await supabase
-      .from('rooms')
-      .update({
-        dealing_phase: 'trump_selection',
-        status: 'dealing',
-        trump_suit: null,
-        remaining_cards: remainingCards as any,
-        current_trick: [] as any,
-        trump_led_at_start: null
-      })
-      .eq('id', roomId);
-
-    // Update players
-    for (let i = 0; i < 3; i++) {
-      await supabase
-        .from('players')
-        .update({
-          hand: firstFiveHands[i] as any,
-          target_tricks: getTargetTricks(i, currentDealerIndex),
-          tricks_won: 0
-        })
-        .eq('room_id', roomId)
-        .eq('position', i);
-    }
-  }, [gameState, roomId, toast]);
+    const { error } = await supabase.rpc('start_new_round', {
+      p_room_id: roomId,
+      p_player_id: myPlayerId,
+      p_expected_version: gameState.version
+    });
+    reportError(error);
+  }, [gameState, roomId, myPlayerId, reportError]);
 
   return {
+    addBot,
+    removeBot,
     startGame,
     selectTrump,
     dealFinalCards,
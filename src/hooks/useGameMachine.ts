@@ -0,0 +1,56 @@
+import { useMemo } from 'react';
+import { gameMachine, roomStateValue, GameContext } from '@/lib/gameMachine';
+import { CardPullState, Suit } from '@/lib/gameLogic';
+import { GameState, Player } from './useGameState';
+
+export type GamePhase = ReturnType<typeof gameMachine.resolveState>;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function roomContext(gameState: GameState, players: Player[]): GameContext {
+  return {
+    playerCount: players.length,
+    roundNumber: gameState.round_number,
+    dealerIndex: gameState.dealer_index,
+    currentPlayerIndex: gameState.current_player_index,
+    trump: gameState.trump_suit as Suit | null,
+    trumpLedAtStart: gameState.trump_led_at_start,
+    currentTrick: gameState.current_trick,
+    cardPullState: gameState.card_pull_state as CardPullState | null,
+    previousRoundResults: gameState.previous_round_results,
+    players: players.map(p => ({
+      position: p.position,
+      tricksWon: p.tricks_won || 0,
+      targetTricks: p.target_tricks || 0,
+      overachievementScore: p.overachievement_score || 0,
+    })),
+    rules: gameState.rules,
+  };
+}
+
+// ============================================================================
+// HOOK
+// ============================================================================
+
+/**
+ * Resolves the game machine (src/lib/gameMachine.ts) from the latest room.
+ *
+ * The room rows stay the source of truth; the snapshot answers which phase
+ * to render (`matches`) and which actions the local seat may take (`can`).
+ */
+export function useGameMachine(gameState: GameState | null, players: Player[]): GamePhase | null {
+  return useMemo(() => {
+    if (!gameState) return null;
+    return gameMachine.resolveState({
+      value: roomStateValue(
+        gameState.status,
+        gameState.dealing_phase,
+        (gameState.card_pull_state as CardPullState | null)?.phase ?? null,
+        gameState.current_trick.length
+      ),
+      context: roomContext(gameState, players),
+    });
+  }, [gameState, players]);
+}
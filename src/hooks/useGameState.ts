@@ -1,23 +1,52 @@
-import { useEffect, useState, useCallback } from 'react';
+import { useEffect, useState, useCallback, useMemo, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
-import { Card } from '@/lib/gameLogic';
+import { Card, CardPullState, RoomRules, normalizeRules } from '@/lib/gameLogic';
+import { DealReveal } from '@/lib/fairness';
+import { TurnTimers, normalizeTurnTimers } from '@/lib/turnTimers';
+import { DisconnectPolicy } from '@/lib/presence';
+import {
+  PendingChanges,
+  RowChange,
+  applyPlayerChanges,
+  applyPlayerSnapshot,
+  emptyChanges,
+  isCurrentSnapshot,
+  isNewerVersion,
+  queuePlayer,
+  queueRoom,
+} from '@/lib/roomSync';
+import { getSessionUserId } from '@/lib/session';
+import type { Tables } from '@/integrations/supabase/types';
+
+// Realtime changes arriving within this window are applied together
+const COALESCE_MS = 50;
+
+// Full reads retried because newer payloads overtook them
+const MAX_SNAPSHOT_RETRIES = 3;
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
 export interface Player {
+  id: string;
+  user_id: string | null;
   position: number;
   name: string;
-  hand: Card[];
+  hand_count: number;
   tricks_won: number;
   target_tricks: number;
   overachievement_score: number;
+  is_bot: boolean;
+  bot_difficulty: string | null;
+  bot_stand_in: boolean;            // A bot is playing while this seat's player is away
+  version: number;                  // Bumped by the server on every seat update
 }
 
 export interface GameState {
   id: string;
+  created_by: string | null;
   status: 'waiting' | 'dealing' | 'playing' | 'redistribution' | 'finished';
   dealing_phase: 'trump_selection' | 'dealing_3' | 'card_pull' | 'playing' | 'finished' | 'redistribution';
   dealer_index: number;
@@ -27,9 +56,28 @@ export interface GameState {
   trump_led_at_start: boolean | null;
   round_number: number;
   current_trick: Array<{ position: number; card: Card }>;
-  remaining_cards: Card[] | null;
   previous_round_results: any;
   card_pull_state: any;
+  deal_commitment: string | null;   // sha256 commitment of the round in play
+  secret_commitment: string | null; // sha256 of the server secret for the next or current deal
+  deal_seeds: DealReveal[] | null;  // Published as each round ends
+  practice_seed: number | null;
+  rules: RoomRules;                 // House rules, fixed when the room was created
+  turn_timers: TurnTimers;          // Seconds per move, 0 = no limit
+  turn_deadline: string | null;     // When the server moves for the awaited seat
+  trick_resolved_at: string | null; // When the trick on the table was completed
+  disconnect_policy: DisconnectPolicy;
+  forfeited_position: number | null;  // Seat that lost the game by leaving
+  allow_spectators: boolean;        // Whether people who aren't seated may watch
+  version: number;                  // Bumped by the server on every room update
+}
+
+type RoomRow = Tables<'rooms'>;
+
+/** Data only the current seat may see (api.get_private_view) */
+interface PrivateView {
+  hand: Card[];
+  pulledCard: Card | null;
 }
 
 export interface UseGameStateReturn {
@@ -38,10 +86,9 @@ export interface UseGameStateReturn {
   hand: Card[];
   myPosition: number | null;
   currentTrick: Array<{ position: number; card: Card }>;
+  onlineUserIds: string[];          // Sessions present on the room channel
   isLoading: boolean;
-  setHand: React.Dispatch<React.SetStateAction<Card[]>>;
-  setCurrentTrick: React.Dispatch<React.SetStateAction<Array<{ position: number; card: Card }>>>;
-  loadGameState: () => Promise<void>;
+  loadGameState: (attempt?: number) => Promise<void>;
 }
 
 // ============================================================================
@@ -52,28 +99,77 @@ export interface UseGameStateReturn {
  * Manages game state loading and real-time subscriptions.
  *
  * Responsibilities:
- * - Loads initial game state from Supabase
- * - Subscribes to real-time updates for rooms and players
+ * - Loads the full game state from Supabase on mount and after a reconnect
+ * - Applies real-time row payloads for rooms and players as they arrive,
+ *   batching bursts (one move writes several rows) into a single update
+ * - Drops room and seat rows older than the newest version already applied
+ * - Tracks who is online through presence on the same channel
  * - Provides current player's position and hand
  * - Cleans up subscriptions on unmount
+ *
+ * Hands are never part of the public rows: opponents only expose hand_count.
+ * The caller's own cards (and the pulled card while they are the active
+ * puller) come from the api.get_private_view RPC, fetched again whenever a
+ * change could have touched them.
  */
 export function useGameState(roomId: string | undefined): UseGameStateReturn {
   const navigate = useNavigate();
-  const [playerName] = useState(() => localStorage.getItem('playerName') || 'Player');
   const [myPosition, setMyPosition] = useState<number | null>(null);
   const [hand, setHand] = useState<Card[]>([]);
-  const [gameState, setGameState] = useState<GameState | null>(null);
+  const [room, setRoom] = useState<RoomRow | null>(null);
+  const [pulledCard, setPulledCard] = useState<Card | null>(null);
   const [players, setPlayers] = useState<Player[]>([]);
   const [currentTrick, setCurrentTrick] = useState<Array<{ position: number; card: Card }>>([]);
+  const [onlineUserIds, setOnlineUserIds] = useState<string[]>([]);
   const [isLoading, setIsLoading] = useState(true);
 
+  // Newest room version applied, and the seat this session holds
+  const versionRef = useRef<number | null>(null);
+  const myPlayerIdRef = useRef<string | null>(null);
+  // Only the latest private view request may apply its result
+  const privateViewSeq = useRef(0);
+  const pending = useRef<PendingChanges<RoomRow, Player>>(emptyChanges());
+  const flushTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // ----------------------------------------
+  // Apply a room row
+  // ----------------------------------------
+  const applyRoom = useCallback((row: RoomRow) => {
+    versionRef.current = row.version;
+    setRoom(row);
+    if (Array.isArray(row.current_trick)) {
+      setCurrentTrick(row.current_trick as unknown as Array<{ position: number; card: Card }>);
+    }
+  }, []);
+
+  // ----------------------------------------
+  // Load this seat's hand and pulled card
+  // ----------------------------------------
+  const loadPrivateView = useCallback(async () => {
+    const playerId = myPlayerIdRef.current;
+    if (!roomId || !playerId) return;
+
+    const seq = ++privateViewSeq.current;
+    const { data } = await supabase.rpc('get_private_view', {
+      p_room_id: roomId,
+      p_player_id: playerId
+    });
+    if (seq !== privateViewSeq.current) return;
+
+    const privateView = data as unknown as PrivateView | null;
+    if (privateView && Array.isArray(privateView.hand)) {
+      setHand(privateView.hand);
+    }
+    setPulledCard(privateView?.pulledCard ?? null);
+  }, [roomId]);
+
   // ----------------------------------------
   // Load game state from database
   // ----------------------------------------
-  const loadGameState = useCallback(async () => {
+  const loadGameState = useCallback(async (attempt = 0): Promise<void> => {
     if (!roomId) return;
 
-    const { data: room } = await supabase
+    const { data: roomData } = await supabase
       .from('rooms')
       .select('*')
       .eq('id', roomId)
@@ -85,26 +181,68 @@ export function useGameState(roomId: string | undefined): UseGameStateReturn {
       .eq('room_id', roomId)
       .order('position');
 
-    if (room) {
-      setGameState(room as unknown as GameState);
-      if (Array.isArray(room.current_trick)) {
-        setCurrentTrick(room.current_trick as unknown as Array<{ position: number; card: Card }>);
-      }
+    // "Me" is the seat bound to this browser's auth session
+    const userId = await getSessionUserId();
+    const myPlayer = userId ? playersData?.find(p => p.user_id === userId) : undefined;
+    if (myPlayer) {
+      myPlayerIdRef.current = myPlayer.id;
+      setMyPosition(myPlayer.position);
+    }
+
+    // Payloads newer than this read were applied while it was in flight:
+    // read again, a few times at most. A read that stays behind keeps the
+    // newer room, and its seats only replace older ones.
+    const isCurrent = !roomData || isCurrentSnapshot(versionRef.current, roomData.version);
+    if (!isCurrent && attempt < MAX_SNAPSHOT_RETRIES) {
+      return loadGameState(attempt + 1);
     }
 
+    if (roomData && isCurrent) applyRoom(roomData);
     if (playersData) {
-      setPlayers(playersData as unknown as Player[]);
-      const myPlayer = playersData.find(p => p.name === playerName);
-      if (myPlayer) {
-        setMyPosition(myPlayer.position);
-        if (Array.isArray(myPlayer.hand)) {
-          setHand(myPlayer.hand as unknown as Card[]);
-        }
-      }
+      setPlayers(prev => applyPlayerSnapshot(prev, playersData as unknown as Player[]));
     }
 
+    // Own hand and pulled card are only available through the private view
+    await loadPrivateView();
+
     setIsLoading(false);
-  }, [roomId, playerName]);
+  }, [roomId, applyRoom, loadPrivateView]);
+
+  // ----------------------------------------
+  // Apply the changes received in one burst
+  // ----------------------------------------
+  const flushChanges = useCallback(() => {
+    flushTimer.current = null;
+    const { room: row, players: playerChanges } = pending.current;
+    pending.current = emptyChanges();
+
+    let touchesPrivateView = false;
+
+    if (row && isNewerVersion(versionRef.current, row.version)) {
+      // The hand and pulled card change with the pull and each new deal
+      touchesPrivateView = row.card_pull_state !== null || row.dealing_phase !== room?.dealing_phase;
+      applyRoom(row);
+    }
+
+    if (playerChanges.length > 0) {
+      setPlayers(prev => applyPlayerChanges(prev, playerChanges));
+      touchesPrivateView ||= playerChanges.some(
+        change => (change.new as Partial<Player>).id === myPlayerIdRef.current
+      );
+    }
+
+    if (touchesPrivateView) loadPrivateView();
+  }, [room?.dealing_phase, applyRoom, loadPrivateView]);
+
+  // The subscription outlives renders; it always flushes with the latest state
+  const flushRef = useRef(flushChanges);
+  flushRef.current = flushChanges;
+
+  const scheduleFlush = useCallback(() => {
+    if (flushTimer.current === null) {
+      flushTimer.current = setTimeout(() => flushRef.current(), COALESCE_MS);
+    }
+  }, []);
 
   // ----------------------------------------
   // Redirect if no roomId
@@ -123,24 +261,63 @@ export function useGameState(roomId: string | undefined): UseGameStateReturn {
   useEffect(() => {
     if (!roomId) return;
 
+    // Events missed while the channel was down are caught up with a full read
+    let hasSubscribed = false;
+
     const channel = supabase
       .channel(`room:${roomId}`)
       .on(
         'postgres_changes',
-        { event: '*', schema: 'public', table: 'rooms', filter: `id=eq.${roomId}` },
-        () => loadGameState()
+        { event: '*', schema: 'api', table: 'rooms', filter: `id=eq.${roomId}` },
+        payload => {
+          if (payload.eventType === 'DELETE') return;
+          pending.current = queueRoom(pending.current, payload.new as RoomRow);
+          scheduleFlush();
+        }
       )
       .on(
         'postgres_changes',
-        { event: '*', schema: 'public', table: 'players', filter: `room_id=eq.${roomId}` },
-        () => loadGameState()
+        { event: '*', schema: 'api', table: 'players', filter: `room_id=eq.${roomId}` },
+        payload => {
+          pending.current = queuePlayer(pending.current, payload as unknown as RowChange<Player>);
+          scheduleFlush();
+        }
       )
-      .subscribe();
+      .on('presence', { event: 'sync' }, () => {
+        const presences = Object.values(channel.presenceState<{ userId: string }>()).flat();
+        setOnlineUserIds([...new Set(presences.map(p => p.userId))]);
+      })
+      .subscribe(async status => {
+        if (status !== 'SUBSCRIBED') return;
+        if (hasSubscribed) loadGameState();
+        hasSubscribed = true;
+        const userId = await getSessionUserId();
+        if (userId) channel.track({ userId });
+      });
 
     return () => {
+      if (flushTimer.current !== null) clearTimeout(flushTimer.current);
+      flushTimer.current = null;
+      pending.current = emptyChanges();
       supabase.removeChannel(channel);
     };
-  }, [roomId, loadGameState]);
+  }, [roomId, loadGameState, scheduleFlush]);
+
+  // ----------------------------------------
+  // Public room state, with this seat's pulled card folded in
+  // ----------------------------------------
+  const gameState = useMemo<GameState | null>(() => {
+    if (!room) return null;
+    const cardPullState = room.card_pull_state as unknown as CardPullState | null;
+    return {
+      ...room,
+      card_pull_state: cardPullState && pulledCard
+        ? { ...cardPullState, pulledCard }
+        : cardPullState,
+      rules: normalizeRules(room.rules as unknown as Partial<RoomRules> | null),
+      turn_timers: normalizeTurnTimers(room.turn_timers as unknown as Partial<TurnTimers> | null)
+    } as unknown as GameState;
+  }, [room, pulledCard]);
 
   return {
     gameState,
@@ -148,9 +325,8 @@ export function useGameState(roomId: string | undefined): UseGameStateReturn {
     hand,
     myPosition,
     currentTrick,
+    onlineUserIds,
     isLoading,
-    setHand,
-    setCurrentTrick,
     loadGameState
   };
 }
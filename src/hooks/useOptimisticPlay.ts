@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { useToast } from '@/hooks/use-toast';
+import { Card } from '@/lib/gameLogic';
+import {
+  PendingPlay,
+  TrickCard,
+  describeRejectedPlay,
+  isPlayConfirmed,
+  withPendingPlay,
+} from '@/lib/optimisticPlay';
+import { GameState } from './useGameState';
+
+export interface UseOptimisticPlayReturn {
+  hand: Card[];                     // Server hand without the card in flight
+  currentTrick: TrickCard[];        // Server trick with the card in flight
+  pendingPlay: PendingPlay | null;
+  /** Shows the card as played while `send` runs; false if it was rolled back */
+  submitPlay: (card: Card, send: () => PromiseLike<{ error: { message: string } | null }>) => Promise<boolean>;
+}
+
+/**
+ * Layers this seat's card play over the server state while it is in flight.
+ *
+ * One play can be pending at a time. It is dropped once the room version
+ * and the private hand show it landed, or straight away with a toast if the
+ * server rejects it, which puts the card back in the hand.
+ */
+export function useOptimisticPlay(
+  gameState: GameState | null,
+  hand: Card[],
+  currentTrick: TrickCard[],
+  myPosition: number | null
+): UseOptimisticPlayReturn {
+  const { toast } = useToast();
+  const [pendingPlay, setPendingPlay] = useState<PendingPlay | null>(null);
+
+  // Confirmed against the server's copy of the room and hand
+  useEffect(() => {
+    if (pendingPlay && gameState && isPlayConfirmed(pendingPlay, gameState.version, hand)) {
+      setPendingPlay(null);
+    }
+  }, [pendingPlay, gameState, hand]);
+
+  const submitPlay = useCallback(async (
+    card: Card,
+    send: () => PromiseLike<{ error: { message: string } | null }>
+  ) => {
+    if (!gameState || myPosition === null || pendingPlay) return false;
+
+    const play: PendingPlay = { card, position: myPosition, baseVersion: gameState.version, sent: false };
+    setPendingPlay(play);
+
+    const { error } = await send();
+    if (error) {
+      setPendingPlay(null);
+      toast({ ...describeRejectedPlay(card, error.message), variant: 'destructive' });
+      return false;
+    }
+
+    setPendingPlay(current => (current === play ? { ...play, sent: true } : current));
+    return true;
+  }, [gameState, myPosition, pendingPlay, toast]);
+
+  const view = useMemo(
+    () => withPendingPlay(hand, currentTrick, pendingPlay),
+    [hand, currentTrick, pendingPlay]
+  );
+
+  return { hand: view.hand, currentTrick: view.trick, pendingPlay, submitPlay };
+}
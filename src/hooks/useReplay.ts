@@ -0,0 +1,89 @@
+import { useEffect, useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ReplayRound, TrickRecord, buildReplay } from '@/lib/replay';
+import { GameEventRecord, RoundHistory, reconstructRound } from '@/lib/gameEvents';
+import { DEFAULT_RULES, RoomRules, normalizeRules } from '@/lib/gameLogic';
+
+export interface UseReplayReturn {
+  rounds: ReplayRound[];
+  deals: Map<number, RoundHistory>;  // Deal and card pull by round number
+  playerNames: string[];              // By position
+  rules: RoomRules;
+  isLoading: boolean;
+}
+
+/**
+ * Loads a room's trick history (api.tricks), event log (api.game_events),
+ * seat names and house rules for the replay page. Actions taken while the page is open
+ * are appended live.
+ */
+export function useReplay(roomId: string | undefined): UseReplayReturn {
+  const [rounds, setRounds] = useState<ReplayRound[]>([]);
+  const [deals, setDeals] = useState<Map<number, RoundHistory>>(new Map());
+  const [playerNames, setPlayerNames] = useState<string[]>([]);
+  const [rules, setRules] = useState<RoomRules>(DEFAULT_RULES);
+  const [isLoading, setIsLoading] = useState(true);
+
+  const loadReplay = useCallback(async () => {
+    if (!roomId) return;
+
+    const { data: tricks } = await supabase
+      .from('tricks')
+      .select('round_number, trick_number, cards_played, winner_position, trump_suit, dealer_index')
+      .eq('room_id', roomId)
+      .order('round_number')
+      .order('trick_number');
+
+    const { data: events } = await supabase
+      .from('game_events')
+      .select('round_number, event_type, seat, payload, private_to')
+      .eq('room_id', roomId)
+      .order('id');
+
+    const { data: players } = await supabase
+      .from('players')
+      .select('position, name')
+      .eq('room_id', roomId)
+      .order('position');
+
+    const { data: room } = await supabase
+      .from('rooms')
+      .select('rules')
+      .eq('id', roomId)
+      .single();
+
+    const eventRecords = (events || []) as unknown as GameEventRecord[];
+    const roundNumbers = new Set(eventRecords.map(e => e.round_number));
+
+    setRounds(buildReplay((tricks || []) as unknown as TrickRecord[]));
+    setDeals(new Map([...roundNumbers].map(n => [n, reconstructRound(eventRecords, n)])));
+    setPlayerNames([0, 1, 2].map(pos =>
+      players?.find(p => p.position === pos)?.name ?? `Seat ${pos + 1}`
+    ));
+    setRules(normalizeRules(room?.rules as unknown as Partial<RoomRules> | null));
+    setIsLoading(false);
+  }, [roomId]);
+
+  useEffect(() => {
+    loadReplay();
+  }, [loadReplay]);
+
+  useEffect(() => {
+    if (!roomId) return;
+
+    const channel = supabase
+      .channel(`replay:${roomId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'api', table: 'game_events', filter: `room_id=eq.${roomId}` },
+        () => loadReplay()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [roomId, loadReplay]);
+
+  return { rounds, deals, playerNames, rules, isLoading };
+}
@@ -0,0 +1,39 @@
+import { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { RoundResult } from '@/lib/gameEvents';
+
+export interface ScoredRound {
+  roundNumber: number;
+  results: RoundResult[];  // By position
+}
+
+/**
+ * Every scored round of the room, from the round_end events in
+ * api.game_events. Loaded once the game has finished, for the per-round
+ * breakdown on the game over screen.
+ */
+export function useRoundResults(roomId: string | undefined, isFinished: boolean): ScoredRound[] {
+  const [rounds, setRounds] = useState<ScoredRound[]>([]);
+
+  useEffect(() => {
+    if (!roomId || !isFinished) return;
+
+    const loadResults = async () => {
+      const { data } = await supabase
+        .from('game_events')
+        .select('round_number, payload')
+        .eq('room_id', roomId)
+        .eq('event_type', 'round_end')
+        .order('round_number');
+
+      setRounds((data || []).map(event => ({
+        roundNumber: event.round_number,
+        results: (event.payload as unknown as { results: RoundResult[] }).results,
+      })));
+    };
+
+    loadResults();
+  }, [roomId, isFinished]);
+
+  return rounds;
+}
@@ -0,0 +1,51 @@
+import { useEffect, useState, useCallback } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { ReplayRound, TrickRecord, buildReplay } from '@/lib/replay';
+
+/**
+ * Completed tricks of the round in play, from api.tricks. Kept live so the
+ * last trick stays reviewable after clear_trick empties the table.
+ */
+export function useRoundTricks(
+  roomId: string | undefined,
+  roundNumber: number | null
+): ReplayRound | null {
+  const [round, setRound] = useState<ReplayRound | null>(null);
+
+  const loadTricks = useCallback(async () => {
+    if (!roomId || roundNumber === null) return;
+
+    const { data } = await supabase
+      .from('tricks')
+      .select('round_number, trick_number, cards_played, winner_position, trump_suit, dealer_index')
+      .eq('room_id', roomId)
+      .eq('round_number', roundNumber)
+      .order('trick_number');
+
+    setRound(buildReplay((data || []) as unknown as TrickRecord[])[0] ?? null);
+  }, [roomId, roundNumber]);
+
+  useEffect(() => {
+    setRound(null);
+    loadTricks();
+  }, [loadTricks]);
+
+  useEffect(() => {
+    if (!roomId) return;
+
+    const channel = supabase
+      .channel(`tricks:${roomId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'api', table: 'tricks', filter: `room_id=eq.${roomId}` },
+        () => loadTricks()
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [roomId, loadTricks]);
+
+  return round;
+}
@@ -0,0 +1,31 @@
+import { useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { HEARTBEAT_INTERVAL_MS } from '@/lib/presence';
+
+/**
+ * Tells the server this seat is still at the table (api.heartbeat) while the
+ * game page is open. A seat that goes quiet is handled by the room's
+ * disconnect policy; the next heartbeat takes it back.
+ *
+ * Hidden tabs run timers rarely, so a beat is also sent whenever the page is
+ * hidden or shown again.
+ */
+export function useSeatHeartbeat(roomId: string | undefined, myPlayerId: string | null): void {
+  useEffect(() => {
+    if (!roomId || !myPlayerId) return;
+
+    const beat = () => {
+      supabase.rpc('heartbeat', { p_room_id: roomId, p_player_id: myPlayerId }).then(() => {});
+    };
+
+    beat();
+    const interval = setInterval(beat, HEARTBEAT_INTERVAL_MS);
+    document.addEventListener('visibilitychange', beat);
+    window.addEventListener('pagehide', beat);
+    return () => {
+      clearInterval(interval);
+      document.removeEventListener('visibilitychange', beat);
+      window.removeEventListener('pagehide', beat);
+    };
+  }, [roomId, myPlayerId]);
+}
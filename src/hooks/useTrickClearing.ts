@@ -0,0 +1,38 @@
+import { useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { trickClearsAt } from '@/lib/turnTimers';
+
+// While the trick is still up, ask again this often in case our clock runs
+// ahead of the server's
+const CLEAR_RETRY_MS = 1000;
+
+/**
+ * Asks the server to clear a finished trick once its pause is over
+ * (api.clear_trick). Every seated client does so and the server clears it
+ * once; its cron sweep covers tables nobody is watching. The table empties
+ * through the realtime room update.
+ */
+export function useTrickClearing(
+  roomId: string | undefined,
+  trickResolvedAt: string | null,
+  myPlayerId: string | null
+): void {
+  useEffect(() => {
+    if (!roomId || !trickResolvedAt || !myPlayerId) return;
+
+    let retry: ReturnType<typeof setInterval> | undefined;
+    const clear = () => {
+      supabase.rpc('clear_trick', { p_room_id: roomId, p_player_id: myPlayerId }).then(() => {});
+    };
+
+    const timer = setTimeout(() => {
+      clear();
+      retry = setInterval(clear, CLEAR_RETRY_MS);
+    }, Math.max(0, trickClearsAt(trickResolvedAt) - Date.now()));
+
+    return () => {
+      clearTimeout(timer);
+      clearInterval(retry);
+    };
+  }, [roomId, trickResolvedAt, myPlayerId]);
+}
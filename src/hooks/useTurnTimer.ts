@@ -0,0 +1,51 @@
+import { useEffect, useRef, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { secondsLeft } from '@/lib/turnTimers';
+
+// While the deadline stands, ask again this often in case our clock runs
+// ahead of the server's
+const EXPIRE_RETRY_MS = 3000;
+
+/**
+ * Seconds left on the room's turn deadline, ticking every second; null when
+ * the current move is untimed.
+ *
+ * Once time is up, a seated client asks the server to move for the seat
+ * (api.expire_turn). Every seat does so and the server acts once; its cron
+ * sweep covers tables nobody is watching.
+ */
+export function useTurnTimer(
+  roomId: string | undefined,
+  deadline: string | null,
+  isSeated: boolean
+): number | null {
+  const [now, setNow] = useState(() => Date.now());
+  const lastExpiry = useRef(0);
+
+  useEffect(() => {
+    if (!deadline) return;
+
+    const tick = () => {
+      const current = Date.now();
+      setNow(current);
+
+      if (
+        roomId &&
+        isSeated &&
+        current >= new Date(deadline).getTime() &&
+        current - lastExpiry.current >= EXPIRE_RETRY_MS
+      ) {
+        lastExpiry.current = current;
+        // A failed request is made again on a later tick; the move itself
+        // arrives through the realtime room update
+        supabase.rpc('expire_turn', { p_room_id: roomId }).then(() => {});
+      }
+    };
+
+    tick();
+    const interval = setInterval(tick, 1000);
+    return () => clearInterval(interval);
+  }, [roomId, deadline, isSeated]);
+
+  return secondsLeft(deadline, now);
+}
@@ -12,12 +12,56 @@ export type Database = {
   __InternalSupabase: {
     PostgrestVersion: "13.0.5"
   }
-  public: {
+  api: {
     Tables: {
+      game_events: {
+        Row: {
+          created_at: string | null
+          event_type: string
+          id: number
+          payload: Json
+          private_to: number | null
+          room_id: string
+          round_number: number
+          seat: number | null
+        }
+        Insert: {
+          created_at?: string | null
+          event_type: string
+          id?: never
+          payload?: Json
+          private_to?: number | null
+          room_id: string
+          round_number: number
+          seat?: number | null
+        }
+        Update: {
+          created_at?: string | null
+          event_type?: string
+          id?: never
+          payload?: Json
+          private_to?: number | null
+          room_id?: string
+          round_number?: number
+          seat?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "game_events_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       players: {
         Row: {
-          hand: Json | null
+          bot_difficulty: string | null
+          bot_stand_in: boolean
+          hand_count: number | null
           id: string
+          is_bot: boolean | null
           joined_at: string | null
           name: string
           overachievement_score: number | null
@@ -25,10 +69,15 @@ export type Database = {
           room_id: string | null
           target_tricks: number | null
           tricks_won: number | null
+          user_id: string | null
+          version: number
         }
         Insert: {
-          hand?: Json | null
+          bot_difficulty?: string | null
+          bot_stand_in?: boolean
+          hand_count?: number | null
           id?: string
+          is_bot?: boolean | null
           joined_at?: string | null
           name: string
           overachievement_score?: number | null
@@ -36,10 +85,15 @@ export type Database = {
           room_id?: string | null
           target_tricks?: number | null
           tricks_won?: number | null
+          user_id?: string | null
+          version?: number
         }
         Update: {
-          hand?: Json | null
+          bot_difficulty?: string | null
+          bot_stand_in?: boolean
+          hand_count?: number | null
           id?: string
+          is_bot?: boolean | null
           joined_at?: string | null
           name?: string
           overachievement_score?: number | null
@@ -47,6 +101,8 @@ export type Database = {
           room_id?: string | null
           target_tricks?: number | null
           tricks_won?: number | null
+          user_id?: string | null
+          version?: number
         }
         Relationships: [
           {
@@ -60,55 +116,94 @@ export type Database = {
       }
       rooms: {
         Row: {
+          allow_spectators: boolean
           card_pull_state: Json | null
           created_at: string | null
+          created_by: string | null
           current_player_index: number | null
           current_round: number | null
           current_trick: Json | null
+          deal_commitment: string | null
+          deal_seeds: Json | null
+          disconnect_policy: string
           dealer_index: number | null
           dealing_phase: string | null
           first_trick_leader: number | null
+          forfeited_position: number | null
           id: string
+          phase_version: number
+          practice_seed: number | null
           previous_round_results: Json | null
-          remaining_cards: Json | null
           round_number: number | null
+          rules: Json
+          secret_commitment: string | null
           status: string | null
+          trick_resolved_at: string | null
           trump_led_at_start: boolean | null
           trump_suit: string | null
+          turn_deadline: string | null
+          turn_timers: Json
+          version: number
         }
         Insert: {
+          allow_spectators?: boolean
           card_pull_state?: Json | null
           created_at?: string | null
+          created_by?: string | null
           current_player_index?: number | null
           current_round?: number | null
           current_trick?: Json | null
+          deal_commitment?: string | null
+          deal_seeds?: Json | null
+          disconnect_policy?: string
           dealer_index?: number | null
           dealing_phase?: string | null
           first_trick_leader?: number | null
+          forfeited_position?: number | null
           id?: string
+          phase_version?: number
+          practice_seed?: number | null
           previous_round_results?: Json | null
-          remaining_cards?: Json | null
           round_number?: number | null
+          rules?: Json
+          secret_commitment?: string | null
           status?: string | null
+          trick_resolved_at?: string | null
           trump_led_at_start?: boolean | null
           trump_suit?: string | null
+          turn_deadline?: string | null
+          turn_timers?: Json
+          version?: number
         }
         Update: {
+          allow_spectators?: boolean
           card_pull_state?: Json | null
           created_at?: string | null
+          created_by?: string | null
           current_player_index?: number | null
           current_round?: number | null
           current_trick?: Json | null
+          deal_commitment?: string | null
+          deal_seeds?: Json | null
+          disconnect_policy?: string
           dealer_index?: number | null
           dealing_phase?: string | null
           first_trick_leader?: number | null
+          forfeited_position?: number | null
           id?: string
+          phase_version?: number
+          practice_seed?: number | null
           previous_round_results?: Json | null
-          remaining_cards?: Json | null
           round_number?: number | null
+          rules?: Json
+          secret_commitment?: string | null
           status?: string | null
+          trick_resolved_at?: string | null
           trump_led_at_start?: boolean | null
           trump_suit?: string | null
+          turn_deadline?: string | null
+          turn_timers?: Json
+          version?: number
         }
         Relationships: []
       }
@@ -116,28 +211,34 @@ export type Database = {
         Row: {
           cards_played: Json | null
           created_at: string | null
+          dealer_index: number | null
           id: string
           room_id: string | null
           round_number: number
           trick_number: number
+          trump_suit: string | null
           winner_position: number | null
         }
         Insert: {
           cards_played?: Json | null
           created_at?: string | null
+          dealer_index?: number | null
           id?: string
           room_id?: string | null
           round_number: number
           trick_number: number
+          trump_suit?: string | null
           winner_position?: number | null
         }
         Update: {
           cards_played?: Json | null
           created_at?: string | null
+          dealer_index?: number | null
           id?: string
           room_id?: string | null
           round_number?: number
           trick_number?: number
+          trump_suit?: string | null
           winner_position?: number | null
         }
         Relationships: [
@@ -155,7 +256,81 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      add_bot: {
+        Args: { p_difficulty: string; p_room_id: string }
+        Returns: undefined
+      }
+      claim_seat: { Args: { p_code: string }; Returns: string }
+      clear_trick: {
+        Args: { p_player_id: string; p_room_id: string }
+        Returns: undefined
+      }
+      deal_final: {
+        Args: { p_expected_version: number; p_player_id: string; p_room_id: string }
+        Returns: string
+      }
+      expire_turn: { Args: { p_room_id: string }; Returns: undefined }
+      get_rejoin_code: {
+        Args: { p_player_id: string; p_room_id: string }
+        Returns: string
+      }
+      get_private_view: {
+        Args: { p_player_id: string; p_room_id: string }
+        Returns: Json
+      }
+      heartbeat: {
+        Args: { p_player_id: string; p_room_id: string }
+        Returns: undefined
+      }
+      play_bot_turn: {
+        Args: { p_expected_version: number; p_room_id: string }
+        Returns: undefined
+      }
+      play_card: {
+        Args: { p_card: Json; p_player_id: string; p_room_id: string }
+        Returns: undefined
+      }
+      pull_card: {
+        Args: { p_card_index: number; p_player_id: string; p_room_id: string }
+        Returns: undefined
+      }
+      remove_bot: {
+        Args: { p_player_id: string; p_room_id: string }
+        Returns: undefined
+      }
+      return_card: {
+        Args: { p_card: Json; p_player_id: string; p_room_id: string }
+        Returns: undefined
+      }
+      select_pull_target: {
+        Args: {
+          p_player_id: string
+          p_room_id: string
+          p_target_position: number
+        }
+        Returns: undefined
+      }
+      select_trump: {
+        Args: {
+          p_expected_version: number
+          p_player_id: string
+          p_room_id: string
+          p_trump: string
+        }
+        Returns: string
+      }
+      start_game: {
+        Args: { p_expected_version: number; p_player_id: string; p_room_id: string }
+        Returns: string
+      }
+      start_new_round: {
+        Args: { p_expected_version: number; p_player_id: string; p_room_id: string }
+        Returns: string
+      }
+      submit_entropy: {
+        Args: { p_entropy: string; p_player_id: string; p_room_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       [_ in never]: never
@@ -168,7 +343,7 @@ export type Database = {
 
 type DatabaseWithoutInternals = Omit<Database, "__InternalSupabase">
 
-type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "public">]
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, "api">]
 
 export type Tables<
   DefaultSchemaTableNameOrOptions extends
@@ -284,7 +459,7 @@ export type CompositeTypes<
     : never
 
 export const Constants = {
-  public: {
+  api: {
     Enums: {},
   },
 } as const
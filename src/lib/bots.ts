@@ -0,0 +1,20 @@
+/**
+ * ============================================================================
+ * 3-2-5 Bot Players
+ * ============================================================================
+ *
+ * Computer opponents fill empty seats. Bots move on the server
+ * (supabase/migrations/20260124000001_server_bots.sql), so no browser ever
+ * sees a bot's hand; the host only picks how well each bot plays.
+ *
+ * DIFFICULTY LEVELS:
+ * - easy:   picks a random legal option
+ * - medium: wins tricks as cheaply as possible, dumps low cards otherwise
+ * - hard:   medium + tracks played cards to lead cards nobody can beat
+ *
+ * ============================================================================
+ */
+
+export type BotDifficulty = 'easy' | 'medium' | 'hard';
+
+export const BOT_DIFFICULTIES: BotDifficulty[] = ['easy', 'medium', 'hard'];
@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_RULES, cardToString, stringToCard } from './gameLogic';
+import { DealObservation, DealReveal, createEntropy, seedFromMaterial, sha256Hex, shuffledDeck, verifyDeal } from './fairness';
+
+// A round dealt by game.deal_first_five (supabase/migrations), revealed by game.end_round
+const REVEAL: DealReveal = {
+  round: 1,
+  seed: '1f4ddd88f0ead4f55464341993b7e47d14c7f7fdbd8e0d50ab1f9dd3e86f4b44',
+  secretCommitment: '067db54b0d06769e05bf2242c8ae501f953b86dad8c5349da2e4385ae40a3d28',
+  commitment: 'b32c1802af9ac2859516484dc24a4cb5c16bc5972c653a5982b8d1e99e2ec692',
+  serverSecret: '8ab21cffbc244494b69a66ca3a2a9c8f',
+  entropy: [
+    '0123456789abcdef0123456789abcdef',
+    '4a523b813a1a48189516e6aa5b4ca58a',
+    '63156410a6d5434dbc323a63a8672f85',
+  ],
+  keptSevens: ['♠', '♥'],
+};
+
+// What seat 0 recorded during that round
+const OBSERVED: DealObservation = {
+  position: 0,
+  entropy: '0123456789abcdef0123456789abcdef',
+  secretCommitment: REVEAL.secretCommitment!,
+  commitment: REVEAL.commitment!,
+  firstFive: ['Q♠', 'A♠', '10♣', '8♥', 'J♥'].map(s => stringToCard(s)!),
+};
+
+// A round dealt with a 32-bit seed, before 20260118000001_full_entropy_deals.sql
+const LEGACY_REVEAL: DealReveal = {
+  round: 1,
+  seed: 2779336799,
+  commitment: 'e140e44ae9851806fc890747cf6d1d241b9e8e4a86d50e99b88ea5e95e40cc04',
+  serverSecret: 'fd11ea7279a64763bbe12a918c93e847',
+  entropy: [
+    '0123456789abcdef0123456789abcdef',
+    'e98ac02d09254f78a2e8dd49794d98d4',
+    '0a5e15f508a140dea2d87c53cb996c98',
+  ],
+};
+
+const LEGACY_OBSERVED: DealObservation = {
+  position: 0,
+  entropy: '0123456789abcdef0123456789abcdef',
+  secretCommitment: null,
+  commitment: LEGACY_REVEAL.commitment!,
+  firstFive: ['8♥', '9♥', '8♠', 'K♦', 'J♦'].map(s => stringToCard(s)!),
+};
+
+describe('commitment helpers', () => {
+  it('hash like game.sha256_hex and game.seed_from_material', async () => {
+    expect(await sha256Hex('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(await seedFromMaterial('abc')).toBe('a67a9301cdfd34a70f6bb35190234b1a66893eb802115bc6aca4506d944bb8e4');
+  });
+
+  it('shuffledDeck deals the same deck as game.shuffled_deck', async () => {
+    const deck = await shuffledDeck('abc');
+    expect(deck.map(cardToString).join(' ')).toBe(
+      'J♦ 7♠ J♥ Q♠ 10♣ A♦ J♠ A♠ K♠ K♥ 8♠ Q♣ K♦ 10♥ 9♠ Q♥ K♣ 8♣ 10♦ 9♥ A♣ 7♥ A♥ 10♠ 9♣ 8♦ 8♥ Q♦ 9♦ J♣'
+    );
+    const otherSevens = await shuffledDeck('abc', { ...DEFAULT_RULES, keptSevens: ['♦', '♣'] });
+    expect(otherSevens.map(cardToString)).toContain('7♦');
+    expect(otherSevens.map(cardToString)).not.toContain('7♠');
+  });
+
+  it('createEntropy returns 32 hex characters accepted by api.submit_entropy', () => {
+    expect(createEntropy()).toMatch(/^[0-9a-f]{32}$/);
+    expect(createEntropy()).not.toBe(createEntropy());
+  });
+});
+
+describe('verifyDeal', () => {
+  it('accepts a server reveal and what the seat saw', async () => {
+    const result = await verifyDeal(REVEAL, OBSERVED);
+    expect(result).toMatchObject({
+      secretCommitted: true,
+      secretCommitmentUnchanged: true,
+      commitmentValid: true,
+      seedValid: true,
+      entropyIncluded: true,
+      commitmentUnchanged: true,
+      handValid: true,
+    });
+    expect(result.hands[0].slice(0, 5).map(cardToString)).toEqual(['Q♠', 'A♠', '10♣', '8♥', 'J♥']);
+  });
+
+  it('still verifies rounds dealt from a 32-bit seed', async () => {
+    const result = await verifyDeal(LEGACY_REVEAL, LEGACY_OBSERVED);
+    expect(result).toMatchObject({
+      secretCommitted: null,
+      secretCommitmentUnchanged: null,
+      commitmentValid: true,
+      seedValid: true,
+      handValid: true,
+    });
+    expect((await verifyDeal({ ...LEGACY_REVEAL, seed: 1 }, LEGACY_OBSERVED)).seedValid).toBe(false);
+  });
+
+  it.each([
+    ['seed', { seed: `${'0'.repeat(8)}${(REVEAL.seed as string).slice(8)}` }, 'seedValid'],
+    ['server secret', { serverSecret: '0'.repeat(32) }, 'commitmentValid'],
+    ['entropy', { entropy: [...REVEAL.entropy!].reverse() }, 'commitmentValid'],
+    ['commitment', { commitment: '0'.repeat(64) }, 'commitmentUnchanged'],
+    ['secret commitment', { secretCommitment: '0'.repeat(64) }, 'secretCommitted'],
+    ['secret commitment', { secretCommitment: '0'.repeat(64) }, 'secretCommitmentUnchanged'],
+  ] as Array<[string, Partial<DealReveal>, string]>)('flags a swapped %s', async (_, change, check) => {
+    const result = await verifyDeal({ ...REVEAL, ...change }, OBSERVED);
+    expect(result[check as keyof typeof result]).toBe(false);
+  });
+
+  it('flags a secret other than the one committed before the entropy', async () => {
+    // A secret drawn after the entropy can match a new commitment, not the earlier one
+    const secret = '0'.repeat(32);
+    const material = [secret, ...REVEAL.entropy!].join(':');
+    const redrawn = {
+      ...REVEAL,
+      serverSecret: secret,
+      commitment: await sha256Hex(material),
+      seed: await seedFromMaterial(material),
+    };
+    const result = await verifyDeal(redrawn);
+    expect(result.commitmentValid).toBe(true);
+    expect(result.seedValid).toBe(true);
+    expect(result.secretCommitted).toBe(false);
+  });
+
+  it('only checks the seed of practice rounds', async () => {
+    const result = await verifyDeal({ round: 1, seed: 42 });
+    expect(result.commitmentValid).toBeNull();
+    expect(result.seedValid).toBeNull();
+    expect(result.hands.flat()).toHaveLength(30);
+  });
+});
@@ -0,0 +1,176 @@
+/**
+ * ============================================================================
+ * 3-2-5 Provably Fair Deals
+ * ============================================================================
+ *
+ * Commit-reveal dealing (supabase/migrations/20260106000001_commit_reveal_deals.sql):
+ *
+ * 1. The server draws the secret for the next deal and publishes
+ *    secretCommitment = sha256(serverSecret) on the room
+ *    (supabase/migrations/20260126000001_precommitted_server_secrets.sql).
+ * 2. Every seat submits random entropy (api.submit_entropy), recording the
+ *    secretCommitment it saw.
+ * 3. The server publishes the deal's commitment on the room before dealing:
+ *      material   = serverSecret:entropy0:entropy1:entropy2
+ *      commitment = sha256(material)
+ *      seed       = sha256('seed:' + material)
+ *    The round is dealt from shuffledDeck(seed) of the room's deck
+ *    (which 7s it keeps is a house rule, revealed with the seed).
+ * 4. After the round the secret and entropy are revealed in rooms.deal_seeds.
+ *
+ * verifyDeal recomputes all of it. A seat that kept its own entropy and the
+ * commitments it saw can also check those were not swapped. Since the
+ * secret was fixed before any entropy, the server can't pick the deal.
+ *
+ * Rounds dealt before 20260118000001_full_entropy_deals.sql, and practice
+ * rounds, have a 32-bit seed and a createSeededDeck (mulberry32) deck.
+ *
+ * ============================================================================
+ */
+
+import { Card, DEFAULT_RULES, RoomRules, Suit, createDeck, createSeededDeck, dealFromDeck } from './gameLogic';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** One rooms.deal_seeds entry; practice rounds only have round and seed */
+export interface DealReveal {
+  round: number;
+  seed: string | number;        // 64 hex characters; a 32-bit number for practice and older rounds
+  secretCommitment?: string;    // Published before entropy; missing from older reveals
+  commitment?: string;
+  serverSecret?: string;
+  entropy?: string[];
+  keptSevens?: Suit[];          // The deck's 7s; 7♠ and 7♥ in reveals from before house rules
+}
+
+/** What this seat recorded while the round was in play */
+export interface DealObservation {
+  position: number | null;
+  entropy: string | null;        // Entropy this seat submitted
+  secretCommitment: string | null; // Secret commitment shown when the entropy was sent
+  commitment: string | null;     // Commitment shown before the deal
+  firstFive: Card[] | null;      // Hand during trump selection
+}
+
+/** null means there was nothing to check against */
+export interface DealVerification {
+  secretCommitted: boolean | null;
+  secretCommitmentUnchanged: boolean | null;
+  commitmentValid: boolean | null;
+  seedValid: boolean | null;
+  entropyIncluded: boolean | null;
+  commitmentUnchanged: boolean | null;
+  handValid: boolean | null;
+  deck: Card[];
+  hands: Card[][];
+}
+
+// ============================================================================
+// COMMITMENT
+// ============================================================================
+
+/** 32 hex characters from the browser's secure random source */
+export function createEntropy(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  return Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function sha256Hex(text: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export function dealMaterial(serverSecret: string, entropy: string[]): string {
+  return [serverSecret, ...entropy].join(':');
+}
+
+export async function seedFromMaterial(material: string): Promise<string> {
+  return sha256Hex(`seed:${material}`);
+}
+
+// ============================================================================
+// DECK
+// ============================================================================
+
+/**
+ * Fisher-Yates shuffle of the room's deck, same as game.shuffled_deck. Each
+ * swap index comes from the first 32 bits of sha256(seed:counter); values
+ * past the largest multiple of (i + 1) are skipped so no index is favoured.
+ */
+export async function shuffledDeck(seed: string, rules: RoomRules = DEFAULT_RULES): Promise<Card[]> {
+  const deck = createDeck(rules);
+  let counter = 0;
+
+  for (let i = deck.length - 1; i > 0; i--) {
+    const limit = 2 ** 32 - (2 ** 32 % (i + 1));
+    let value: number;
+    do {
+      value = parseInt((await sha256Hex(`${seed}:${counter++}`)).slice(0, 8), 16);
+    } while (value >= limit);
+
+    const j = value % (i + 1);
+    [deck[i], deck[j]] = [deck[j], deck[i]];
+  }
+
+  return deck;
+}
+
+// ============================================================================
+// VERIFICATION
+// ============================================================================
+
+function sameCards(a: Card[], b: Card[]): boolean {
+  return a.length === b.length && a.every((c, i) => c.suit === b[i].suit && c.rank === b[i].rank);
+}
+
+/** Checks a revealed deal and returns the deck order and hands it produced */
+export async function verifyDeal(
+  reveal: DealReveal,
+  observation?: DealObservation
+): Promise<DealVerification> {
+  const rules = reveal.keptSevens ? { ...DEFAULT_RULES, keptSevens: reveal.keptSevens } : DEFAULT_RULES;
+  const deck = typeof reveal.seed === 'number'
+    ? createSeededDeck(reveal.seed, rules)
+    : await shuffledDeck(reveal.seed, rules);
+  const hands = dealFromDeck(deck);
+
+  let commitmentValid: boolean | null = null;
+  let seedValid: boolean | null = null;
+  if (reveal.commitment && reveal.serverSecret && reveal.entropy) {
+    const material = dealMaterial(reveal.serverSecret, reveal.entropy);
+    commitmentValid = (await sha256Hex(material)) === reveal.commitment;
+    const seed = await seedFromMaterial(material);
+    // Older rounds kept the hash's first 32 bits
+    seedValid = typeof reveal.seed === 'number'
+      ? parseInt(seed.slice(0, 8), 16) === reveal.seed
+      : seed === reveal.seed;
+  }
+
+  const secretCommitted = reveal.secretCommitment && reveal.serverSecret
+    ? (await sha256Hex(reveal.serverSecret)) === reveal.secretCommitment
+    : null;
+
+  const position = observation?.position ?? null;
+
+  return {
+    secretCommitted,
+    secretCommitmentUnchanged: observation?.secretCommitment
+      ? observation.secretCommitment === reveal.secretCommitment
+      : null,
+    commitmentValid,
+    seedValid,
+    entropyIncluded: observation?.entropy && reveal.entropy && position !== null
+      ? reveal.entropy[position] === observation.entropy
+      : null,
+    commitmentUnchanged: observation?.commitment
+      ? observation.commitment === reveal.commitment
+      : null,
+    handValid: observation?.firstFive && position !== null
+      ? sameCards(hands[position].slice(0, 5), observation.firstFive)
+      : null,
+    deck,
+    hands,
+  };
+}
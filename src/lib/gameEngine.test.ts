@@ -0,0 +1,379 @@
+import { describe, it, expect } from 'vitest';
+import { Card, DEFAULT_RULES, RoomRules, Suit, canReturnCard, createDeck } from './gameLogic';
+import {
+  EngineErrorCode,
+  EngineState,
+  GameAction,
+  applyAction,
+  createInitialState,
+  getActingPosition,
+  getPlayableCards,
+} from './gameEngine';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+// High enough that no single round ends the game
+const LONG_GAME: RoomRules = { ...DEFAULT_RULES, winningScore: 15 };
+
+/** Applies actions in order, failing the test on the first rejected one */
+function run(state: EngineState, ...actions: GameAction[]): EngineState {
+  return actions.reduce((current, action) => {
+    const result = applyAction(current, action);
+    if ('error' in result) throw new Error(`${action.type}: ${result.error.message}`);
+    return result.state;
+  }, state);
+}
+
+function expectError(state: EngineState, action: GameAction, code: EngineErrorCode, message: string) {
+  expect(applyAction(state, action)).toEqual({ ok: false, error: { code, message } });
+}
+
+/** Deals a round from the unshuffled deck: trump ♠, then the final two cards */
+function dealRound(state: EngineState, start: 'START_GAME' | 'START_NEW_ROUND' = 'START_GAME'): EngineState {
+  return run(
+    state,
+    { type: start, deck: createDeck(state.rules) },
+    { type: 'SELECT_TRUMP', position: (state.dealerIndex + 1) % 3, trump: '♠' },
+    { type: 'DEAL_FINAL', position: state.dealerIndex }
+  );
+}
+
+/** Plays the first legal card for whoever is to act until the round is over */
+function playRound(state: EngineState): EngineState {
+  while (state.status === 'playing') {
+    if (state.currentTrick.length === 3) {
+      state = run(state, { type: 'CLEAR_TRICK' });
+      continue;
+    }
+    const position = state.currentPlayerIndex;
+    state = run(state, { type: 'PLAY_CARD', position, card: getPlayableCards(state, position)[0] });
+  }
+  return state;
+}
+
+const sortedHand = (hand: Card[]) => hand.map(c => `${c.rank}${c.suit}`).sort();
+
+// ============================================================================
+// DEALING
+// ============================================================================
+
+describe('dealing', () => {
+  const deck = createDeck();
+
+  it('deals 5 cards each round-robin and sets the targets', () => {
+    const state = run(createInitialState(0), { type: 'START_GAME', deck });
+
+    expect(state.status).toBe('dealing');
+    expect(state.dealingPhase).toBe('trump_selection');
+    expect(state.seats.map(s => s.hand)).toEqual([0, 1, 2].map(p =>
+      [0, 1, 2, 3, 4].map(i => deck[i * 3 + p])
+    ));
+    expect(state.remainingCards).toEqual(deck.slice(15));
+    expect(state.seats.map(s => s.targetTricks)).toEqual([2, 5, 3]);
+    expect(getActingPosition(state)).toBe(1);
+  });
+
+  it('adds 3 cards each when trump is selected', () => {
+    const state = run(
+      createInitialState(0),
+      { type: 'START_GAME', deck },
+      { type: 'SELECT_TRUMP', position: 1, trump: '♥' }
+    );
+
+    expect(state.trumpSuit).toBe('♥');
+    expect(state.dealingPhase).toBe('dealing_3');
+    expect(state.seats.map(s => s.hand.slice(5))).toEqual([0, 1, 2].map(p =>
+      [0, 1, 2].map(i => deck[15 + i * 3 + p])
+    ));
+    expect(state.remainingCards).toEqual(deck.slice(24));
+    expect(getActingPosition(state)).toBe(0);
+  });
+
+  it('deals the last 2 cards each and hands the lead to the 5-trick player', () => {
+    const state = dealRound(createInitialState(0));
+
+    expect(state.status).toBe('playing');
+    expect(state.dealingPhase).toBe('playing');
+    expect(state.seats.map(s => s.hand.length)).toEqual([10, 10, 10]);
+    expect(state.seats.flatMap(s => sortedHand(s.hand)).sort()).toEqual(sortedHand(deck));
+    expect(state.remainingCards).toEqual([]);
+    expect(state.currentPlayerIndex).toBe(1);
+    expect(state.firstTrickLeader).toBe(1);
+    expect(state.cardPullState).toBeNull();
+  });
+
+  it('never modifies the input state', () => {
+    const state = createInitialState(0);
+    const before = JSON.stringify(state);
+    dealRound(state);
+    expect(JSON.stringify(state)).toBe(before);
+  });
+});
+
+// ============================================================================
+// PLAYING
+// ============================================================================
+
+describe('playing', () => {
+  it('keeps a finished trick on the table until it is cleared', () => {
+    let state = dealRound(createInitialState(0, LONG_GAME));
+    for (let i = 0; i < 3; i++) {
+      const position = state.currentPlayerIndex;
+      state = run(state, { type: 'PLAY_CARD', position, card: getPlayableCards(state, position)[0] });
+    }
+
+    const winner = state.completedTricks[0].winner;
+    expect(state.currentTrick).toHaveLength(3);
+    expect(state.currentPlayerIndex).toBe(winner);
+    expect(state.seats[winner].tricksWon).toBe(1);
+    expect(getActingPosition(state)).toBeNull();
+
+    state = run(state, { type: 'CLEAR_TRICK' });
+    expect(state.currentTrick).toEqual([]);
+    expect(getActingPosition(state)).toBe(winner);
+  });
+
+  it('records whether trump was led at the start', () => {
+    const state = dealRound(createInitialState(0, LONG_GAME));
+    const lead = getPlayableCards(state, 1)[0];
+    const next = run(state, { type: 'PLAY_CARD', position: 1, card: lead });
+    expect(next.trumpLedAtStart).toBe(lead.suit === '♠');
+  });
+
+  it('plays 10 tricks, scores the round and rotates the dealer', () => {
+    const dealt = dealRound(createInitialState(0, LONG_GAME));
+    const state = playRound(dealt);
+
+    expect(state.status).toBe('redistribution');
+    expect(state.completedTricks).toHaveLength(10);
+    expect(state.completedTricks.map(t => t.trickNumber)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    expect(state.seats.every(s => s.hand.length === 0)).toBe(true);
+    expect(state.seats.reduce((sum, s) => sum + s.tricksWon, 0)).toBe(10);
+    expect(state.seats.map(s => s.overachievementScore)).toEqual(
+      state.seats.map(s => s.tricksWon - s.targetTricks)
+    );
+    expect(state.previousRoundResults).toEqual(state.seats.map((s, position) => ({
+      position,
+      tricksWon: s.tricksWon,
+      targetTricks: s.targetTricks,
+    })));
+    expect(state.dealerIndex).toBe(1);
+    expect(state.roundNumber).toBe(2);
+  });
+
+  it('finishes the game after the last round of a match', () => {
+    const state = playRound(dealRound(createInitialState(0, { ...DEFAULT_RULES, roundLimit: 1 })));
+    expect(state.status).toBe('finished');
+    expect(state.dealingPhase).toBe('finished');
+  });
+
+  it('deals the next round with new targets and carries the scores', () => {
+    const ended = playRound(dealRound(createInitialState(0, { ...LONG_GAME, cardPull: false })));
+    const state = dealRound(ended, 'START_NEW_ROUND');
+
+    expect(state.status).toBe('playing');
+    expect(state.seats.map(s => s.targetTricks)).toEqual([3, 2, 5]);
+    expect(state.seats.map(s => s.tricksWon)).toEqual([0, 0, 0]);
+    expect(state.seats.map(s => s.overachievementScore)).toEqual(
+      ended.seats.map(s => s.overachievementScore)
+    );
+    expect(state.currentPlayerIndex).toBe(2);
+  });
+});
+
+// ============================================================================
+// CARD PULL
+// ============================================================================
+
+describe('card pull', () => {
+  // Round 2, dealer 1: seat 0 took 2 extra tricks, seat 1 fell short
+  const afterRoundOne: EngineState = {
+    ...createInitialState(1, LONG_GAME),
+    status: 'redistribution',
+    dealingPhase: 'redistribution',
+    roundNumber: 2,
+    previousRoundResults: [
+      { position: 0, tricksWon: 4, targetTricks: 2 },
+      { position: 1, tricksWon: 3, targetTricks: 5 },
+      { position: 2, tricksWon: 3, targetTricks: 3 },
+    ],
+  };
+
+  it('starts after the final deal when someone over- and someone under-scored', () => {
+    const state = dealRound(afterRoundOne, 'START_NEW_ROUND');
+
+    expect(state.status).toBe('dealing');
+    expect(state.dealingPhase).toBe('card_pull');
+    expect(state.cardPullState?.pullers).toEqual([{ position: 0, extraTricks: 2, pullsRemaining: 2 }]);
+    expect(state.cardPullState?.underScorers).toEqual([{ position: 1 }]);
+    expect(getActingPosition(state)).toBe(0);
+  });
+
+  it('is skipped when the room does not play it', () => {
+    const state = dealRound({ ...afterRoundOne, rules: { ...LONG_GAME, cardPull: false } }, 'START_NEW_ROUND');
+    expect(state.dealingPhase).toBe('playing');
+    expect(state.cardPullState).toBeNull();
+  });
+
+  it('selects a target, pulls and returns once per extra trick, then plays', () => {
+    let state = dealRound(afterRoundOne, 'START_NEW_ROUND');
+
+    // First pull: give back the pulled card itself
+    state = run(state, { type: 'SELECT_PULL_TARGET', position: 0, target: 1 });
+    expect(state.cardPullState?.phase).toBe('selecting_card');
+    expect(state.cardPullState?.selectedTarget).toBe(1);
+
+    const firstPulled = state.seats[1].hand[3];
+    state = run(state, { type: 'PULL_CARD', position: 0, cardIndex: 3 });
+    expect(state.cardPullState?.phase).toBe('returning_card');
+    expect(state.cardPullState?.pulledCard).toEqual(firstPulled);
+
+    const handsBefore = state.seats.map(s => s.hand);
+    state = run(state, { type: 'RETURN_CARD', position: 0, card: firstPulled });
+    expect(state.seats.map(s => s.hand)).toEqual(handsBefore);
+    expect(state.cardPullState?.phase).toBe('selecting_target');
+    expect(state.cardPullState?.pullers[0].pullsRemaining).toBe(1);
+
+    // Second pull: swap in a card the rules allow
+    state = run(
+      state,
+      { type: 'SELECT_PULL_TARGET', position: 0, target: 1 },
+      { type: 'PULL_CARD', position: 0, cardIndex: 0 }
+    );
+    const pulled = state.cardPullState!.pulledCard!;
+    const hand = state.seats[0].hand;
+    const returned = hand.find(c => canReturnCard(c, pulled, hand).valid)!;
+    state = run(state, { type: 'RETURN_CARD', position: 0, card: returned });
+
+    expect(state.status).toBe('playing');
+    expect(state.dealingPhase).toBe('playing');
+    expect(state.cardPullState).toBeNull();
+    expect(state.seats[0].hand).toContainEqual(pulled);
+    expect(state.seats[0].hand).not.toContainEqual(returned);
+    expect(state.seats[1].hand).toContainEqual(returned);
+    expect(state.seats[1].hand).not.toContainEqual(pulled);
+    expect(state.seats.map(s => s.hand.length)).toEqual([10, 10, 10]);
+  });
+});
+
+// ============================================================================
+// ERRORS
+// ============================================================================
+
+describe('errors', () => {
+  const deck = createDeck();
+  const waiting = createInitialState(0, LONG_GAME);
+  const trumpSelection = run(waiting, { type: 'START_GAME', deck });
+  const playing = dealRound(waiting);
+  const cardPull = dealRound({
+    ...createInitialState(1, LONG_GAME),
+    status: 'redistribution',
+    dealingPhase: 'redistribution',
+    roundNumber: 2,
+    previousRoundResults: [
+      { position: 0, tricksWon: 4, targetTricks: 2 },
+      { position: 1, tricksWon: 3, targetTricks: 5 },
+      { position: 2, tricksWon: 3, targetTricks: 3 },
+    ],
+  }, 'START_NEW_ROUND');
+
+  it('WRONG_PHASE', () => {
+    expectError(trumpSelection, { type: 'START_GAME', deck }, 'WRONG_PHASE', 'Game has already started');
+    expectError(playing, { type: 'SELECT_TRUMP', position: 1, trump: '♠' }, 'WRONG_PHASE', 'Trump has already been selected');
+    expectError(trumpSelection, { type: 'DEAL_FINAL', position: 0 }, 'WRONG_PHASE', 'Final cards have already been dealt');
+    expectError(
+      trumpSelection,
+      { type: 'PLAY_CARD', position: 1, card: trumpSelection.seats[1].hand[0] },
+      'WRONG_PHASE',
+      'Cards cannot be played right now'
+    );
+    expectError(playing, { type: 'SELECT_PULL_TARGET', position: 0, target: 1 }, 'WRONG_PHASE', 'Invalid action');
+    expectError(playing, { type: 'START_NEW_ROUND', deck }, 'WRONG_PHASE', 'Round has already started');
+  });
+
+  it('NOT_YOUR_TURN', () => {
+    expectError(
+      trumpSelection,
+      { type: 'SELECT_TRUMP', position: 0, trump: '♠' },
+      'NOT_YOUR_TURN',
+      'Only the 5-trick player can select trump'
+    );
+    const dealingThree = run(trumpSelection, { type: 'SELECT_TRUMP', position: 1, trump: '♠' });
+    expectError(dealingThree, { type: 'DEAL_FINAL', position: 1 }, 'NOT_YOUR_TURN', 'Only the dealer can deal the final cards');
+    expectError(
+      playing,
+      { type: 'PLAY_CARD', position: 0, card: playing.seats[0].hand[0] },
+      'NOT_YOUR_TURN',
+      'Not your turn'
+    );
+    expectError(cardPull, { type: 'SELECT_PULL_TARGET', position: 2, target: 1 }, 'NOT_YOUR_TURN', 'Not your turn to pull');
+  });
+
+  it('INVALID_DECK', () => {
+    expectError(waiting, { type: 'START_GAME', deck: deck.slice(1) }, 'INVALID_DECK', 'Invalid deck');
+    expectError(
+      waiting,
+      { type: 'START_GAME', deck: [...deck.slice(1), { suit: '♦', rank: '7' }] },
+      'INVALID_DECK',
+      'Invalid deck'
+    );
+  });
+
+  it('INVALID_TRUMP', () => {
+    expectError(
+      trumpSelection,
+      { type: 'SELECT_TRUMP', position: 1, trump: 'X' as Suit },
+      'INVALID_TRUMP',
+      'Invalid trump suit'
+    );
+  });
+
+  it('ILLEGAL_MOVE', () => {
+    const notHeld = playing.seats[0].hand[0];
+    expectError(playing, { type: 'PLAY_CARD', position: 1, card: notHeld }, 'ILLEGAL_MOVE', 'Card is not in your hand');
+
+    // Seat 2 holds the led suit, so anything else is refused
+    const led = run(playing, { type: 'PLAY_CARD', position: 1, card: getPlayableCards(playing, 1)[0] });
+    const leadSuit = led.currentTrick[0].card.suit;
+    const offSuit = led.seats[2].hand.find(c => c.suit !== leadSuit)!;
+    expect(led.seats[2].hand.some(c => c.suit === leadSuit)).toBe(true);
+    expectError(led, { type: 'PLAY_CARD', position: 2, card: offSuit }, 'ILLEGAL_MOVE', 'Must follow suit');
+  });
+
+  it('TRICK_NOT_CLEARED', () => {
+    let state = playing;
+    for (let i = 0; i < 3; i++) {
+      const position = state.currentPlayerIndex;
+      state = run(state, { type: 'PLAY_CARD', position, card: getPlayableCards(state, position)[0] });
+    }
+    const position = state.currentPlayerIndex;
+    expectError(
+      state,
+      { type: 'PLAY_CARD', position, card: state.seats[position].hand[0] },
+      'TRICK_NOT_CLEARED',
+      'Wait for the trick to clear'
+    );
+  });
+
+  it('INVALID_TARGET', () => {
+    expectError(cardPull, { type: 'SELECT_PULL_TARGET', position: 0, target: 2 }, 'INVALID_TARGET', 'Invalid target');
+  });
+
+  it('INVALID_CARD_POSITION', () => {
+    const selecting = run(cardPull, { type: 'SELECT_PULL_TARGET', position: 0, target: 1 });
+    expectError(selecting, { type: 'PULL_CARD', position: 0, cardIndex: 10 }, 'INVALID_CARD_POSITION', 'Invalid card position');
+    expectError(selecting, { type: 'PULL_CARD', position: 0, cardIndex: -1 }, 'INVALID_CARD_POSITION', 'Invalid card position');
+  });
+
+  it('INVALID_RETURN', () => {
+    const returning = run(
+      cardPull,
+      { type: 'SELECT_PULL_TARGET', position: 0, target: 1 },
+      { type: 'PULL_CARD', position: 0, cardIndex: 0 }
+    );
+    const notHeld = returning.seats[2].hand[0];
+    expectError(returning, { type: 'RETURN_CARD', position: 0, card: notHeld }, 'INVALID_RETURN', 'Card is not in your hand');
+  });
+});
@@ -0,0 +1,558 @@
+/**
+ * ============================================================================
+ * 3-2-5 Game Engine
+ * ============================================================================
+ *
+ * The whole round flow as a pure reducer:
+ *
+ *   applyAction(state, action) → { ok: true, state } | { ok: false, error }
+ *
+ * States and actions are plain JSON (no classes, no functions, no Dates), so
+ * they can be stored, sent to a Web Worker or replayed in tests. The engine
+ * never touches React, Supabase or randomness: actions that deal take the
+ * shuffled deck as input.
+ *
+ * FLOW (status / dealingPhase):
+ * waiting
+ *   → dealing / trump_selection   (START_GAME, START_NEW_ROUND: 5 cards each)
+ *   → dealing / dealing_3         (SELECT_TRUMP: 3 more cards each)
+ *   → dealing / card_pull         (DEAL_FINAL: 2 more cards, if anyone pulls)
+ *   → playing / playing           (DEAL_FINAL or the last RETURN_CARD)
+ *   → redistribution              (last PLAY_CARD of the round)
+ *   → finished                    (someone reached the winning score, or the
+ *                                  last round of a match was played)
+ *
+ * USED BY: the UI's checks before sending an action (useGameActions, from
+ * the seat's own view), game notation replays and the analysis board. Bots
+ * move on the server, which validates every action itself.
+ *
+ * The api.* RPCs (supabase/migrations) implement the same transitions with
+ * the same error messages. Keep the two in sync when changing a rule.
+ *
+ * ============================================================================
+ */
+
+import {
+  Card,
+  Suit,
+  CardPullState,
+  PreviousRoundResult,
+  RoomRules,
+  DEFAULT_RULES,
+  createDeck,
+  evaluateTrick,
+  isValidMove,
+  canReturnCard,
+  getTargetTricks,
+  getFiveTrickPlayerPosition,
+  calculatePullEligibility,
+  initializeCardPullState,
+  isGameOver,
+} from './gameLogic';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export type EngineStatus = 'waiting' | 'dealing' | 'playing' | 'redistribution' | 'finished';
+
+export type EngineDealingPhase =
+  | 'waiting'
+  | 'trump_selection'
+  | 'dealing_3'
+  | 'card_pull'
+  | 'playing'
+  | 'redistribution'
+  | 'finished';
+
+export type TrickPlay = { position: number; card: Card };
+
+/** One seat, including its private hand */
+export interface EngineSeat {
+  hand: Card[];
+  tricksWon: number;
+  targetTricks: number;
+  overachievementScore: number;
+}
+
+/** A finished trick of the current round */
+export interface CompletedTrick {
+  trickNumber: number;            // 1-10 within the round
+  cards: TrickPlay[];
+  winner: number;
+}
+
+/** Full game state, hidden information included */
+export interface EngineState {
+  status: EngineStatus;
+  dealingPhase: EngineDealingPhase;
+  roundNumber: number;
+  dealerIndex: number;
+  currentPlayerIndex: number;
+  firstTrickLeader: number | null;
+  trumpSuit: Suit | null;
+  trumpLedAtStart: boolean | null;
+  currentTrick: TrickPlay[];      // Stays full (3 cards) until CLEAR_TRICK
+  completedTricks: CompletedTrick[];
+  previousRoundResults: PreviousRoundResult[] | null;
+  cardPullState: CardPullState | null;
+  remainingCards: Card[];         // Undealt cards of the current round
+  seats: EngineSeat[];            // Indexed by position
+  rules: RoomRules;
+}
+
+export type GameAction =
+  | { type: 'START_GAME'; deck: Card[] }
+  | { type: 'SELECT_TRUMP'; position: number; trump: Suit }
+  | { type: 'DEAL_FINAL'; position: number }
+  | { type: 'PLAY_CARD'; position: number; card: Card }
+  | { type: 'CLEAR_TRICK' }
+  | { type: 'SELECT_PULL_TARGET'; position: number; target: number }
+  | { type: 'PULL_CARD'; position: number; cardIndex: number }
+  | { type: 'RETURN_CARD'; position: number; card: Card }
+  | { type: 'START_NEW_ROUND'; deck: Card[] };
+
+export type EngineErrorCode =
+  | 'WRONG_PHASE'
+  | 'NOT_YOUR_TURN'
+  | 'INVALID_DECK'
+  | 'INVALID_TRUMP'
+  | 'ILLEGAL_MOVE'
+  | 'TRICK_NOT_CLEARED'
+  | 'INVALID_TARGET'
+  | 'INVALID_CARD_POSITION'
+  | 'INVALID_RETURN';
+
+export interface EngineError {
+  code: EngineErrorCode;
+  message: string;
+}
+
+export type EngineResult =
+  | { ok: true; state: EngineState }
+  | { ok: false; error: EngineError };
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const SUITS: Suit[] = ['♠', '♥', '♦', '♣'];
+const CARDS_PER_HAND = 10;
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function fail(code: EngineErrorCode, message: string): EngineResult {
+  return { ok: false, error: { code, message } };
+}
+
+function ok(state: EngineState): EngineResult {
+  return { ok: true, state };
+}
+
+function sameCard(a: Card, b: Card): boolean {
+  return a.suit === b.suit && a.rank === b.rank;
+}
+
+function hasCard(hand: Card[], card: Card): boolean {
+  return hand.some(c => sameCard(c, card));
+}
+
+/** Removes one copy of a card, keeping the order of the rest */
+function removeCard(hand: Card[], card: Card): Card[] {
+  const index = hand.findIndex(c => sameCard(c, card));
+  return index === -1 ? hand : [...hand.slice(0, index), ...hand.slice(index + 1)];
+}
+
+/** Cards for one seat when dealing `count` cards round-robin: index i*3 + position */
+function dealSlice(cards: Card[], count: number, position: number): Card[] {
+  return Array.from({ length: count }, (_, i) => cards[i * 3 + position]);
+}
+
+function replaceSeat(seats: EngineSeat[], position: number, changes: Partial<EngineSeat>): EngineSeat[] {
+  return seats.map((seat, i) => (i === position ? { ...seat, ...changes } : seat));
+}
+
+/** The deck must be exactly the 30 cards of createDeck(rules), in any order */
+function isFullDeck(deck: Card[], rules: RoomRules): boolean {
+  const full = createDeck(rules);
+  return deck.length === full.length && full.every(card => hasCard(deck, card));
+}
+
+/** Position of the puller whose turn it is, or null outside card pull */
+function activePuller(state: EngineState): number | null {
+  const cardPull = state.cardPullState;
+  return cardPull?.pullers[cardPull.currentPullerIndex]?.position ?? null;
+}
+
+// ============================================================================
+// STATE CREATION & QUERIES
+// ============================================================================
+
+/** A room with 3 seated players that has not started yet */
+export function createInitialState(
+  dealerIndex: number = 0,
+  rules: RoomRules = DEFAULT_RULES
+): EngineState {
+  return {
+    status: 'waiting',
+    dealingPhase: 'waiting',
+    roundNumber: 1,
+    dealerIndex,
+    currentPlayerIndex: 0,
+    firstTrickLeader: null,
+    trumpSuit: null,
+    trumpLedAtStart: null,
+    currentTrick: [],
+    completedTricks: [],
+    previousRoundResults: null,
+    cardPullState: null,
+    remainingCards: [],
+    seats: [0, 1, 2].map(() => ({
+      hand: [],
+      tricksWon: 0,
+      targetTricks: 0,
+      overachievementScore: 0,
+    })),
+    rules,
+  };
+}
+
+/**
+ * Position that must act next, or null when nobody is waited on
+ * (waiting room, a full trick waiting to be cleared, between rounds).
+ */
+export function getActingPosition(state: EngineState): number | null {
+  switch (state.dealingPhase) {
+    case 'trump_selection':
+      return getFiveTrickPlayerPosition(state.dealerIndex);
+    case 'dealing_3':
+      return state.dealerIndex;
+    case 'card_pull':
+      return activePuller(state);
+    case 'playing':
+      return state.currentTrick.length < 3 ? state.currentPlayerIndex : null;
+    default:
+      return null;
+  }
+}
+
+/** Cards the acting seat may legally play, or [] when no card may be played */
+export function getPlayableCards(state: EngineState, position: number): Card[] {
+  if (state.status !== 'playing' || getActingPosition(state) !== position) return [];
+
+  const hand = state.seats[position].hand;
+  const trickIndex = CARDS_PER_HAND - hand.length;
+  return hand.filter(card =>
+    isValidMove(card, hand, state.currentTrick, state.trumpSuit, trickIndex, state.trumpLedAtStart, state.rules).valid
+  );
+}
+
+// ============================================================================
+// ROUND FLOW
+// ============================================================================
+
+/** Shuffled deck in: 5 cards each, targets set, trump selection starts */
+function dealFirstFive(state: EngineState, deck: Card[]): EngineState {
+  return {
+    ...state,
+    status: 'dealing',
+    dealingPhase: 'trump_selection',
+    trumpSuit: null,
+    trumpLedAtStart: null,
+    currentTrick: [],
+    completedTricks: [],
+    remainingCards: deck.slice(15),
+    seats: state.seats.map((seat, position) => ({
+      ...seat,
+      hand: dealSlice(deck, 5, position),
+      targetTricks: getTargetTricks(position, state.dealerIndex),
+      tricksWon: 0,
+    })),
+  };
+}
+
+/** Scores the round, then finishes the game or moves to redistribution */
+function endRound(state: EngineState): EngineState {
+  const seats = state.seats.map(seat => ({
+    ...seat,
+    overachievementScore: seat.overachievementScore + seat.tricksWon - seat.targetTricks,
+  }));
+
+  if (isGameOver(state.roundNumber, seats.map(seat => seat.overachievementScore), state.rules)) {
+    return { ...state, seats, status: 'finished', dealingPhase: 'finished' };
+  }
+
+  return {
+    ...state,
+    seats,
+    status: 'redistribution',
+    dealingPhase: 'redistribution',
+    // Rotate dealer: 5-trick player becomes new dealer
+    dealerIndex: (state.dealerIndex + 1) % 3,
+    roundNumber: state.roundNumber + 1,
+    previousRoundResults: state.seats.map((seat, position) => ({
+      position,
+      tricksWon: seat.tricksWon,
+      targetTricks: seat.targetTricks,
+    })),
+  };
+}
+
+// ============================================================================
+// ACTIONS
+// ============================================================================
+
+function startGame(state: EngineState, deck: Card[]): EngineResult {
+  if (state.status !== 'waiting') return fail('WRONG_PHASE', 'Game has already started');
+  if (!isFullDeck(deck, state.rules)) return fail('INVALID_DECK', 'Invalid deck');
+  return ok(dealFirstFive(state, deck));
+}
+
+function selectTrump(state: EngineState, position: number, trump: Suit): EngineResult {
+  if (state.dealingPhase !== 'trump_selection') {
+    return fail('WRONG_PHASE', 'Trump has already been selected');
+  }
+  if (position !== getFiveTrickPlayerPosition(state.dealerIndex)) {
+    return fail('NOT_YOUR_TURN', 'Only the 5-trick player can select trump');
+  }
+  if (!SUITS.includes(trump)) return fail('INVALID_TRUMP', 'Invalid trump suit');
+
+  return ok({
+    ...state,
+    trumpSuit: trump,
+    dealingPhase: 'dealing_3',
+    remainingCards: state.remainingCards.slice(9),
+    seats: state.seats.map((seat, p) => ({
+      ...seat,
+      hand: [...seat.hand, ...dealSlice(state.remainingCards, 3, p)],
+    })),
+  });
+}
+
+function dealFinal(state: EngineState, position: number): EngineResult {
+  if (state.dealingPhase !== 'dealing_3') {
+    return fail('WRONG_PHASE', 'Final cards have already been dealt');
+  }
+  if (position !== state.dealerIndex) {
+    return fail('NOT_YOUR_TURN', 'Only the dealer can deal the final cards');
+  }
+
+  // Card pull only after round 1, and only with both over- and under-scorers
+  let cardPullState: CardPullState | null = null;
+  if (state.roundNumber > 1 && state.previousRoundResults) {
+    const { overScorers, underScorers } =
+      calculatePullEligibility(state.previousRoundResults, state.dealerIndex, state.rules);
+    if (overScorers.length > 0 && underScorers.length > 0) {
+      cardPullState = initializeCardPullState(overScorers, underScorers);
+    }
+  }
+
+  // 5-trick player leads first trick
+  const firstLeader = getFiveTrickPlayerPosition(state.dealerIndex);
+
+  return ok({
+    ...state,
+    status: cardPullState ? 'dealing' : 'playing',
+    dealingPhase: cardPullState ? 'card_pull' : 'playing',
+    currentPlayerIndex: firstLeader,
+    firstTrickLeader: firstLeader,
+    trumpLedAtStart: null,
+    cardPullState,
+    remainingCards: [],
+    seats: state.seats.map((seat, p) => ({
+      ...seat,
+      hand: [...seat.hand, ...dealSlice(state.remainingCards, 2, p)],
+    })),
+  });
+}
+
+function playCard(state: EngineState, position: number, card: Card): EngineResult {
+  if (state.status !== 'playing') return fail('WRONG_PHASE', 'Cards cannot be played right now');
+  if (position !== state.currentPlayerIndex) return fail('NOT_YOUR_TURN', 'Not your turn');
+  if (state.currentTrick.length >= 3) return fail('TRICK_NOT_CLEARED', 'Wait for the trick to clear');
+
+  const hand = state.seats[position].hand;
+  if (!hasCard(hand, card)) return fail('ILLEGAL_MOVE', 'Card is not in your hand');
+
+  const trickIndex = CARDS_PER_HAND - hand.length;
+  const validation = isValidMove(
+    card, hand, state.currentTrick, state.trumpSuit, trickIndex, state.trumpLedAtStart, state.rules
+  );
+  if (!validation.valid) return fail('ILLEGAL_MOVE', validation.reason ?? 'Invalid move');
+
+  const newHand = removeCard(hand, card);
+  const trick = [...state.currentTrick, { position, card }];
+  const seats = replaceSeat(state.seats, position, { hand: newHand });
+
+  // Trick not complete: move to next player
+  if (trick.length < 3) {
+    return ok({
+      ...state,
+      seats,
+      currentTrick: trick,
+      currentPlayerIndex: (position + 1) % 3,
+      // Track if trump was led on first trick
+      trumpLedAtStart: trickIndex === 0 && state.currentTrick.length === 0
+        ? card.suit === state.trumpSuit
+        : state.trumpLedAtStart,
+    });
+  }
+
+  // Trick complete: award it and keep it on the table until cleared
+  const winner = evaluateTrick(trick, state.trumpSuit);
+  const next: EngineState = {
+    ...state,
+    seats: replaceSeat(seats, winner, { tricksWon: seats[winner].tricksWon + 1 }),
+    currentTrick: trick,
+    currentPlayerIndex: winner,
+    completedTricks: [
+      ...state.completedTricks,
+      { trickNumber: CARDS_PER_HAND - newHand.length, cards: trick, winner },
+    ],
+  };
+
+  return ok(newHand.length === 0 ? endRound(next) : next);
+}
+
+function clearTrick(state: EngineState): EngineResult {
+  // Clearing an empty or partial trick is a harmless no-op, as on the server
+  if (state.currentTrick.length !== 3) return ok(state);
+  return ok({ ...state, currentTrick: [] });
+}
+
+/** The room must be in the given card pull step with this seat pulling */
+function requirePuller(
+  state: EngineState,
+  position: number,
+  phase: CardPullState['phase']
+): EngineError | null {
+  if (state.dealingPhase !== 'card_pull' || state.cardPullState?.phase !== phase) {
+    return { code: 'WRONG_PHASE', message: 'Invalid action' };
+  }
+  if (activePuller(state) !== position) {
+    return { code: 'NOT_YOUR_TURN', message: 'Not your turn to pull' };
+  }
+  return null;
+}
+
+function selectPullTarget(state: EngineState, position: number, target: number): EngineResult {
+  const error = requirePuller(state, position, 'selecting_target');
+  if (error) return { ok: false, error };
+
+  if (!state.cardPullState.underScorers.some(u => u.position === target)) {
+    return fail('INVALID_TARGET', 'Invalid target');
+  }
+
+  return ok({
+    ...state,
+    cardPullState: { ...state.cardPullState, phase: 'selecting_card', selectedTarget: target },
+  });
+}
+
+function pullCard(state: EngineState, position: number, cardIndex: number): EngineResult {
+  const error = requirePuller(state, position, 'selecting_card');
+  if (error) return { ok: false, error };
+
+  const targetHand = state.seats[state.cardPullState.selectedTarget].hand;
+  if (!Number.isInteger(cardIndex) || cardIndex < 0 || cardIndex >= targetHand.length) {
+    return fail('INVALID_CARD_POSITION', 'Invalid card position');
+  }
+
+  return ok({
+    ...state,
+    cardPullState: {
+      ...state.cardPullState,
+      phase: 'returning_card',
+      pulledCard: targetHand[cardIndex],
+      pulledCardIndex: cardIndex,
+    },
+  });
+}
+
+function returnCard(state: EngineState, position: number, card: Card): EngineResult {
+  const error = requirePuller(state, position, 'returning_card');
+  if (error) return { ok: false, error };
+
+  const cardPull = state.cardPullState;
+  const pulled = cardPull.pulledCard;
+  const target = cardPull.selectedTarget;
+  const hand = state.seats[position].hand;
+
+  if (!hasCard(hand, card) && !sameCard(card, pulled)) {
+    return fail('INVALID_RETURN', 'Card is not in your hand');
+  }
+  const validation = canReturnCard(card, pulled, hand);
+  if (!validation.valid) return fail('INVALID_RETURN', validation.reason ?? 'Invalid return');
+
+  // Puller swaps the returned card for the pulled one; target the reverse.
+  // Giving back the pulled card itself leaves both hands as they were.
+  let seats = state.seats;
+  if (!sameCard(card, pulled)) {
+    seats = replaceSeat(seats, position, { hand: [...removeCard(hand, card), pulled] });
+    seats = replaceSeat(seats, target, { hand: [...removeCard(seats[target].hand, pulled), card] });
+  }
+
+  const pullers = cardPull.pullers.map((p, i) =>
+    i === cardPull.currentPullerIndex ? { ...p, pullsRemaining: p.pullsRemaining - 1 } : p
+  );
+
+  // Same puller has more pulls, otherwise move to the next puller
+  const pullerIndex = pullers[cardPull.currentPullerIndex].pullsRemaining <= 0
+    ? cardPull.currentPullerIndex + 1
+    : cardPull.currentPullerIndex;
+
+  if (pullerIndex < pullers.length) {
+    return ok({
+      ...state,
+      seats,
+      cardPullState: {
+        ...cardPull,
+        pullers,
+        currentPullerIndex: pullerIndex,
+        phase: 'selecting_target',
+        selectedTarget: null,
+        pulledCard: null,
+        pulledCardIndex: null,
+      },
+    });
+  }
+
+  // All pulls complete: transition to playing
+  return ok({ ...state, seats, status: 'playing', dealingPhase: 'playing', cardPullState: null });
+}
+
+function startNewRound(state: EngineState, deck: Card[]): EngineResult {
+  if (state.status !== 'redistribution') return fail('WRONG_PHASE', 'Round has already started');
+  if (!isFullDeck(deck, state.rules)) return fail('INVALID_DECK', 'Invalid deck');
+  return ok(dealFirstFive(state, deck));
+}
+
+// ============================================================================
+// REDUCER
+// ============================================================================
+
+/** Applies one action. The input state is never modified. */
+export function applyAction(state: EngineState, action: GameAction): EngineResult {
+  switch (action.type) {
+    case 'START_GAME':
+      return startGame(state, action.deck);
+    case 'SELECT_TRUMP':
+      return selectTrump(state, action.position, action.trump);
+    case 'DEAL_FINAL':
+      return dealFinal(state, action.position);
+    case 'PLAY_CARD':
+      return playCard(state, action.position, action.card);
+    case 'CLEAR_TRICK':
+      return clearTrick(state);
+    case 'SELECT_PULL_TARGET':
+      return selectPullTarget(state, action.position, action.target);
+    case 'PULL_CARD':
+      return pullCard(state, action.position, action.cardIndex);
+    case 'RETURN_CARD':
+      return returnCard(state, action.position, action.card);
+    case 'START_NEW_ROUND':
+      return startNewRound(state, action.deck);
+  }
+}
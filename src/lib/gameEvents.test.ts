@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import { Card, cardToString, stringToCard } from './gameLogic';
+import { GameEventRecord, reconstructRound } from './gameEvents';
+
+function cards(notation: string): Card[] {
+  return notation.split(' ').map(s => stringToCard(s)!);
+}
+
+function deal(seat: number, stage: 'first_five' | 'three' | 'final', notation: string): GameEventRecord {
+  return {
+    round_number: 2,
+    seat,
+    private_to: seat,
+    event_type: 'deal',
+    payload: { stage, cards: cards(notation), ...(stage === 'first_five' ? { dealerIndex: 1 } : {}) },
+  };
+}
+
+// Round 2, dealer 1: seat 2 chooses trump, seat 0 pulls 9♦ from seat 1 and returns 8♣
+const ROUND: GameEventRecord[] = [
+  deal(0, 'first_five', 'A♠ K♠ Q♠ J♠ 10♠'),
+  deal(1, 'first_five', 'A♥ K♥ Q♥ J♥ 10♥'),
+  deal(2, 'first_five', 'A♦ K♦ Q♦ J♦ 10♦'),
+  { round_number: 2, seat: 2, private_to: null, event_type: 'trump_select', payload: { trump: '♦' } },
+  deal(0, 'three', '9♠ 8♠ 7♠'),
+  deal(1, 'three', '9♥ 8♥ 7♥'),
+  deal(2, 'three', 'A♣ K♣ Q♣'),
+  deal(0, 'final', 'J♣ 8♣'),
+  deal(1, 'final', '9♦ 8♦'),
+  deal(2, 'final', '10♣ 9♣'),
+  { round_number: 2, seat: 0, private_to: null, event_type: 'pull_target', payload: { target: 1 } },
+  {
+    round_number: 2, seat: 0, private_to: 0, event_type: 'pulled_card',
+    payload: { target: 1, cardIndex: 10, card: stringToCard('9♦')! },
+  },
+  {
+    round_number: 2, seat: 0, private_to: 0, event_type: 'returned_card',
+    payload: { target: 1, card: stringToCard('8♣')!, pulledCard: stringToCard('9♦')! },
+  },
+];
+
+const notation = (hand: Card[] | null) => hand?.map(cardToString).join(' ') ?? null;
+
+describe('reconstructRound', () => {
+  it('rebuilds the deal, trump and exchanges of a round', () => {
+    const history = reconstructRound(ROUND, 2);
+
+    expect(history.dealerIndex).toBe(1);
+    expect(history.trumpSuit).toBe('♦');
+    expect(history.trumpChosenBy).toBe(2);
+    expect(notation(history.dealtHands[1])).toBe('A♥ K♥ Q♥ J♥ 10♥ 9♥ 8♥ 7♥ 9♦ 8♦');
+    expect(history.exchanges).toEqual([
+      { puller: 0, target: 1, pulledCard: stringToCard('9♦'), returnedCard: stringToCard('8♣') },
+    ]);
+    expect(notation(history.startingHands[0])).toBe('A♠ K♠ Q♠ J♠ 10♠ 9♠ 8♠ 7♠ J♣ 9♦');
+    expect(notation(history.startingHands[1])).toBe('A♥ K♥ Q♥ J♥ 10♥ 9♥ 8♥ 7♥ 8♦ 8♣');
+    expect(notation(history.startingHands[2])).toBe(notation(history.dealtHands[2]));
+  });
+
+  it('hides hands the reader may not see yet', () => {
+    // What seat 1 can read while the round is in play
+    const visible = ROUND.filter(e => e.private_to === null || e.private_to === 1);
+    const history = reconstructRound(visible, 2);
+
+    expect(history.dealtHands.map(h => h !== null)).toEqual([false, true, false]);
+    expect(history.exchanges[0].pulledCard).toBeNull();
+    expect(history.startingHands[1]).toBeNull();
+  });
+
+  it('ignores other rounds', () => {
+    expect(reconstructRound(ROUND, 1).dealtHands).toEqual([null, null, null]);
+  });
+});
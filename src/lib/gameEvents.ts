@@ -0,0 +1,144 @@
+/**
+ * ============================================================================
+ * 3-2-5 Game Event Log
+ * ============================================================================
+ *
+ * Typed view of api.game_events (supabase/migrations/20260108000001_game_events.sql),
+ * the append-only record of every action in a room. Rebuilds what happened
+ * in a round before the first card was played: the deal, the trump choice
+ * and the card pull exchanges.
+ *
+ * Deal and exchange events are private to one seat until their round ends,
+ * so a round still in play only shows what the reader's own seat may see.
+ *
+ * ============================================================================
+ */
+
+import { Card, Suit } from './gameLogic';
+import { TurnStage } from './turnTimers';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+interface EventBase {
+  round_number: number;
+  seat: number | null;
+  private_to: number | null;
+}
+
+export type GameEventRecord = EventBase & (
+  | { event_type: 'deal'; payload: { stage: 'first_five' | 'three' | 'final'; cards: Card[]; dealerIndex?: number } }
+  | { event_type: 'trump_select'; payload: { trump: Suit } }
+  | { event_type: 'pull_target'; payload: { target: number } }
+  | { event_type: 'pulled_card'; payload: { target: number; cardIndex: number; card: Card } }
+  | { event_type: 'returned_card'; payload: { target: number; card: Card; pulledCard: Card } }
+  | { event_type: 'card_play'; payload: { card: Card; trickNumber: number } }
+  | { event_type: 'round_end'; payload: { results: RoundResult[] } }
+  | { event_type: 'timeout'; payload: { stage: TurnStage } }
+);
+
+export interface RoundResult {
+  position: number;
+  tricksWon: number;
+  targetTricks: number;
+  score: number;
+}
+
+/** One pull: the cards are null when the reader may not see them */
+export interface CardExchange {
+  puller: number;
+  target: number;
+  pulledCard: Card | null;
+  returnedCard: Card | null;
+}
+
+export interface RoundHistory {
+  roundNumber: number;
+  dealerIndex: number | null;
+  trumpSuit: Suit | null;
+  trumpChosenBy: number | null;
+  dealtHands: Array<Card[] | null>;     // By position: all 10 dealt cards, null if hidden
+  exchanges: CardExchange[];
+  startingHands: Array<Card[] | null>;  // Dealt hands after the exchanges
+  results: RoundResult[] | null;
+}
+
+// ============================================================================
+// RECONSTRUCTION
+// ============================================================================
+
+function sameCard(a: Card, b: Card): boolean {
+  return a.suit === b.suit && a.rank === b.rank;
+}
+
+function swap(hand: Card[] | null, remove: Card, add: Card): Card[] | null {
+  if (!hand) return null;
+  const index = hand.findIndex(c => sameCard(c, remove));
+  if (index === -1) return null;
+  return [...hand.slice(0, index), ...hand.slice(index + 1), add];
+}
+
+/** Rebuilds a round's deal and exchanges from the events the reader can see */
+export function reconstructRound(events: GameEventRecord[], roundNumber: number): RoundHistory {
+  const history: RoundHistory = {
+    roundNumber,
+    dealerIndex: null,
+    trumpSuit: null,
+    trumpChosenBy: null,
+    dealtHands: [null, null, null],
+    exchanges: [],
+    startingHands: [null, null, null],
+    results: null,
+  };
+  const dealt: Card[][] = [[], [], []];
+
+  for (const event of events) {
+    if (event.round_number !== roundNumber) continue;
+
+    switch (event.event_type) {
+      case 'deal':
+        if (event.seat === null) break;
+        dealt[event.seat].push(...event.payload.cards);
+        if (event.payload.dealerIndex !== undefined) history.dealerIndex = event.payload.dealerIndex;
+        break;
+      case 'trump_select':
+        history.trumpSuit = event.payload.trump;
+        history.trumpChosenBy = event.seat;
+        break;
+      case 'pull_target':
+        history.exchanges.push({
+          puller: event.seat!,
+          target: event.payload.target,
+          pulledCard: null,
+          returnedCard: null,
+        });
+        break;
+      case 'pulled_card':
+        history.exchanges[history.exchanges.length - 1].pulledCard = event.payload.card;
+        break;
+      case 'returned_card':
+        history.exchanges[history.exchanges.length - 1].returnedCard = event.payload.card;
+        break;
+      case 'round_end':
+        history.results = event.payload.results;
+        break;
+    }
+  }
+
+  history.dealtHands = dealt.map(hand => (hand.length === 10 ? hand : null));
+
+  // Replay the exchanges; a hand becomes unknown once an unseen card moves
+  let hands = [...history.dealtHands];
+  for (const { puller, target, pulledCard, returnedCard } of history.exchanges) {
+    if (!pulledCard || !returnedCard) {
+      hands = hands.map((hand, position) => (position === puller || position === target ? null : hand));
+    } else if (!sameCard(pulledCard, returnedCard)) {
+      hands[puller] = swap(hands[puller], returnedCard, pulledCard);
+      hands[target] = swap(hands[target], pulledCard, returnedCard);
+    }
+  }
+  history.startingHands = hands;
+
+  return history;
+}
@@ -0,0 +1,522 @@
+import { describe, it, expect } from 'vitest';
+import fc from 'fast-check';
+import {
+  Card,
+  Suit,
+  DEFAULT_RULES,
+  createDeck,
+  createRng,
+  createSeededDeck,
+  dealCards,
+  shuffle,
+  evaluateTrick,
+  isValidMove,
+  getLegalMoves,
+  getTargetTricks,
+  getFiveTrickPlayerPosition,
+  cardToString,
+  stringToCard,
+  calculatePullEligibility,
+  canReturnCard,
+  getValidReturnCards,
+  isGameOver,
+  getWinners,
+  validateRules,
+} from './gameLogic';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+/** Parses "A♠ 10♥ ..." into cards */
+function cards(notation: string): Card[] {
+  return notation.split(' ').filter(Boolean).map(s => stringToCard(s)!);
+}
+
+function card(notation: string): Card {
+  return stringToCard(notation)!;
+}
+
+/** Builds a trick from cards played in order, starting at `leader` */
+function trick(notation: string, leader = 0): Array<{ position: number; card: Card }> {
+  return cards(notation).map((c, i) => ({ position: (leader + i) % 3, card: c }));
+}
+
+const SUITS: Suit[] = ['♠', '♥', '♦', '♣'];
+
+const arbSuit = fc.constantFrom(...SUITS);
+const arbDeck = fc.shuffledSubarray(createDeck(), { minLength: 30, maxLength: 30 });
+
+// ============================================================================
+// DECK
+// ============================================================================
+
+describe('createDeck', () => {
+  it('has 30 unique cards', () => {
+    const deck = createDeck();
+    expect(deck).toHaveLength(30);
+    expect(new Set(deck.map(cardToString)).size).toBe(30);
+  });
+
+  it('has A-8 of every suit plus only the 7♠ and 7♥', () => {
+    const deck = createDeck().map(cardToString);
+    for (const suit of SUITS) {
+      for (const rank of ['A', 'K', 'Q', 'J', '10', '9', '8']) {
+        expect(deck).toContain(`${rank}${suit}`);
+      }
+    }
+    expect(deck).toContain('7♠');
+    expect(deck).toContain('7♥');
+    expect(deck).not.toContain('7♦');
+    expect(deck).not.toContain('7♣');
+  });
+});
+
+describe('shuffle', () => {
+  it('is a permutation and leaves the input untouched', () => {
+    fc.assert(
+      fc.property(fc.array(fc.integer()), items => {
+        const copy = [...items];
+        const shuffled = shuffle(items);
+        expect(items).toEqual(copy);
+        expect([...shuffled].sort()).toEqual([...items].sort());
+      })
+    );
+  });
+});
+
+describe('seeded shuffling', () => {
+  it('createRng yields the same sequence in [0, 1) for the same seed', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 4294967295 }), seed => {
+        const a = createRng(seed);
+        const b = createRng(seed);
+        for (let i = 0; i < 20; i++) {
+          const value = a();
+          expect(value).toBe(b());
+          expect(value).toBeGreaterThanOrEqual(0);
+          expect(value).toBeLessThan(1);
+        }
+      })
+    );
+  });
+
+  it('createSeededDeck is a reproducible permutation of the deck', () => {
+    fc.assert(
+      fc.property(fc.integer({ min: 0, max: 4294967295 }), seed => {
+        const deck = createSeededDeck(seed);
+        expect(createSeededDeck(seed)).toEqual(deck);
+        expect(deck.map(cardToString).sort()).toEqual(createDeck().map(cardToString).sort());
+      }),
+      { numRuns: 50 }
+    );
+  });
+
+  // Pinned vectors: game.seeded_deck in the migrations must produce the same decks
+  it.each([
+    [0, '9♣ J♣ A♣ 8♦ 9♠ 9♦ 7♠ K♣ 7♥ Q♠ 10♦ J♦ K♥ K♦ Q♥ 10♥ 8♣ Q♦ K♠ 10♠ 10♣ J♥ Q♣ A♦ 8♥ 9♥ J♠ 8♠ A♠ A♥'],
+  ])('seed %i deals a known deck', (seed, deck) => {
+    expect(createSeededDeck(seed).map(cardToString).join(' ')).toBe(deck);
+  });
+
+  it('seeds a deck with other 7s the same way', () => {
+    const deck = createSeededDeck(0, { ...DEFAULT_RULES, keptSevens: ['♦', '♣'] });
+    expect(deck.map(cardToString).join(' ')).toBe(
+      '9♣ J♣ A♣ 8♦ 9♠ 9♦ 7♦ K♣ 7♣ Q♠ 10♦ J♦ K♥ K♦ Q♥ 10♥ 8♣ Q♦ K♠ 10♠ 10♣ J♥ Q♣ A♦ 8♥ 9♥ J♠ 8♠ A♠ A♥'
+    );
+  });
+
+  it('dealCards deals 5, 3 then 2 cards each like the server', () => {
+    const hands = dealCards(createRng(42)).map(hand => hand.map(cardToString).join(' '));
+    expect(hands).toEqual([
+      'K♦ 9♥ J♦ K♥ K♣ J♠ Q♦ 9♦ 7♠ Q♣',
+      'J♥ 8♣ A♣ 9♣ 8♦ 9♠ 10♣ A♦ 10♠ 8♥',
+      'Q♠ K♠ 10♥ A♠ A♥ J♣ Q♥ 8♠ 7♥ 10♦',
+    ]);
+  });
+});
+
+describe('dealCards', () => {
+  it('deals 3 disjoint hands of 10 that together form the deck', () => {
+    fc.assert(
+      fc.property(fc.integer(), () => {
+        const hands = dealCards();
+        expect(hands).toHaveLength(3);
+        hands.forEach(hand => expect(hand).toHaveLength(10));
+
+        const dealt = hands.flat().map(cardToString);
+        expect(new Set(dealt).size).toBe(30);
+        expect([...dealt].sort()).toEqual(createDeck().map(cardToString).sort());
+      }),
+      { numRuns: 50 }
+    );
+  });
+});
+
+// ============================================================================
+// TARGETS & POSITIONS
+// ============================================================================
+
+describe('getTargetTricks', () => {
+  it.each([
+    // dealer, position, target
+    [0, 0, 2], [0, 1, 5], [0, 2, 3],
+    [1, 1, 2], [1, 2, 5], [1, 0, 3],
+    [2, 2, 2], [2, 0, 5], [2, 1, 3],
+  ])('dealer %i: position %i targets %i', (dealer, position, target) => {
+    expect(getTargetTricks(position, dealer)).toBe(target);
+  });
+
+  it('always adds up to 10 tricks', () => {
+    for (const dealer of [0, 1, 2]) {
+      const total = [0, 1, 2].reduce((sum, p) => sum + getTargetTricks(p, dealer), 0);
+      expect(total).toBe(10);
+    }
+  });
+});
+
+describe('getFiveTrickPlayerPosition', () => {
+  it.each([[0, 1], [1, 2], [2, 0]])('dealer %i → 5-trick player %i', (dealer, fiveTrick) => {
+    expect(getFiveTrickPlayerPosition(dealer)).toBe(fiveTrick);
+    expect(getTargetTricks(fiveTrick, dealer)).toBe(5);
+  });
+});
+
+// ============================================================================
+// CARD UTILITIES
+// ============================================================================
+
+describe('cardToString / stringToCard', () => {
+  it('round-trips every card, including 10s', () => {
+    for (const c of createDeck()) {
+      expect(stringToCard(cardToString(c))).toEqual(c);
+    }
+    expect(stringToCard('10♦')).toEqual({ suit: '♦', rank: '10' });
+  });
+
+  it('rejects strings that are too short', () => {
+    expect(stringToCard('')).toBeNull();
+    expect(stringToCard('A')).toBeNull();
+  });
+});
+
+// ============================================================================
+// TRICK EVALUATION
+// ============================================================================
+
+describe('evaluateTrick', () => {
+  it.each([
+    // Rule 1: trump beats every non-trump card
+    ['A♥ K♥ 8♠', '♠', 2],
+    ['A♥ 8♠ K♥', '♠', 1],
+    // Rule 2: among trumps, highest rank wins
+    ['A♥ 8♠ Q♠', '♠', 2],
+    ['A♥ K♠ 10♠', '♠', 1],
+    // Rule 3: otherwise the highest card of the lead suit wins
+    ['10♥ A♥ K♥', '♠', 1],
+    ['J♥ 9♥ Q♥', null, 2],
+    // Rule 4: off-suit non-trump cards never win, however high
+    ['8♥ A♦ A♣', '♠', 0],
+    ['8♥ A♦ A♣', null, 0],
+    // Leading trump: highest trump wins
+    ['8♠ A♥ 9♠', '♠', 2],
+  ] as Array<[string, Suit | null, number]>)('%s with trump %s → position %i', (played, trump, winner) => {
+    expect(evaluateTrick(trick(played), trump)).toBe(winner);
+  });
+
+  it('reports the winner by position, not by play order', () => {
+    // Position 2 leads, position 1 plays last and wins
+    expect(evaluateTrick(trick('8♥ 9♥ A♥', 2), null)).toBe(1);
+  });
+
+  it('returns -1 for an empty trick', () => {
+    expect(evaluateTrick([], '♠')).toBe(-1);
+  });
+
+  it('always picks one of the players in the trick', () => {
+    fc.assert(
+      fc.property(arbDeck, fc.integer({ min: 0, max: 2 }), fc.option(arbSuit), (deck, leader, trump) => {
+        const played = deck.slice(0, 3).map((c, i) => ({ position: (leader + i) % 3, card: c }));
+        const winner = evaluateTrick(played, trump);
+        expect([0, 1, 2]).toContain(winner);
+
+        const winningCard = played.find(p => p.position === winner)!.card;
+        if (trump && played.some(p => p.card.suit === trump)) {
+          expect(winningCard.suit).toBe(trump);
+        } else {
+          expect(winningCard.suit).toBe(played[0].card.suit);
+        }
+      })
+    );
+  });
+});
+
+// ============================================================================
+// MOVE VALIDATION
+// ============================================================================
+
+describe('isValidMove', () => {
+  describe('following', () => {
+    it.each([
+      // hand, trick so far, card, valid
+      ['A♥ 8♠ 9♦', '10♥', 'A♥', true],
+      ['A♥ 8♠ 9♦', '10♥', '8♠', false],   // Must follow suit
+      ['A♥ 8♠ 9♦', '10♥', '9♦', false],
+      ['8♠ 9♦', '10♥', '8♠', true],       // Void: trump is allowed
+      ['8♠ 9♦', '10♥', '9♦', true],       // Void: anything goes
+      ['A♥ 8♠', '10♥ K♥', '8♠', false],
+    ])('hand %s, trick %s: %s → %s', (hand, played, c, valid) => {
+      const result = isValidMove(card(c), cards(hand), trick(played), '♠', 3, false);
+      expect(result.valid).toBe(valid);
+      if (!valid) expect(result.reason).toBe('Must follow suit');
+    });
+  });
+
+  describe('leading the first trick', () => {
+    it.each([
+      ['A♠ 8♥', 'A♠'],
+      ['A♠ 8♥', '8♥'],
+    ])('hand %s: may lead %s, trump included', (hand, c) => {
+      expect(isValidMove(card(c), cards(hand), [], '♠', 0, null).valid).toBe(true);
+    });
+  });
+
+  describe('leading later tricks', () => {
+    it.each([
+      // trumpLedAtStart, hand, card, valid, reason
+      [true, 'A♠ 8♥', 'A♠', true, undefined],
+      [true, 'A♠ 8♥', '8♥', false, 'Must lead trump (trump was led in first trick)'],
+      [true, '9♥ 8♥', '8♥', true, undefined],   // No trump left: lead anything
+      [false, 'A♠ 8♥', '8♥', true, undefined],
+      [false, 'A♠ 8♥', 'A♠', false, 'Cannot lead with trump unless you have no other cards'],
+      [false, 'A♠ 8♠', 'A♠', true, undefined],  // Only trump left
+      [null, 'A♠ 8♥', 'A♠', false, 'Cannot lead with trump unless you have no other cards'],
+    ] as Array<[boolean | null, string, string, boolean, string | undefined]>)(
+      'trumpLedAtStart=%s, hand %s: %s → %s',
+      (trumpLedAtStart, hand, c, valid, reason) => {
+        const result = isValidMove(card(c), cards(hand), [], '♠', 4, trumpLedAtStart);
+        expect(result.valid).toBe(valid);
+        expect(result.reason).toBe(reason);
+      }
+    );
+
+    it('has no leading restrictions without a trump suit', () => {
+      expect(isValidMove(card('A♠'), cards('A♠ 8♥'), [], null, 4, true).valid).toBe(true);
+    });
+  });
+
+  it('always leaves at least one legal card', () => {
+    fc.assert(
+      fc.property(
+        arbDeck,
+        fc.integer({ min: 1, max: 10 }),
+        fc.integer({ min: 0, max: 2 }),
+        arbSuit,
+        fc.integer({ min: 0, max: 9 }),
+        fc.option(fc.boolean()),
+        (deck, handSize, trickSize, trump, trickIndex, trumpLedAtStart) => {
+          const hand = deck.slice(0, handSize);
+          const played = trick(deck.slice(10, 10 + trickSize).map(cardToString).join(' '));
+          const legal = hand.filter(c =>
+            isValidMove(c, hand, played, trump, trickIndex, trumpLedAtStart).valid
+          );
+          expect(legal.length).toBeGreaterThan(0);
+        }
+      )
+    );
+  });
+});
+
+describe('getLegalMoves', () => {
+  it('checks every card in hand order with its reason', () => {
+    expect(getLegalMoves(cards('A♥ 8♠ 9♦'), trick('10♥'), '♠', 3, false)).toEqual([
+      { card: card('A♥'), legal: true },
+      { card: card('8♠'), legal: false, reason: 'Must follow suit' },
+      { card: card('9♦'), legal: false, reason: 'Must follow suit' },
+    ]);
+  });
+
+  it.each([
+    [true, 'Must lead trump (trump was led in first trick)', '8♥'],
+    [false, 'Cannot lead with trump unless you have no other cards', 'A♠'],
+  ])('trumpLedAtStart=%s: "%s" for %s', (trumpLedAtStart, reason, illegal) => {
+    const moves = getLegalMoves(cards('A♠ 8♥'), [], '♠', 4, trumpLedAtStart);
+    expect(moves.filter(m => !m.legal)).toEqual([{ card: card(illegal), legal: false, reason }]);
+  });
+
+  it('agrees with isValidMove', () => {
+    fc.assert(
+      fc.property(
+        arbDeck,
+        fc.integer({ min: 1, max: 10 }),
+        fc.integer({ min: 0, max: 2 }),
+        arbSuit,
+        fc.integer({ min: 0, max: 9 }),
+        fc.option(fc.boolean()),
+        (deck, handSize, trickSize, trump, trickIndex, trumpLedAtStart) => {
+          const hand = deck.slice(0, handSize);
+          const played = trick(deck.slice(10, 10 + trickSize).map(cardToString).join(' '));
+          const moves = getLegalMoves(hand, played, trump, trickIndex, trumpLedAtStart);
+          expect(moves.map(m => m.card)).toEqual(hand);
+          moves.forEach(m => {
+            expect(m.legal).toBe(isValidMove(m.card, hand, played, trump, trickIndex, trumpLedAtStart).valid);
+          });
+        }
+      )
+    );
+  });
+});
+
+// ============================================================================
+// HOUSE RULES
+// ============================================================================
+
+describe('house rules', () => {
+  it('keeps the chosen 7s in the deck', () => {
+    const deck = createDeck({ ...DEFAULT_RULES, keptSevens: ['♣', '♦'] });
+    expect(deck).toHaveLength(30);
+    expect(deck.filter(c => c.rank === '7').map(cardToString)).toEqual(['7♦', '7♣']);
+  });
+
+  it.each([
+    ['a winning score of 0', { winningScore: 0 }, 'Winning score must be between 1 and 15'],
+    ['a fractional winning score', { winningScore: 2.5 }, 'Winning score must be between 1 and 15'],
+    ['the same 7 twice', { keptSevens: ['♠', '♠'] }, 'Keep exactly two different 7s'],
+    ['three 7s', { keptSevens: ['♠', '♥', '♦'] }, 'Keep exactly two different 7s'],
+    ['a match of 0 rounds', { roundLimit: 0 }, 'A match must last between 1 and 30 rounds'],
+    ['a match of 31 rounds', { roundLimit: 31 }, 'A match must last between 1 and 30 rounds'],
+  ] as Array<[string, object, string]>)('rejects %s', (_, change, error) => {
+    expect(validateRules({ ...DEFAULT_RULES, ...change })).toBe(error);
+  });
+
+  it('accepts the classic rules', () => {
+    expect(validateRules(DEFAULT_RULES)).toBeNull();
+  });
+
+  it('ends the game at the room\'s winning score', () => {
+    expect(isGameOver(4, [4, -2, -2])).toBe(false);
+    expect(isGameOver(4, [5, -3, -2])).toBe(true);
+    expect(isGameOver(2, [3, -1, -2], { ...DEFAULT_RULES, winningScore: 3 })).toBe(true);
+  });
+
+  it('ends a match after its last round whatever the scores', () => {
+    const rules = { ...DEFAULT_RULES, roundLimit: 9 };
+    expect(isGameOver(8, [7, -4, -3], rules)).toBe(false);
+    expect(isGameOver(9, [0, 0, 0], rules)).toBe(true);
+  });
+
+  it('shares the win between tied leaders', () => {
+    expect(getWinners([2, -1, -1])).toEqual([0]);
+    expect(getWinners([1, 1, -2])).toEqual([0, 1]);
+    expect(getWinners([0, 0, 0])).toEqual([0, 1, 2]);
+  });
+
+  it('lets any card lead without the trump leading rule', () => {
+    const rules = { ...DEFAULT_RULES, trumpLeadRule: false };
+    expect(isValidMove(card('A♠'), cards('A♠ 8♥'), [], '♠', 4, false, rules).valid).toBe(true);
+    expect(isValidMove(card('8♥'), cards('A♠ 8♥'), [], '♠', 4, true, rules).valid).toBe(true);
+    // Following suit still applies
+    expect(isValidMove(card('A♠'), cards('A♠ 8♥'), trick('10♥'), '♠', 4, false, rules).valid).toBe(false);
+  });
+});
+
+// ============================================================================
+// CARD PULL
+// ============================================================================
+
+describe('calculatePullEligibility', () => {
+  const result = (position: number, tricksWon: number, targetTricks: number) =>
+    ({ position, tricksWon, targetTricks });
+
+  it('splits players into over- and under-scorers; exact targets sit out', () => {
+    const { overScorers, underScorers } = calculatePullEligibility(
+      [result(0, 4, 2), result(1, 3, 5), result(2, 3, 3)],
+      0
+    );
+    expect(overScorers).toEqual([{ position: 0, extraTricks: 2, pullsRemaining: 2 }]);
+    expect(underScorers).toEqual([{ position: 1 }]);
+  });
+
+  it('orders pullers by extra tricks first', () => {
+    const { overScorers } = calculatePullEligibility(
+      [result(0, 3, 2), result(1, 1, 5), result(2, 6, 3)],
+      0
+    );
+    expect(overScorers.map(p => p.position)).toEqual([2, 0]);
+  });
+
+  it.each([
+    // dealer, expected order of tied pullers
+    [0, [1, 2]],
+    [1, [2, 1]],
+    [2, [1, 2]],
+  ])('breaks ties clockwise from dealer %i', (dealer, order) => {
+    const { overScorers } = calculatePullEligibility(
+      [result(0, 0, 4), result(1, 3, 2), result(2, 3, 2)],
+      dealer
+    );
+    expect(overScorers.map(p => p.position)).toEqual(order);
+  });
+
+  it('finds nobody to pull in rooms without card pull', () => {
+    const results = [result(0, 4, 2), result(1, 3, 5), result(2, 3, 3)];
+    expect(calculatePullEligibility(results, 0, { ...DEFAULT_RULES, cardPull: false }))
+      .toEqual({ overScorers: [], underScorers: [] });
+  });
+
+  it('balances pulls against missing tricks when targets add up to 10', () => {
+    fc.assert(
+      fc.property(
+        fc.integer({ min: 0, max: 2 }),
+        fc.integer({ min: 0, max: 10 }),
+        fc.integer({ min: 0, max: 10 }),
+        (dealer, a, b) => {
+          fc.pre(a + b <= 10);
+          const won = [a, b, 10 - a - b];
+          const results = won.map((w, p) => result(p, w, getTargetTricks(p, dealer)));
+          const { overScorers, underScorers } = calculatePullEligibility(results, dealer);
+
+          const pulls = overScorers.reduce((sum, p) => sum + p.pullsRemaining, 0);
+          const missing = results
+            .filter(r => r.tricksWon < r.targetTricks)
+            .reduce((sum, r) => sum + r.targetTricks - r.tricksWon, 0);
+          expect(pulls).toBe(missing);
+          expect(overScorers.length > 0).toBe(underScorers.length > 0);
+        }
+      )
+    );
+  });
+});
+
+describe('canReturnCard', () => {
+  it.each([
+    // returned, pulled, hand (before returning), valid
+    ['K♥', 'K♥', '8♠ 9♠', true],               // Rule 1: the same card
+    ['8♥', 'K♥', '8♥ 8♠ 9♠', true],            // Rule 2: same suit
+    ['8♠', 'K♥', '8♠ 9♠ 10♠ A♦', true],        // Rule 3: keeps 2 spades
+    ['8♠', 'K♥', '8♠ 9♠ A♦', false],           // Rule 3: would keep only 1
+    ['A♦', 'K♥', '8♠ 9♠ A♦', false],           // Rule 3: would empty diamonds
+  ])('returning %s after pulling %s from hand %s → %s', (returned, pulled, hand, valid) => {
+    const result = canReturnCard(card(returned), card(pulled), cards(hand));
+    expect(result.valid).toBe(valid);
+    if (!valid) {
+      expect(result.reason).toBe(
+        `Cannot return ${returned}: must keep at least 2 cards of ${card(returned).suit}`
+      );
+    }
+  });
+
+  it('always allows giving back the pulled card', () => {
+    fc.assert(
+      fc.property(arbDeck, fc.integer({ min: 0, max: 10 }), (deck, handSize) => {
+        const pulled = deck[29];
+        expect(canReturnCard(pulled, pulled, deck.slice(0, handSize)).valid).toBe(true);
+      })
+    );
+  });
+
+  it('getValidReturnCards keeps only returnable cards', () => {
+    const hand = cards('8♥ 8♠ 9♠ 10♠ A♦');
+    expect(getValidReturnCards(card('K♥'), hand).map(cardToString)).toEqual(['8♥', '8♠', '9♠', '10♠']);
+  });
+});
@@ -4,9 +4,10 @@
  * ============================================================================
  *
  * OVERVIEW:
- * - 3 players, 30 cards (standard deck minus 7♦ and 7♣)
+ * - 3 players, 30 cards (standard deck minus 7♦ and 7♣ by default)
  * - Each round: players try to win exactly their target tricks
- * - First to reach +5 cumulative overachievement wins the game
+ * - First to reach +5 (by default) cumulative overachievement wins the game,
+ *   or the best score after a fixed number of rounds in match mode
  *
  * TARGET TRICKS (per round):
  * - Dealer: 2 tricks
@@ -33,6 +34,17 @@
  *
  * GAME STATE FLOW:
  * waiting → dealing/trump_selection → dealing/dealing_3 → [card_pull?] → playing → redistribution → (repeat or finished)
+ * (implemented as a pure reducer in gameEngine.ts)
+ *
+ * HOUSE RULES:
+ * Each room fixes its RoomRules at creation (api.rooms.rules): the winning
+ * score or a fixed round limit, whether card pull happens, whether the trump
+ * leading rule applies and which two 7s stay in the deck. Every rule function takes them, with
+ * DEFAULT_RULES as the classic game.
+ *
+ * SERVER ENFORCEMENT:
+ * These rules are mirrored by the `game` schema helpers behind the api.* RPCs
+ * (supabase/migrations). Keep both in sync when changing a rule.
  *
  * ============================================================================
  */
@@ -74,56 +86,167 @@ const rankValues: Record<Rank, number> = {
   '7': 7,
 };
 
+const SUITS: Suit[] = ['♠', '♥', '♦', '♣'];
+
+// ============================================================================
+// HOUSE RULES
+// ============================================================================
+
+/** Rule variations chosen when a room is created (api.rooms.rules) */
+export interface RoomRules {
+  winningScore: number;       // First overachievement score to reach this wins
+  roundLimit: number | null;  // Match mode: play exactly this many rounds instead
+  cardPull: boolean;          // Over-scorers pull cards from under-scorers after round 1
+  trumpLeadRule: boolean;     // The first trick decides whether trump may be led later
+  keptSevens: Suit[];         // The two 7s left in the 30-card deck
+}
+
+export const DEFAULT_RULES: RoomRules = {
+  winningScore: 5,
+  roundLimit: null,
+  cardPull: true,
+  trumpLeadRule: true,
+  keptSevens: ['♠', '♥'],
+};
+
+export const MIN_WINNING_SCORE = 1;
+export const MAX_WINNING_SCORE = 15;
+export const MAX_ROUND_LIMIT = 30;
+
+/** Room rules with defaults for anything missing, e.g. rooms created before rules existed */
+export function normalizeRules(rules: Partial<RoomRules> | null | undefined): RoomRules {
+  return { ...DEFAULT_RULES, ...(rules ?? {}) };
+}
+
+/** Why a set of rules can't be used, or null if it can */
+export function validateRules(rules: RoomRules): string | null {
+  const { winningScore, roundLimit, cardPull, trumpLeadRule, keptSevens } = rules;
+  if (!Number.isInteger(winningScore) || winningScore < MIN_WINNING_SCORE || winningScore > MAX_WINNING_SCORE) {
+    return `Winning score must be between ${MIN_WINNING_SCORE} and ${MAX_WINNING_SCORE}`;
+  }
+  if (roundLimit !== null && (!Number.isInteger(roundLimit) || roundLimit < 1 || roundLimit > MAX_ROUND_LIMIT)) {
+    return `A match must last between 1 and ${MAX_ROUND_LIMIT} rounds`;
+  }
+  if (typeof cardPull !== 'boolean' || typeof trumpLeadRule !== 'boolean') {
+    return 'Card pull and the trump leading rule must be on or off';
+  }
+  if (
+    !Array.isArray(keptSevens) || keptSevens.length !== 2 ||
+    keptSevens[0] === keptSevens[1] || !keptSevens.every(s => SUITS.includes(s))
+  ) {
+    return 'Keep exactly two different 7s';
+  }
+  return null;
+}
+
+/**
+ * Is the game over once this round has been scored?
+ * First to the winning score, or in match mode the last round.
+ */
+export function isGameOver(
+  roundNumber: number,
+  scores: number[],
+  rules: RoomRules = DEFAULT_RULES
+): boolean {
+  if (rules.roundLimit !== null) return roundNumber >= rules.roundLimit;
+  return scores.some(score => score >= rules.winningScore);
+}
+
+/**
+ * Positions that won a finished game: the best cumulative overachievement.
+ * More than one position means the win is shared.
+ */
+export function getWinners(scores: number[]): number[] {
+  const best = Math.max(...scores);
+  return scores.flatMap((score, position) => (score === best ? [position] : []));
+}
+
 // ============================================================================
 // DECK OPERATIONS
 // ============================================================================
 
 /**
  * Creates the 30-card deck used in 3-2-5.
- * Standard 52-card deck minus: 2-6 of all suits, and 7♦ and 7♣
- * Remaining: A-K-Q-J-10-9-8 of all suits + 7♠ + 7♥ = 28 + 2 = 30 cards
+ * Standard 52-card deck minus: 2-6 of all suits, and two of the 7s
+ * Remaining: A-K-Q-J-10-9-8 of all suits + the rules' two 7s (7♠ and 7♥
+ * by default) = 28 + 2 = 30 cards
  */
-export function createDeck(): Card[] {
-  const suits: Suit[] = ['♠', '♥', '♦', '♣'];
+export function createDeck(rules: RoomRules = DEFAULT_RULES): Card[] {
   const ranks: Rank[] = ['A', 'K', 'Q', 'J', '10', '9', '8'];
   const deck: Card[] = [];
 
   // Add all cards except 7s first
-  for (const suit of suits) {
+  for (const suit of SUITS) {
     for (const rank of ranks) {
       deck.push({ suit, rank });
     }
   }
 
-  // Add only 7 of spades and 7 of hearts (remove other 7s to make 30 cards)
-  deck.push({ suit: '♠', rank: '7' });
-  deck.push({ suit: '♥', rank: '7' });
+  // Add only the kept 7s, in suit order (remove the others to make 30 cards)
+  for (const suit of SUITS) {
+    if (rules.keptSevens.includes(suit)) deck.push({ suit, rank: '7' });
+  }
 
   return deck;
 }
 
+/** Random number source in [0, 1), e.g. Math.random or createRng(seed) */
+export type Rng = () => number;
+
+/**
+ * Seeded PRNG (mulberry32). The same seed always yields the same sequence,
+ * so a deal can be reproduced from its seed. game.seeded_deck in the
+ * migrations runs the same generator for practice rounds; other rounds are
+ * dealt by shuffledDeck in fairness.ts.
+ */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = Math.imul(state ^ (state >>> 15), 1 | state);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
 /** Shuffle array using Fisher-Yates algorithm */
-export function shuffle<T>(array: T[]): T[] {
+export function shuffle<T>(array: T[], random: Rng = Math.random): T[] {
   const shuffled = [...array];
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
   }
   return shuffled;
 }
 
-/** Deal 10 cards to each of 3 players (used for initial full deal) */
-export function dealCards(): Card[][] {
-  const deck = shuffle(createDeck());
-  const hands: Card[][] = [[], [], []];
-  
-  // Deal 10 cards to each player
-  for (let i = 0; i < 10; i++) {
-    for (let player = 0; player < 3; player++) {
-      hands[player].push(deck[i * 3 + player]);
+/** The shuffled deck a round with this seed is dealt from */
+export function createSeededDeck(seed: number, rules: RoomRules = DEFAULT_RULES): Card[] {
+  return shuffle(createDeck(rules), createRng(seed));
+}
+
+/**
+ * Deal 10 cards to each of 3 players the way a round is dealt:
+ * 5 each, then 3 each, then 2 each, round-robin from position 0.
+ * Pass createRng(seed) to reproduce a seeded round.
+ */
+export function dealCards(random: Rng = Math.random, rules: RoomRules = DEFAULT_RULES): Card[][] {
+  return dealFromDeck(shuffle(createDeck(rules), random));
+}
+
+/** The hands a shuffled deck deals, in the order dealCards deals them */
+export function dealFromDeck<T>(deck: T[]): T[][] {
+  const hands: T[][] = [[], [], []];
+  let next = 0;
+
+  for (const count of [5, 3, 2]) {
+    for (let i = 0; i < count; i++) {
+      for (let player = 0; player < 3; player++) {
+        hands[player].push(deck[next + i * 3 + player]);
+      }
     }
+    next += count * 3;
   }
-  
+
   return hands;
 }
 
@@ -199,6 +322,7 @@ function isFollowingSuit(card: Card, leadSuit: Suit): boolean {
  * - If non-trump was led on the first trick → you CANNOT lead trump (unless you only have trump left)
  *
  * This rule creates interesting strategy: the first player's choice affects the entire round.
+ * Rooms without the trump leading rule (RoomRules.trumpLeadRule) may lead anything.
  */
 function validateTrumpLeadingRules(
   card: Card,
@@ -234,6 +358,7 @@ function validateTrumpLeadingRules(
  * @param trump - The trump suit for this round
  * @param trickIndex - Which trick (0-9) in the round
  * @param trumpLedAtStart - Was trump led on the first trick of this round?
+ * @param rules - The room's house rules
  */
 export function isValidMove(
   card: Card,
@@ -241,7 +366,8 @@ export function isValidMove(
   currentTrick: Array<{ position: number; card: Card }>,
   trump: Suit | null,
   trickIndex: number = 0,
-  trumpLedAtStart: boolean | null = null
+  trumpLedAtStart: boolean | null = null,
+  rules: RoomRules = DEFAULT_RULES
 ): { valid: boolean; reason?: string } {
   const isLeading = currentTrick.length === 0;
 
@@ -255,7 +381,7 @@ export function isValidMove(
     }
 
     // Later tricks: trump leading rules apply
-    if (trump) {
+    if (trump && rules.trumpLeadRule) {
       return validateTrumpLeadingRules(card, hand, trump, trumpLedAtStart);
     }
 
@@ -276,6 +402,31 @@ export function isValidMove(
   return { valid: true };
 }
 
+/** A card in hand with whether it may be played now, and why not */
+export interface LegalMove {
+  card: Card;
+  legal: boolean;
+  reason?: string;
+}
+
+/**
+ * Checks every card in a hand with isValidMove, in hand order.
+ * Parameters as for isValidMove.
+ */
+export function getLegalMoves(
+  hand: Card[],
+  currentTrick: Array<{ position: number; card: Card }>,
+  trump: Suit | null,
+  trickIndex: number = 0,
+  trumpLedAtStart: boolean | null = null,
+  rules: RoomRules = DEFAULT_RULES
+): LegalMove[] {
+  return hand.map(card => {
+    const { valid, reason } = isValidMove(card, hand, currentTrick, trump, trickIndex, trumpLedAtStart, rules);
+    return valid ? { card, legal: true } : { card, legal: false, reason };
+  });
+}
+
 // ============================================================================
 // PLAYER TARGETS & POSITIONS
 // ============================================================================
@@ -316,7 +467,7 @@ export function stringToCard(str: string): Card | null {
 // CARD PULL (Extra Trick Adjustment)
 // ============================================================================
 //
-// Card pull happens AFTER round 1 when:
+// Card pull happens AFTER round 1, in rooms that play it (RoomRules.cardPull), when:
 // - At least one player WON MORE tricks than their target (over-scorer)
 // - At least one player WON FEWER tricks than their target (under-scorer)
 //
@@ -367,7 +518,7 @@ export interface CardPullState {
   currentPullerIndex: number;     // Which puller is active
   phase: CardPullPhase;           // Current phase
   selectedTarget: number | null;  // Position of target player
-  pulledCard: Card | null;        // The card that was pulled
+  pulledCard: Card | null;        // The card that was pulled (only visible to the puller)
   pulledCardIndex: number | null; // Index of pulled card in target's hand
 }
 
@@ -377,14 +528,19 @@ export interface CardPullState {
  * SORTING OVER-SCORERS:
  * 1. By extra tricks (most first)
  * 2. Tie-breaker: clockwise from dealer (dealer+1 goes first)
+ *
+ * Nobody is eligible in rooms that don't play card pull.
  */
 export function calculatePullEligibility(
   previousResults: PreviousRoundResult[],
-  dealerIndex: number
+  dealerIndex: number,
+  rules: RoomRules = DEFAULT_RULES
 ): { overScorers: Puller[]; underScorers: UnderScorer[] } {
   const overScorers: Puller[] = [];
   const underScorers: UnderScorer[] = [];
 
+  if (!rules.cardPull) return { overScorers, underScorers };
+
   // Categorize each player
   for (const result of previousResults) {
     const diff = result.tricksWon - result.targetTricks;
@@ -406,10 +562,10 @@ export function calculatePullEligibility(
     if (b.extraTricks !== a.extraTricks) {
       return b.extraTricks - a.extraTricks;
     }
-    // Secondary: clockwise distance from dealer (smaller distance = higher priority)
+    // Secondary: clockwise from dealer, starting with dealer+1
     // Example: if dealer is position 1, order is 2, 0, 1
-    const aDistance = (a.position - dealerIndex + 3) % 3;
-    const bDistance = (b.position - dealerIndex + 3) % 3;
+    const aDistance = (a.position - dealerIndex + 2) % 3;
+    const bDistance = (b.position - dealerIndex + 2) % 3;
     return aDistance - bDistance;
   });
 
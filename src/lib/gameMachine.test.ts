@@ -0,0 +1,244 @@
+import { describe, it, expect } from 'vitest';
+import { transition } from 'xstate';
+import { Card, CardPullState, DEFAULT_RULES, stringToCard } from './gameLogic';
+import { GameContext, GameEvent, gameMachine, roomStateValue } from './gameMachine';
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function cards(notation: string): Card[] {
+  return notation.split(' ').filter(Boolean).map(s => stringToCard(s)!);
+}
+
+function trick(notation: string, leader = 0): Array<{ position: number; card: Card }> {
+  return cards(notation).map((c, i) => ({ position: (leader + i) % 3, card: c }));
+}
+
+const STATUSES = ['waiting', 'dealing', 'playing', 'redistribution', 'finished'];
+const DEALING_PHASES = ['trump_selection', 'dealing_3', 'card_pull', 'playing', 'redistribution', 'finished'];
+
+// Dealer 0; seat 0 took 2 extra tricks last round and seat 1 fell short
+const CONTEXT: GameContext = {
+  playerCount: 3,
+  roundNumber: 2,
+  dealerIndex: 0,
+  currentPlayerIndex: 1,
+  trump: '♠',
+  trumpLedAtStart: null,
+  currentTrick: [],
+  cardPullState: null,
+  previousRoundResults: [
+    { position: 0, tricksWon: 4, targetTricks: 2 },
+    { position: 1, tricksWon: 3, targetTricks: 5 },
+    { position: 2, tricksWon: 3, targetTricks: 3 },
+  ],
+  players: [0, 1, 2].map(position => ({
+    position,
+    tricksWon: 0,
+    targetTricks: [2, 5, 3][position],
+    overachievementScore: 0,
+  })),
+  rules: DEFAULT_RULES,
+};
+
+const CARD_PULL: CardPullState = {
+  pullers: [{ position: 0, extraTricks: 2, pullsRemaining: 2 }],
+  underScorers: [{ position: 1 }],
+  currentPullerIndex: 0,
+  phase: 'selecting_target',
+  selectedTarget: null,
+  pulledCard: null,
+  pulledCardIndex: null,
+};
+
+function phaseAt(value: ReturnType<typeof roomStateValue>, context: Partial<GameContext> = {}) {
+  return gameMachine.resolveState({ value, context: { ...CONTEXT, ...context } });
+}
+
+/** State value after the event, or null when the machine refuses it */
+function next(phase: ReturnType<typeof phaseAt>, event: GameEvent) {
+  if (!phase.can(event)) return null;
+  return transition(gameMachine, phase, event)[0].value;
+}
+
+// ============================================================================
+// ROOM STATE
+// ============================================================================
+
+describe('roomStateValue', () => {
+  const expected = (status: string, dealingPhase: string) => {
+    if (status !== 'dealing') {
+      return { waiting: 'waiting', playing: { playing: 'awaitingCard' }, redistribution: 'redistribution', finished: 'finished' }[status];
+    }
+    if (dealingPhase === 'dealing_3') return { dealing: 'dealingThree' };
+    if (dealingPhase === 'card_pull') return { dealing: { cardPull: 'selectingTarget' } };
+    return { dealing: 'trumpSelection' };
+  };
+
+  const pairs = STATUSES.flatMap(status => DEALING_PHASES.map(dealingPhase => [status, dealingPhase]));
+
+  it.each(pairs)('resolves %s / %s to a machine state', (status, dealingPhase) => {
+    const value = roomStateValue(status, dealingPhase, 'selecting_target', 0);
+    expect(value).toEqual(expected(status, dealingPhase));
+    const phase = phaseAt(value);
+    expect(phase.matches(value as Parameters<typeof phase.matches>[0])).toBe(true);
+  });
+
+  it.each([
+    ['selecting_target', 'selectingTarget'],
+    ['selecting_card', 'selectingCard'],
+    ['returning_card', 'returningCard'],
+    ['complete', 'selectingTarget'],
+  ] as const)('maps the %s card pull step', (step, substate) => {
+    expect(roomStateValue('dealing', 'card_pull', step, 0)).toEqual({ dealing: { cardPull: substate } });
+  });
+
+  it('waits on trump selection while the card pull state has not arrived', () => {
+    expect(roomStateValue('dealing', 'card_pull', null, 0)).toEqual({ dealing: 'trumpSelection' });
+  });
+
+  it('holds a full trick in trickComplete', () => {
+    expect(roomStateValue('playing', 'playing', null, 2)).toEqual({ playing: 'awaitingCard' });
+    expect(roomStateValue('playing', 'playing', null, 3)).toEqual({ playing: 'trickComplete' });
+  });
+});
+
+// ============================================================================
+// GUARDS
+// ============================================================================
+
+describe('guards', () => {
+  it('hasThreePlayers', () => {
+    expect(next(phaseAt('waiting'), { type: 'START_GAME' })).toEqual({ dealing: 'trumpSelection' });
+    expect(next(phaseAt('waiting', { playerCount: 2 }), { type: 'START_GAME' })).toBeNull();
+  });
+
+  it('isFiveTrickPlayer', () => {
+    const phase = phaseAt({ dealing: 'trumpSelection' });
+    expect(next(phase, { type: 'SELECT_TRUMP', position: 1 })).toEqual({ dealing: 'dealingThree' });
+    expect(next(phase, { type: 'SELECT_TRUMP', position: 0 })).toBeNull();
+    expect(next(phase, { type: 'SELECT_TRUMP', position: 2 })).toBeNull();
+  });
+
+  it('isDealer and needsCardPull', () => {
+    const phase = phaseAt({ dealing: 'dealingThree' });
+    expect(next(phase, { type: 'DEAL_FINAL', position: 0 })).toEqual({ dealing: { cardPull: 'selectingTarget' } });
+    expect(next(phase, { type: 'DEAL_FINAL', position: 1 })).toBeNull();
+
+    const roundOne = phaseAt({ dealing: 'dealingThree' }, { roundNumber: 1 });
+    expect(next(roundOne, { type: 'DEAL_FINAL', position: 0 })).toEqual({ playing: 'awaitingCard' });
+
+    const noPull = phaseAt({ dealing: 'dealingThree' }, { rules: { ...DEFAULT_RULES, cardPull: false } });
+    expect(next(noPull, { type: 'DEAL_FINAL', position: 0 })).toEqual({ playing: 'awaitingCard' });
+
+    const allOnTarget = phaseAt({ dealing: 'dealingThree' }, {
+      previousRoundResults: [0, 1, 2].map(position => ({ position, tricksWon: 3, targetTricks: 3 })),
+    });
+    expect(next(allOnTarget, { type: 'DEAL_FINAL', position: 0 })).toEqual({ playing: 'awaitingCard' });
+  });
+
+  it('isActivePuller and isUnderScorer', () => {
+    const phase = phaseAt({ dealing: { cardPull: 'selectingTarget' } }, { cardPullState: CARD_PULL });
+    expect(next(phase, { type: 'SELECT_PULL_TARGET', position: 0, target: 1 }))
+      .toEqual({ dealing: { cardPull: 'selectingCard' } });
+    expect(next(phase, { type: 'SELECT_PULL_TARGET', position: 0, target: 2 })).toBeNull();
+    expect(next(phase, { type: 'SELECT_PULL_TARGET', position: 1, target: 1 })).toBeNull();
+
+    const selecting = phaseAt(
+      { dealing: { cardPull: 'selectingCard' } },
+      { cardPullState: { ...CARD_PULL, phase: 'selecting_card', selectedTarget: 1 } }
+    );
+    expect(next(selecting, { type: 'PULL_CARD', position: 0 })).toEqual({ dealing: { cardPull: 'returningCard' } });
+    expect(next(selecting, { type: 'PULL_CARD', position: 2 })).toBeNull();
+  });
+
+  describe('returning a card', () => {
+    const hand = cards('A♠ K♠ Q♠ A♥ K♥ A♦ K♦ Q♦ A♣ K♣');
+    const returning = (pullsRemaining: number, pullers = 1) => phaseAt(
+      { dealing: { cardPull: 'returningCard' } },
+      {
+        cardPullState: {
+          ...CARD_PULL,
+          pullers: [
+            { position: 0, extraTricks: 2, pullsRemaining },
+            { position: 2, extraTricks: 1, pullsRemaining: 1 },
+          ].slice(0, pullers),
+          phase: 'returning_card',
+          selectedTarget: 1,
+          pulledCard: { suit: '♥', rank: 'Q' },
+          pulledCardIndex: 0,
+        },
+      }
+    );
+
+    it('canReturn', () => {
+      const phase = returning(2);
+      // Same suit, or a suit the puller keeps 2+ of
+      expect(phase.can({ type: 'RETURN_CARD', position: 0, card: hand[3], hand })).toBe(true);
+      expect(phase.can({ type: 'RETURN_CARD', position: 0, card: hand[0], hand })).toBe(true);
+      // Would leave a single club
+      expect(phase.can({ type: 'RETURN_CARD', position: 0, card: hand[8], hand })).toBe(false);
+      expect(phase.can({ type: 'RETURN_CARD', position: 1, card: hand[3], hand })).toBe(false);
+    });
+
+    it('hasMorePulls', () => {
+      const event: GameEvent = { type: 'RETURN_CARD', position: 0, card: hand[3], hand };
+      expect(next(returning(2), event)).toEqual({ dealing: { cardPull: 'selectingTarget' } });
+      expect(next(returning(1, 2), event)).toEqual({ dealing: { cardPull: 'selectingTarget' } });
+      expect(next(returning(1), event)).toEqual({ playing: 'awaitingCard' });
+    });
+  });
+
+  describe('playing a card', () => {
+    const play = (context: Partial<GameContext>, event: GameEvent) =>
+      next(phaseAt({ playing: 'awaitingCard' }, { roundNumber: 1, ...context }), event);
+
+    it('isPlayersTurn', () => {
+      const hand = cards('K♥ 9♦');
+      expect(play({}, { type: 'PLAY_CARD', position: 1, card: hand[0], hand })).toEqual({ playing: 'awaitingCard' });
+      expect(play({}, { type: 'PLAY_CARD', position: 0, card: hand[0], hand })).toBeNull();
+    });
+
+    it('isLegalPlay', () => {
+      const hand = cards('A♦ K♥ 9♥');
+      const context = { currentPlayerIndex: 2, currentTrick: trick('Q♥', 1), trumpLedAtStart: false };
+      expect(play(context, { type: 'PLAY_CARD', position: 2, card: hand[1], hand })).toEqual({ playing: 'awaitingCard' });
+      expect(play(context, { type: 'PLAY_CARD', position: 2, card: hand[0], hand })).toBeNull();
+    });
+
+    it('completesTrick', () => {
+      const hand = cards('A♦ K♥ 9♥');
+      const context = { currentPlayerIndex: 0, currentTrick: trick('Q♥ J♥', 1), trumpLedAtStart: false };
+      expect(play(context, { type: 'PLAY_CARD', position: 0, card: hand[1], hand })).toEqual({ playing: 'trickComplete' });
+    });
+
+    it('endsRound and endsGame', () => {
+      const lastCard = cards('K♥');
+      const context = { currentPlayerIndex: 0, currentTrick: trick('Q♥ J♥', 1), trumpLedAtStart: false };
+      const event: GameEvent = { type: 'PLAY_CARD', position: 0, card: lastCard[0], hand: lastCard };
+
+      expect(play(context, event)).toBe('redistribution');
+
+      // Seat 0 wins the last trick for a score of 5
+      const players = CONTEXT.players.map(p => (p.position === 0 ? { ...p, tricksWon: 6 } : p));
+      expect(play({ ...context, players }, event)).toBe('finished');
+
+      const match = { ...context, roundNumber: 3, rules: { ...DEFAULT_RULES, roundLimit: 3 } };
+      expect(play(match, event)).toBe('finished');
+    });
+
+    it('clears a full trick before the next card', () => {
+      const phase = phaseAt({ playing: 'trickComplete' }, { currentTrick: trick('Q♥ J♥ K♥', 1) });
+      const hand = cards('A♠');
+      expect(phase.can({ type: 'PLAY_CARD', position: 1, card: hand[0], hand })).toBe(false);
+      expect(next(phase, { type: 'CLEAR_TRICK' })).toEqual({ playing: 'awaitingCard' });
+    });
+  });
+
+  it('starts the next round from redistribution only', () => {
+    expect(next(phaseAt('redistribution'), { type: 'START_NEW_ROUND' })).toEqual({ dealing: 'trumpSelection' });
+    expect(next(phaseAt('finished'), { type: 'START_NEW_ROUND' })).toBeNull();
+    expect(next(phaseAt({ playing: 'awaitingCard' }), { type: 'START_NEW_ROUND' })).toBeNull();
+  });
+});
@@ -1,135 +1,322 @@
-import { setup, assign } from 'xstate';
-import { Card } from './gameLogic';
+/**
+ * ============================================================================
+ * 3-2-5 Room Phase Machine
+ * ============================================================================
+ *
+ * Models the legal transitions between the room's status / dealing_phase
+ * combinations. The server stays authoritative: on every room update the
+ * snapshot is resolved from the room (see src/hooks/useGameMachine.ts), and
+ * the UI asks the snapshot what it may do next (`snapshot.can(event)`) and
+ * which phase to show (`snapshot.matches(...)`).
+ *
+ * STATES (status / dealing_phase):
+ * waiting                                  waiting / waiting
+ * dealing.trumpSelection                   dealing / trump_selection  (5 cards)
+ * dealing.dealingThree                     dealing / dealing_3        (8 cards)
+ * dealing.cardPull.selectingTarget         dealing / card_pull        (10 cards)
+ * dealing.cardPull.selectingCard
+ * dealing.cardPull.returningCard
+ * playing.awaitingCard                     playing / playing
+ * playing.trickComplete                    (3 cards on the table)
+ * redistribution                           redistribution / redistribution
+ * finished                                 finished / finished
+ *
+ * Guards come from gameLogic.ts, so the machine and the server agree on who
+ * may act and which cards are legal.
+ *
+ * ============================================================================
+ */
 
+import { setup, and, StateValue } from 'xstate';
+import {
+  Card,
+  Suit,
+  CardPullState,
+  PreviousRoundResult,
+  RoomRules,
+  DEFAULT_RULES,
+  calculatePullEligibility,
+  canReturnCard,
+  evaluateTrick,
+  getFiveTrickPlayerPosition,
+  isValidMove,
+  isGameOver,
+} from './gameLogic';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface MachinePlayer {
+  position: number;
+  tricksWon: number;
+  targetTricks: number;
+  overachievementScore: number;
+}
+
+/** Public room state the guards need */
 export interface GameContext {
-  roomId: string | null;
-  playerName: string;
-  playerPosition: number | null;
-  hand: Card[];
-  currentTrick: Array<{ position: number; card: Card }>;
-  trump: string | null;
+  playerCount: number;
+  roundNumber: number;
   dealerIndex: number;
   currentPlayerIndex: number;
-  players: Array<{ name: string; position: number; tricksWon: number; targetTricks: number }>;
-  error: string | null;
+  trump: Suit | null;
+  trumpLedAtStart: boolean | null;
+  currentTrick: Array<{ position: number; card: Card }>;
+  cardPullState: CardPullState | null;
+  previousRoundResults: PreviousRoundResult[] | null;
+  players: MachinePlayer[];
+  rules: RoomRules;
 }
 
 export type GameEvent =
-  | { type: 'JOIN_ROOM'; roomId: string; playerName: string }
-  | { type: 'CREATE_ROOM'; playerName: string }
-  | { type: 'ROOM_READY' }
-  | { type: 'GAME_STARTED' }
-  | { type: 'CARDS_DEALT'; hand: Card[] }
-  | { type: 'TRUMP_SELECTED'; trump: string }
-  | { type: 'PLAY_CARD'; card: Card }
-  | { type: 'TRICK_COMPLETE'; winnerPosition: number }
-  | { type: 'ROUND_END' }
-  | { type: 'ERROR'; message: string };
+  | { type: 'START_GAME' }
+  | { type: 'SELECT_TRUMP'; position: number }
+  | { type: 'DEAL_FINAL'; position: number }
+  | { type: 'SELECT_PULL_TARGET'; position: number; target: number }
+  | { type: 'PULL_CARD'; position: number }
+  | { type: 'RETURN_CARD'; position: number; card: Card; hand: Card[] }
+  | { type: 'PLAY_CARD'; position: number; card: Card; hand: Card[] }
+  | { type: 'CLEAR_TRICK' }
+  | { type: 'START_NEW_ROUND' };
+
+// ============================================================================
+// HELPERS
+// ============================================================================
+
+function activePuller(context: GameContext): number | null {
+  const cardPull = context.cardPullState;
+  return cardPull?.pullers[cardPull.currentPullerIndex]?.position ?? null;
+}
+
+/** Scores after the round if this card completes it */
+function scoresAfterLastCard(
+  context: GameContext,
+  event: { position: number; card: Card }
+): number[] {
+  const winner = evaluateTrick([...context.currentTrick, event], context.trump);
+  return context.players.map(p =>
+    p.overachievementScore + p.tricksWon + (p.position === winner ? 1 : 0) - p.targetTricks
+  );
+}
+
+/**
+ * Machine state for a room's status / dealing_phase combination. The card
+ * pull step and the number of cards on the table pick the substate.
+ */
+export function roomStateValue(
+  status: string,
+  dealingPhase: string,
+  cardPullPhase: CardPullState['phase'] | null,
+  trickSize: number
+): StateValue {
+  switch (status) {
+    case 'waiting':
+      return 'waiting';
+    case 'redistribution':
+      return 'redistribution';
+    case 'finished':
+      return 'finished';
+    case 'playing':
+      return { playing: trickSize === 3 ? 'trickComplete' : 'awaitingCard' };
+  }
+
+  if (dealingPhase === 'dealing_3') return { dealing: 'dealingThree' };
+
+  if (dealingPhase === 'card_pull' && cardPullPhase) {
+    const step = {
+      selecting_target: 'selectingTarget',
+      selecting_card: 'selectingCard',
+      returning_card: 'returningCard',
+      complete: 'selectingTarget',
+    }[cardPullPhase];
+    return { dealing: { cardPull: step } };
+  }
+
+  return { dealing: 'trumpSelection' };
+}
+
+// ============================================================================
+// MACHINE
+// ============================================================================
 
 export const gameMachine = setup({
   types: {
     context: {} as GameContext,
     events: {} as GameEvent,
   },
+  guards: {
+    hasThreePlayers: ({ context }) => context.playerCount === 3,
+
+    isFiveTrickPlayer: ({ context, event }) =>
+      'position' in event && event.position === getFiveTrickPlayerPosition(context.dealerIndex),
+
+    isDealer: ({ context, event }) =>
+      'position' in event && event.position === context.dealerIndex,
+
+    // Card pull only after round 1, and only with both over- and under-scorers
+    needsCardPull: ({ context }) => {
+      if (context.roundNumber <= 1 || !context.previousRoundResults) return false;
+      const { overScorers, underScorers } =
+        calculatePullEligibility(context.previousRoundResults, context.dealerIndex, context.rules);
+      return overScorers.length > 0 && underScorers.length > 0;
+    },
+
+    isActivePuller: ({ context, event }) =>
+      'position' in event && event.position === activePuller(context),
+
+    isUnderScorer: ({ context, event }) =>
+      event.type === 'SELECT_PULL_TARGET' &&
+      !!context.cardPullState?.underScorers.some(u => u.position === event.target),
+
+    canReturn: ({ context, event }) =>
+      event.type === 'RETURN_CARD' &&
+      !!context.cardPullState?.pulledCard &&
+      canReturnCard(event.card, context.cardPullState.pulledCard, event.hand).valid,
+
+    hasMorePulls: ({ context }) => {
+      const cardPull = context.cardPullState;
+      const puller = cardPull?.pullers[cardPull.currentPullerIndex];
+      if (!cardPull || !puller) return false;
+      return puller.pullsRemaining > 1 || cardPull.currentPullerIndex < cardPull.pullers.length - 1;
+    },
+
+    isPlayersTurn: ({ context, event }) =>
+      'position' in event &&
+      event.position === context.currentPlayerIndex &&
+      context.currentTrick.length < 3,
+
+    isLegalPlay: ({ context, event }) =>
+      event.type === 'PLAY_CARD' &&
+      isValidMove(
+        event.card,
+        event.hand,
+        context.currentTrick,
+        context.trump,
+        10 - event.hand.length,
+        context.trumpLedAtStart,
+        context.rules
+      ).valid,
+
+    completesTrick: ({ context }) => context.currentTrick.length === 2,
+
+    endsRound: ({ context, event }) =>
+      event.type === 'PLAY_CARD' && context.currentTrick.length === 2 && event.hand.length === 1,
+
+    endsGame: ({ context, event }) =>
+      event.type === 'PLAY_CARD' &&
+      isGameOver(context.roundNumber, scoresAfterLastCard(context, event), context.rules),
+  },
 }).createMachine({
   id: 'game',
-  initial: 'lobby',
+  initial: 'waiting',
   context: {
-    roomId: null,
-    playerName: '',
-    playerPosition: null,
-    hand: [],
-    currentTrick: [],
-    trump: null,
+    playerCount: 0,
+    roundNumber: 1,
     dealerIndex: 0,
     currentPlayerIndex: 0,
+    trump: null,
+    trumpLedAtStart: null,
+    currentTrick: [],
+    cardPullState: null,
+    previousRoundResults: null,
     players: [],
-    error: null,
+    rules: DEFAULT_RULES,
   },
   states: {
-    lobby: {
-      on: {
-        JOIN_ROOM: {
-          target: 'joining',
-          actions: assign({
-            roomId: ({ event }) => event.roomId,
-            playerName: ({ event }) => event.playerName,
-          }),
-        },
-        CREATE_ROOM: {
-          target: 'creating',
-          actions: assign({
-            playerName: ({ event }) => event.playerName,
-          }),
-        },
-      },
-    },
-    creating: {
-      on: {
-        ROOM_READY: 'waiting',
-        ERROR: {
-          target: 'lobby',
-          actions: assign({ error: ({ event }) => event.message }),
-        },
-      },
-    },
-    joining: {
-      on: {
-        ROOM_READY: 'waiting',
-        ERROR: {
-          target: 'lobby',
-          actions: assign({ error: ({ event }) => event.message }),
-        },
-      },
-    },
     waiting: {
       on: {
-        GAME_STARTED: 'dealing',
+        START_GAME: { target: 'dealing', guard: 'hasThreePlayers' },
       },
     },
+
     dealing: {
-      on: {
-        CARDS_DEALT: {
-          target: 'trumpSelection',
-          actions: assign({
-            hand: ({ event }) => event.hand,
-          }),
+      initial: 'trumpSelection',
+      states: {
+        trumpSelection: {
+          on: {
+            SELECT_TRUMP: { target: 'dealingThree', guard: 'isFiveTrickPlayer' },
+          },
         },
-      },
-    },
-    trumpSelection: {
-      on: {
-        TRUMP_SELECTED: {
-          target: 'playing',
-          actions: assign({
-            trump: ({ event }) => event.trump,
-          }),
+        dealingThree: {
+          on: {
+            DEAL_FINAL: [
+              { target: 'cardPull', guard: and(['isDealer', 'needsCardPull']) },
+              { target: '#game.playing', guard: 'isDealer' },
+            ],
+          },
+        },
+        cardPull: {
+          initial: 'selectingTarget',
+          states: {
+            selectingTarget: {
+              on: {
+                SELECT_PULL_TARGET: {
+                  target: 'selectingCard',
+                  guard: and(['isActivePuller', 'isUnderScorer']),
+                },
+              },
+            },
+            selectingCard: {
+              on: {
+                PULL_CARD: { target: 'returningCard', guard: 'isActivePuller' },
+              },
+            },
+            returningCard: {
+              on: {
+                RETURN_CARD: [
+                  {
+                    target: 'selectingTarget',
+                    guard: and(['isActivePuller', 'canReturn', 'hasMorePulls']),
+                  },
+                  { target: '#game.playing', guard: and(['isActivePuller', 'canReturn']) },
+                ],
+              },
+            },
+          },
         },
       },
     },
+
     playing: {
-      on: {
-        PLAY_CARD: {
-          target: 'playing',
-          actions: assign({
-            currentTrick: ({ context, event }) => [
-              ...context.currentTrick,
-              { position: context.playerPosition!, card: event.card },
+      initial: 'awaitingCard',
+      states: {
+        awaitingCard: {
+          on: {
+            PLAY_CARD: [
+              {
+                target: '#game.finished',
+                guard: and(['isPlayersTurn', 'isLegalPlay', 'endsRound', 'endsGame']),
+              },
+              {
+                target: '#game.redistribution',
+                guard: and(['isPlayersTurn', 'isLegalPlay', 'endsRound']),
+              },
+              {
+                target: 'trickComplete',
+                guard: and(['isPlayersTurn', 'isLegalPlay', 'completesTrick']),
+              },
+              {
+                target: 'awaitingCard',
+                guard: and(['isPlayersTurn', 'isLegalPlay']),
+              },
             ],
-            hand: ({ context, event }) =>
-              context.hand.filter(c => !(c.suit === event.card.suit && c.rank === event.card.rank)),
-          }),
+          },
         },
-        TRICK_COMPLETE: {
-          target: 'playing',
-          actions: assign({
-            currentTrick: () => [],
-            currentPlayerIndex: ({ event }) => event.winnerPosition,
-          }),
+        trickComplete: {
+          on: {
+            CLEAR_TRICK: 'awaitingCard',
+          },
         },
-        ROUND_END: 'finished',
       },
     },
+
+    redistribution: {
+      on: {
+        START_NEW_ROUND: 'dealing',
+      },
+    },
+
     finished: {
       type: 'final',
     },
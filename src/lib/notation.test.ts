@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_RULES, cardToString, createRng, dealCards, dealFromDeck } from './gameLogic';
+import { GameNotation, NOTATION_FORMAT, deckFromHands, parseNotation, replayNotation } from './notation';
+
+// Round 1 of a real game: dealer A, trump ♣ chosen by B
+const GAME: GameNotation = {
+  format: NOTATION_FORMAT,
+  players: ['A', 'B', 'C'],
+  rounds: [{
+    round: 1,
+    dealer: 0,
+    trump: '♣',
+    hands: [
+      'K♦ 8♦ A♠ 7♥ Q♦ J♦ 7♠ 9♠ 8♣ 9♥',
+      '8♠ 10♦ A♦ A♥ 10♠ K♥ K♣ J♠ 9♦ K♠',
+      '9♣ Q♥ J♥ 10♣ 8♥ J♣ Q♣ 10♥ Q♠ A♣',
+    ],
+    pulls: [],
+    tricks: ['1: 8♠ Q♠ A♠', '0: K♦ 10♦ 9♣'],
+    scores: null,
+  }],
+};
+
+describe('deckFromHands', () => {
+  it('inverts dealFromDeck', () => {
+    const hands = dealCards(createRng(7));
+    expect(dealFromDeck(deckFromHands(hands))).toEqual(hands);
+  });
+});
+
+describe('parseNotation', () => {
+  it('round-trips through JSON', () => {
+    expect(parseNotation(JSON.stringify(GAME))).toEqual({ ok: true, notation: GAME });
+  });
+
+  it.each([
+    ['text that is not JSON', 'not json', 'Not valid JSON'],
+    ['another format', JSON.stringify({ ...GAME, format: '325/0' }), 'Expected format "325/1"'],
+    ['two players', JSON.stringify({ ...GAME, players: ['A', 'B'] }), 'Expected 3 players'],
+    [
+      'a card outside the deck',
+      JSON.stringify({ ...GAME, rounds: [{ ...GAME.rounds[0], tricks: ['1: 8♠ Q♠ 7♦'] }] }),
+      'Round 1: invalid trick "1: 8♠ Q♠ 7♦"',
+    ],
+    [
+      'a card outside the house rules deck',
+      JSON.stringify({ ...GAME, rules: { ...DEFAULT_RULES, keptSevens: ['♦', '♣'] } }),
+      'Round 1: invalid hand "K♦ 8♦ A♠ 7♥ Q♦ J♦ 7♠ 9♠ 8♣ 9♥"',
+    ],
+    [
+      'invalid house rules',
+      JSON.stringify({ ...GAME, rules: { ...DEFAULT_RULES, winningScore: 0 } }),
+      'Invalid rules: Winning score must be between 1 and 15',
+    ],
+  ])('rejects %s', (_, text, error) => {
+    expect(parseNotation(text)).toEqual({ ok: false, error });
+  });
+});
+
+describe('replayNotation', () => {
+  it('replays every action through the engine', () => {
+    const { frames, stoppedAt } = replayNotation(GAME);
+
+    expect(stoppedAt).toBeNull();
+    // Deal, trump, final deal, then 2 tricks of 3 cards each followed by a clear
+    expect(frames).toHaveLength(3 + 2 * 4);
+    const last = frames[frames.length - 1].state;
+    expect(last.seats.map(s => s.hand.length)).toEqual([8, 8, 8]);
+    expect(last.seats.map(s => s.tricksWon)).toEqual([1, 0, 1]);
+  });
+
+  it('stops at the first illegal card', () => {
+    const game = { ...GAME, rounds: [{ ...GAME.rounds[0], tricks: ['1: 8♠ Q♠ 7♥'] }] };
+    const { frames, stoppedAt } = replayNotation(game);
+
+    expect(stoppedAt).toBe('Trick 1: A plays 7♥: Must follow suit');
+    expect(frames[frames.length - 1].state.currentTrick.map(p => cardToString(p.card))).toEqual(['8♠', 'Q♠']);
+  });
+
+  it('stops at rounds with hidden hands', () => {
+    const game = { ...GAME, rounds: [{ ...GAME.rounds[0], hands: [GAME.rounds[0].hands[0], null, null] }] };
+    expect(replayNotation(game)).toEqual({ frames: [], stoppedAt: 'Round 1: hands are hidden' });
+  });
+});
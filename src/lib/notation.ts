@@ -0,0 +1,333 @@
+/**
+ * ============================================================================
+ * 3-2-5 Game Notation
+ * ============================================================================
+ *
+ * A portable, human-readable record of a game for sharing hands and bug
+ * reports. Cards are written with cardToString ("A♠", "10♥"):
+ *
+ * {
+ *   "format": "325/1",
+ *   "players": ["Asha", "Bot 2 (Hard)", "Ravi"],
+ *   "rules": {"winningScore": 5, ...},                house rules, classic if left out
+ *   "rounds": [{
+ *     "round": 1,
+ *     "dealer": 0,
+ *     "trump": "♠",
+ *     "hands": ["A♠ K♠ ...", "...", "..."],      dealt 10 cards, null if hidden
+ *     "pulls": [{"puller": 0, "target": 1, "pulled": "9♦", "returned": "8♣"}],
+ *     "tricks": ["1: A♦ 8♦ J♦", "1: A♣ Q♣ 9♣"],   leader: cards in play order
+ *     "scores": [-1, -1, 2]                       after the round, if it ended
+ *   }]
+ * }
+ *
+ * exportNotation builds it from the replay data (api.tricks and
+ * api.game_events); replayNotation runs it back through the game engine for
+ * the analysis board, so an imported game is checked against every rule.
+ *
+ * ============================================================================
+ */
+
+import {
+  Card,
+  RoomRules,
+  Suit,
+  cardToString,
+  createDeck,
+  dealFromDeck,
+  normalizeRules,
+  stringToCard,
+  validateRules,
+} from './gameLogic';
+import { EngineState, GameAction, applyAction, createInitialState } from './gameEngine';
+import { RoundHistory } from './gameEvents';
+import { ReplayRound } from './replay';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export const NOTATION_FORMAT = '325/1';
+
+export interface PullNotation {
+  puller: number;
+  target: number;
+  pulled: string | null;
+  returned: string | null;
+}
+
+export interface RoundNotation {
+  round: number;
+  dealer: number;
+  trump: string | null;
+  hands: Array<string | null>;
+  pulls: PullNotation[];
+  tricks: string[];
+  scores: number[] | null;
+}
+
+export interface GameNotation {
+  format: typeof NOTATION_FORMAT;
+  players: string[];
+  rules?: RoomRules;
+  rounds: RoundNotation[];
+}
+
+export type NotationResult =
+  | { ok: true; notation: GameNotation }
+  | { ok: false; error: string };
+
+/** One position on the analysis board */
+export interface AnalysisFrame {
+  label: string;
+  state: EngineState;
+}
+
+export interface AnalysisResult {
+  frames: AnalysisFrame[];
+  stoppedAt: string | null;     // Why the replay ended early (hidden hands, illegal move)
+}
+
+// ============================================================================
+// EXPORT
+// ============================================================================
+
+function cardsToString(cards: Card[]): string {
+  return cards.map(cardToString).join(' ');
+}
+
+/** Builds the notation for a room from its replay data */
+export function exportNotation(
+  playerNames: string[],
+  rules: RoomRules,
+  rounds: ReplayRound[],
+  deals: Map<number, RoundHistory>
+): GameNotation {
+  const roundNumbers = [...new Set([...rounds.map(r => r.roundNumber), ...deals.keys()])]
+    .sort((a, b) => a - b);
+
+  return {
+    format: NOTATION_FORMAT,
+    players: playerNames,
+    rules,
+    rounds: roundNumbers.map(roundNumber => {
+      const replay = rounds.find(r => r.roundNumber === roundNumber);
+      const deal = deals.get(roundNumber);
+
+      return {
+        round: roundNumber,
+        dealer: deal?.dealerIndex ?? replay?.dealerIndex ?? 0,
+        trump: deal?.trumpSuit ?? replay?.trumpSuit ?? null,
+        hands: deal ? deal.dealtHands.map(hand => hand && cardsToString(hand)) : [null, null, null],
+        pulls: (deal?.exchanges ?? []).map(exchange => ({
+          puller: exchange.puller,
+          target: exchange.target,
+          pulled: exchange.pulledCard && cardToString(exchange.pulledCard),
+          returned: exchange.returnedCard && cardToString(exchange.returnedCard),
+        })),
+        tricks: (replay?.steps ?? []).map(step =>
+          `${step.leader}: ${cardsToString(step.cardsPlayed.map(p => p.card))}`
+        ),
+        scores: deal?.results
+          ? [...deal.results].sort((a, b) => a.position - b.position).map(r => r.score)
+          : null,
+      };
+    }),
+  };
+}
+
+export function serializeNotation(notation: GameNotation): string {
+  return JSON.stringify(notation, null, 2);
+}
+
+// ============================================================================
+// IMPORT
+// ============================================================================
+
+/** Cards of the deck dealt under these rules, as strings */
+function deckOf(rules: RoomRules): Set<string> {
+  return new Set(createDeck(rules).map(cardToString));
+}
+
+function parseCards(text: string, deck: Set<string>): Card[] | null {
+  const cards = text.split(/\s+/).filter(Boolean);
+  if (!cards.every(c => deck.has(c))) return null;
+  return cards.map(c => stringToCard(c)!);
+}
+
+function isSeat(value: unknown): value is number {
+  return value === 0 || value === 1 || value === 2;
+}
+
+function checkRound(round: RoundNotation, deck: Set<string>): string | null {
+  const where = `Round ${round.round}`;
+
+  if (!Number.isInteger(round.round) || round.round < 1) return 'Invalid round number';
+  if (!isSeat(round.dealer)) return `${where}: invalid dealer`;
+  if (round.trump !== null && !['♠', '♥', '♦', '♣'].includes(round.trump)) {
+    return `${where}: invalid trump`;
+  }
+  if (!Array.isArray(round.hands) || round.hands.length !== 3) return `${where}: expected 3 hands`;
+  for (const hand of round.hands) {
+    if (hand !== null && parseCards(hand, deck)?.length !== 10) return `${where}: invalid hand "${hand}"`;
+  }
+  for (const pull of round.pulls ?? []) {
+    if (!isSeat(pull.puller) || !isSeat(pull.target)) return `${where}: invalid pull`;
+    for (const card of [pull.pulled, pull.returned]) {
+      if (card !== null && !deck.has(card)) return `${where}: invalid card "${card}"`;
+    }
+  }
+  for (const trick of round.tricks ?? []) {
+    const match = /^([0-2]):(.*)$/.exec(trick);
+    const cards = match && parseCards(match[2], deck);
+    if (!cards || cards.length !== 3) return `${where}: invalid trick "${trick}"`;
+  }
+  return null;
+}
+
+/** Parses and checks notation text; card legality is left to replayNotation */
+export function parseNotation(text: string): NotationResult {
+  let data: GameNotation;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { ok: false, error: 'Not valid JSON' };
+  }
+
+  if (!data || data.format !== NOTATION_FORMAT) {
+    return { ok: false, error: `Expected format "${NOTATION_FORMAT}"` };
+  }
+  if (!Array.isArray(data.players) || data.players.length !== 3) {
+    return { ok: false, error: 'Expected 3 players' };
+  }
+  if (!Array.isArray(data.rounds)) {
+    return { ok: false, error: 'Expected a list of rounds' };
+  }
+
+  const rules = normalizeRules(data.rules);
+  const rulesError = validateRules(rules);
+  if (rulesError) return { ok: false, error: `Invalid rules: ${rulesError}` };
+  const deck = deckOf(rules);
+
+  const rounds = data.rounds.map(round => ({
+    ...round,
+    trump: round.trump ?? null,
+    pulls: round.pulls ?? [],
+    tricks: round.tricks ?? [],
+    scores: round.scores ?? null,
+  }));
+  for (const round of rounds) {
+    const error = checkRound(round, deck);
+    if (error) return { ok: false, error };
+  }
+
+  return {
+    ok: true,
+    notation: {
+      format: NOTATION_FORMAT,
+      players: data.players,
+      ...(data.rules && { rules }),
+      rounds,
+    },
+  };
+}
+
+// ============================================================================
+// ANALYSIS
+// ============================================================================
+
+/** A deck that dealFromDeck deals into exactly these hands */
+export function deckFromHands(hands: Card[][]): Card[] {
+  const deck: Card[] = [];
+  dealFromDeck([...Array(30).keys()]).forEach((deckIndexes, position) => {
+    deckIndexes.forEach((deckIndex, i) => {
+      deck[deckIndex] = hands[position][i];
+    });
+  });
+  return deck;
+}
+
+/**
+ * Replays a game through the engine (gameEngine.ts), one frame per action.
+ * Stops at the first round with hidden hands or an action the rules reject.
+ */
+export function replayNotation(notation: GameNotation): AnalysisResult {
+  const first = notation.rounds[0];
+  const rules = normalizeRules(notation.rules);
+  const ruleDeck = deckOf(rules);
+  let state = createInitialState(first?.dealer ?? 0, rules);
+  const frames: AnalysisFrame[] = [];
+
+  const apply = (action: GameAction, label: string): string | null => {
+    const result = applyAction(state, action);
+    if ('error' in result) return `${label}: ${result.error.message}`;
+    state = result.state;
+    frames.push({ label, state });
+    return null;
+  };
+
+  for (const round of notation.rounds) {
+    const where = `Round ${round.round}`;
+    const hands = round.hands.map(hand => hand && parseCards(hand, ruleDeck));
+    if (hands.some(hand => !hand)) {
+      return { frames, stoppedAt: `${where}: hands are hidden` };
+    }
+    if (round.dealer !== state.dealerIndex) {
+      return { frames, stoppedAt: `${where}: dealer should be ${notation.players[state.dealerIndex]}` };
+    }
+
+    const deck = deckFromHands(hands as Card[][]);
+    const name = (position: number) => notation.players[position];
+    const steps: Array<[GameAction, string]> = [
+      [{ type: state.status === 'waiting' ? 'START_GAME' : 'START_NEW_ROUND', deck }, `${where}: deal`],
+    ];
+    if (round.trump) {
+      const chooser = (round.dealer + 1) % 3;
+      steps.push(
+        [{ type: 'SELECT_TRUMP', position: chooser, trump: round.trump as Suit }, `${name(chooser)} chooses ${round.trump}`],
+        [{ type: 'DEAL_FINAL', position: round.dealer }, `${name(round.dealer)} deals the final cards`]
+      );
+    }
+
+    for (const [action, label] of steps) {
+      const error = apply(action, label);
+      if (error) return { frames, stoppedAt: error };
+    }
+
+    for (const pull of round.pulls) {
+      if (!pull.pulled || !pull.returned) return { frames, stoppedAt: `${where}: pulled cards are hidden` };
+
+      const cardIndex = state.seats[pull.target].hand.findIndex(c => cardToString(c) === pull.pulled);
+      const error =
+        apply({ type: 'SELECT_PULL_TARGET', position: pull.puller, target: pull.target },
+          `${name(pull.puller)} pulls from ${name(pull.target)}`) ??
+        apply({ type: 'PULL_CARD', position: pull.puller, cardIndex },
+          `${name(pull.puller)} pulls ${pull.pulled}`) ??
+        apply({ type: 'RETURN_CARD', position: pull.puller, card: stringToCard(pull.returned)! },
+          `${name(pull.puller)} returns ${pull.returned}`);
+      if (error) return { frames, stoppedAt: error };
+    }
+
+    for (const [index, trick] of round.tricks.entries()) {
+      const [leader, cards] = trick.split(':');
+      const plays = parseCards(cards, ruleDeck)!;
+      for (const [i, card] of plays.entries()) {
+        const position = (Number(leader) + i) % 3;
+        const error = apply({ type: 'PLAY_CARD', position, card },
+          `Trick ${index + 1}: ${name(position)} plays ${cardToString(card)}`);
+        if (error) return { frames, stoppedAt: error };
+      }
+      if (state.status === 'playing') {
+        const error = apply({ type: 'CLEAR_TRICK' }, `Trick ${index + 1} cleared`);
+        if (error) return { frames, stoppedAt: error };
+      }
+    }
+
+    const scores = state.seats.map(seat => seat.overachievementScore);
+    if (round.scores && round.scores.join() !== scores.join()) {
+      return { frames, stoppedAt: `${where}: recorded scores ${round.scores.join(', ')} should be ${scores.join(', ')}` };
+    }
+  }
+
+  return { frames, stoppedAt: null };
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { Card } from './gameLogic';
+import { PendingPlay, describeRejectedPlay, isPlayConfirmed, withPendingPlay } from './optimisticPlay';
+
+const c = (rank: Card['rank'], suit: Card['suit']): Card => ({ rank, suit });
+
+describe('withPendingPlay', () => {
+  const hand = [c('A', '♠'), c('K', '♥')];
+  const trick = [{ position: 2, card: c('Q', '♠') }];
+  const pending: PendingPlay = { card: c('A', '♠'), position: 0, baseVersion: 4, sent: false };
+
+  it('leaves the server state alone with nothing in flight', () => {
+    expect(withPendingPlay(hand, trick, null)).toEqual({ hand, trick });
+  });
+
+  it('moves the card from the hand to the table', () => {
+    expect(withPendingPlay(hand, trick, pending)).toEqual({
+      hand: [c('K', '♥')],
+      trick: [...trick, { position: 0, card: c('A', '♠') }],
+    });
+  });
+
+  it('does not draw the card twice once the room row shows it', () => {
+    const landed = [...trick, { position: 0, card: c('A', '♠') }];
+    expect(withPendingPlay(hand, landed, pending).trick).toEqual(landed);
+  });
+});
+
+describe('isPlayConfirmed', () => {
+  const pending: PendingPlay = { card: c('A', '♠'), position: 0, baseVersion: 4, sent: true };
+
+  it('waits for a newer room version and a hand without the card', () => {
+    expect(isPlayConfirmed(pending, 4, [c('K', '♥')])).toBe(false);
+    expect(isPlayConfirmed(pending, 5, [c('A', '♠'), c('K', '♥')])).toBe(false);
+    expect(isPlayConfirmed(pending, 5, [c('K', '♥')])).toBe(true);
+  });
+
+  it('never confirms a play the server has not accepted yet', () => {
+    expect(isPlayConfirmed({ ...pending, sent: false }, 5, [c('K', '♥')])).toBe(false);
+  });
+});
+
+describe('describeRejectedPlay', () => {
+  it('names the card and says it was put back', () => {
+    expect(describeRejectedPlay(c('10', '♦'), 'Not your turn')).toEqual({
+      title: '10♦ was not played',
+      description: 'Not your turn. The card is back in your hand.',
+    });
+  });
+});
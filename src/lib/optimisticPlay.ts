@@ -0,0 +1,71 @@
+/**
+ * ============================================================================
+ * 3-2-5 Optimistic Card Plays
+ * ============================================================================
+ *
+ * A card leaves the hand and lands on the table as soon as it is clicked,
+ * while api.play_card is still on its way. Until the server confirms the
+ * play, the client keeps the card as a pending play layered over the
+ * server's hand and trick rather than editing either.
+ *
+ * The play counts as confirmed once the room has moved past the version it
+ * was made at and the server's copy of the hand no longer holds the card.
+ * If the server rejects it, dropping the pending play is the rollback.
+ *
+ * ============================================================================
+ */
+
+import { Card, cardToString } from './gameLogic';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+export interface TrickCard {
+  position: number;
+  card: Card;
+}
+
+/** A card shown as played before the server has confirmed it */
+export interface PendingPlay {
+  card: Card;
+  position: number;
+  baseVersion: number;              // Room version when the card was played
+  sent: boolean;                    // The server accepted the request
+}
+
+// ============================================================================
+// PENDING PLAYS
+// ============================================================================
+
+const sameCard = (a: Card, b: Card) => a.suit === b.suit && a.rank === b.rank;
+
+/** The server's hand and trick as they will be once the pending play lands */
+export function withPendingPlay(
+  hand: Card[],
+  trick: TrickCard[],
+  pending: PendingPlay | null
+): { hand: Card[]; trick: TrickCard[] } {
+  if (!pending) return { hand, trick };
+
+  // The room row may already show the card while the hand is still refreshing
+  const isOnTable = trick.some(t => t.position === pending.position && sameCard(t.card, pending.card));
+
+  return {
+    hand: hand.filter(c => !sameCard(c, pending.card)),
+    trick: isOnTable ? trick : [...trick, { position: pending.position, card: pending.card }],
+  };
+}
+
+/** Whether the server state now includes the pending play */
+export function isPlayConfirmed(pending: PendingPlay, version: number, serverHand: Card[]): boolean {
+  return pending.sent && version > pending.baseVersion && !serverHand.some(c => sameCard(c, pending.card));
+}
+
+/** Toast text for a play the server turned down */
+export function describeRejectedPlay(card: Card, reason: string): { title: string; description: string } {
+  return {
+    title: `${cardToString(card)} was not played`,
+    description: `${reason}. The card is back in your hand.`,
+  };
+}
@@ -0,0 +1,20 @@
+import { describe, it, expect } from 'vitest';
+import { offlineSeats } from './presence';
+
+describe('offlineSeats', () => {
+  const players = [
+    { position: 0, user_id: 'host', is_bot: false, bot_stand_in: false },
+    { position: 1, user_id: 'guest', is_bot: false, bot_stand_in: false },
+    { position: 2, user_id: null, is_bot: true, bot_stand_in: false },
+  ];
+
+  it('lists human seats missing from the room channel', () => {
+    expect(offlineSeats(players, ['host'])).toEqual([1]);
+    expect(offlineSeats(players, ['host', 'guest'])).toEqual([]);
+  });
+
+  it('never counts bots, including stand-ins for a player who left', () => {
+    const standIn = { position: 1, user_id: 'guest', is_bot: false, bot_stand_in: true };
+    expect(offlineSeats([players[0], standIn, players[2]], ['host'])).toEqual([]);
+  });
+});
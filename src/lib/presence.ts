@@ -0,0 +1,63 @@
+/**
+ * ============================================================================
+ * 3-2-5 Presence and Disconnects
+ * ============================================================================
+ *
+ * Who is at the table right now comes from Realtime presence on the room
+ * channel (useGameState). Whether a seat has left for good is the server's
+ * call (supabase/migrations/20260112000001_disconnects.sql): every open game
+ * page sends a heartbeat, and a human seat silent for 90 seconds is handled
+ * by the room's disconnect policy. Forfeiting takes 5 minutes of silence, so
+ * a tab the browser throttles in the background doesn't lose the game.
+ *
+ * ============================================================================
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** What happens to a seat that stays disconnected mid-game */
+export type DisconnectPolicy = 'pause' | 'bot' | 'forfeit';
+
+/** The fields of a seat that presence needs */
+interface Seat {
+  position: number;
+  user_id: string | null;
+  is_bot: boolean;
+  bot_stand_in: boolean;
+}
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DISCONNECT_POLICIES: Record<DisconnectPolicy, string> = {
+  pause: 'Pause the table',
+  bot: 'A bot stands in',
+  forfeit: 'Forfeit the game',
+};
+
+/** How often an open game page tells the server the seat is still there */
+export const HEARTBEAT_INTERVAL_MS = 15000;
+
+/** Silence after which the table pauses or a bot stands in */
+export const DISCONNECT_GRACE_SECONDS = 90;
+
+/** Silence after which a seat forfeits under the 'forfeit' policy */
+export const FORFEIT_GRACE_SECONDS = 300;
+
+// ============================================================================
+// SEATS
+// ============================================================================
+
+/**
+ * Human seats with nobody from their session on the room channel. Seats a
+ * bot is standing in for are played by the server and don't hold up the table.
+ */
+export function offlineSeats(players: Seat[], onlineUserIds: string[]): number[] {
+  const online = new Set(onlineUserIds);
+  return players
+    .filter(p => !p.is_bot && !p.bot_stand_in && p.user_id !== null && !online.has(p.user_id))
+    .map(p => p.position);
+}
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { stringToCard } from './gameLogic';
+import { TrickRecord, buildReplay } from './replay';
+
+/** An api.tricks row with cards played in order, starting at `leader` */
+function record(
+  round: number,
+  trickNumber: number,
+  notation: string,
+  leader: number,
+  winner: number,
+  dealer: number | null = 0
+): TrickRecord {
+  return {
+    round_number: round,
+    trick_number: trickNumber,
+    cards_played: notation.split(' ').map((s, i) => ({ position: (leader + i) % 3, card: stringToCard(s)! })),
+    winner_position: winner,
+    trump_suit: '♠',
+    dealer_index: dealer,
+  };
+}
+
+describe('buildReplay', () => {
+  it('groups tricks into rounds in play order, whatever order they arrive in', () => {
+    const rounds = buildReplay([
+      record(2, 1, 'A♥ 8♥ 9♥', 2, 2, 1),
+      record(1, 2, 'K♦ 8♠ 9♦', 1, 2),
+      record(1, 1, 'A♣ 8♣ 9♣', 1, 1),
+    ]);
+
+    expect(rounds.map(r => r.roundNumber)).toEqual([1, 2]);
+    expect(rounds[0].steps.map(s => s.trickNumber)).toEqual([1, 2]);
+    expect(rounds[1].steps[0].leader).toBe(2);
+  });
+
+  it('keeps running trick counts per position', () => {
+    const [round] = buildReplay([
+      record(1, 1, 'A♣ 8♣ 9♣', 1, 1),
+      record(1, 2, 'K♦ 8♠ 9♦', 1, 2),
+      record(1, 3, 'K♣ 10♣ J♣', 2, 2),
+    ]);
+
+    expect(round.steps.map(s => s.tricksWon)).toEqual([[0, 1, 0], [0, 1, 1], [0, 1, 2]]);
+  });
+
+  it('derives targets from the dealer, when it is known', () => {
+    expect(buildReplay([record(1, 1, 'A♣ 8♣ 9♣', 1, 1, 0)])[0].targets).toEqual([2, 5, 3]);
+    expect(buildReplay([record(1, 1, 'A♣ 8♣ 9♣', 1, 1, null)])[0].targets).toBeNull();
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * ============================================================================
+ * 3-2-5 Round Replays
+ * ============================================================================
+ *
+ * Rebuilds rounds trick by trick from the api.tricks history, for the
+ * replay page (src/pages/Replay.tsx). Every step carries the running trick
+ * counts, so any trick can be shown without replaying the ones before it.
+ *
+ * ============================================================================
+ */
+
+import { Card, Suit, getTargetTricks } from './gameLogic';
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** An api.tricks row */
+export interface TrickRecord {
+  round_number: number;
+  trick_number: number;
+  cards_played: Array<{ position: number; card: Card }>;
+  winner_position: number;
+  trump_suit: string | null;
+  dealer_index: number | null;
+}
+
+export interface ReplayStep {
+  trickNumber: number;
+  leader: number;
+  cardsPlayed: Array<{ position: number; card: Card }>;
+  winner: number;
+  tricksWon: number[];          // By position, including this trick
+}
+
+export interface ReplayRound {
+  roundNumber: number;
+  trumpSuit: Suit | null;       // Unknown for rounds recorded before trump was stored
+  dealerIndex: number | null;
+  targets: number[] | null;     // By position
+  steps: ReplayStep[];
+}
+
+// ============================================================================
+// BUILDING
+// ============================================================================
+
+/** Groups trick records into rounds, in play order */
+export function buildReplay(tricks: TrickRecord[]): ReplayRound[] {
+  const sorted = [...tricks].sort(
+    (a, b) => a.round_number - b.round_number || a.trick_number - b.trick_number
+  );
+  const rounds: ReplayRound[] = [];
+
+  for (const trick of sorted) {
+    let round = rounds[rounds.length - 1];
+    if (!round || round.roundNumber !== trick.round_number) {
+      const dealerIndex = trick.dealer_index;
+      round = {
+        roundNumber: trick.round_number,
+        trumpSuit: trick.trump_suit as Suit | null,
+        dealerIndex,
+        targets: dealerIndex === null ? null : [0, 1, 2].map(p => getTargetTricks(p, dealerIndex)),
+        steps: [],
+      };
+      rounds.push(round);
+    }
+
+    const previous = round.steps[round.steps.length - 1]?.tricksWon ?? [0, 0, 0];
+    round.steps.push({
+      trickNumber: trick.trick_number,
+      leader: trick.cards_played[0]?.position ?? trick.winner_position,
+      cardsPlayed: trick.cards_played,
+      winner: trick.winner_position,
+      tricksWon: previous.map((won, position) => won + (position === trick.winner_position ? 1 : 0)),
+    });
+  }
+
+  return rounds;
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import {
+  RowChange,
+  applyPlayerChanges,
+  applyPlayerSnapshot,
+  emptyChanges,
+  isCurrentSnapshot,
+  isNewerVersion,
+  queuePlayer,
+  queueRoom,
+} from './roomSync';
+
+interface Seat {
+  id: string;
+  position: number;
+  tricks_won: number;
+  version: number;
+}
+
+const seat = (id: string, position: number, tricks_won = 0, version = tricks_won): Seat =>
+  ({ id, position, tricks_won, version });
+
+describe('room versions', () => {
+  it('accepts anything before the first row', () => {
+    expect(isNewerVersion(null, 0)).toBe(true);
+    expect(isCurrentSnapshot(null, 0)).toBe(true);
+  });
+
+  it('drops payloads that are not newer', () => {
+    expect(isNewerVersion(5, 6)).toBe(true);
+    expect(isNewerVersion(5, 5)).toBe(false);
+    expect(isNewerVersion(5, 4)).toBe(false);
+  });
+
+  it('keeps a full read taken at the latest version', () => {
+    expect(isCurrentSnapshot(5, 5)).toBe(true);
+    expect(isCurrentSnapshot(5, 4)).toBe(false);
+  });
+});
+
+describe('batching', () => {
+  it('keeps the newest room row of a burst, whatever the arrival order', () => {
+    let pending = emptyChanges<{ version: number }, Seat>();
+    pending = queueRoom(pending, { version: 3 });
+    pending = queueRoom(pending, { version: 5 });
+    pending = queueRoom(pending, { version: 4 });
+    expect(pending.room).toEqual({ version: 5 });
+  });
+
+  it('keeps every seat change in order', () => {
+    const first: RowChange<Seat> = { eventType: 'UPDATE', new: seat('a', 0, 1), old: {} };
+    const second: RowChange<Seat> = { eventType: 'UPDATE', new: seat('a', 0, 2), old: {} };
+    const pending = queuePlayer(queuePlayer(emptyChanges(), first), second);
+    expect(pending.players).toEqual([first, second]);
+  });
+});
+
+describe('applyPlayerChanges', () => {
+  const players = [seat('a', 0), seat('b', 1)];
+
+  it('replaces updated rows and keeps the rest', () => {
+    const next = applyPlayerChanges(players, [
+      { eventType: 'UPDATE', new: seat('b', 1, 1), old: {} },
+      { eventType: 'UPDATE', new: seat('b', 1, 2), old: {} },
+    ]);
+    expect(next).toEqual([seat('a', 0), seat('b', 1, 2)]);
+    expect(next[0]).toBe(players[0]);
+  });
+
+  it('adds joined seats in position order and removes deleted ones', () => {
+    const next = applyPlayerChanges(players, [
+      { eventType: 'INSERT', new: seat('c', 2), old: {} },
+      { eventType: 'DELETE', new: {}, old: { id: 'a' } },
+    ]);
+    expect(next.map(p => p.id)).toEqual(['b', 'c']);
+  });
+
+  it('drops seat rows older than the one applied', () => {
+    const next = applyPlayerChanges([seat('a', 0, 2)], [
+      { eventType: 'UPDATE', new: seat('a', 0, 1), old: {} },
+      { eventType: 'UPDATE', new: seat('a', 0, 2), old: {} },
+    ]);
+    expect(next).toEqual([seat('a', 0, 2)]);
+  });
+});
+
+describe('applyPlayerSnapshot', () => {
+  it('takes the seats of the read', () => {
+    const next = applyPlayerSnapshot([seat('a', 0), seat('b', 1)], [seat('c', 2), seat('a', 0, 1)]);
+    expect(next).toEqual([seat('a', 0, 1), seat('c', 2)]);
+  });
+
+  it('keeps seats applied at a newer version than the read saw', () => {
+    const current = [seat('a', 0, 3), seat('b', 1, 1)];
+    const next = applyPlayerSnapshot(current, [seat('a', 0, 2), seat('b', 1, 2)]);
+    expect(next).toEqual([seat('a', 0, 3), seat('b', 1, 2)]);
+    expect(next[0]).toBe(current[0]);
+  });
+});
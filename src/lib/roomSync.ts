@@ -0,0 +1,115 @@
+/**
+ * ============================================================================
+ * 3-2-5 Room Sync
+ * ============================================================================
+ *
+ * Folds realtime row payloads into the client's copy of a room, so a move
+ * doesn't cost a full re-read of rooms and players per write. Changes that
+ * arrive together are applied as one batch.
+ *
+ * Room and seat rows carry a version the database bumps on every update
+ * (supabase/migrations/20260113000001_room_version.sql,
+ * 20260120000001_seat_version.sql). Whatever is older than the newest
+ * version seen, whether a late payload or a full read that raced one, is
+ * dropped.
+ *
+ * ============================================================================
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** A row change as delivered by Realtime postgres_changes */
+export interface RowChange<T> {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE';
+  new: T | Record<string, never>;
+  old: Partial<T>;
+}
+
+/** The fields of a seat row that syncing needs */
+interface SeatRow {
+  id: string;
+  position: number;
+  version: number;
+}
+
+/** Changes received since the last flush */
+export interface PendingChanges<R, P> {
+  room: R | null;                   // Newest room row in the burst
+  players: RowChange<P>[];          // In arrival order
+}
+
+// ============================================================================
+// VERSIONS
+// ============================================================================
+
+/** Whether a room row at `incoming` should replace the one at `current` */
+export function isNewerVersion(current: number | null, incoming: number): boolean {
+  return current === null || incoming > current;
+}
+
+/** Whether a full read at `snapshot` still reflects the latest room */
+export function isCurrentSnapshot(current: number | null, snapshot: number): boolean {
+  return current === null || snapshot >= current;
+}
+
+// ============================================================================
+// BATCHING
+// ============================================================================
+
+export function emptyChanges<R, P>(): PendingChanges<R, P> {
+  return { room: null, players: [] };
+}
+
+/** Keeps only the newest room row of a burst */
+export function queueRoom<R extends { version: number }, P>(
+  pending: PendingChanges<R, P>,
+  row: R
+): PendingChanges<R, P> {
+  return pending.room && pending.room.version >= row.version
+    ? pending
+    : { ...pending, room: row };
+}
+
+export function queuePlayer<R, P>(
+  pending: PendingChanges<R, P>,
+  change: RowChange<P>
+): PendingChanges<R, P> {
+  return { ...pending, players: [...pending.players, change] };
+}
+
+function byPosition<P extends SeatRow>(players: Iterable<P>): P[] {
+  return [...players].sort((a, b) => a.position - b.position);
+}
+
+/**
+ * Applies seat row changes in order, skipping rows older than the seat
+ * already has; the result stays sorted by position
+ */
+export function applyPlayerChanges<P extends SeatRow>(players: P[], changes: RowChange<P>[]): P[] {
+  const byId = new Map(players.map(p => [p.id, p]));
+
+  for (const change of changes) {
+    if (change.eventType === 'DELETE') {
+      if (change.old.id) byId.delete(change.old.id);
+    } else {
+      const row = change.new as P;
+      if (isNewerVersion(byId.get(row.id)?.version ?? null, row.version)) byId.set(row.id, row);
+    }
+  }
+
+  return byPosition(byId.values());
+}
+
+/**
+ * Takes the seats of a full read, keeping any seat already applied at a
+ * newer version than the read saw
+ */
+export function applyPlayerSnapshot<P extends SeatRow>(players: P[], snapshot: P[]): P[] {
+  const byId = new Map(players.map(p => [p.id, p]));
+  return byPosition(snapshot.map(row => {
+    const current = byId.get(row.id);
+    return current && current.version > row.version ? current : row;
+  }));
+}
@@ -0,0 +1,34 @@
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * ============================================================================
+ * Player Session
+ * ============================================================================
+ *
+ * Every browser gets a Supabase anonymous auth session. Seats in api.players
+ * are bound to that session's user id when joining, so "who am I" never
+ * depends on the typed player name.
+ *
+ * The session is persisted by the Supabase client (localStorage), so a
+ * refresh keeps the same identity and therefore the same seat.
+ *
+ * ============================================================================
+ */
+
+/** Returns the current user id, signing in anonymously if needed */
+export async function ensureSession(): Promise<string> {
+  const { data: { session } } = await supabase.auth.getSession();
+  if (session) return session.user.id;
+
+  const { data, error } = await supabase.auth.signInAnonymously();
+  if (error || !data.user) {
+    throw new Error(error?.message || 'Could not start a session');
+  }
+  return data.user.id;
+}
+
+/** Returns the current user id without creating a session */
+export async function getSessionUserId(): Promise<string | null> {
+  const { data: { session } } = await supabase.auth.getSession();
+  return session?.user.id ?? null;
+}
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_TURN_TIMERS,
+  getTurnStage,
+  normalizeTurnTimers,
+  secondsLeft,
+  trickClearsAt,
+  validateTurnTimers,
+} from './turnTimers';
+
+describe('turn timer settings', () => {
+  it('fills in missing stages with the defaults', () => {
+    expect(normalizeTurnTimers({ cardPlay: 10 })).toEqual({ ...DEFAULT_TURN_TIMERS, cardPlay: 10 });
+    expect(normalizeTurnTimers(null)).toEqual(DEFAULT_TURN_TIMERS);
+  });
+
+  it.each([
+    ['a negative timer', { dealing: -1 }],
+    ['a fractional timer', { cardPull: 2.5 }],
+    ['more than five minutes', { trumpSelection: 301 }],
+  ])('rejects %s', (_, change) => {
+    expect(validateTurnTimers({ ...DEFAULT_TURN_TIMERS, ...change })).toBe(
+      'Turn timers must be between 0 and 300 seconds'
+    );
+  });
+
+  it('accepts untimed stages', () => {
+    expect(validateTurnTimers({ ...DEFAULT_TURN_TIMERS, cardPull: 0 })).toBeNull();
+  });
+});
+
+describe('countdown', () => {
+  it('names the stage like game.turn_stage', () => {
+    expect(getTurnStage('dealing', 'trump_selection')).toBe('trumpSelection');
+    expect(getTurnStage('dealing', 'dealing_3')).toBe('dealing');
+    expect(getTurnStage('dealing', 'card_pull')).toBe('cardPull');
+    expect(getTurnStage('playing', 'playing')).toBe('cardPlay');
+    expect(getTurnStage('redistribution', 'redistribution')).toBeNull();
+  });
+
+  it('times nothing while a finished trick is on show', () => {
+    expect(getTurnStage('playing', 'playing', 2)).toBe('cardPlay');
+    expect(getTurnStage('playing', 'playing', 3)).toBeNull();
+  });
+
+  it('clears a finished trick after the pause', () => {
+    expect(trickClearsAt('2026-01-11T12:00:00Z')).toBe(Date.parse('2026-01-11T12:00:02Z'));
+  });
+
+  it('rounds up to whole seconds and stops at zero', () => {
+    const now = Date.parse('2026-01-11T12:00:00Z');
+    expect(secondsLeft('2026-01-11T12:00:09.200Z', now)).toBe(10);
+    expect(secondsLeft('2026-01-11T11:59:50Z', now)).toBe(0);
+    expect(secondsLeft(null, now)).toBeNull();
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * ============================================================================
+ * 3-2-5 Turn Timers
+ * ============================================================================
+ *
+ * Each room gives a seat a fixed number of seconds per move
+ * (supabase/migrations/20260111000001_turn_timers.sql). The server keeps
+ * api.rooms.turn_deadline for the move it is waiting for and, once it has
+ * passed, moves for that seat: trump from the longest suit, the final deal,
+ * a card pull that gives the same card back, or the first legal card.
+ *
+ * Clients only count down to the deadline and ask the server to act when it
+ * runs out (api.expire_turn).
+ *
+ * A finished trick stays on the table for a fixed pause, timed from
+ * api.rooms.trick_resolved_at, before the server clears it
+ * (supabase/migrations/20260115000001_trick_clearing.sql). No move is timed
+ * during the pause.
+ *
+ * ============================================================================
+ */
+
+// ============================================================================
+// TYPES
+// ============================================================================
+
+/** Kinds of move with their own timer, as keyed in api.rooms.turn_timers */
+export type TurnStage = 'trumpSelection' | 'dealing' | 'cardPull' | 'cardPlay';
+
+/** Seconds per move for each stage; 0 means no limit */
+export type TurnTimers = Record<TurnStage, number>;
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+export const DEFAULT_TURN_TIMERS: TurnTimers = {
+  trumpSelection: 30,
+  dealing: 15,
+  cardPull: 30,
+  cardPlay: 30,
+};
+
+export const MAX_TURN_SECONDS = 300;
+
+export const TURN_STAGES: TurnStage[] = ['trumpSelection', 'dealing', 'cardPull', 'cardPlay'];
+
+/** How long a finished trick stays on the table (game.trick_pause) */
+export const TRICK_PAUSE_MS = 2000;
+
+// ============================================================================
+// SETTINGS
+// ============================================================================
+
+/** Fills in any stage missing from a stored setting with its default */
+export function normalizeTurnTimers(timers: Partial<TurnTimers> | null | undefined): TurnTimers {
+  return { ...DEFAULT_TURN_TIMERS, ...(timers ?? {}) };
+}
+
+/** Why a set of timers can't be used, or null if it can */
+export function validateTurnTimers(timers: TurnTimers): string | null {
+  for (const stage of TURN_STAGES) {
+    const seconds = timers[stage];
+    if (!Number.isInteger(seconds) || seconds < 0 || seconds > MAX_TURN_SECONDS) {
+      return `Turn timers must be between 0 and ${MAX_TURN_SECONDS} seconds`;
+    }
+  }
+  return null;
+}
+
+// ============================================================================
+// COUNTDOWN
+// ============================================================================
+
+/** The kind of move the room is waiting for, as game.turn_stage decides it */
+export function getTurnStage(
+  status: string,
+  dealingPhase: string | null,
+  trickSize = 0
+): TurnStage | null {
+  if (status === 'playing') return trickSize === 3 ? null : 'cardPlay';
+  switch (dealingPhase) {
+    case 'trump_selection': return 'trumpSelection';
+    case 'dealing_3': return 'dealing';
+    case 'card_pull': return 'cardPull';
+    default: return null;
+  }
+}
+
+/** When the server will clear the finished trick resolved at `resolvedAt` */
+export function trickClearsAt(resolvedAt: string): number {
+  return new Date(resolvedAt).getTime() + TRICK_PAUSE_MS;
+}
+
+/** Whole seconds until the deadline (never negative), or null when untimed */
+export function secondsLeft(deadline: string | null, now: number): number | null {
+  if (!deadline) return null;
+  return Math.max(0, Math.ceil((new Date(deadline).getTime() - now) / 1000));
+}
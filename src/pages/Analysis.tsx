@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import { useLocation, useNavigate } from 'react-router-dom';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import { Card } from '@/components/Card';
+import { useToast } from '@/hooks/use-toast';
+import { getActingPosition, getPlayableCards, EngineState } from '@/lib/gameEngine';
+import { cardToString } from '@/lib/gameLogic';
+import { AnalysisResult, parseNotation, replayNotation } from '@/lib/notation';
+import { cn } from '@/lib/utils';
+
+/**
+ * ============================================================================
+ * Analysis Board (/analysis)
+ * ============================================================================
+ *
+ * Loads a game in notation (src/lib/notation.ts), pasted, from a file or
+ * handed over by the replay page, and steps through it with every hand
+ * face up. The game is replayed through the engine, so the board also
+ * points out the first action that breaks a rule. Runs entirely locally.
+ *
+ * ============================================================================
+ */
+const Analysis = () => {
+  const navigate = useNavigate();
+  const location = useLocation();
+  const { toast } = useToast();
+
+  const initialText = (location.state as { notation?: string } | null)?.notation ?? '';
+  const [text, setText] = useState(initialText);
+  const [players, setPlayers] = useState<string[]>([]);
+  const [analysis, setAnalysis] = useState<AnalysisResult | null>(null);
+  const [frameIndex, setFrameIndex] = useState(0);
+
+  const load = (notationText: string) => {
+    const parsed = parseNotation(notationText);
+    if ('error' in parsed) {
+      toast({ title: parsed.error, variant: 'destructive' });
+      return;
+    }
+    setPlayers(parsed.notation.players);
+    setAnalysis(replayNotation(parsed.notation));
+    setFrameIndex(0);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    const fileText = await file.text();
+    setText(fileText);
+    load(fileText);
+  };
+
+  const frame = analysis?.frames[frameIndex];
+  const isLastFrame = !!analysis && frameIndex >= analysis.frames.length - 1;
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <div className="max-w-5xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <h1 className="text-3xl font-bold">Analysis Board</h1>
+          <Button variant="secondary" onClick={() => navigate('/')}>
+            Back to Lobby
+          </Button>
+        </div>
+
+        {/* Notation input */}
+        <div className="space-y-2 mb-8">
+          <Textarea
+            value={text}
+            onChange={e => setText(e.target.value)}
+            placeholder="Paste a game exported from the replay page"
+            className="font-mono text-xs h-32"
+          />
+          <div className="flex gap-2 items-center">
+            <Button onClick={() => load(text)} disabled={!text.trim()}>
+              Load
+            </Button>
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={e => handleFile(e.target.files?.[0])}
+              className="text-sm"
+            />
+          </div>
+        </div>
+
+        {analysis && !frame && (
+          <p className="text-center text-destructive">{analysis.stoppedAt ?? 'The game has no moves.'}</p>
+        )}
+
+        {analysis && frame && (
+          <>
+            <BoardPosition state={frame.state} players={players} />
+
+            {/* Move stepper */}
+            <div className="flex items-center justify-center gap-4 mt-8">
+              <Button
+                variant="outline"
+                size="icon"
+                disabled={frameIndex === 0}
+                onClick={() => setFrameIndex(i => i - 1)}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground min-w-64 text-center">
+                {frame.label} ({frameIndex + 1}/{analysis.frames.length})
+              </span>
+              <Button
+                variant="outline"
+                size="icon"
+                disabled={isLastFrame}
+                onClick={() => setFrameIndex(i => i + 1)}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+
+            {isLastFrame && analysis.stoppedAt && (
+              <p className="text-center text-destructive mt-4">Stopped: {analysis.stoppedAt}</p>
+            )}
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// ============================================================================
+// SUB-COMPONENTS
+// ============================================================================
+
+interface BoardPositionProps {
+  state: EngineState;
+  players: string[];
+}
+
+/** Every hand face up; the seat to act has its legal cards highlighted */
+function BoardPosition({ state, players }: BoardPositionProps) {
+  const acting = getActingPosition(state);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex gap-6 justify-center text-sm">
+        <span>Round {state.roundNumber}</span>
+        <span>Dealer: {players[state.dealerIndex]}</span>
+        <span>Trump: {state.trumpSuit ?? '—'}</span>
+      </div>
+
+      {/* Table */}
+      <div className="flex gap-4 justify-center min-h-28">
+        {state.currentTrick.map(play => (
+          <div key={play.position} className="flex flex-col items-center gap-1">
+            <Card card={play.card} isPlayed />
+            <div className="text-xs text-muted-foreground">{players[play.position]}</div>
+          </div>
+        ))}
+      </div>
+
+      {/* Hands */}
+      {state.seats.map((seat, position) => {
+        const playable = new Set(getPlayableCards(state, position).map(cardToString));
+        return (
+          <div
+            key={position}
+            className={cn(
+              'p-4 rounded-lg border bg-card',
+              position === acting ? 'border-primary' : 'border-border'
+            )}
+          >
+            <div className="flex justify-between text-sm mb-2">
+              <span className="font-semibold">{players[position]}</span>
+              <span className="text-muted-foreground">
+                Won: {seat.tricksWon}/{seat.targetTricks} • Score: {seat.overachievementScore}
+              </span>
+            </div>
+            <div className="flex gap-1 flex-wrap">
+              {seat.hand.map(card => (
+                <Card
+                  key={cardToString(card)}
+                  card={card}
+                  className="w-12 h-16 text-xs"
+                  highlighted={playable.has(cardToString(card))}
+                />
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default Analysis;
@@ -1,11 +1,26 @@
 import { useEffect, useState } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { Button } from '@/components/ui/button';
-import { Copy, Check } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Copy, Check, History } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
-import { useGameState } from '@/hooks/useGameState';
+import { Player, useGameState } from '@/hooks/useGameState';
 import { useGameActions } from '@/hooks/useGameActions';
-import { getFiveTrickPlayerPosition, CardPullState } from '@/lib/gameLogic';
+import { useBotDriver } from '@/hooks/useBotDriver';
+import { useGameMachine, GamePhase } from '@/hooks/useGameMachine';
+import { useDealFairness } from '@/hooks/useDealFairness';
+import { useRoundTricks } from '@/hooks/useRoundTricks';
+import { ScoredRound, useRoundResults } from '@/hooks/useRoundResults';
+import { useTurnTimer } from '@/hooks/useTurnTimer';
+import { useSeatHeartbeat } from '@/hooks/useSeatHeartbeat';
+import { useOptimisticPlay } from '@/hooks/useOptimisticPlay';
+import { useTrickClearing } from '@/hooks/useTrickClearing';
+import { RejoinCodeDialog } from '@/components/RejoinCodeDialog';
+import { CardPullState } from '@/lib/gameLogic';
+import { ReplayRound } from '@/lib/replay';
+import { TurnStage, getTurnStage } from '@/lib/turnTimers';
+import { DISCONNECT_GRACE_SECONDS, offlineSeats } from '@/lib/presence';
+import { PendingPlay } from '@/lib/optimisticPlay';
 import {
   WaitingPhase,
   TrumpSelectionPhase,
@@ -13,7 +28,8 @@ import {
   CardPullPhase,
   PlayingPhase,
   RedistributionPhase,
-  FinishedPhase
+  FinishedPhase,
+  SpectatorPhase
 } from '@/components/phases';
 
 /**
@@ -24,7 +40,7 @@ import {
  * Main game orchestrator that:
  * 1. Loads game state via useGameState hook
  * 2. Provides actions via useGameActions hook
- * 3. Routes to the appropriate phase component based on game status
+ * 3. Routes to the appropriate phase component via the game machine
  *
  * GAME PHASES:
  * - waiting: Waiting for 3 players to join
@@ -49,33 +65,90 @@ const Game = () => {
   const {
     gameState,
     players,
-    hand,
+    hand: serverHand,
     myPosition,
-    currentTrick,
-    isLoading,
-    setHand,
-    setCurrentTrick
+    currentTrick: serverTrick,
+    onlineUserIds,
+    isLoading
   } = useGameState(roomId);
 
+  // Our card in flight is drawn over the server's hand and trick
+  const { hand, currentTrick, pendingPlay, submitPlay } = useOptimisticPlay(
+    gameState,
+    serverHand,
+    serverTrick,
+    myPosition
+  );
+
   const actions = useGameActions(
     roomId,
     gameState,
     players,
     hand,
     myPosition,
-    setHand,
+    submitPlay,
     currentTrick
   );
 
+  // Seated players' browsers ask the server to move for bot seats
+  const myUserId = players.find(p => p.position === myPosition)?.user_id ?? null;
+  const isHost = !!myUserId && gameState?.created_by === myUserId;
+  useBotDriver(roomId, gameState, players, !!myUserId);
+
+  // This seat's entropy and records for commit-reveal dealing
+  const observeDeal = useDealFairness(
+    roomId,
+    gameState,
+    myPosition,
+    players.find(p => p.position === myPosition)?.id ?? null,
+    serverHand
+  );
+
+  // Completed tricks of the current round, for the last-trick panel
+  const roundTricks = useRoundTricks(roomId, gameState?.round_number ?? null);
+
+  // Every round's results, for the breakdown once the game is over
+  const roundResults = useRoundResults(roomId, gameState?.status === 'finished');
+
+  // Countdown to the server moving for whoever is holding up the table
+  const turnSecondsLeft = useTurnTimer(roomId, gameState?.turn_deadline ?? null, myPosition !== null);
+
+  // Keeps this seat from being treated as disconnected
+  useSeatHeartbeat(roomId, players.find(p => p.position === myPosition)?.id ?? null);
+
+  // The server clears a finished trick once its pause is over
+  useTrickClearing(
+    roomId,
+    gameState?.trick_resolved_at ?? null,
+    players.find(p => p.position === myPosition)?.id ?? null
+  );
+
+  // Legal phases and transitions for the current room
+  const phase = useGameMachine(gameState, players);
+
   // Reset isDealing when phase changes
   useEffect(() => {
     // This effect is now handled inside useGameActions
   }, [gameState?.dealing_phase]);
 
+  // ----------------------------------------
+  // Closed to us: private rooms only show to their players
+  // ----------------------------------------
+  if (!isLoading && !gameState) {
+    return (
+      <div className="min-h-screen bg-background flex flex-col items-center justify-center gap-4">
+        <p>This game doesn't exist or isn't open to spectators.</p>
+        <Button variant="secondary" onClick={() => navigate('/')}>
+          Back to Lobby
+        </Button>
+      </div>
+    );
+  }
+
   // ----------------------------------------
   // Loading state
   // ----------------------------------------
-  if (isLoading || !gameState) {
+  if (isLoading || !gameState || !phase) {
     return (
       <div className="min-h-screen bg-background flex items-center justify-center">
         Loading...
@@ -87,8 +160,10 @@ const Game = () => {
   // Derived state
   // ----------------------------------------
   const isDealer = myPosition === gameState.dealer_index;
-  const isFiveTrickPlayer = myPosition === getFiveTrickPlayerPosition(gameState.dealer_index);
   const myPlayerData = players.find(p => p.position === myPosition);
+  const offline = offlineSeats(players, onlineUserIds);
+  const isInPlay = ['dealing', 'playing', 'redistribution'].includes(gameState.status);
+  const spectatorCount = onlineUserIds.filter(id => !players.some(p => p.user_id === id)).length;
 
   // ----------------------------------------
   // Room ID copy handler
@@ -110,26 +185,50 @@ const Game = () => {
         <GameHeader
           roomId={roomId}
           roundNumber={gameState.round_number}
+          roundLimit={gameState.rules.roundLimit}
+          isPractice={gameState.practice_seed !== null}
           isDealer={isDealer}
           dealerIndex={gameState.dealer_index}
+          myPlayerId={myPlayerData?.id ?? null}
+          spectatorCount={spectatorCount}
           copied={copied}
           onCopy={handleCopyRoomId}
+          onReplay={() => navigate(`/game/${roomId}/replay`)}
           onLeave={() => navigate('/')}
         />
 
         {/* Player Scores */}
-        <PlayerScores players={players} myPosition={myPosition} />
+        <PlayerScores players={players} myPosition={myPosition} offlineSeats={offline} />
+
+        {/* Under the pause policy, the table waits for anyone the server counts as gone */}
+        {isInPlay && gameState.disconnect_policy === 'pause' && offline.length > 0 && (
+          <p className="text-center text-sm text-muted-foreground mb-4">
+            {offline.map(pos => players.find(p => p.position === pos)?.name).join(' and ')} lost
+            connection. If they're away for {DISCONNECT_GRACE_SECONDS} seconds, the table waits for them
+          </p>
+        )}
+
+        {/* Turn timer outside of card play (GameBoard shows its own) */}
+        <TurnCountdown
+          stage={getTurnStage(gameState.status, gameState.dealing_phase, gameState.current_trick.length)}
+          secondsLeft={turnSecondsLeft}
+        />
 
         {/* Phase-specific content */}
         <PhaseRouter
+          phase={phase}
           gameState={gameState}
           players={players}
           hand={hand}
           myPosition={myPosition}
           currentTrick={currentTrick}
-          isDealer={isDealer}
-          isFiveTrickPlayer={isFiveTrickPlayer}
+          isHost={isHost}
           myPlayerData={myPlayerData}
+          observeDeal={observeDeal}
+          roundTricks={roundTricks}
+          roundResults={roundResults}
+          turnSecondsLeft={turnSecondsLeft}
+          pendingPlay={pendingPlay}
           actions={actions}
         />
       </div>
@@ -144,29 +243,44 @@ const Game = () => {
 interface GameHeaderProps {
   roomId: string | undefined;
   roundNumber: number;
+  roundLimit: number | null;
+  isPractice: boolean;            // Dealt from a public seed (api.rooms.practice_seed)
   isDealer: boolean;
   dealerIndex: number;
+  myPlayerId: string | null;      // Null while watching as a spectator
+  spectatorCount: number;
   copied: boolean;
   onCopy: () => void;
+  onReplay: () => void;
   onLeave: () => void;
 }
 
 function GameHeader({
   roomId,
   roundNumber,
+  roundLimit,
+  isPractice,
   isDealer,
   dealerIndex,
+  myPlayerId,
+  spectatorCount,
   copied,
   onCopy,
+  onReplay,
   onLeave
 }: GameHeaderProps) {
   return (
     <div className="flex justify-between items-center mb-8">
       <div>
-        <h1 className="text-3xl font-bold">3-2-5 Game</h1>
+        <h1 className="text-3xl font-bold">
+          3-2-5 Game
+          {isPractice && <Badge variant="secondary" className="ml-3 align-middle">Practice</Badge>}
+        </h1>
         <p className="text-sm text-muted-foreground mt-1">
-          Round {roundNumber} •{' '}
+          Round {roundNumber}{roundLimit !== null && ` of ${roundLimit}`} •{' '}
           {isDealer ? '🎴 You are dealer' : `Dealer: Player ${dealerIndex + 1}`}
+          {spectatorCount > 0 && ` • 👁 ${spectatorCount} watching`}
+          {isPractice && ' • Deals come from a public seed: not for competitive play'}
         </p>
       </div>
       <div className="flex gap-4 items-center">
@@ -176,8 +290,17 @@ function GameHeader({
             {copied ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
           </Button>
         </div>
+        <Button
+          variant="outline"
+          size="icon"
+          title="Replay"
+          onClick={onReplay}
+        >
+          <History className="h-4 w-4" />
+        </Button>
+        {roomId && myPlayerId && <RejoinCodeDialog roomId={roomId} playerId={myPlayerId} />}
         <Button variant="secondary" onClick={onLeave}>
-          Leave Game
+          {myPlayerId ? 'Leave Game' : 'Stop Watching'}
         </Button>
       </div>
     </div>
@@ -187,9 +310,10 @@ function GameHeader({
 interface PlayerScoresProps {
   players: any[];
   myPosition: number | null;
+  offlineSeats: number[];         // Human seats missing from the room channel
 }
 
-function PlayerScores({ players, myPosition }: PlayerScoresProps) {
+function PlayerScores({ players, myPosition, offlineSeats }: PlayerScoresProps) {
   return (
     <div className="grid grid-cols-3 gap-4 mb-8">
       {players.map((player) => (
@@ -206,7 +330,7 @@ function PlayerScores({ players, myPosition }: PlayerScoresProps) {
               player.position === myPosition ? 'text-foreground' : 'text-card-foreground'
             }`}
           >
-            {player.name}
+            {player.name} <PresenceBadge player={player} isOffline={offlineSeats.includes(player.position)} />
           </div>
           <div
             className={`text-sm ${
@@ -230,44 +354,110 @@ function PlayerScores({ players, myPosition }: PlayerScoresProps) {
   );
 }
 
+function PresenceBadge({ player, isOffline }: { player: Player; isOffline: boolean }) {
+  if (player.bot_stand_in) return <Badge variant="secondary">Bot standing in</Badge>;
+  if (player.is_bot) return <Badge variant="secondary">Bot</Badge>;
+  return isOffline
+    ? <Badge variant="outline" className="text-muted-foreground">Offline</Badge>
+    : <Badge variant="outline" className="text-primary border-primary">Online</Badge>;
+}
+
+const STAGE_LABELS: Record<TurnStage, string> = {
+  trumpSelection: 'Trump selection',
+  dealing: 'Dealing',
+  cardPull: 'Card pull',
+  cardPlay: 'Card play',
+};
+
+interface TurnCountdownProps {
+  stage: TurnStage | null;
+  secondsLeft: number | null;
+}
+
+function TurnCountdown({ stage, secondsLeft }: TurnCountdownProps) {
+  if (!stage || stage === 'cardPlay' || secondsLeft === null) return null;
+
+  return (
+    <p className="text-center text-sm text-muted-foreground mb-4">
+      {STAGE_LABELS[stage]}:{' '}
+      <span className={`font-mono ${secondsLeft <= 5 ? 'text-destructive' : ''}`}>{secondsLeft}s</span>{' '}
+      left before the move is made automatically
+    </p>
+  );
+}
+
 interface PhaseRouterProps {
+  phase: GamePhase;
   gameState: any;
   players: any[];
   hand: any[];
   myPosition: number | null;
   currentTrick: any[];
-  isDealer: boolean;
-  isFiveTrickPlayer: boolean;
+  isHost: boolean;
   myPlayerData: any;
+  observeDeal: ReturnType<typeof useDealFairness>;
+  roundTricks: ReplayRound | null;
+  roundResults: ScoredRound[];
+  turnSecondsLeft: number | null;
+  pendingPlay: PendingPlay | null;
   actions: ReturnType<typeof useGameActions>;
 }
 
 /**
- * Routes to the appropriate phase component based on game state.
- * This is the main decision point for what UI to show.
+ * Routes to the appropriate phase component based on the machine state.
+ * This is the main decision point for what UI to show; whether this seat
+ * may act comes from the machine's guards (`phase.can`).
  */
 function PhaseRouter({
+  phase,
   gameState,
   players,
   hand,
   myPosition,
   currentTrick,
-  isDealer,
-  isFiveTrickPlayer,
+  isHost,
   myPlayerData,
+  observeDeal,
+  roundTricks,
+  roundResults,
+  turnSecondsLeft,
+  pendingPlay,
   actions
 }: PhaseRouterProps) {
+  const position = myPosition ?? -1;
+
+  // Spectators watch every phase but the final standings read-only
+  if (myPosition === null && !phase.matches('finished')) {
+    return (
+      <SpectatorPhase
+        gameState={gameState}
+        players={players}
+        currentTrick={currentTrick}
+        roundTricks={roundTricks}
+        turnSecondsLeft={turnSecondsLeft}
+      />
+    );
+  }
+
   // Waiting for players
-  if (gameState.status === 'waiting') {
-    return <WaitingPhase players={players} onStartGame={actions.startGame} />;
+  if (phase.matches('waiting')) {
+    return (
+      <WaitingPhase
+        players={players}
+        isHost={isHost}
+        onStartGame={actions.startGame}
+        onAddBot={actions.addBot}
+        onRemoveBot={actions.removeBot}
+      />
+    );
   }
 
   // Trump selection
-  if (gameState.dealing_phase === 'trump_selection') {
+  if (phase.matches({ dealing: 'trumpSelection' })) {
     return (
       <TrumpSelectionPhase
         hand={hand}
-        isFiveTrickPlayer={isFiveTrickPlayer}
+        isFiveTrickPlayer={phase.can({ type: 'SELECT_TRUMP', position })}
         selectedTrump={actions.selectedTrump}
         onSelectTrump={actions.setSelectedTrump}
         onConfirmTrump={() => actions.selectedTrump && actions.selectTrump(actions.selectedTrump)}
@@ -276,12 +466,12 @@ function PhaseRouter({
   }
 
   // Deal final 2 cards
-  if (gameState.dealing_phase === 'dealing_3') {
+  if (phase.matches({ dealing: 'dealingThree' })) {
     return (
       <DealingPhase
         hand={hand}
         trumpSuit={gameState.trump_suit}
-        isDealer={isDealer}
+        isDealer={phase.can({ type: 'DEAL_FINAL', position })}
         isDealing={actions.isDealing}
         onDealFinalCards={actions.dealFinalCards}
       />
@@ -289,14 +479,20 @@ function PhaseRouter({
   }
 
   // Card pull phase
-  if (gameState.dealing_phase === 'card_pull' && gameState.card_pull_state) {
+  if (phase.matches({ dealing: 'cardPull' }) && gameState.card_pull_state) {
+    const cardPullState = gameState.card_pull_state as CardPullState;
     return (
       <CardPullPhase
-        cardPullState={gameState.card_pull_state as CardPullState}
+        cardPullState={cardPullState}
         players={players}
         hand={hand}
         myPosition={myPosition}
         trumpSuit={gameState.trump_suit}
+        pullTargets={cardPullState.underScorers
+          .map(u => u.position)
+          .filter(target => phase.can({ type: 'SELECT_PULL_TARGET', position, target }))}
+        canPull={phase.can({ type: 'PULL_CARD', position })}
+        returnableCards={hand.filter(card => phase.can({ type: 'RETURN_CARD', position, card, hand }))}
         onSelectTarget={actions.selectPullTarget}
         onSelectCard={actions.selectCardPosition}
         onReturnCard={actions.returnCard}
@@ -305,36 +501,56 @@ function PhaseRouter({
   }
 
   // Active gameplay
-  if (gameState.status === 'playing') {
+  if (phase.matches('playing')) {
     return (
       <PlayingPhase
         currentTrick={currentTrick}
         players={players}
         currentPlayerIndex={gameState.current_player_index}
         trumpSuit={gameState.trump_suit}
+        trumpLedAtStart={gameState.trump_led_at_start}
+        rules={gameState.rules}
         myPosition={myPosition!}
         hand={hand}
         myPlayerData={myPlayerData}
+        canPlay={!pendingPlay && hand.some(card => phase.can({ type: 'PLAY_CARD', position, card, hand }))}
+        pendingCard={pendingPlay?.card ?? null}
+        roundTricks={roundTricks}
+        turnSecondsLeft={turnSecondsLeft}
         onPlayCard={actions.playCard}
       />
     );
   }
 
   // Round complete
-  if (gameState.status === 'redistribution') {
+  if (phase.matches('redistribution')) {
     return (
       <RedistributionPhase
         players={players}
         roundNumber={gameState.round_number}
         dealerIndex={gameState.dealer_index}
+        dealReveal={
+          gameState.deal_seeds?.find(d => d.round === gameState.round_number - 1) ?? null
+        }
+        observeDeal={observeDeal}
         onStartNewRound={actions.startNewRound}
       />
     );
   }
 
   // Game over
-  if (gameState.status === 'finished') {
-    return <FinishedPhase players={players} />;
+  if (phase.matches('finished')) {
+    return (
+      <FinishedPhase
+        roomId={gameState.id}
+        players={players}
+        rules={gameState.rules}
+        rounds={roundResults}
+        forfeitedPosition={gameState.forfeited_position}
+        dealSeeds={gameState.deal_seeds ?? []}
+        observeDeal={observeDeal}
+      />
+    );
   }
 
   // Fallback
@@ -2,32 +2,56 @@ import { useNavigate } from 'react-router-dom';
 import { supabase } from '@/integrations/supabase/client';
 import { Lobby } from '@/components/Lobby';
 import { useToast } from '@/hooks/use-toast';
+import { useActiveGames } from '@/hooks/useActiveGames';
+import { ensureSession } from '@/lib/session';
+import { RoomRules } from '@/lib/gameLogic';
+import { TurnTimers } from '@/lib/turnTimers';
+import { DisconnectPolicy } from '@/lib/presence';
+import type { Json } from '@/integrations/supabase/types';
 
 const Index = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const activeGames = useActiveGames();
 
-  const handleCreateRoom = async (playerName: string) => {
+  const handleCreateRoom = async (
+    playerName: string,
+    practiceSeed: number | null,
+    rules: RoomRules,
+    turnTimers: TurnTimers,
+    disconnectPolicy: DisconnectPolicy,
+    allowSpectators: boolean
+  ) => {
     try {
+      const userId = await ensureSession();
+
       const { data: room, error } = await supabase
         .from('rooms')
         .insert({
           status: 'waiting',
           dealer_index: 0,
           current_player_index: 0,
+          created_by: userId,
+          practice_seed: practiceSeed,
+          rules: rules as unknown as Json,
+          turn_timers: turnTimers as unknown as Json,
+          disconnect_policy: disconnectPolicy,
+          allow_spectators: allowSpectators,
         })
         .select()
         .single();
 
       if (error) throw error;
 
-      await supabase.from('players').insert({
+      const { error: playerError } = await supabase.from('players').insert({
         room_id: room.id,
         name: playerName,
         position: 0,
+        user_id: userId,
       });
 
-      localStorage.setItem('playerName', playerName);
+      if (playerError) throw playerError;
+
       navigate(`/game/${room.id}`);
     } catch (error: any) {
       toast({
@@ -40,6 +64,8 @@ const Index = () => {
 
   const handleJoinRoom = async (roomId: string, playerName: string) => {
     try {
+      const userId = await ensureSession();
+
       const { data: room, error: roomError } = await supabase
         .from('rooms')
         .select('*')
@@ -52,23 +78,39 @@ const Index = () => {
 
       const { data: existingPlayers } = await supabase
         .from('players')
-        .select('position')
+        .select('position, user_id')
         .eq('room_id', roomId);
 
+      // Already seated in this room with this session: just go back in
+      if (existingPlayers?.some(p => p.user_id === userId)) {
+        navigate(`/game/${roomId}`);
+        return;
+      }
+
       if (existingPlayers && existingPlayers.length >= 3) {
-        throw new Error('Room is full');
+        if (!room.allow_spectators) {
+          throw new Error('Room is full');
+        }
+        toast({ title: 'Room is full', description: 'You are watching as a spectator' });
+        navigate(`/game/${roomId}`);
+        return;
       }
 
       const takenPositions = existingPlayers?.map(p => p.position) || [];
       const availablePosition = [0, 1, 2].find(pos => !takenPositions.includes(pos));
 
-      await supabase.from('players').insert({
+      const { error: playerError } = await supabase.from('players').insert({
         room_id: roomId,
         name: playerName,
         position: availablePosition,
+        user_id: userId,
       });
 
-      localStorage.setItem('playerName', playerName);
+      // Unique (room_id, position) rejects a seat taken in the meantime
+      if (playerError) {
+        throw new Error(playerError.code === '23505' ? 'Room is full' : playerError.message);
+      }
+
       navigate(`/game/${roomId}`);
     } catch (error: any) {
       toast({
@@ -79,7 +121,45 @@ const Index = () => {
     }
   };
 
-  return <Lobby onCreateRoom={handleCreateRoom} onJoinRoom={handleJoinRoom} />;
+  const handleWatchRoom = async (roomId: string) => {
+    // Signed in so the table can count us among the watchers; watching
+    // works without it
+    await ensureSession().catch(() => null);
+
+    // Closed rooms aren't visible to anyone but their players
+    const { data: room } = await supabase
+      .from('rooms')
+      .select('id, allow_spectators')
+      .eq('id', roomId)
+      .maybeSingle();
+
+    if (!room || !room.allow_spectators) {
+      toast({
+        title: 'Error watching room',
+        description: 'Room not found or not open to spectators',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    navigate(`/game/${roomId}`);
+  };
+
+  const handleRejoinWithCode = (code: string) => {
+    navigate(`/rejoin/${encodeURIComponent(code)}`);
+  };
+
+  return (
+    <Lobby
+      activeGames={activeGames}
+      onCreateRoom={handleCreateRoom}
+      onJoinRoom={handleJoinRoom}
+      onWatchRoom={handleWatchRoom}
+      onResumeGame={(roomId) => navigate(`/game/${roomId}`)}
+      onRejoinWithCode={handleRejoinWithCode}
+      onOpenAnalysis={() => navigate('/analysis')}
+    />
+  );
 };
 
 export default Index;
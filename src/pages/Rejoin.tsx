@@ -0,0 +1,50 @@
+import { useEffect, useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { supabase } from '@/integrations/supabase/client';
+import { ensureSession } from '@/lib/session';
+
+/**
+ * Rejoin link target (/rejoin/:code).
+ * Moves the seat with this code to the current browser session, then opens
+ * the game, which restores position, hand and phase from the server.
+ */
+const Rejoin = () => {
+  const { code } = useParams();
+  const navigate = useNavigate();
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!code) return;
+
+    const claim = async () => {
+      try {
+        await ensureSession();
+        const { data: roomId, error: claimError } = await supabase.rpc('claim_seat', {
+          p_code: code
+        });
+        if (claimError || !roomId) throw new Error(claimError?.message || 'Invalid rejoin code');
+        navigate(`/game/${roomId}`, { replace: true });
+      } catch (e: unknown) {
+        setError(e instanceof Error ? e.message : 'Could not rejoin');
+      }
+    };
+
+    claim();
+  }, [code, navigate]);
+
+  return (
+    <div className="min-h-screen bg-background flex flex-col items-center justify-center gap-4">
+      {error ? (
+        <>
+          <p className="text-lg text-destructive">{error}</p>
+          <Button onClick={() => navigate('/')}>Back to Lobby</Button>
+        </>
+      ) : (
+        <p>Rejoining game...</p>
+      )}
+    </div>
+  );
+};
+
+export default Rejoin;
@@ -0,0 +1,233 @@
+import { useState } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { ChevronLeft, ChevronRight, Download, Microscope } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card } from '@/components/Card';
+import { useReplay } from '@/hooks/useReplay';
+import { ReplayRound, ReplayStep } from '@/lib/replay';
+import { RoundHistory } from '@/lib/gameEvents';
+import { cardToString } from '@/lib/gameLogic';
+import { exportNotation, serializeNotation } from '@/lib/notation';
+import { cn } from '@/lib/utils';
+
+/**
+ * ============================================================================
+ * Round Replay Page (/game/:roomId/replay)
+ * ============================================================================
+ *
+ * Steps trick by trick through each round recorded in api.tricks, showing
+ * trump, leader, the cards played, the winner and running trick counts
+ * against each seat's target, after the round's deal and card pull exchanges
+ * from api.game_events. Read-only: anyone with the room link can watch.
+ *
+ * ============================================================================
+ */
+const Replay = () => {
+  const { roomId } = useParams();
+  const navigate = useNavigate();
+  const { rounds, deals, playerNames, rules, isLoading } = useReplay(roomId);
+  const [roundIndex, setRoundIndex] = useState(0);
+  const [stepIndex, setStepIndex] = useState(0);
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        Loading...
+      </div>
+    );
+  }
+
+  const round = rounds[roundIndex];
+  const step = round?.steps[Math.min(stepIndex, round.steps.length - 1)];
+
+  const selectRound = (index: number) => {
+    setRoundIndex(index);
+    setStepIndex(0);
+  };
+
+  // Game notation (src/lib/notation.ts) of everything this seat can see
+  const notationText = () => serializeNotation(exportNotation(playerNames, rules, rounds, deals));
+
+  const handleExport = () => {
+    const url = URL.createObjectURL(new Blob([notationText()], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `325-game-${roomId}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="min-h-screen bg-background p-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex justify-between items-center mb-8">
+          <h1 className="text-3xl font-bold">Replay</h1>
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={handleExport} disabled={rounds.length === 0}>
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => navigate('/analysis', { state: { notation: notationText() } })}
+              disabled={rounds.length === 0}
+            >
+              <Microscope className="h-4 w-4 mr-2" />
+              Analyze
+            </Button>
+            <Button variant="secondary" onClick={() => navigate(`/game/${roomId}`)}>
+              Back to Game
+            </Button>
+          </div>
+        </div>
+
+        {!round || !step ? (
+          <p className="text-center text-muted-foreground py-12">No tricks have been played yet.</p>
+        ) : (
+          <>
+            {/* Round picker */}
+            <div className="flex flex-wrap gap-2 mb-6">
+              {rounds.map((r, index) => (
+                <Button
+                  key={r.roundNumber}
+                  variant={index === roundIndex ? 'default' : 'outline'}
+                  size="sm"
+                  onClick={() => selectRound(index)}
+                >
+                  Round {r.roundNumber}
+                </Button>
+              ))}
+            </div>
+
+            {deals.has(round.roundNumber) && (
+              <ReplayDeal deal={deals.get(round.roundNumber)!} playerNames={playerNames} />
+            )}
+
+            <ReplayTrick round={round} step={step} playerNames={playerNames} />
+
+            {/* Trick stepper */}
+            <div className="flex items-center justify-center gap-4 mt-8">
+              <Button
+                variant="outline"
+                size="icon"
+                disabled={stepIndex === 0}
+                onClick={() => setStepIndex(i => i - 1)}
+              >
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <span className="text-sm text-muted-foreground">
+                Trick {step.trickNumber} of {round.steps.length}
+              </span>
+              <Button
+                variant="outline"
+                size="icon"
+                disabled={stepIndex >= round.steps.length - 1}
+                onClick={() => setStepIndex(i => i + 1)}
+              >
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// ============================================================================
+// SUB-COMPONENTS
+// ============================================================================
+
+interface ReplayDealProps {
+  deal: RoundHistory;
+  playerNames: string[];
+}
+
+/** Dealt hands and card pull exchanges; hidden cards show as "?" until the round ends */
+function ReplayDeal({ deal, playerNames }: ReplayDealProps) {
+  return (
+    <div className="bg-card border border-border rounded-lg p-4 mb-8 text-sm space-y-2">
+      {deal.trumpChosenBy !== null && (
+        <div>
+          {playerNames[deal.trumpChosenBy]} chose {deal.trumpSuit} as trump
+        </div>
+      )}
+      <div className="font-mono text-xs space-y-1">
+        {deal.dealtHands.map((hand, position) => (
+          <div key={position}>
+            {playerNames[position]} dealt: {hand ? hand.map(cardToString).join(' ') : '?'}
+          </div>
+        ))}
+      </div>
+      {deal.exchanges.map((exchange, index) => (
+        <div key={index} className="text-muted-foreground">
+          {playerNames[exchange.puller]} pulled{' '}
+          {exchange.pulledCard ? cardToString(exchange.pulledCard) : 'a card'} from{' '}
+          {playerNames[exchange.target]}
+          {exchange.returnedCard && ` and returned ${cardToString(exchange.returnedCard)}`}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+interface ReplayTrickProps {
+  round: ReplayRound;
+  step: ReplayStep;
+  playerNames: string[];
+}
+
+function ReplayTrick({ round, step, playerNames }: ReplayTrickProps) {
+  return (
+    <div className="flex flex-col items-center gap-8">
+      <div className="flex gap-8 text-center">
+        <div className="bg-secondary px-6 py-3 rounded-lg border-2 border-primary">
+          <div className="text-sm font-medium text-muted-foreground mb-1">Trump Suit</div>
+          <div className="text-4xl">{round.trumpSuit ?? '?'}</div>
+        </div>
+        <div className="bg-secondary px-6 py-3 rounded-lg border border-border">
+          <div className="text-sm font-medium text-muted-foreground mb-1">Led by</div>
+          <div className="text-xl font-semibold pt-2">{playerNames[step.leader]}</div>
+        </div>
+      </div>
+
+      {/* Cards in play order, winner highlighted */}
+      <div className="flex gap-4">
+        {step.cardsPlayed.map(play => (
+          <div key={play.position} className="flex flex-col items-center gap-2">
+            <Card card={play.card} isPlayed highlighted={play.position === step.winner} />
+            <div className="text-xs text-muted-foreground">{playerNames[play.position]}</div>
+          </div>
+        ))}
+      </div>
+      <p className="font-semibold">{playerNames[step.winner]} wins the trick</p>
+
+      {/* Running counts against targets */}
+      <div className="grid grid-cols-3 gap-4 w-full">
+        {[0, 1, 2].map(position => {
+          const target = round.targets?.[position];
+          const won = step.tricksWon[position];
+          return (
+            <div
+              key={position}
+              className={cn(
+                'p-4 rounded-lg border bg-card',
+                position === step.winner ? 'border-primary' : 'border-border'
+              )}
+            >
+              <div className="font-semibold">
+                {playerNames[position]}
+                {position === round.dealerIndex && ' 🎴'}
+              </div>
+              <div className="text-sm text-muted-foreground">
+                Won: {won}{target !== undefined && ` / ${target}`}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default Replay;
@@ -0,0 +1,802 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Server-Authoritative Game Actions
+-- ============================================================================
+--
+-- Moves every game mutation behind Postgres RPC functions so clients can no
+-- longer write hands, scores or room state directly.
+--
+-- Each RPC:
+-- 1. Locks the room row (SELECT ... FOR UPDATE) so actions are serialised
+-- 2. Validates phase, turn order and card rules
+-- 3. Commits room, player and trick rows in a single transaction
+--
+-- SCHEMAS:
+-- - game: private helpers (rule checks, dealing, hand access), NOT exposed
+-- - api:  RPCs called from the client via supabase.rpc(...)
+--
+-- The rule helpers mirror src/lib/gameLogic.ts - keep the two in sync.
+--
+-- ============================================================================
+
+CREATE SCHEMA IF NOT EXISTS game;
+REVOKE ALL ON SCHEMA game FROM PUBLIC;
+
+-- ============================================================================
+-- CARD HELPERS
+-- ============================================================================
+-- Cards are stored as JSONB objects: {"suit": "♠", "rank": "A"}
+
+-- Card rank values for comparison (Ace high), see rankValues in gameLogic.ts
+CREATE OR REPLACE FUNCTION game.rank_value(p_rank TEXT)
+RETURNS INTEGER
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE p_rank
+    WHEN 'A' THEN 14
+    WHEN 'K' THEN 13
+    WHEN 'Q' THEN 12
+    WHEN 'J' THEN 11
+    WHEN '10' THEN 10
+    WHEN '9' THEN 9
+    WHEN '8' THEN 8
+    WHEN '7' THEN 7
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION game.same_card(p_a JSONB, p_b JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT p_a->>'suit' = p_b->>'suit' AND p_a->>'rank' = p_b->>'rank';
+$$;
+
+CREATE OR REPLACE FUNCTION game.has_card(p_hand JSONB, p_card JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(p_hand) c WHERE game.same_card(c, p_card)
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION game.count_suit(p_hand JSONB, p_suit TEXT)
+RETURNS INTEGER
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT count(*)::INTEGER FROM jsonb_array_elements(p_hand) c WHERE c->>'suit' = p_suit;
+$$;
+
+-- Removes a single card from a hand, preserving the order of the rest
+CREATE OR REPLACE FUNCTION game.remove_card(p_hand JSONB, p_card JSONB)
+RETURNS JSONB
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT COALESCE(jsonb_agg(c ORDER BY i), '[]'::jsonb)
+  FROM jsonb_array_elements(p_hand) WITH ORDINALITY AS t(c, i)
+  WHERE NOT game.same_card(c, p_card);
+$$;
+
+-- ============================================================================
+-- DECK & DEALING
+-- ============================================================================
+
+-- The 30-card deck (A-8 of every suit, plus 7♠ and 7♥) in random order
+CREATE OR REPLACE FUNCTION game.shuffled_deck()
+RETURNS JSONB
+LANGUAGE sql VOLATILE AS $$
+  WITH deck AS (
+    SELECT jsonb_build_object('suit', s, 'rank', r) AS card
+    FROM unnest(ARRAY['♠', '♥', '♦', '♣']) s
+    CROSS JOIN unnest(ARRAY['A', 'K', 'Q', 'J', '10', '9', '8']) r
+    UNION ALL SELECT '{"suit": "♠", "rank": "7"}'::jsonb
+    UNION ALL SELECT '{"suit": "♥", "rank": "7"}'::jsonb
+  )
+  SELECT jsonb_agg(card ORDER BY random()) FROM deck;
+$$;
+
+-- Cards for one player when dealing p_count cards round-robin: index i*3 + position
+CREATE OR REPLACE FUNCTION game.deal_slice(p_cards JSONB, p_count INTEGER, p_position INTEGER)
+RETURNS JSONB
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT COALESCE(jsonb_agg(p_cards->(i * 3 + p_position) ORDER BY i), '[]'::jsonb)
+  FROM generate_series(0, p_count - 1) i;
+$$;
+
+-- Everything after the first p_count cards
+CREATE OR REPLACE FUNCTION game.drop_cards(p_cards JSONB, p_count INTEGER)
+RETURNS JSONB
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT COALESCE(jsonb_agg(c ORDER BY i), '[]'::jsonb)
+  FROM jsonb_array_elements(p_cards) WITH ORDINALITY AS t(c, i)
+  WHERE i > p_count;
+$$;
+
+-- Dealer: 2, dealer+1: 5, dealer+2: 3 (see getTargetTricks)
+CREATE OR REPLACE FUNCTION game.target_tricks(p_position INTEGER, p_dealer INTEGER)
+RETURNS INTEGER
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE
+    WHEN p_position = p_dealer THEN 2
+    WHEN p_position = (p_dealer + 1) % 3 THEN 5
+    ELSE 3
+  END;
+$$;
+
+-- ============================================================================
+-- ROOM & SEAT ACCESS
+-- ============================================================================
+
+-- Locks the room for the rest of the transaction
+CREATE OR REPLACE FUNCTION game.lock_room(p_room_id UUID)
+RETURNS api.rooms
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_room api.rooms;
+BEGIN
+  SELECT * INTO v_room FROM api.rooms WHERE id = p_room_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Room not found';
+  END IF;
+  RETURN v_room;
+END;
+$$;
+
+-- Position of the calling player in the room
+CREATE OR REPLACE FUNCTION game.seat_of(p_room_id UUID, p_player_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql STABLE AS $$
+DECLARE
+  v_position INTEGER;
+BEGIN
+  SELECT position INTO v_position
+  FROM api.players
+  WHERE id = p_player_id AND room_id = p_room_id;
+
+  IF v_position IS NULL THEN
+    RAISE EXCEPTION 'You are not a player in this room';
+  END IF;
+  RETURN v_position;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION game.hand_of(p_room_id UUID, p_position INTEGER)
+RETURNS JSONB
+LANGUAGE sql STABLE AS $$
+  SELECT COALESCE(hand, '[]'::jsonb)
+  FROM api.players
+  WHERE room_id = p_room_id AND position = p_position;
+$$;
+
+CREATE OR REPLACE FUNCTION game.set_hand(p_room_id UUID, p_position INTEGER, p_hand JSONB)
+RETURNS VOID
+LANGUAGE sql AS $$
+  UPDATE api.players SET hand = p_hand
+  WHERE room_id = p_room_id AND position = p_position;
+$$;
+
+-- ============================================================================
+-- RULE CHECKS
+-- ============================================================================
+
+-- Winner position of a trick, see evaluateTrick
+CREATE OR REPLACE FUNCTION game.evaluate_trick(p_trick JSONB, p_trump TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+  v_lead_suit TEXT := p_trick->0->'card'->>'suit';
+  v_winner JSONB := p_trick->0;
+  v_play JSONB;
+  v_card JSONB;
+  v_best JSONB;
+BEGIN
+  IF jsonb_array_length(p_trick) = 0 THEN
+    RETURN -1;
+  END IF;
+
+  FOR v_play IN
+    SELECT c FROM jsonb_array_elements(p_trick) WITH ORDINALITY AS t(c, i) WHERE i > 1 ORDER BY i
+  LOOP
+    v_card := v_play->'card';
+    v_best := v_winner->'card';
+
+    -- Trump always wins over non-trump
+    IF v_card->>'suit' = p_trump AND v_best->>'suit' IS DISTINCT FROM p_trump THEN
+      v_winner := v_play;
+    -- Both trump: higher rank wins
+    ELSIF v_card->>'suit' = p_trump AND v_best->>'suit' = p_trump THEN
+      IF game.rank_value(v_card->>'rank') > game.rank_value(v_best->>'rank') THEN
+        v_winner := v_play;
+      END IF;
+    -- Same suit as lead (and not trump): higher rank wins
+    ELSIF v_card->>'suit' = v_lead_suit
+      AND v_best->>'suit' = v_lead_suit
+      AND v_best->>'suit' IS DISTINCT FROM p_trump THEN
+      IF game.rank_value(v_card->>'rank') > game.rank_value(v_best->>'rank') THEN
+        v_winner := v_play;
+      END IF;
+    END IF;
+  END LOOP;
+
+  RETURN (v_winner->>'position')::INTEGER;
+END;
+$$;
+
+-- NULL when the play is legal, otherwise the reason (see isValidMove)
+CREATE OR REPLACE FUNCTION game.move_error(
+  p_card JSONB,
+  p_hand JSONB,
+  p_trick JSONB,
+  p_trump TEXT,
+  p_trick_index INTEGER,
+  p_trump_led_at_start BOOLEAN
+)
+RETURNS TEXT
+LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+  v_lead_suit TEXT;
+BEGIN
+  IF NOT game.has_card(p_hand, p_card) THEN
+    RETURN 'Card is not in your hand';
+  END IF;
+
+  -- Leading a trick
+  IF jsonb_array_length(p_trick) = 0 THEN
+    -- First trick of round: no restrictions
+    IF p_trick_index = 0 OR p_trump IS NULL THEN
+      RETURN NULL;
+    END IF;
+
+    IF p_trump_led_at_start IS TRUE THEN
+      IF p_card->>'suit' <> p_trump AND game.count_suit(p_hand, p_trump) > 0 THEN
+        RETURN 'Must lead trump (trump was led in first trick)';
+      END IF;
+    ELSE
+      IF p_card->>'suit' = p_trump
+        AND game.count_suit(p_hand, p_trump) < jsonb_array_length(p_hand) THEN
+        RETURN 'Cannot lead with trump unless you have no other cards';
+      END IF;
+    END IF;
+
+    RETURN NULL;
+  END IF;
+
+  -- Following: must follow suit if you can
+  v_lead_suit := p_trick->0->'card'->>'suit';
+  IF p_card->>'suit' <> v_lead_suit AND game.count_suit(p_hand, v_lead_suit) > 0 THEN
+    RETURN 'Must follow suit';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- NULL when the card can be returned during card pull (see canReturnCard)
+CREATE OR REPLACE FUNCTION game.return_error(p_return JSONB, p_pulled JSONB, p_hand JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql IMMUTABLE AS $$
+BEGIN
+  IF NOT game.has_card(p_hand, p_return) AND NOT game.same_card(p_return, p_pulled) THEN
+    RETURN 'Card is not in your hand';
+  END IF;
+
+  -- Same card or same suit: always allowed
+  IF p_return->>'suit' = p_pulled->>'suit' THEN
+    RETURN NULL;
+  END IF;
+
+  -- Different suit: must keep at least 2 of that suit
+  IF game.count_suit(p_hand, p_return->>'suit') - 1 >= 2 THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN format(
+    'Cannot return %s%s: must keep at least 2 cards of %s',
+    p_return->>'rank', p_return->>'suit', p_return->>'suit'
+  );
+END;
+$$;
+
+-- Initial card pull state, or NULL when nobody pulls (see calculatePullEligibility)
+CREATE OR REPLACE FUNCTION game.initial_card_pull_state(p_previous JSONB, p_dealer INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+  v_pullers JSONB;
+  v_under_scorers JSONB;
+BEGIN
+  WITH results AS (
+    SELECT
+      (r->>'position')::INTEGER AS position,
+      (r->>'tricksWon')::INTEGER - (r->>'targetTricks')::INTEGER AS diff
+    FROM jsonb_array_elements(COALESCE(p_previous, '[]'::jsonb)) r
+  )
+  SELECT
+    jsonb_agg(
+      jsonb_build_object('position', position, 'extraTricks', diff, 'pullsRemaining', diff)
+      ORDER BY diff DESC, (position - p_dealer + 3) % 3
+    ) FILTER (WHERE diff > 0),
+    jsonb_agg(jsonb_build_object('position', position) ORDER BY position) FILTER (WHERE diff < 0)
+  INTO v_pullers, v_under_scorers
+  FROM results;
+
+  IF v_pullers IS NULL OR v_under_scorers IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'pullers', v_pullers,
+    'underScorers', v_under_scorers,
+    'currentPullerIndex', 0,
+    'phase', 'selecting_target',
+    'selectedTarget', NULL,
+    'pulledCard', NULL,
+    'pulledCardIndex', NULL
+  );
+END;
+$$;
+
+-- ============================================================================
+-- ROUND FLOW
+-- ============================================================================
+
+-- Shuffles and deals the first 5 cards of a round
+CREATE OR REPLACE FUNCTION game.deal_first_five(p_room api.rooms)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_deck JSONB := game.shuffled_deck();
+  v_position INTEGER;
+BEGIN
+  UPDATE api.rooms SET
+    status = 'dealing',
+    dealing_phase = 'trump_selection',
+    trump_suit = NULL,
+    remaining_cards = game.drop_cards(v_deck, 15),
+    current_trick = '[]'::jsonb,
+    trump_led_at_start = NULL
+  WHERE id = p_room.id;
+
+  FOR v_position IN 0..2 LOOP
+    UPDATE api.players SET
+      hand = game.deal_slice(v_deck, 5, v_position),
+      target_tricks = game.target_tricks(v_position, p_room.dealer_index),
+      tricks_won = 0
+    WHERE room_id = p_room.id AND position = v_position;
+  END LOOP;
+END;
+$$;
+
+-- Scores the round, then finishes the game or moves to redistribution
+CREATE OR REPLACE FUNCTION game.end_round(p_room api.rooms)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_previous JSONB;
+BEGIN
+  UPDATE api.players SET
+    overachievement_score = COALESCE(overachievement_score, 0)
+      + COALESCE(tricks_won, 0) - COALESCE(target_tricks, 0)
+  WHERE room_id = p_room.id;
+
+  -- First to +5 wins
+  IF EXISTS (
+    SELECT 1 FROM api.players WHERE room_id = p_room.id AND overachievement_score >= 5
+  ) THEN
+    UPDATE api.rooms SET status = 'finished', dealing_phase = 'finished'
+    WHERE id = p_room.id;
+    RETURN;
+  END IF;
+
+  -- Save results for card pull calculation
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'position', position,
+      'tricksWon', COALESCE(tricks_won, 0),
+      'targetTricks', COALESCE(target_tricks, 0)
+    ) ORDER BY position
+  )
+  INTO v_previous
+  FROM api.players
+  WHERE room_id = p_room.id;
+
+  -- Rotate dealer: 5-trick player becomes new dealer
+  UPDATE api.rooms SET
+    dealer_index = (p_room.dealer_index + 1) % 3,
+    round_number = p_room.round_number + 1,
+    dealing_phase = 'redistribution',
+    status = 'redistribution',
+    previous_round_results = v_previous
+  WHERE id = p_room.id;
+END;
+$$;
+
+-- ============================================================================
+-- RPC: DEALING PHASE
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION api.start_game(p_room_id UUID, p_player_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+BEGIN
+  PERFORM game.seat_of(p_room_id, p_player_id);
+
+  IF v_room.status <> 'waiting' THEN
+    RAISE EXCEPTION 'Game has already started';
+  END IF;
+
+  IF (SELECT count(*) FROM api.players WHERE room_id = p_room_id) <> 3 THEN
+    RAISE EXCEPTION 'Need 3 players to start';
+  END IF;
+
+  PERFORM game.deal_first_five(v_room);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION api.select_trump(p_room_id UUID, p_player_id UUID, p_trump TEXT)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_remaining JSONB;
+  v_player INTEGER;
+BEGIN
+  IF v_room.dealing_phase <> 'trump_selection' THEN
+    RAISE EXCEPTION 'Trump has already been selected';
+  END IF;
+
+  IF v_position <> (v_room.dealer_index + 1) % 3 THEN
+    RAISE EXCEPTION 'Only the 5-trick player can select trump';
+  END IF;
+
+  IF p_trump IS NULL OR p_trump NOT IN ('♠', '♥', '♦', '♣') THEN
+    RAISE EXCEPTION 'Invalid trump suit';
+  END IF;
+
+  v_remaining := COALESCE(v_room.remaining_cards, '[]'::jsonb);
+  IF jsonb_array_length(v_remaining) <> 15 THEN
+    RAISE EXCEPTION 'Invalid remaining cards';
+  END IF;
+
+  -- Add 3 more cards to each player's hand
+  FOR v_player IN 0..2 LOOP
+    PERFORM game.set_hand(
+      p_room_id,
+      v_player,
+      game.hand_of(p_room_id, v_player) || game.deal_slice(v_remaining, 3, v_player)
+    );
+  END LOOP;
+
+  UPDATE api.rooms SET
+    trump_suit = p_trump,
+    dealing_phase = 'dealing_3',
+    remaining_cards = game.drop_cards(v_remaining, 9)
+  WHERE id = p_room_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION api.deal_final(p_room_id UUID, p_player_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_remaining JSONB;
+  v_first_leader INTEGER;
+  v_card_pull_state JSONB := NULL;
+  v_player INTEGER;
+BEGIN
+  IF v_room.dealing_phase <> 'dealing_3' THEN
+    RAISE EXCEPTION 'Final cards have already been dealt';
+  END IF;
+
+  IF v_position <> v_room.dealer_index THEN
+    RAISE EXCEPTION 'Only the dealer can deal the final cards';
+  END IF;
+
+  v_remaining := COALESCE(v_room.remaining_cards, '[]'::jsonb);
+  IF jsonb_array_length(v_remaining) <> 6 THEN
+    RAISE EXCEPTION 'Invalid remaining cards';
+  END IF;
+
+  FOR v_player IN 0..2 LOOP
+    PERFORM game.set_hand(
+      p_room_id,
+      v_player,
+      game.hand_of(p_room_id, v_player) || game.deal_slice(v_remaining, 2, v_player)
+    );
+  END LOOP;
+
+  -- 5-trick player leads first trick
+  v_first_leader := (v_room.dealer_index + 1) % 3;
+
+  -- Card pull only after round 1, and only with both over- and under-scorers
+  IF v_room.round_number > 1 THEN
+    v_card_pull_state := game.initial_card_pull_state(
+      v_room.previous_round_results,
+      v_room.dealer_index
+    );
+  END IF;
+
+  UPDATE api.rooms SET
+    status = CASE WHEN v_card_pull_state IS NULL THEN 'playing' ELSE 'dealing' END,
+    dealing_phase = CASE WHEN v_card_pull_state IS NULL THEN 'playing' ELSE 'card_pull' END,
+    current_player_index = v_first_leader,
+    first_trick_leader = v_first_leader,
+    remaining_cards = NULL,
+    trump_led_at_start = NULL,
+    card_pull_state = v_card_pull_state
+  WHERE id = p_room_id;
+END;
+$$;
+
+-- ============================================================================
+-- RPC: PLAYING PHASE
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION api.play_card(p_room_id UUID, p_player_id UUID, p_card JSONB)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_current_trick JSONB;
+  v_hand JSONB;
+  v_trick_index INTEGER;
+  v_error TEXT;
+  v_trick JSONB;
+  v_winner INTEGER;
+BEGIN
+  IF v_room.status <> 'playing' THEN
+    RAISE EXCEPTION 'Cards cannot be played right now';
+  END IF;
+
+  IF v_position <> v_room.current_player_index THEN
+    RAISE EXCEPTION 'Not your turn';
+  END IF;
+
+  v_current_trick := COALESCE(v_room.current_trick, '[]'::jsonb);
+  IF jsonb_array_length(v_current_trick) >= 3 THEN
+    RAISE EXCEPTION 'Wait for the trick to clear';
+  END IF;
+
+  v_hand := game.hand_of(p_room_id, v_position);
+  v_trick_index := 10 - jsonb_array_length(v_hand);
+
+  v_error := game.move_error(
+    p_card, v_hand, v_current_trick, v_room.trump_suit, v_trick_index, v_room.trump_led_at_start
+  );
+  IF v_error IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_error;
+  END IF;
+
+  v_hand := game.remove_card(v_hand, p_card);
+  PERFORM game.set_hand(p_room_id, v_position, v_hand);
+
+  v_trick := v_current_trick || jsonb_build_array(
+    jsonb_build_object('position', v_position, 'card', p_card)
+  );
+
+  -- Trick not complete: move to next player
+  IF jsonb_array_length(v_trick) < 3 THEN
+    UPDATE api.rooms SET
+      current_trick = v_trick,
+      current_player_index = (v_position + 1) % 3,
+      -- Track if trump was led on first trick
+      trump_led_at_start = CASE
+        WHEN v_trick_index = 0 AND jsonb_array_length(v_current_trick) = 0
+          THEN p_card->>'suit' = v_room.trump_suit
+        ELSE v_room.trump_led_at_start
+      END
+    WHERE id = p_room_id;
+    RETURN;
+  END IF;
+
+  -- Trick complete: award it and save to history
+  v_winner := game.evaluate_trick(v_trick, v_room.trump_suit);
+
+  UPDATE api.players SET tricks_won = COALESCE(tricks_won, 0) + 1
+  WHERE room_id = p_room_id AND position = v_winner;
+
+  INSERT INTO api.tricks (room_id, round_number, trick_number, cards_played, winner_position)
+  VALUES (p_room_id, v_room.round_number, 10 - jsonb_array_length(v_hand), v_trick, v_winner);
+
+  UPDATE api.rooms SET
+    current_trick = v_trick,
+    current_player_index = v_winner
+  WHERE id = p_room_id;
+
+  IF jsonb_array_length(v_hand) = 0 THEN
+    PERFORM game.end_round(v_room);
+  END IF;
+END;
+$$;
+
+-- Clears a completed trick once clients have shown it
+CREATE OR REPLACE FUNCTION api.clear_trick(p_room_id UUID, p_player_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+BEGIN
+  PERFORM game.seat_of(p_room_id, p_player_id);
+
+  IF jsonb_array_length(COALESCE(v_room.current_trick, '[]'::jsonb)) = 3 THEN
+    UPDATE api.rooms SET current_trick = '[]'::jsonb WHERE id = p_room_id;
+  END IF;
+END;
+$$;
+
+-- ============================================================================
+-- RPC: CARD PULL
+-- ============================================================================
+
+-- Verifies the room is in the given card pull step and the caller is the active puller
+CREATE OR REPLACE FUNCTION game.require_puller(p_room api.rooms, p_position INTEGER, p_phase TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+  v_state JSONB := p_room.card_pull_state;
+BEGIN
+  IF p_room.dealing_phase <> 'card_pull' OR v_state IS NULL OR v_state->>'phase' <> p_phase THEN
+    RAISE EXCEPTION 'Invalid action';
+  END IF;
+
+  IF (v_state->'pullers'->((v_state->>'currentPullerIndex')::INTEGER)->>'position')::INTEGER
+    <> p_position THEN
+    RAISE EXCEPTION 'Not your turn to pull';
+  END IF;
+
+  RETURN v_state;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION api.select_pull_target(
+  p_room_id UUID,
+  p_player_id UUID,
+  p_target_position INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_state JSONB := game.require_puller(v_room, v_position, 'selecting_target');
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_state->'underScorers') u
+    WHERE (u->>'position')::INTEGER = p_target_position
+  ) THEN
+    RAISE EXCEPTION 'Invalid target';
+  END IF;
+
+  UPDATE api.rooms SET
+    card_pull_state = v_state || jsonb_build_object(
+      'phase', 'selecting_card',
+      'selectedTarget', p_target_position
+    )
+  WHERE id = p_room_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION api.pull_card(p_room_id UUID, p_player_id UUID, p_card_index INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_state JSONB := game.require_puller(v_room, v_position, 'selecting_card');
+  v_target_hand JSONB;
+BEGIN
+  v_target_hand := game.hand_of(p_room_id, (v_state->>'selectedTarget')::INTEGER);
+
+  IF p_card_index IS NULL OR p_card_index < 0 OR p_card_index >= jsonb_array_length(v_target_hand) THEN
+    RAISE EXCEPTION 'Invalid card position';
+  END IF;
+
+  -- Reveal the pulled card and move to returning_card
+  UPDATE api.rooms SET
+    card_pull_state = v_state || jsonb_build_object(
+      'phase', 'returning_card',
+      'pulledCard', v_target_hand->p_card_index,
+      'pulledCardIndex', p_card_index
+    )
+  WHERE id = p_room_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION api.return_card(p_room_id UUID, p_player_id UUID, p_card JSONB)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_state JSONB := game.require_puller(v_room, v_position, 'returning_card');
+  v_pulled JSONB := v_state->'pulledCard';
+  v_target INTEGER := (v_state->>'selectedTarget')::INTEGER;
+  v_puller_index INTEGER := (v_state->>'currentPullerIndex')::INTEGER;
+  v_hand JSONB;
+  v_error TEXT;
+  v_pulls_remaining INTEGER;
+BEGIN
+  v_hand := game.hand_of(p_room_id, v_position);
+
+  v_error := game.return_error(p_card, v_pulled, v_hand);
+  IF v_error IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_error;
+  END IF;
+
+  -- Giving back the pulled card itself leaves both hands as they were
+  IF NOT game.same_card(p_card, v_pulled) THEN
+    -- Puller: remove returned card, add pulled card
+    PERFORM game.set_hand(
+      p_room_id, v_position, game.remove_card(v_hand, p_card) || jsonb_build_array(v_pulled)
+    );
+
+    -- Target: remove pulled card, add returned card
+    PERFORM game.set_hand(
+      p_room_id,
+      v_target,
+      game.remove_card(game.hand_of(p_room_id, v_target), v_pulled) || jsonb_build_array(p_card)
+    );
+  END IF;
+
+  v_pulls_remaining :=
+    (v_state->'pullers'->v_puller_index->>'pullsRemaining')::INTEGER - 1;
+  v_state := jsonb_set(
+    v_state,
+    ARRAY['pullers', v_puller_index::TEXT, 'pullsRemaining'],
+    to_jsonb(v_pulls_remaining)
+  );
+
+  -- Same puller has more pulls, otherwise move to the next puller
+  IF v_pulls_remaining <= 0 THEN
+    v_puller_index := v_puller_index + 1;
+  END IF;
+
+  IF v_puller_index < jsonb_array_length(v_state->'pullers') THEN
+    UPDATE api.rooms SET
+      card_pull_state = v_state || jsonb_build_object(
+        'currentPullerIndex', v_puller_index,
+        'phase', 'selecting_target',
+        'selectedTarget', NULL,
+        'pulledCard', NULL,
+        'pulledCardIndex', NULL
+      )
+    WHERE id = p_room_id;
+  ELSE
+    -- All pulls complete: transition to playing
+    UPDATE api.rooms SET
+      status = 'playing',
+      dealing_phase = 'playing',
+      card_pull_state = NULL
+    WHERE id = p_room_id;
+  END IF;
+END;
+$$;
+
+-- ============================================================================
+-- RPC: ROUND MANAGEMENT
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION api.start_new_round(p_room_id UUID, p_player_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+BEGIN
+  PERFORM game.seat_of(p_room_id, p_player_id);
+
+  IF v_room.status <> 'redistribution' THEN
+    RAISE EXCEPTION 'Round has already started';
+  END IF;
+
+  PERFORM game.deal_first_five(v_room);
+END;
+$$;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+-- Game state can only change through the RPCs above
+
+DROP POLICY IF EXISTS "Anyone can update rooms" ON api.rooms;
+DROP POLICY IF EXISTS "Anyone can update players" ON api.players;
+DROP POLICY IF EXISTS "Anyone can create tricks" ON api.tricks;
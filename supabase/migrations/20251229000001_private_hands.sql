@@ -0,0 +1,382 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Per-Seat Visibility
+-- ============================================================================
+--
+-- Hands used to live in api.players.hand, readable by anyone through the
+-- "Anyone can view players" policy (and broadcast over realtime). This moves
+-- all hidden information into the private `game` schema:
+--
+-- - game.hands:        each seat's cards
+-- - game.room_secrets: undealt cards and the card being pulled
+--
+-- What clients can see:
+-- - api.players.hand_count: number of cards each seat holds (public)
+-- - api.get_private_view(): the caller's own hand, plus the pulled card
+--   while the caller is the active puller
+--
+-- ============================================================================
+
+-- ============================================================================
+-- PRIVATE TABLES
+-- ============================================================================
+
+-- Cards held by each seat: [{suit, rank}]
+CREATE TABLE IF NOT EXISTS game.hands (
+  room_id UUID REFERENCES api.rooms(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL CHECK (position BETWEEN 0 AND 2),
+  cards JSONB NOT NULL DEFAULT '[]'::jsonb,
+  PRIMARY KEY (room_id, position)
+);
+
+-- Room state that no seat may see
+CREATE TABLE IF NOT EXISTS game.room_secrets (
+  room_id UUID PRIMARY KEY REFERENCES api.rooms(id) ON DELETE CASCADE,
+
+  -- Cards still to be dealt (between dealing phases)
+  remaining_cards JSONB DEFAULT NULL,
+
+  -- Card revealed to the active puller during card pull
+  pulled_card JSONB DEFAULT NULL
+);
+
+REVOKE ALL ON ALL TABLES IN SCHEMA game FROM PUBLIC;
+
+-- Move existing data across
+INSERT INTO game.hands (room_id, position, cards)
+SELECT room_id, position, COALESCE(hand, '[]'::jsonb) FROM api.players
+ON CONFLICT DO NOTHING;
+
+INSERT INTO game.room_secrets (room_id, remaining_cards, pulled_card)
+SELECT id, remaining_cards, card_pull_state->'pulledCard' FROM api.rooms
+ON CONFLICT DO NOTHING;
+
+UPDATE api.rooms SET card_pull_state = card_pull_state || '{"pulledCard": null}'::jsonb
+WHERE card_pull_state IS NOT NULL;
+
+-- ============================================================================
+-- PUBLIC COLUMNS
+-- ============================================================================
+
+-- Opponents only learn how many cards a seat holds
+ALTER TABLE api.players ADD COLUMN IF NOT EXISTS hand_count INTEGER DEFAULT 0;
+UPDATE api.players SET hand_count = jsonb_array_length(COALESCE(hand, '[]'::jsonb));
+
+ALTER TABLE api.players DROP COLUMN IF EXISTS hand;
+ALTER TABLE api.rooms DROP COLUMN IF EXISTS remaining_cards;
+
+-- ============================================================================
+-- HAND & SECRET ACCESS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION game.hand_of(p_room_id UUID, p_position INTEGER)
+RETURNS JSONB
+LANGUAGE sql STABLE AS $$
+  SELECT COALESCE(
+    (SELECT cards FROM game.hands WHERE room_id = p_room_id AND position = p_position),
+    '[]'::jsonb
+  );
+$$;
+
+-- Stores the hand privately and publishes only its size
+CREATE OR REPLACE FUNCTION game.set_hand(p_room_id UUID, p_position INTEGER, p_hand JSONB)
+RETURNS VOID
+LANGUAGE sql AS $$
+  INSERT INTO game.hands (room_id, position, cards)
+  VALUES (p_room_id, p_position, p_hand)
+  ON CONFLICT (room_id, position) DO UPDATE SET cards = EXCLUDED.cards;
+
+  UPDATE api.players SET hand_count = jsonb_array_length(p_hand)
+  WHERE room_id = p_room_id AND position = p_position;
+$$;
+
+CREATE OR REPLACE FUNCTION game.secrets_of(p_room_id UUID)
+RETURNS game.room_secrets
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_secrets game.room_secrets;
+BEGIN
+  INSERT INTO game.room_secrets (room_id) VALUES (p_room_id) ON CONFLICT DO NOTHING;
+  SELECT * INTO v_secrets FROM game.room_secrets WHERE room_id = p_room_id;
+  RETURN v_secrets;
+END;
+$$;
+
+-- ============================================================================
+-- ROUND FLOW
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION game.deal_first_five(p_room api.rooms)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_deck JSONB := game.shuffled_deck();
+  v_position INTEGER;
+BEGIN
+  PERFORM game.secrets_of(p_room.id);
+  UPDATE game.room_secrets SET
+    remaining_cards = game.drop_cards(v_deck, 15),
+    pulled_card = NULL
+  WHERE room_id = p_room.id;
+
+  UPDATE api.rooms SET
+    status = 'dealing',
+    dealing_phase = 'trump_selection',
+    trump_suit = NULL,
+    current_trick = '[]'::jsonb,
+    trump_led_at_start = NULL
+  WHERE id = p_room.id;
+
+  FOR v_position IN 0..2 LOOP
+    PERFORM game.set_hand(p_room.id, v_position, game.deal_slice(v_deck, 5, v_position));
+
+    UPDATE api.players SET
+      target_tricks = game.target_tricks(v_position, p_room.dealer_index),
+      tricks_won = 0
+    WHERE room_id = p_room.id AND position = v_position;
+  END LOOP;
+END;
+$$;
+
+-- ============================================================================
+-- RPC: DEALING PHASE
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION api.select_trump(p_room_id UUID, p_player_id UUID, p_trump TEXT)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_remaining JSONB;
+  v_player INTEGER;
+BEGIN
+  IF v_room.dealing_phase <> 'trump_selection' THEN
+    RAISE EXCEPTION 'Trump has already been selected';
+  END IF;
+
+  IF v_position <> (v_room.dealer_index + 1) % 3 THEN
+    RAISE EXCEPTION 'Only the 5-trick player can select trump';
+  END IF;
+
+  IF p_trump IS NULL OR p_trump NOT IN ('♠', '♥', '♦', '♣') THEN
+    RAISE EXCEPTION 'Invalid trump suit';
+  END IF;
+
+  v_remaining := COALESCE((game.secrets_of(p_room_id)).remaining_cards, '[]'::jsonb);
+  IF jsonb_array_length(v_remaining) <> 15 THEN
+    RAISE EXCEPTION 'Invalid remaining cards';
+  END IF;
+
+  -- Add 3 more cards to each player's hand
+  FOR v_player IN 0..2 LOOP
+    PERFORM game.set_hand(
+      p_room_id,
+      v_player,
+      game.hand_of(p_room_id, v_player) || game.deal_slice(v_remaining, 3, v_player)
+    );
+  END LOOP;
+
+  UPDATE game.room_secrets SET remaining_cards = game.drop_cards(v_remaining, 9)
+  WHERE room_id = p_room_id;
+
+  UPDATE api.rooms SET
+    trump_suit = p_trump,
+    dealing_phase = 'dealing_3'
+  WHERE id = p_room_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION api.deal_final(p_room_id UUID, p_player_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_remaining JSONB;
+  v_first_leader INTEGER;
+  v_card_pull_state JSONB := NULL;
+  v_player INTEGER;
+BEGIN
+  IF v_room.dealing_phase <> 'dealing_3' THEN
+    RAISE EXCEPTION 'Final cards have already been dealt';
+  END IF;
+
+  IF v_position <> v_room.dealer_index THEN
+    RAISE EXCEPTION 'Only the dealer can deal the final cards';
+  END IF;
+
+  v_remaining := COALESCE((game.secrets_of(p_room_id)).remaining_cards, '[]'::jsonb);
+  IF jsonb_array_length(v_remaining) <> 6 THEN
+    RAISE EXCEPTION 'Invalid remaining cards';
+  END IF;
+
+  FOR v_player IN 0..2 LOOP
+    PERFORM game.set_hand(
+      p_room_id,
+      v_player,
+      game.hand_of(p_room_id, v_player) || game.deal_slice(v_remaining, 2, v_player)
+    );
+  END LOOP;
+
+  UPDATE game.room_secrets SET remaining_cards = NULL WHERE room_id = p_room_id;
+
+  -- 5-trick player leads first trick
+  v_first_leader := (v_room.dealer_index + 1) % 3;
+
+  -- Card pull only after round 1, and only with both over- and under-scorers
+  IF v_room.round_number > 1 THEN
+    v_card_pull_state := game.initial_card_pull_state(
+      v_room.previous_round_results,
+      v_room.dealer_index
+    );
+  END IF;
+
+  UPDATE api.rooms SET
+    status = CASE WHEN v_card_pull_state IS NULL THEN 'playing' ELSE 'dealing' END,
+    dealing_phase = CASE WHEN v_card_pull_state IS NULL THEN 'playing' ELSE 'card_pull' END,
+    current_player_index = v_first_leader,
+    first_trick_leader = v_first_leader,
+    trump_led_at_start = NULL,
+    card_pull_state = v_card_pull_state
+  WHERE id = p_room_id;
+END;
+$$;
+
+-- ============================================================================
+-- RPC: CARD PULL
+-- ============================================================================
+-- The pulled card is kept in game.room_secrets; card_pull_state.pulledCard
+-- stays null so only the puller (via api.get_private_view) ever sees it.
+
+CREATE OR REPLACE FUNCTION api.pull_card(p_room_id UUID, p_player_id UUID, p_card_index INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_state JSONB := game.require_puller(v_room, v_position, 'selecting_card');
+  v_target_hand JSONB;
+BEGIN
+  v_target_hand := game.hand_of(p_room_id, (v_state->>'selectedTarget')::INTEGER);
+
+  IF p_card_index IS NULL OR p_card_index < 0 OR p_card_index >= jsonb_array_length(v_target_hand) THEN
+    RAISE EXCEPTION 'Invalid card position';
+  END IF;
+
+  PERFORM game.secrets_of(p_room_id);
+  UPDATE game.room_secrets SET pulled_card = v_target_hand->p_card_index
+  WHERE room_id = p_room_id;
+
+  UPDATE api.rooms SET
+    card_pull_state = v_state || jsonb_build_object(
+      'phase', 'returning_card',
+      'pulledCardIndex', p_card_index
+    )
+  WHERE id = p_room_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION api.return_card(p_room_id UUID, p_player_id UUID, p_card JSONB)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_state JSONB := game.require_puller(v_room, v_position, 'returning_card');
+  v_pulled JSONB := (game.secrets_of(p_room_id)).pulled_card;
+  v_target INTEGER := (v_state->>'selectedTarget')::INTEGER;
+  v_puller_index INTEGER := (v_state->>'currentPullerIndex')::INTEGER;
+  v_hand JSONB;
+  v_error TEXT;
+  v_pulls_remaining INTEGER;
+BEGIN
+  IF v_pulled IS NULL THEN
+    RAISE EXCEPTION 'Invalid action';
+  END IF;
+
+  v_hand := game.hand_of(p_room_id, v_position);
+
+  v_error := game.return_error(p_card, v_pulled, v_hand);
+  IF v_error IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_error;
+  END IF;
+
+  -- Giving back the pulled card itself leaves both hands as they were
+  IF NOT game.same_card(p_card, v_pulled) THEN
+    -- Puller: remove returned card, add pulled card
+    PERFORM game.set_hand(
+      p_room_id, v_position, game.remove_card(v_hand, p_card) || jsonb_build_array(v_pulled)
+    );
+
+    -- Target: remove pulled card, add returned card
+    PERFORM game.set_hand(
+      p_room_id,
+      v_target,
+      game.remove_card(game.hand_of(p_room_id, v_target), v_pulled) || jsonb_build_array(p_card)
+    );
+  END IF;
+
+  UPDATE game.room_secrets SET pulled_card = NULL WHERE room_id = p_room_id;
+
+  v_pulls_remaining :=
+    (v_state->'pullers'->v_puller_index->>'pullsRemaining')::INTEGER - 1;
+  v_state := jsonb_set(
+    v_state,
+    ARRAY['pullers', v_puller_index::TEXT, 'pullsRemaining'],
+    to_jsonb(v_pulls_remaining)
+  );
+
+  -- Same puller has more pulls, otherwise move to the next puller
+  IF v_pulls_remaining <= 0 THEN
+    v_puller_index := v_puller_index + 1;
+  END IF;
+
+  IF v_puller_index < jsonb_array_length(v_state->'pullers') THEN
+    UPDATE api.rooms SET
+      card_pull_state = v_state || jsonb_build_object(
+        'currentPullerIndex', v_puller_index,
+        'phase', 'selecting_target',
+        'selectedTarget', NULL,
+        'pulledCard', NULL,
+        'pulledCardIndex', NULL
+      )
+    WHERE id = p_room_id;
+  ELSE
+    -- All pulls complete: transition to playing
+    UPDATE api.rooms SET
+      status = 'playing',
+      dealing_phase = 'playing',
+      card_pull_state = NULL
+    WHERE id = p_room_id;
+  END IF;
+END;
+$$;
+
+-- ============================================================================
+-- RPC: PRIVATE VIEW
+-- ============================================================================
+
+-- Everything only the calling seat may see: {hand, pulledCard}
+CREATE OR REPLACE FUNCTION api.get_private_view(p_room_id UUID, p_player_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_state JSONB;
+  v_pulled JSONB := NULL;
+BEGIN
+  SELECT card_pull_state INTO v_state FROM api.rooms WHERE id = p_room_id;
+
+  -- Only the active puller sees the card they pulled
+  IF v_state->>'phase' = 'returning_card'
+    AND (v_state->'pullers'->((v_state->>'currentPullerIndex')::INTEGER)->>'position')::INTEGER
+      = v_position THEN
+    SELECT pulled_card INTO v_pulled FROM game.room_secrets WHERE room_id = p_room_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'hand', game.hand_of(p_room_id, v_position),
+    'pulledCard', v_pulled
+  );
+END;
+$$;
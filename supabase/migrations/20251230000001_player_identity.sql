@@ -0,0 +1,80 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Player Identity
+-- ============================================================================
+--
+-- Seats used to be matched on the player name kept in localStorage, so two
+-- players with the same name collided and anyone typing a name took that seat.
+--
+-- Every browser now signs in with a Supabase anonymous auth session and each
+-- seat is bound to that session at join time:
+-- - api.players.user_id: auth.uid() of the seat's owner
+-- - api.rooms.created_by: auth.uid() of the room's creator
+--
+-- RPCs keep taking p_player_id to name the seat, but game.seat_of only
+-- accepts it when the seat belongs to the caller's session.
+--
+-- ============================================================================
+
+-- ============================================================================
+-- IDENTITY COLUMNS
+-- ============================================================================
+
+ALTER TABLE api.rooms
+  ADD COLUMN IF NOT EXISTS created_by UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL;
+
+ALTER TABLE api.players
+  ADD COLUMN IF NOT EXISTS user_id UUID DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE SET NULL;
+
+-- One seat per session per room
+ALTER TABLE api.players
+  ADD CONSTRAINT players_room_id_user_id_key UNIQUE (room_id, user_id);
+
+-- ============================================================================
+-- SEAT ACCESS
+-- ============================================================================
+
+-- Position of the calling player, only if the seat belongs to their session
+CREATE OR REPLACE FUNCTION game.seat_of(p_room_id UUID, p_player_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql STABLE AS $$
+DECLARE
+  v_position INTEGER;
+BEGIN
+  SELECT position INTO v_position
+  FROM api.players
+  WHERE id = p_player_id
+    AND room_id = p_room_id
+    AND user_id = auth.uid();
+
+  IF v_position IS NULL THEN
+    RAISE EXCEPTION 'You are not a player in this room';
+  END IF;
+  RETURN v_position;
+END;
+$$;
+
+-- ============================================================================
+-- ROW LEVEL SECURITY
+-- ============================================================================
+-- Creating rooms and taking seats is keyed on the caller's session.
+-- Seat numbers are capped by the (room_id, position) unique constraint.
+
+DROP POLICY IF EXISTS "Anyone can create rooms" ON api.rooms;
+DROP POLICY IF EXISTS "Anyone can join as player" ON api.players;
+
+CREATE POLICY "Signed-in users can create rooms" ON api.rooms
+  FOR INSERT WITH CHECK (
+    created_by = auth.uid()
+    AND status = 'waiting'
+  );
+
+CREATE POLICY "Players can only join as themselves" ON api.players
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND COALESCE(tricks_won, 0) = 0
+    AND COALESCE(overachievement_score, 0) = 0
+    AND COALESCE(hand_count, 0) = 0
+    AND EXISTS (
+      SELECT 1 FROM api.rooms r WHERE r.id = room_id AND r.status = 'waiting'
+    )
+  );
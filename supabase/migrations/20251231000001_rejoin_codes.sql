@@ -0,0 +1,93 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Rejoin Codes
+-- ============================================================================
+--
+-- A seat is bound to the anonymous auth session that joined it, so closing
+-- the tab on one device and opening the game on another lost the seat.
+--
+-- Each seat now has a private rejoin code. Presenting it from any session
+-- moves the seat to that session, which restores position, hand and phase.
+--
+-- - api.get_rejoin_code(): the caller's own code (shown in the game header)
+-- - api.claim_seat(): rebinds the seat to the caller, returns the room id
+--
+-- ============================================================================
+
+-- ============================================================================
+-- PRIVATE TABLE
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS game.seat_codes (
+  player_id UUID PRIMARY KEY REFERENCES api.players(id) ON DELETE CASCADE,
+  code TEXT NOT NULL UNIQUE,
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+REVOKE ALL ON game.seat_codes FROM PUBLIC;
+
+-- 8 uppercase hex characters, e.g. "3F9A0C17"
+CREATE OR REPLACE FUNCTION game.new_seat_code()
+RETURNS TEXT
+LANGUAGE sql VOLATILE AS $$
+  SELECT upper(substr(md5(gen_random_uuid()::TEXT), 1, 8));
+$$;
+
+-- ============================================================================
+-- RPC: REJOIN
+-- ============================================================================
+
+-- Returns the caller's rejoin code for their seat, creating it on first use
+CREATE OR REPLACE FUNCTION api.get_rejoin_code(p_room_id UUID, p_player_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_code TEXT;
+BEGIN
+  PERFORM game.seat_of(p_room_id, p_player_id);
+
+  SELECT code INTO v_code FROM game.seat_codes WHERE player_id = p_player_id;
+  IF v_code IS NULL THEN
+    INSERT INTO game.seat_codes (player_id, code)
+    VALUES (p_player_id, game.new_seat_code())
+    RETURNING code INTO v_code;
+  END IF;
+
+  RETURN v_code;
+END;
+$$;
+
+-- Moves the seat with this code to the caller's session
+CREATE OR REPLACE FUNCTION api.claim_seat(p_code TEXT)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_player api.players;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  SELECT p.* INTO v_player
+  FROM game.seat_codes c
+  JOIN api.players p ON p.id = c.player_id
+  WHERE c.code = upper(trim(p_code))
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Invalid rejoin code';
+  END IF;
+
+  IF v_player.user_id IS DISTINCT FROM auth.uid() THEN
+    IF EXISTS (
+      SELECT 1 FROM api.players
+      WHERE room_id = v_player.room_id AND user_id = auth.uid()
+    ) THEN
+      RAISE EXCEPTION 'You already have a different seat in this room';
+    END IF;
+
+    UPDATE api.players SET user_id = auth.uid() WHERE id = v_player.id;
+  END IF;
+
+  RETURN v_player.room_id;
+END;
+$$;
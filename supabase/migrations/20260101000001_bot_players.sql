@@ -0,0 +1,113 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Bot Players
+-- ============================================================================
+--
+-- Computer opponents fill empty seats so fewer than 3 people can play.
+--
+-- - A bot is an api.players row with is_bot = true and no user_id
+-- - The room creator's browser drives the bots (src/hooks/useBotDriver.ts):
+--   it calls the normal RPCs with the bot's player id, and game.seat_of
+--   accepts that because the caller created the room
+--
+-- NOTE: the host's browser can therefore read the bot hands it plays with.
+-- Bots are meant for casual games, not for hiding information from the host.
+--
+-- ============================================================================
+
+ALTER TABLE api.players ADD COLUMN IF NOT EXISTS is_bot BOOLEAN DEFAULT false;
+ALTER TABLE api.players ADD COLUMN IF NOT EXISTS bot_difficulty TEXT DEFAULT NULL
+  CHECK (bot_difficulty IS NULL OR bot_difficulty IN ('easy', 'medium', 'hard'));
+
+-- ============================================================================
+-- SEAT ACCESS
+-- ============================================================================
+
+-- Position of the acting seat: the caller's own seat, or a bot seat in a
+-- room the caller created
+CREATE OR REPLACE FUNCTION game.seat_of(p_room_id UUID, p_player_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql STABLE AS $$
+DECLARE
+  v_position INTEGER;
+BEGIN
+  SELECT p.position INTO v_position
+  FROM api.players p
+  JOIN api.rooms r ON r.id = p.room_id
+  WHERE p.id = p_player_id
+    AND p.room_id = p_room_id
+    AND (
+      p.user_id = auth.uid()
+      OR (p.is_bot AND r.created_by = auth.uid())
+    );
+
+  IF v_position IS NULL THEN
+    RAISE EXCEPTION 'You are not a player in this room';
+  END IF;
+  RETURN v_position;
+END;
+$$;
+
+-- Only the room creator manages bots, and only before the game starts
+CREATE OR REPLACE FUNCTION game.require_host_waiting(p_room api.rooms)
+RETURNS VOID
+LANGUAGE plpgsql STABLE AS $$
+BEGIN
+  IF p_room.created_by IS DISTINCT FROM auth.uid() THEN
+    RAISE EXCEPTION 'Only the room creator can manage bots';
+  END IF;
+
+  IF p_room.status <> 'waiting' THEN
+    RAISE EXCEPTION 'Game has already started';
+  END IF;
+END;
+$$;
+
+-- ============================================================================
+-- RPC: BOTS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION api.add_bot(p_room_id UUID, p_difficulty TEXT)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER;
+BEGIN
+  PERFORM game.require_host_waiting(v_room);
+
+  IF p_difficulty IS NULL OR p_difficulty NOT IN ('easy', 'medium', 'hard') THEN
+    RAISE EXCEPTION 'Invalid bot difficulty';
+  END IF;
+
+  SELECT min(s) INTO v_position
+  FROM generate_series(0, 2) s
+  WHERE s NOT IN (SELECT position FROM api.players WHERE room_id = p_room_id);
+
+  IF v_position IS NULL THEN
+    RAISE EXCEPTION 'Room is full';
+  END IF;
+
+  INSERT INTO api.players (room_id, name, position, user_id, is_bot, bot_difficulty)
+  VALUES (
+    p_room_id,
+    format('Bot %s (%s)', v_position + 1, initcap(p_difficulty)),
+    v_position,
+    NULL,
+    true,
+    p_difficulty
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION api.remove_bot(p_room_id UUID, p_player_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+BEGIN
+  PERFORM game.require_host_waiting(v_room);
+
+  DELETE FROM api.players
+  WHERE id = p_player_id AND room_id = p_room_id AND is_bot;
+END;
+$$;
@@ -0,0 +1,46 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Expert Bots
+-- ============================================================================
+--
+-- Adds the 'expert' bot difficulty. Expert bots search sampled deals of the
+-- unseen cards (src/lib/mcts.ts) in a Web Worker on the host's browser; the
+-- server only needs to accept the new difficulty value.
+--
+-- ============================================================================
+
+ALTER TABLE api.players DROP CONSTRAINT IF EXISTS players_bot_difficulty_check;
+ALTER TABLE api.players ADD CONSTRAINT players_bot_difficulty_check
+  CHECK (bot_difficulty IS NULL OR bot_difficulty IN ('easy', 'medium', 'hard', 'expert'));
+
+CREATE OR REPLACE FUNCTION api.add_bot(p_room_id UUID, p_difficulty TEXT)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER;
+BEGIN
+  PERFORM game.require_host_waiting(v_room);
+
+  IF p_difficulty IS NULL OR p_difficulty NOT IN ('easy', 'medium', 'hard', 'expert') THEN
+    RAISE EXCEPTION 'Invalid bot difficulty';
+  END IF;
+
+  SELECT min(s) INTO v_position
+  FROM generate_series(0, 2) s
+  WHERE s NOT IN (SELECT position FROM api.players WHERE room_id = p_room_id);
+
+  IF v_position IS NULL THEN
+    RAISE EXCEPTION 'Room is full';
+  END IF;
+
+  INSERT INTO api.players (room_id, name, position, user_id, is_bot, bot_difficulty)
+  VALUES (
+    p_room_id,
+    format('Bot %s (%s)', v_position + 1, initcap(p_difficulty)),
+    v_position,
+    NULL,
+    true,
+    p_difficulty
+  );
+END;
+$$;
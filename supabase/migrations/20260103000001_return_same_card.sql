@@ -0,0 +1,88 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Returning the Pulled Card
+-- ============================================================================
+--
+-- Giving back the pulled card itself used to add it to the puller's hand
+-- while leaving it in the target's hand (11 cards vs 10). Now it leaves both
+-- hands as they were, matching RETURN_CARD in src/lib/gameEngine.ts.
+--
+-- 20251228000001_server_game_actions.sql and 20251229000001_private_hands.sql
+-- have the same fix; this applies it to databases that ran them before.
+--
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION api.return_card(p_room_id UUID, p_player_id UUID, p_card JSONB)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_state JSONB := game.require_puller(v_room, v_position, 'returning_card');
+  v_pulled JSONB := (game.secrets_of(p_room_id)).pulled_card;
+  v_target INTEGER := (v_state->>'selectedTarget')::INTEGER;
+  v_puller_index INTEGER := (v_state->>'currentPullerIndex')::INTEGER;
+  v_hand JSONB;
+  v_error TEXT;
+  v_pulls_remaining INTEGER;
+BEGIN
+  IF v_pulled IS NULL THEN
+    RAISE EXCEPTION 'Invalid action';
+  END IF;
+
+  v_hand := game.hand_of(p_room_id, v_position);
+
+  v_error := game.return_error(p_card, v_pulled, v_hand);
+  IF v_error IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_error;
+  END IF;
+
+  -- Giving back the pulled card itself leaves both hands as they were
+  IF NOT game.same_card(p_card, v_pulled) THEN
+    -- Puller: remove returned card, add pulled card
+    PERFORM game.set_hand(
+      p_room_id, v_position, game.remove_card(v_hand, p_card) || jsonb_build_array(v_pulled)
+    );
+
+    -- Target: remove pulled card, add returned card
+    PERFORM game.set_hand(
+      p_room_id,
+      v_target,
+      game.remove_card(game.hand_of(p_room_id, v_target), v_pulled) || jsonb_build_array(p_card)
+    );
+  END IF;
+
+  UPDATE game.room_secrets SET pulled_card = NULL WHERE room_id = p_room_id;
+
+  v_pulls_remaining :=
+    (v_state->'pullers'->v_puller_index->>'pullsRemaining')::INTEGER - 1;
+  v_state := jsonb_set(
+    v_state,
+    ARRAY['pullers', v_puller_index::TEXT, 'pullsRemaining'],
+    to_jsonb(v_pulls_remaining)
+  );
+
+  -- Same puller has more pulls, otherwise move to the next puller
+  IF v_pulls_remaining <= 0 THEN
+    v_puller_index := v_puller_index + 1;
+  END IF;
+
+  IF v_puller_index < jsonb_array_length(v_state->'pullers') THEN
+    UPDATE api.rooms SET
+      card_pull_state = v_state || jsonb_build_object(
+        'currentPullerIndex', v_puller_index,
+        'phase', 'selecting_target',
+        'selectedTarget', NULL,
+        'pulledCard', NULL,
+        'pulledCardIndex', NULL
+      )
+    WHERE id = p_room_id;
+  ELSE
+    -- All pulls complete: transition to playing
+    UPDATE api.rooms SET
+      status = 'playing',
+      dealing_phase = 'playing',
+      card_pull_state = NULL
+    WHERE id = p_room_id;
+  END IF;
+END;
+$$;
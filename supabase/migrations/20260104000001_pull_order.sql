@@ -0,0 +1,47 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Card Pull Order
+-- ============================================================================
+--
+-- Pullers with the same number of extra tricks go clockwise starting with
+-- dealer+1, as documented in calculatePullEligibility (gameLogic.ts). The
+-- previous ordering put the dealer first.
+--
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION game.initial_card_pull_state(p_previous JSONB, p_dealer INTEGER)
+RETURNS JSONB
+LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+  v_pullers JSONB;
+  v_under_scorers JSONB;
+BEGIN
+  WITH results AS (
+    SELECT
+      (r->>'position')::INTEGER AS position,
+      (r->>'tricksWon')::INTEGER - (r->>'targetTricks')::INTEGER AS diff
+    FROM jsonb_array_elements(COALESCE(p_previous, '[]'::jsonb)) r
+  )
+  SELECT
+    jsonb_agg(
+      jsonb_build_object('position', position, 'extraTricks', diff, 'pullsRemaining', diff)
+      ORDER BY diff DESC, (position - p_dealer + 2) % 3
+    ) FILTER (WHERE diff > 0),
+    jsonb_agg(jsonb_build_object('position', position) ORDER BY position) FILTER (WHERE diff < 0)
+  INTO v_pullers, v_under_scorers
+  FROM results;
+
+  IF v_pullers IS NULL OR v_under_scorers IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'pullers', v_pullers,
+    'underScorers', v_under_scorers,
+    'currentPullerIndex', 0,
+    'phase', 'selecting_target',
+    'selectedTarget', NULL,
+    'pulledCard', NULL,
+    'pulledCardIndex', NULL
+  );
+END;
+$$;
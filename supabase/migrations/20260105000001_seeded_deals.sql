@@ -0,0 +1,187 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Seeded Deals
+-- ============================================================================
+--
+-- Every round is dealt from a deck shuffled by a seeded PRNG, so a deal can be
+-- reproduced from its seed (createSeededDeck in gameLogic.ts yields the same
+-- deck for the same seed).
+--
+-- - game.room_secrets.deal_seed: seed of the round in play (secret: it
+--   reveals every hand)
+-- - api.rooms.deal_seeds: [{round, seed}, ...] published as each round ends,
+--   for replays and bug reports
+-- - api.rooms.practice_seed: optional fixed seed chosen when creating a
+--   practice room; round N is dealt with practice_seed + N - 1
+--
+-- ============================================================================
+
+ALTER TABLE game.room_secrets ADD COLUMN IF NOT EXISTS deal_seed BIGINT;
+
+ALTER TABLE api.rooms ADD COLUMN IF NOT EXISTS deal_seeds JSONB DEFAULT '[]'::jsonb;
+ALTER TABLE api.rooms ADD COLUMN IF NOT EXISTS practice_seed BIGINT DEFAULT NULL
+  CHECK (practice_seed IS NULL OR practice_seed BETWEEN 0 AND 4294967295);
+
+-- ============================================================================
+-- SEEDED SHUFFLE
+-- ============================================================================
+
+-- Low 32 bits of a * b for unsigned 32-bit values (Math.imul), without
+-- overflowing BIGINT
+CREATE OR REPLACE FUNCTION game.imul32(p_a BIGINT, p_b BIGINT)
+RETURNS BIGINT
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT ((p_a * (p_b & 65535)) + (((p_a * (p_b >> 16)) & 65535) << 16)) & 4294967295;
+$$;
+
+-- The 30-card deck in createDeck() order: A-8 of ♠ ♥ ♦ ♣, then 7♠ and 7♥
+CREATE OR REPLACE FUNCTION game.ordered_deck()
+RETURNS JSONB[]
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT array_agg(jsonb_build_object('suit', s, 'rank', r) ORDER BY si, ri)
+    || ARRAY['{"suit": "♠", "rank": "7"}'::jsonb, '{"suit": "♥", "rank": "7"}'::jsonb]
+  FROM unnest(ARRAY['♠', '♥', '♦', '♣']) WITH ORDINALITY AS su(s, si)
+  CROSS JOIN unnest(ARRAY['A', 'K', 'Q', 'J', '10', '9', '8']) WITH ORDINALITY AS ra(r, ri);
+$$;
+
+-- Fisher-Yates shuffle driven by mulberry32: same as
+-- shuffle(createDeck(), createRng(seed)) in gameLogic.ts
+CREATE OR REPLACE FUNCTION game.seeded_deck(p_seed BIGINT)
+RETURNS JSONB
+LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+  v_cards JSONB[] := game.ordered_deck();
+  v_state BIGINT := p_seed & 4294967295;
+  v_t BIGINT;
+  v_i INTEGER;
+  v_j INTEGER;
+  v_swap JSONB;
+BEGIN
+  FOR v_i IN REVERSE array_length(v_cards, 1) - 1 .. 1 LOOP
+    -- Next mulberry32 output as an unsigned 32-bit integer
+    v_state := (v_state + 1831565813) & 4294967295;
+    v_t := game.imul32(v_state # (v_state >> 15), 1 | v_state);
+    v_t := ((v_t + game.imul32(v_t # (v_t >> 7), 61 | v_t)) & 4294967295) # v_t;
+    v_t := v_t # (v_t >> 14);
+
+    -- floor(random * (i + 1)) with random = v_t / 2^32
+    v_j := ((v_t * (v_i + 1)) >> 32)::INTEGER;
+
+    -- Arrays are 1-based, the JS indexes 0-based
+    v_swap := v_cards[v_i + 1];
+    v_cards[v_i + 1] := v_cards[v_j + 1];
+    v_cards[v_j + 1] := v_swap;
+  END LOOP;
+
+  RETURN to_jsonb(v_cards);
+END;
+$$;
+
+-- Seed for the next deal: derived from the practice seed, otherwise random
+CREATE OR REPLACE FUNCTION game.next_deal_seed(p_room api.rooms)
+RETURNS BIGINT
+LANGUAGE sql VOLATILE AS $$
+  SELECT CASE
+    WHEN p_room.practice_seed IS NOT NULL
+      THEN (p_room.practice_seed + p_room.round_number - 1) & 4294967295
+    ELSE floor(random() * 4294967296)::BIGINT
+  END;
+$$;
+
+-- ============================================================================
+-- ROUND FLOW
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION game.deal_first_five(p_room api.rooms)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_seed BIGINT := game.next_deal_seed(p_room);
+  v_deck JSONB := game.seeded_deck(v_seed);
+  v_position INTEGER;
+BEGIN
+  PERFORM game.secrets_of(p_room.id);
+  UPDATE game.room_secrets SET
+    remaining_cards = game.drop_cards(v_deck, 15),
+    pulled_card = NULL,
+    deal_seed = v_seed
+  WHERE room_id = p_room.id;
+
+  UPDATE api.rooms SET
+    status = 'dealing',
+    dealing_phase = 'trump_selection',
+    trump_suit = NULL,
+    current_trick = '[]'::jsonb,
+    trump_led_at_start = NULL
+  WHERE id = p_room.id;
+
+  FOR v_position IN 0..2 LOOP
+    PERFORM game.set_hand(p_room.id, v_position, game.deal_slice(v_deck, 5, v_position));
+
+    UPDATE api.players SET
+      target_tricks = game.target_tricks(v_position, p_room.dealer_index),
+      tricks_won = 0
+    WHERE room_id = p_room.id AND position = v_position;
+  END LOOP;
+END;
+$$;
+
+-- Scores the round, publishes its seed, then finishes the game or moves to
+-- redistribution
+CREATE OR REPLACE FUNCTION game.end_round(p_room api.rooms)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_previous JSONB;
+BEGIN
+  UPDATE api.rooms SET
+    deal_seeds = COALESCE(deal_seeds, '[]'::jsonb) || jsonb_build_array(jsonb_build_object(
+      'round', p_room.round_number,
+      'seed', (game.secrets_of(p_room.id)).deal_seed
+    ))
+  WHERE id = p_room.id;
+
+  UPDATE api.players SET
+    overachievement_score = COALESCE(overachievement_score, 0)
+      + COALESCE(tricks_won, 0) - COALESCE(target_tricks, 0)
+  WHERE room_id = p_room.id;
+
+  -- First to +5 wins
+  IF EXISTS (
+    SELECT 1 FROM api.players WHERE room_id = p_room.id AND overachievement_score >= 5
+  ) THEN
+    UPDATE api.rooms SET status = 'finished', dealing_phase = 'finished'
+    WHERE id = p_room.id;
+    RETURN;
+  END IF;
+
+  -- Save results for card pull calculation
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'position', position,
+      'tricksWon', COALESCE(tricks_won, 0),
+      'targetTricks', COALESCE(target_tricks, 0)
+    ) ORDER BY position
+  )
+  INTO v_previous
+  FROM api.players
+  WHERE room_id = p_room.id;
+
+  -- Rotate dealer: 5-trick player becomes new dealer
+  UPDATE api.rooms SET
+    dealer_index = (p_room.dealer_index + 1) % 3,
+    round_number = p_room.round_number + 1,
+    dealing_phase = 'redistribution',
+    status = 'redistribution',
+    previous_round_results = v_previous
+  WHERE id = p_room.id;
+END;
+$$;
+
+-- The seed column is server-managed; rooms are created without one
+DROP POLICY IF EXISTS "Signed-in users can create rooms" ON api.rooms;
+CREATE POLICY "Signed-in users can create rooms" ON api.rooms
+  FOR INSERT WITH CHECK (
+    created_by = auth.uid()
+    AND status = 'waiting'
+    AND COALESCE(deal_seeds, '[]'::jsonb) = '[]'::jsonb
+  );
@@ -0,0 +1,234 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Commit-Reveal Deals
+-- ============================================================================
+--
+-- Nobody, including whoever starts the round, can pick the deck:
+--
+-- 1. Before a deal, every seat submits 32 hex characters of entropy
+--    (api.submit_entropy). Seats that did not (bots, slow clients) get
+--    server entropy instead.
+-- 2. When the round is dealt, the server adds its own secret and publishes
+--    the commitment before any hand is dealt:
+--      material   = server_secret:entropy0:entropy1:entropy2
+--      commitment = sha256(material)
+--      seed       = first 32 bits of sha256('seed:' || material)
+--    The deck is game.seeded_deck(seed).
+-- 3. When the round ends, the secret and the entropy are published in
+--    api.rooms.deal_seeds, so anyone can recompute the commitment, the seed
+--    and the deck order behind the hands and remaining cards
+--    (verifyDeal in src/lib/fairness.ts).
+--
+-- Practice rooms keep their fixed seeds and have no commitment.
+--
+-- ============================================================================
+
+-- Entropy submitted by each seat for the next deal
+CREATE TABLE IF NOT EXISTS game.seat_entropy (
+  room_id UUID REFERENCES api.rooms(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL CHECK (position >= 0 AND position <= 2),
+  entropy TEXT NOT NULL,
+  PRIMARY KEY (room_id, position)
+);
+
+REVOKE ALL ON game.seat_entropy FROM PUBLIC;
+
+-- What the round in play was dealt from (secret until the round ends)
+ALTER TABLE game.room_secrets ADD COLUMN IF NOT EXISTS server_secret TEXT;
+ALTER TABLE game.room_secrets ADD COLUMN IF NOT EXISTS deal_entropy JSONB;
+
+-- sha256(material) of the round in play, published before its cards are dealt
+ALTER TABLE api.rooms ADD COLUMN IF NOT EXISTS deal_commitment TEXT DEFAULT NULL;
+
+-- ============================================================================
+-- HELPERS
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION game.sha256_hex(p_text TEXT)
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT encode(sha256(convert_to(p_text, 'UTF8')), 'hex');
+$$;
+
+-- 32 random hex characters
+CREATE OR REPLACE FUNCTION game.random_hex()
+RETURNS TEXT
+LANGUAGE sql VOLATILE AS $$
+  SELECT replace(gen_random_uuid()::text, '-', '');
+$$;
+
+-- Same as dealMaterial / seedFromMaterial in src/lib/fairness.ts
+CREATE OR REPLACE FUNCTION game.deal_material(p_server_secret TEXT, p_entropy JSONB)
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT p_server_secret || ':' || string_agg(e, ':' ORDER BY i)
+  FROM jsonb_array_elements_text(p_entropy) WITH ORDINALITY AS t(e, i);
+$$;
+
+CREATE OR REPLACE FUNCTION game.seed_from_material(p_material TEXT)
+RETURNS BIGINT
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT ('x' || left(game.sha256_hex('seed:' || p_material), 8))::bit(32)::bigint;
+$$;
+
+-- The random seed now comes from the commitment scheme
+DROP FUNCTION IF EXISTS game.next_deal_seed(api.rooms);
+
+-- ============================================================================
+-- RPC: ENTROPY
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION api.submit_entropy(p_room_id UUID, p_player_id UUID, p_entropy TEXT)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+BEGIN
+  IF v_room.status NOT IN ('waiting', 'redistribution') THEN
+    RAISE EXCEPTION 'Entropy can only be submitted before a deal';
+  END IF;
+
+  IF p_entropy IS NULL OR p_entropy !~ '^[0-9a-f]{32}$' THEN
+    RAISE EXCEPTION 'Entropy must be 32 hex characters';
+  END IF;
+
+  INSERT INTO game.seat_entropy (room_id, position, entropy)
+  VALUES (p_room_id, v_position, p_entropy)
+  ON CONFLICT (room_id, position) DO UPDATE SET entropy = EXCLUDED.entropy;
+END;
+$$;
+
+-- ============================================================================
+-- ROUND FLOW
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION game.deal_first_five(p_room api.rooms)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_secret TEXT;
+  v_entropy JSONB;
+  v_material TEXT;
+  v_commitment TEXT;
+  v_seed BIGINT;
+  v_deck JSONB;
+  v_position INTEGER;
+BEGIN
+  IF p_room.practice_seed IS NOT NULL THEN
+    v_seed := (p_room.practice_seed + p_room.round_number - 1) & 4294967295;
+  ELSE
+    v_secret := game.random_hex();
+
+    SELECT jsonb_agg(COALESCE(e.entropy, game.random_hex()) ORDER BY s)
+    INTO v_entropy
+    FROM generate_series(0, 2) s
+    LEFT JOIN game.seat_entropy e ON e.room_id = p_room.id AND e.position = s;
+
+    v_material := game.deal_material(v_secret, v_entropy);
+    v_commitment := game.sha256_hex(v_material);
+    v_seed := game.seed_from_material(v_material);
+  END IF;
+
+  -- Entropy is used for one deal only
+  DELETE FROM game.seat_entropy WHERE room_id = p_room.id;
+
+  -- Commit before dealing
+  UPDATE api.rooms SET deal_commitment = v_commitment WHERE id = p_room.id;
+
+  v_deck := game.seeded_deck(v_seed);
+
+  PERFORM game.secrets_of(p_room.id);
+  UPDATE game.room_secrets SET
+    remaining_cards = game.drop_cards(v_deck, 15),
+    pulled_card = NULL,
+    deal_seed = v_seed,
+    server_secret = v_secret,
+    deal_entropy = v_entropy
+  WHERE room_id = p_room.id;
+
+  UPDATE api.rooms SET
+    status = 'dealing',
+    dealing_phase = 'trump_selection',
+    trump_suit = NULL,
+    current_trick = '[]'::jsonb,
+    trump_led_at_start = NULL
+  WHERE id = p_room.id;
+
+  FOR v_position IN 0..2 LOOP
+    PERFORM game.set_hand(p_room.id, v_position, game.deal_slice(v_deck, 5, v_position));
+
+    UPDATE api.players SET
+      target_tricks = game.target_tricks(v_position, p_room.dealer_index),
+      tricks_won = 0
+    WHERE room_id = p_room.id AND position = v_position;
+  END LOOP;
+END;
+$$;
+
+-- Scores the round, reveals how it was dealt, then finishes the game or
+-- moves to redistribution
+CREATE OR REPLACE FUNCTION game.end_round(p_room api.rooms)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_secrets game.room_secrets := game.secrets_of(p_room.id);
+  v_previous JSONB;
+BEGIN
+  UPDATE api.rooms SET
+    deal_seeds = COALESCE(deal_seeds, '[]'::jsonb) || jsonb_build_array(jsonb_strip_nulls(
+      jsonb_build_object(
+        'round', p_room.round_number,
+        'seed', v_secrets.deal_seed,
+        'commitment', p_room.deal_commitment,
+        'serverSecret', v_secrets.server_secret,
+        'entropy', v_secrets.deal_entropy
+      )
+    ))
+  WHERE id = p_room.id;
+
+  UPDATE api.players SET
+    overachievement_score = COALESCE(overachievement_score, 0)
+      + COALESCE(tricks_won, 0) - COALESCE(target_tricks, 0)
+  WHERE room_id = p_room.id;
+
+  -- First to +5 wins
+  IF EXISTS (
+    SELECT 1 FROM api.players WHERE room_id = p_room.id AND overachievement_score >= 5
+  ) THEN
+    UPDATE api.rooms SET status = 'finished', dealing_phase = 'finished'
+    WHERE id = p_room.id;
+    RETURN;
+  END IF;
+
+  -- Save results for card pull calculation
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'position', position,
+      'tricksWon', COALESCE(tricks_won, 0),
+      'targetTricks', COALESCE(target_tricks, 0)
+    ) ORDER BY position
+  )
+  INTO v_previous
+  FROM api.players
+  WHERE room_id = p_room.id;
+
+  -- Rotate dealer: 5-trick player becomes new dealer
+  UPDATE api.rooms SET
+    dealer_index = (p_room.dealer_index + 1) % 3,
+    round_number = p_room.round_number + 1,
+    dealing_phase = 'redistribution',
+    status = 'redistribution',
+    previous_round_results = v_previous
+  WHERE id = p_room.id;
+END;
+$$;
+
+-- The commitment is server-managed; rooms are created without one
+DROP POLICY IF EXISTS "Signed-in users can create rooms" ON api.rooms;
+CREATE POLICY "Signed-in users can create rooms" ON api.rooms
+  FOR INSERT WITH CHECK (
+    created_by = auth.uid()
+    AND status = 'waiting'
+    AND COALESCE(deal_seeds, '[]'::jsonb) = '[]'::jsonb
+    AND deal_commitment IS NULL
+  );
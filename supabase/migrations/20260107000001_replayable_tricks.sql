@@ -0,0 +1,112 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Replayable Trick History
+-- ============================================================================
+--
+-- api.tricks rows now carry everything a replay needs to show a round
+-- without the room: the trump and the dealer (which fixes every seat's
+-- target). Read by the replay page (src/pages/Replay.tsx).
+--
+-- ============================================================================
+
+ALTER TABLE api.tricks ADD COLUMN IF NOT EXISTS trump_suit TEXT DEFAULT NULL;
+ALTER TABLE api.tricks ADD COLUMN IF NOT EXISTS dealer_index INTEGER DEFAULT NULL;
+
+-- Backfill: dealer and round number advance together, so earlier dealers
+-- follow from the room's current one. The room's trump is still that of the
+-- last round dealt (the one before the current round number in
+-- redistribution); earlier trumps are unknown.
+UPDATE api.tricks t SET
+  dealer_index = ((r.dealer_index - (r.round_number - t.round_number)) % 3 + 3) % 3,
+  trump_suit = CASE
+    WHEN t.round_number = r.round_number - CASE WHEN r.status = 'redistribution' THEN 1 ELSE 0 END
+      THEN r.trump_suit
+  END
+FROM api.rooms r
+WHERE t.room_id = r.id AND t.dealer_index IS NULL;
+
+-- ============================================================================
+-- RPC: PLAYING
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION api.play_card(p_room_id UUID, p_player_id UUID, p_card JSONB)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_current_trick JSONB;
+  v_hand JSONB;
+  v_trick_index INTEGER;
+  v_error TEXT;
+  v_trick JSONB;
+  v_winner INTEGER;
+BEGIN
+  IF v_room.status <> 'playing' THEN
+    RAISE EXCEPTION 'Cards cannot be played right now';
+  END IF;
+
+  IF v_position <> v_room.current_player_index THEN
+    RAISE EXCEPTION 'Not your turn';
+  END IF;
+
+  v_current_trick := COALESCE(v_room.current_trick, '[]'::jsonb);
+  IF jsonb_array_length(v_current_trick) >= 3 THEN
+    RAISE EXCEPTION 'Wait for the trick to clear';
+  END IF;
+
+  v_hand := game.hand_of(p_room_id, v_position);
+  v_trick_index := 10 - jsonb_array_length(v_hand);
+
+  v_error := game.move_error(
+    p_card, v_hand, v_current_trick, v_room.trump_suit, v_trick_index, v_room.trump_led_at_start
+  );
+  IF v_error IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_error;
+  END IF;
+
+  v_hand := game.remove_card(v_hand, p_card);
+  PERFORM game.set_hand(p_room_id, v_position, v_hand);
+
+  v_trick := v_current_trick || jsonb_build_array(
+    jsonb_build_object('position', v_position, 'card', p_card)
+  );
+
+  -- Trick not complete: move to next player
+  IF jsonb_array_length(v_trick) < 3 THEN
+    UPDATE api.rooms SET
+      current_trick = v_trick,
+      current_player_index = (v_position + 1) % 3,
+      -- Track if trump was led on first trick
+      trump_led_at_start = CASE
+        WHEN v_trick_index = 0 AND jsonb_array_length(v_current_trick) = 0
+          THEN p_card->>'suit' = v_room.trump_suit
+        ELSE v_room.trump_led_at_start
+      END
+    WHERE id = p_room_id;
+    RETURN;
+  END IF;
+
+  -- Trick complete: award it and save to history
+  v_winner := game.evaluate_trick(v_trick, v_room.trump_suit);
+
+  UPDATE api.players SET tricks_won = COALESCE(tricks_won, 0) + 1
+  WHERE room_id = p_room_id AND position = v_winner;
+
+  INSERT INTO api.tricks (
+    room_id, round_number, trick_number, cards_played, winner_position, trump_suit, dealer_index
+  )
+  VALUES (
+    p_room_id, v_room.round_number, 10 - jsonb_array_length(v_hand), v_trick, v_winner,
+    v_room.trump_suit, v_room.dealer_index
+  );
+
+  UPDATE api.rooms SET
+    current_trick = v_trick,
+    current_player_index = v_winner
+  WHERE id = p_room_id;
+
+  IF jsonb_array_length(v_hand) = 0 THEN
+    PERFORM game.end_round(v_room);
+  END IF;
+END;
+$$;
@@ -0,0 +1,574 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Game Event Log
+-- ============================================================================
+--
+-- api.game_events is an append-only record of every action, in order, so a
+-- round can be rebuilt from its events alone (src/lib/gameEvents.ts):
+--
+--   deal           cards dealt to a seat: first_five, three, final
+--   trump_select   trump chosen by the 5-trick player
+--   pull_target    under-scorer picked by the active puller
+--   pulled_card    card taken from the target (index and card)
+--   returned_card  card given back to the target
+--   card_play      card played to the current trick
+--   round_end      tricks, targets and scores after the round
+--
+-- Events that reveal cards (deal, pulled_card, returned_card) are private to
+-- one seat until their round is over; everything else is public. Only
+-- game.log_event, called from the RPCs, writes events: clients can read but
+-- never insert, update or delete them.
+--
+-- ============================================================================
+
+CREATE TABLE IF NOT EXISTS api.game_events (
+  id BIGINT GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  room_id UUID NOT NULL REFERENCES api.rooms(id) ON DELETE CASCADE,
+  round_number INTEGER NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN (
+    'deal', 'trump_select', 'pull_target', 'pulled_card', 'returned_card', 'card_play', 'round_end'
+  )),
+  seat INTEGER,                 -- Acting seat (receiving seat for deals); NULL for round_end
+  payload JSONB NOT NULL DEFAULT '{}'::jsonb,
+  private_to INTEGER,           -- Only this seat may read it before the round ends
+  created_at TIMESTAMPTZ DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS game_events_room_idx ON api.game_events (room_id, id);
+
+ALTER TABLE api.game_events ENABLE ROW LEVEL SECURITY;
+
+-- Append-only: no insert, update or delete policies, and no grants for them
+REVOKE INSERT, UPDATE, DELETE, TRUNCATE ON api.game_events FROM anon, authenticated;
+
+CREATE POLICY "Events are visible once their round is over" ON api.game_events
+  FOR SELECT USING (
+    private_to IS NULL
+    OR EXISTS (
+      SELECT 1 FROM api.rooms r
+      WHERE r.id = game_events.room_id
+        AND (r.round_number > game_events.round_number OR r.status = 'finished')
+    )
+    OR EXISTS (
+      SELECT 1 FROM api.players p
+      WHERE p.room_id = game_events.room_id
+        AND p.position = game_events.private_to
+        AND p.user_id = auth.uid()
+    )
+  );
+
+ALTER PUBLICATION supabase_realtime ADD TABLE api.game_events;
+
+CREATE OR REPLACE FUNCTION game.log_event(
+  p_room_id UUID,
+  p_round INTEGER,
+  p_type TEXT,
+  p_seat INTEGER,
+  p_payload JSONB,
+  p_private_to INTEGER DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE sql AS $$
+  INSERT INTO api.game_events (room_id, round_number, event_type, seat, payload, private_to)
+  VALUES (p_room_id, p_round, p_type, p_seat, p_payload, p_private_to);
+$$;
+
+-- ============================================================================
+-- ROUND FLOW
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION game.deal_first_five(p_room api.rooms)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_secret TEXT;
+  v_entropy JSONB;
+  v_material TEXT;
+  v_commitment TEXT;
+  v_seed BIGINT;
+  v_deck JSONB;
+  v_position INTEGER;
+BEGIN
+  IF p_room.practice_seed IS NOT NULL THEN
+    v_seed := (p_room.practice_seed + p_room.round_number - 1) & 4294967295;
+  ELSE
+    v_secret := game.random_hex();
+
+    SELECT jsonb_agg(COALESCE(e.entropy, game.random_hex()) ORDER BY s)
+    INTO v_entropy
+    FROM generate_series(0, 2) s
+    LEFT JOIN game.seat_entropy e ON e.room_id = p_room.id AND e.position = s;
+
+    v_material := game.deal_material(v_secret, v_entropy);
+    v_commitment := game.sha256_hex(v_material);
+    v_seed := game.seed_from_material(v_material);
+  END IF;
+
+  -- Entropy is used for one deal only
+  DELETE FROM game.seat_entropy WHERE room_id = p_room.id;
+
+  -- Commit before dealing
+  UPDATE api.rooms SET deal_commitment = v_commitment WHERE id = p_room.id;
+
+  v_deck := game.seeded_deck(v_seed);
+
+  PERFORM game.secrets_of(p_room.id);
+  UPDATE game.room_secrets SET
+    remaining_cards = game.drop_cards(v_deck, 15),
+    pulled_card = NULL,
+    deal_seed = v_seed,
+    server_secret = v_secret,
+    deal_entropy = v_entropy
+  WHERE room_id = p_room.id;
+
+  UPDATE api.rooms SET
+    status = 'dealing',
+    dealing_phase = 'trump_selection',
+    trump_suit = NULL,
+    current_trick = '[]'::jsonb,
+    trump_led_at_start = NULL
+  WHERE id = p_room.id;
+
+  FOR v_position IN 0..2 LOOP
+    PERFORM game.set_hand(p_room.id, v_position, game.deal_slice(v_deck, 5, v_position));
+    PERFORM game.log_event(p_room.id, p_room.round_number, 'deal', v_position, jsonb_build_object(
+      'stage', 'first_five',
+      'dealerIndex', p_room.dealer_index,
+      'cards', game.deal_slice(v_deck, 5, v_position)
+    ), v_position);
+
+    UPDATE api.players SET
+      target_tricks = game.target_tricks(v_position, p_room.dealer_index),
+      tricks_won = 0
+    WHERE room_id = p_room.id AND position = v_position;
+  END LOOP;
+END;
+$$;
+
+-- Scores the round, reveals how it was dealt, then finishes the game or
+-- moves to redistribution
+CREATE OR REPLACE FUNCTION game.end_round(p_room api.rooms)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_secrets game.room_secrets := game.secrets_of(p_room.id);
+  v_previous JSONB;
+BEGIN
+  UPDATE api.rooms SET
+    deal_seeds = COALESCE(deal_seeds, '[]'::jsonb) || jsonb_build_array(jsonb_strip_nulls(
+      jsonb_build_object(
+        'round', p_room.round_number,
+        'seed', v_secrets.deal_seed,
+        'commitment', p_room.deal_commitment,
+        'serverSecret', v_secrets.server_secret,
+        'entropy', v_secrets.deal_entropy
+      )
+    ))
+  WHERE id = p_room.id;
+
+  UPDATE api.players SET
+    overachievement_score = COALESCE(overachievement_score, 0)
+      + COALESCE(tricks_won, 0) - COALESCE(target_tricks, 0)
+  WHERE room_id = p_room.id;
+
+  PERFORM game.log_event(p_room.id, p_room.round_number, 'round_end', NULL, jsonb_build_object(
+    'results', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'position', position,
+        'tricksWon', COALESCE(tricks_won, 0),
+        'targetTricks', COALESCE(target_tricks, 0),
+        'score', COALESCE(overachievement_score, 0)
+      ) ORDER BY position)
+      FROM api.players WHERE room_id = p_room.id
+    )
+  ));
+
+  -- First to +5 wins
+  IF EXISTS (
+    SELECT 1 FROM api.players WHERE room_id = p_room.id AND overachievement_score >= 5
+  ) THEN
+    UPDATE api.rooms SET status = 'finished', dealing_phase = 'finished'
+    WHERE id = p_room.id;
+    RETURN;
+  END IF;
+
+  -- Save results for card pull calculation
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'position', position,
+      'tricksWon', COALESCE(tricks_won, 0),
+      'targetTricks', COALESCE(target_tricks, 0)
+    ) ORDER BY position
+  )
+  INTO v_previous
+  FROM api.players
+  WHERE room_id = p_room.id;
+
+  -- Rotate dealer: 5-trick player becomes new dealer
+  UPDATE api.rooms SET
+    dealer_index = (p_room.dealer_index + 1) % 3,
+    round_number = p_room.round_number + 1,
+    dealing_phase = 'redistribution',
+    status = 'redistribution',
+    previous_round_results = v_previous
+  WHERE id = p_room.id;
+END;
+$$;
+
+-- ============================================================================
+-- RPC: DEALING PHASE
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION api.select_trump(p_room_id UUID, p_player_id UUID, p_trump TEXT)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_remaining JSONB;
+  v_player INTEGER;
+BEGIN
+  IF v_room.dealing_phase <> 'trump_selection' THEN
+    RAISE EXCEPTION 'Trump has already been selected';
+  END IF;
+
+  IF v_position <> (v_room.dealer_index + 1) % 3 THEN
+    RAISE EXCEPTION 'Only the 5-trick player can select trump';
+  END IF;
+
+  IF p_trump IS NULL OR p_trump NOT IN ('♠', '♥', '♦', '♣') THEN
+    RAISE EXCEPTION 'Invalid trump suit';
+  END IF;
+
+  v_remaining := COALESCE((game.secrets_of(p_room_id)).remaining_cards, '[]'::jsonb);
+  IF jsonb_array_length(v_remaining) <> 15 THEN
+    RAISE EXCEPTION 'Invalid remaining cards';
+  END IF;
+
+  PERFORM game.log_event(p_room_id, v_room.round_number, 'trump_select', v_position,
+    jsonb_build_object('trump', p_trump));
+
+  -- Add 3 more cards to each player's hand
+  FOR v_player IN 0..2 LOOP
+    PERFORM game.set_hand(
+      p_room_id,
+      v_player,
+      game.hand_of(p_room_id, v_player) || game.deal_slice(v_remaining, 3, v_player)
+    );
+    PERFORM game.log_event(p_room_id, v_room.round_number, 'deal', v_player, jsonb_build_object(
+      'stage', 'three',
+      'cards', game.deal_slice(v_remaining, 3, v_player)
+    ), v_player);
+  END LOOP;
+
+  UPDATE game.room_secrets SET remaining_cards = game.drop_cards(v_remaining, 9)
+  WHERE room_id = p_room_id;
+
+  UPDATE api.rooms SET
+    trump_suit = p_trump,
+    dealing_phase = 'dealing_3'
+  WHERE id = p_room_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION api.deal_final(p_room_id UUID, p_player_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_remaining JSONB;
+  v_first_leader INTEGER;
+  v_card_pull_state JSONB := NULL;
+  v_player INTEGER;
+BEGIN
+  IF v_room.dealing_phase <> 'dealing_3' THEN
+    RAISE EXCEPTION 'Final cards have already been dealt';
+  END IF;
+
+  IF v_position <> v_room.dealer_index THEN
+    RAISE EXCEPTION 'Only the dealer can deal the final cards';
+  END IF;
+
+  v_remaining := COALESCE((game.secrets_of(p_room_id)).remaining_cards, '[]'::jsonb);
+  IF jsonb_array_length(v_remaining) <> 6 THEN
+    RAISE EXCEPTION 'Invalid remaining cards';
+  END IF;
+
+  FOR v_player IN 0..2 LOOP
+    PERFORM game.set_hand(
+      p_room_id,
+      v_player,
+      game.hand_of(p_room_id, v_player) || game.deal_slice(v_remaining, 2, v_player)
+    );
+    PERFORM game.log_event(p_room_id, v_room.round_number, 'deal', v_player, jsonb_build_object(
+      'stage', 'final',
+      'cards', game.deal_slice(v_remaining, 2, v_player)
+    ), v_player);
+  END LOOP;
+
+  UPDATE game.room_secrets SET remaining_cards = NULL WHERE room_id = p_room_id;
+
+  -- 5-trick player leads first trick
+  v_first_leader := (v_room.dealer_index + 1) % 3;
+
+  -- Card pull only after round 1, and only with both over- and under-scorers
+  IF v_room.round_number > 1 THEN
+    v_card_pull_state := game.initial_card_pull_state(
+      v_room.previous_round_results,
+      v_room.dealer_index
+    );
+  END IF;
+
+  UPDATE api.rooms SET
+    status = CASE WHEN v_card_pull_state IS NULL THEN 'playing' ELSE 'dealing' END,
+    dealing_phase = CASE WHEN v_card_pull_state IS NULL THEN 'playing' ELSE 'card_pull' END,
+    current_player_index = v_first_leader,
+    first_trick_leader = v_first_leader,
+    trump_led_at_start = NULL,
+    card_pull_state = v_card_pull_state
+  WHERE id = p_room_id;
+END;
+$$;
+
+-- ============================================================================
+-- RPC: CARD PULL
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION api.select_pull_target(
+  p_room_id UUID,
+  p_player_id UUID,
+  p_target_position INTEGER
+)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_state JSONB := game.require_puller(v_room, v_position, 'selecting_target');
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM jsonb_array_elements(v_state->'underScorers') u
+    WHERE (u->>'position')::INTEGER = p_target_position
+  ) THEN
+    RAISE EXCEPTION 'Invalid target';
+  END IF;
+
+  PERFORM game.log_event(p_room_id, v_room.round_number, 'pull_target', v_position,
+    jsonb_build_object('target', p_target_position));
+
+  UPDATE api.rooms SET
+    card_pull_state = v_state || jsonb_build_object(
+      'phase', 'selecting_card',
+      'selectedTarget', p_target_position
+    )
+  WHERE id = p_room_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION api.pull_card(p_room_id UUID, p_player_id UUID, p_card_index INTEGER)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_state JSONB := game.require_puller(v_room, v_position, 'selecting_card');
+  v_target_hand JSONB;
+BEGIN
+  v_target_hand := game.hand_of(p_room_id, (v_state->>'selectedTarget')::INTEGER);
+
+  IF p_card_index IS NULL OR p_card_index < 0 OR p_card_index >= jsonb_array_length(v_target_hand) THEN
+    RAISE EXCEPTION 'Invalid card position';
+  END IF;
+
+  PERFORM game.secrets_of(p_room_id);
+  UPDATE game.room_secrets SET pulled_card = v_target_hand->p_card_index
+  WHERE room_id = p_room_id;
+
+  PERFORM game.log_event(p_room_id, v_room.round_number, 'pulled_card', v_position, jsonb_build_object(
+    'target', (v_state->>'selectedTarget')::INTEGER,
+    'cardIndex', p_card_index,
+    'card', v_target_hand->p_card_index
+  ), v_position);
+
+  UPDATE api.rooms SET
+    card_pull_state = v_state || jsonb_build_object(
+      'phase', 'returning_card',
+      'pulledCardIndex', p_card_index
+    )
+  WHERE id = p_room_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION api.return_card(p_room_id UUID, p_player_id UUID, p_card JSONB)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_state JSONB := game.require_puller(v_room, v_position, 'returning_card');
+  v_pulled JSONB := (game.secrets_of(p_room_id)).pulled_card;
+  v_target INTEGER := (v_state->>'selectedTarget')::INTEGER;
+  v_puller_index INTEGER := (v_state->>'currentPullerIndex')::INTEGER;
+  v_hand JSONB;
+  v_error TEXT;
+  v_pulls_remaining INTEGER;
+BEGIN
+  IF v_pulled IS NULL THEN
+    RAISE EXCEPTION 'Invalid action';
+  END IF;
+
+  v_hand := game.hand_of(p_room_id, v_position);
+
+  v_error := game.return_error(p_card, v_pulled, v_hand);
+  IF v_error IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_error;
+  END IF;
+
+  -- Giving back the pulled card itself leaves both hands as they were
+  IF NOT game.same_card(p_card, v_pulled) THEN
+    -- Puller: remove returned card, add pulled card
+    PERFORM game.set_hand(
+      p_room_id, v_position, game.remove_card(v_hand, p_card) || jsonb_build_array(v_pulled)
+    );
+
+    -- Target: remove pulled card, add returned card
+    PERFORM game.set_hand(
+      p_room_id,
+      v_target,
+      game.remove_card(game.hand_of(p_room_id, v_target), v_pulled) || jsonb_build_array(p_card)
+    );
+  END IF;
+
+  PERFORM game.log_event(p_room_id, v_room.round_number, 'returned_card', v_position, jsonb_build_object(
+    'target', v_target,
+    'card', p_card,
+    'pulledCard', v_pulled
+  ), v_position);
+
+  UPDATE game.room_secrets SET pulled_card = NULL WHERE room_id = p_room_id;
+
+  v_pulls_remaining :=
+    (v_state->'pullers'->v_puller_index->>'pullsRemaining')::INTEGER - 1;
+  v_state := jsonb_set(
+    v_state,
+    ARRAY['pullers', v_puller_index::TEXT, 'pullsRemaining'],
+    to_jsonb(v_pulls_remaining)
+  );
+
+  -- Same puller has more pulls, otherwise move to the next puller
+  IF v_pulls_remaining <= 0 THEN
+    v_puller_index := v_puller_index + 1;
+  END IF;
+
+  IF v_puller_index < jsonb_array_length(v_state->'pullers') THEN
+    UPDATE api.rooms SET
+      card_pull_state = v_state || jsonb_build_object(
+        'currentPullerIndex', v_puller_index,
+        'phase', 'selecting_target',
+        'selectedTarget', NULL,
+        'pulledCard', NULL,
+        'pulledCardIndex', NULL
+      )
+    WHERE id = p_room_id;
+  ELSE
+    -- All pulls complete: transition to playing
+    UPDATE api.rooms SET
+      status = 'playing',
+      dealing_phase = 'playing',
+      card_pull_state = NULL
+    WHERE id = p_room_id;
+  END IF;
+END;
+$$;
+
+-- ============================================================================
+-- RPC: PLAYING
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION api.play_card(p_room_id UUID, p_player_id UUID, p_card JSONB)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_current_trick JSONB;
+  v_hand JSONB;
+  v_trick_index INTEGER;
+  v_error TEXT;
+  v_trick JSONB;
+  v_winner INTEGER;
+BEGIN
+  IF v_room.status <> 'playing' THEN
+    RAISE EXCEPTION 'Cards cannot be played right now';
+  END IF;
+
+  IF v_position <> v_room.current_player_index THEN
+    RAISE EXCEPTION 'Not your turn';
+  END IF;
+
+  v_current_trick := COALESCE(v_room.current_trick, '[]'::jsonb);
+  IF jsonb_array_length(v_current_trick) >= 3 THEN
+    RAISE EXCEPTION 'Wait for the trick to clear';
+  END IF;
+
+  v_hand := game.hand_of(p_room_id, v_position);
+  v_trick_index := 10 - jsonb_array_length(v_hand);
+
+  v_error := game.move_error(
+    p_card, v_hand, v_current_trick, v_room.trump_suit, v_trick_index, v_room.trump_led_at_start
+  );
+  IF v_error IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_error;
+  END IF;
+
+  v_hand := game.remove_card(v_hand, p_card);
+  PERFORM game.set_hand(p_room_id, v_position, v_hand);
+
+  v_trick := v_current_trick || jsonb_build_array(
+    jsonb_build_object('position', v_position, 'card', p_card)
+  );
+
+  PERFORM game.log_event(p_room_id, v_room.round_number, 'card_play', v_position, jsonb_build_object(
+    'card', p_card,
+    'trickNumber', v_trick_index + 1
+  ));
+
+  -- Trick not complete: move to next player
+  IF jsonb_array_length(v_trick) < 3 THEN
+    UPDATE api.rooms SET
+      current_trick = v_trick,
+      current_player_index = (v_position + 1) % 3,
+      -- Track if trump was led on first trick
+      trump_led_at_start = CASE
+        WHEN v_trick_index = 0 AND jsonb_array_length(v_current_trick) = 0
+          THEN p_card->>'suit' = v_room.trump_suit
+        ELSE v_room.trump_led_at_start
+      END
+    WHERE id = p_room_id;
+    RETURN;
+  END IF;
+
+  -- Trick complete: award it and save to history
+  v_winner := game.evaluate_trick(v_trick, v_room.trump_suit);
+
+  UPDATE api.players SET tricks_won = COALESCE(tricks_won, 0) + 1
+  WHERE room_id = p_room_id AND position = v_winner;
+
+  INSERT INTO api.tricks (
+    room_id, round_number, trick_number, cards_played, winner_position, trump_suit, dealer_index
+  )
+  VALUES (
+    p_room_id, v_room.round_number, 10 - jsonb_array_length(v_hand), v_trick, v_winner,
+    v_room.trump_suit, v_room.dealer_index
+  );
+
+  UPDATE api.rooms SET
+    current_trick = v_trick,
+    current_player_index = v_winner
+  WHERE id = p_room_id;
+
+  IF jsonb_array_length(v_hand) = 0 THEN
+    PERFORM game.end_round(v_room);
+  END IF;
+END;
+$$;
@@ -0,0 +1,446 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) House Rules
+-- ============================================================================
+--
+-- Each room picks its rules when it is created and keeps them for the whole
+-- game (RoomRules in src/lib/gameLogic.ts):
+--
+--   winningScore   first overachievement score to reach it wins (1-15)
+--   cardPull       over-scorers pull cards from under-scorers after round 1
+--   trumpLeadRule  the first trick decides whether trump may be led later
+--   keptSevens     the two 7s left in the 30-card deck
+--
+-- Existing rooms get the classic rules. The deck's 7s are published with
+-- each round's seed so the deal can still be verified.
+--
+-- ============================================================================
+
+ALTER TABLE api.rooms ADD COLUMN IF NOT EXISTS rules JSONB NOT NULL DEFAULT
+  '{"winningScore": 5, "cardPull": true, "trumpLeadRule": true, "keptSevens": ["♠", "♥"]}'::jsonb;
+
+-- Same checks as validateRules
+ALTER TABLE api.rooms ADD CONSTRAINT rooms_rules_valid CHECK (
+  jsonb_typeof(rules->'winningScore') = 'number'
+  AND (rules->>'winningScore')::NUMERIC BETWEEN 1 AND 15
+  AND (rules->>'winningScore')::NUMERIC % 1 = 0
+  AND jsonb_typeof(rules->'cardPull') = 'boolean'
+  AND jsonb_typeof(rules->'trumpLeadRule') = 'boolean'
+  AND jsonb_typeof(rules->'keptSevens') = 'array'
+  AND jsonb_array_length(rules->'keptSevens') = 2
+  AND rules->'keptSevens'->>0 <> rules->'keptSevens'->>1
+  AND rules->'keptSevens' <@ '["♠", "♥", "♦", "♣"]'::jsonb
+);
+
+-- ============================================================================
+-- DECK
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS game.seeded_deck(BIGINT);
+DROP FUNCTION IF EXISTS game.ordered_deck();
+
+-- The 30-card deck in createDeck(rules) order: A-8 of ♠ ♥ ♦ ♣, then the
+-- kept 7s in suit order
+CREATE OR REPLACE FUNCTION game.ordered_deck(p_rules JSONB)
+RETURNS JSONB[]
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT (
+    SELECT array_agg(jsonb_build_object('suit', s, 'rank', r) ORDER BY si, ri)
+    FROM unnest(ARRAY['♠', '♥', '♦', '♣']) WITH ORDINALITY AS su(s, si)
+    CROSS JOIN unnest(ARRAY['A', 'K', 'Q', 'J', '10', '9', '8']) WITH ORDINALITY AS ra(r, ri)
+  ) || (
+    SELECT array_agg(jsonb_build_object('suit', s, 'rank', '7') ORDER BY si)
+    FROM unnest(ARRAY['♠', '♥', '♦', '♣']) WITH ORDINALITY AS su(s, si)
+    WHERE p_rules->'keptSevens' ? s
+  );
+$$;
+
+-- Fisher-Yates shuffle driven by mulberry32: same as
+-- createSeededDeck(seed, rules) in gameLogic.ts
+CREATE OR REPLACE FUNCTION game.seeded_deck(p_seed BIGINT, p_rules JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+  v_cards JSONB[] := game.ordered_deck(p_rules);
+  v_state BIGINT := p_seed & 4294967295;
+  v_t BIGINT;
+  v_i INTEGER;
+  v_j INTEGER;
+  v_swap JSONB;
+BEGIN
+  FOR v_i IN REVERSE array_length(v_cards, 1) - 1 .. 1 LOOP
+    -- Next mulberry32 output as an unsigned 32-bit integer
+    v_state := (v_state + 1831565813) & 4294967295;
+    v_t := game.imul32(v_state # (v_state >> 15), 1 | v_state);
+    v_t := ((v_t + game.imul32(v_t # (v_t >> 7), 61 | v_t)) & 4294967295) # v_t;
+    v_t := v_t # (v_t >> 14);
+
+    -- floor(random * (i + 1)) with random = v_t / 2^32
+    v_j := ((v_t * (v_i + 1)) >> 32)::INTEGER;
+
+    -- Arrays are 1-based, the JS indexes 0-based
+    v_swap := v_cards[v_i + 1];
+    v_cards[v_i + 1] := v_cards[v_j + 1];
+    v_cards[v_j + 1] := v_swap;
+  END LOOP;
+
+  RETURN to_jsonb(v_cards);
+END;
+$$;
+
+-- ============================================================================
+-- MOVE VALIDATION
+-- ============================================================================
+
+DROP FUNCTION IF EXISTS game.move_error(JSONB, JSONB, JSONB, TEXT, INTEGER, BOOLEAN);
+
+-- NULL when the play is legal, otherwise the reason (see isValidMove)
+CREATE OR REPLACE FUNCTION game.move_error(
+  p_card JSONB,
+  p_hand JSONB,
+  p_trick JSONB,
+  p_trump TEXT,
+  p_trick_index INTEGER,
+  p_trump_led_at_start BOOLEAN,
+  p_rules JSONB
+)
+RETURNS TEXT
+LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+  v_lead_suit TEXT;
+BEGIN
+  IF NOT game.has_card(p_hand, p_card) THEN
+    RETURN 'Card is not in your hand';
+  END IF;
+
+  -- Leading a trick
+  IF jsonb_array_length(p_trick) = 0 THEN
+    -- First trick of round, or no trump leading rule: no restrictions
+    IF p_trick_index = 0 OR p_trump IS NULL OR NOT (p_rules->>'trumpLeadRule')::BOOLEAN THEN
+      RETURN NULL;
+    END IF;
+
+    IF p_trump_led_at_start IS TRUE THEN
+      IF p_card->>'suit' <> p_trump AND game.count_suit(p_hand, p_trump) > 0 THEN
+        RETURN 'Must lead trump (trump was led in first trick)';
+      END IF;
+    ELSE
+      IF p_card->>'suit' = p_trump
+        AND game.count_suit(p_hand, p_trump) < jsonb_array_length(p_hand) THEN
+        RETURN 'Cannot lead with trump unless you have no other cards';
+      END IF;
+    END IF;
+
+    RETURN NULL;
+  END IF;
+
+  -- Following: must follow suit if you can
+  v_lead_suit := p_trick->0->'card'->>'suit';
+  IF p_card->>'suit' <> v_lead_suit AND game.count_suit(p_hand, v_lead_suit) > 0 THEN
+    RETURN 'Must follow suit';
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- ============================================================================
+-- ROUND FLOW
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION game.deal_first_five(p_room api.rooms)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_secret TEXT;
+  v_entropy JSONB;
+  v_material TEXT;
+  v_commitment TEXT;
+  v_seed BIGINT;
+  v_deck JSONB;
+  v_position INTEGER;
+BEGIN
+  IF p_room.practice_seed IS NOT NULL THEN
+    v_seed := (p_room.practice_seed + p_room.round_number - 1) & 4294967295;
+  ELSE
+    v_secret := game.random_hex();
+
+    SELECT jsonb_agg(COALESCE(e.entropy, game.random_hex()) ORDER BY s)
+    INTO v_entropy
+    FROM generate_series(0, 2) s
+    LEFT JOIN game.seat_entropy e ON e.room_id = p_room.id AND e.position = s;
+
+    v_material := game.deal_material(v_secret, v_entropy);
+    v_commitment := game.sha256_hex(v_material);
+    v_seed := game.seed_from_material(v_material);
+  END IF;
+
+  -- Entropy is used for one deal only
+  DELETE FROM game.seat_entropy WHERE room_id = p_room.id;
+
+  -- Commit before dealing
+  UPDATE api.rooms SET deal_commitment = v_commitment WHERE id = p_room.id;
+
+  v_deck := game.seeded_deck(v_seed, p_room.rules);
+
+  PERFORM game.secrets_of(p_room.id);
+  UPDATE game.room_secrets SET
+    remaining_cards = game.drop_cards(v_deck, 15),
+    pulled_card = NULL,
+    deal_seed = v_seed,
+    server_secret = v_secret,
+    deal_entropy = v_entropy
+  WHERE room_id = p_room.id;
+
+  UPDATE api.rooms SET
+    status = 'dealing',
+    dealing_phase = 'trump_selection',
+    trump_suit = NULL,
+    current_trick = '[]'::jsonb,
+    trump_led_at_start = NULL
+  WHERE id = p_room.id;
+
+  FOR v_position IN 0..2 LOOP
+    PERFORM game.set_hand(p_room.id, v_position, game.deal_slice(v_deck, 5, v_position));
+    PERFORM game.log_event(p_room.id, p_room.round_number, 'deal', v_position, jsonb_build_object(
+      'stage', 'first_five',
+      'dealerIndex', p_room.dealer_index,
+      'cards', game.deal_slice(v_deck, 5, v_position)
+    ), v_position);
+
+    UPDATE api.players SET
+      target_tricks = game.target_tricks(v_position, p_room.dealer_index),
+      tricks_won = 0
+    WHERE room_id = p_room.id AND position = v_position;
+  END LOOP;
+END;
+$$;
+
+-- Scores the round, reveals how it was dealt, then finishes the game or
+-- moves to redistribution
+CREATE OR REPLACE FUNCTION game.end_round(p_room api.rooms)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_secrets game.room_secrets := game.secrets_of(p_room.id);
+  v_previous JSONB;
+BEGIN
+  UPDATE api.rooms SET
+    deal_seeds = COALESCE(deal_seeds, '[]'::jsonb) || jsonb_build_array(jsonb_strip_nulls(
+      jsonb_build_object(
+        'round', p_room.round_number,
+        'seed', v_secrets.deal_seed,
+        'commitment', p_room.deal_commitment,
+        'serverSecret', v_secrets.server_secret,
+        'entropy', v_secrets.deal_entropy,
+        'keptSevens', p_room.rules->'keptSevens'
+      )
+    ))
+  WHERE id = p_room.id;
+
+  UPDATE api.players SET
+    overachievement_score = COALESCE(overachievement_score, 0)
+      + COALESCE(tricks_won, 0) - COALESCE(target_tricks, 0)
+  WHERE room_id = p_room.id;
+
+  PERFORM game.log_event(p_room.id, p_room.round_number, 'round_end', NULL, jsonb_build_object(
+    'results', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'position', position,
+        'tricksWon', COALESCE(tricks_won, 0),
+        'targetTricks', COALESCE(target_tricks, 0),
+        'score', COALESCE(overachievement_score, 0)
+      ) ORDER BY position)
+      FROM api.players WHERE room_id = p_room.id
+    )
+  ));
+
+  -- First to the winning score wins
+  IF EXISTS (
+    SELECT 1 FROM api.players
+    WHERE room_id = p_room.id AND overachievement_score >= (p_room.rules->>'winningScore')::INTEGER
+  ) THEN
+    UPDATE api.rooms SET status = 'finished', dealing_phase = 'finished'
+    WHERE id = p_room.id;
+    RETURN;
+  END IF;
+
+  -- Save results for card pull calculation
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'position', position,
+      'tricksWon', COALESCE(tricks_won, 0),
+      'targetTricks', COALESCE(target_tricks, 0)
+    ) ORDER BY position
+  )
+  INTO v_previous
+  FROM api.players
+  WHERE room_id = p_room.id;
+
+  -- Rotate dealer: 5-trick player becomes new dealer
+  UPDATE api.rooms SET
+    dealer_index = (p_room.dealer_index + 1) % 3,
+    round_number = p_room.round_number + 1,
+    dealing_phase = 'redistribution',
+    status = 'redistribution',
+    previous_round_results = v_previous
+  WHERE id = p_room.id;
+END;
+$$;
+
+-- ============================================================================
+-- RPC: DEALING PHASE
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION api.deal_final(p_room_id UUID, p_player_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_remaining JSONB;
+  v_first_leader INTEGER;
+  v_card_pull_state JSONB := NULL;
+  v_player INTEGER;
+BEGIN
+  IF v_room.dealing_phase <> 'dealing_3' THEN
+    RAISE EXCEPTION 'Final cards have already been dealt';
+  END IF;
+
+  IF v_position <> v_room.dealer_index THEN
+    RAISE EXCEPTION 'Only the dealer can deal the final cards';
+  END IF;
+
+  v_remaining := COALESCE((game.secrets_of(p_room_id)).remaining_cards, '[]'::jsonb);
+  IF jsonb_array_length(v_remaining) <> 6 THEN
+    RAISE EXCEPTION 'Invalid remaining cards';
+  END IF;
+
+  FOR v_player IN 0..2 LOOP
+    PERFORM game.set_hand(
+      p_room_id,
+      v_player,
+      game.hand_of(p_room_id, v_player) || game.deal_slice(v_remaining, 2, v_player)
+    );
+    PERFORM game.log_event(p_room_id, v_room.round_number, 'deal', v_player, jsonb_build_object(
+      'stage', 'final',
+      'cards', game.deal_slice(v_remaining, 2, v_player)
+    ), v_player);
+  END LOOP;
+
+  UPDATE game.room_secrets SET remaining_cards = NULL WHERE room_id = p_room_id;
+
+  -- 5-trick player leads first trick
+  v_first_leader := (v_room.dealer_index + 1) % 3;
+
+  -- Card pull only after round 1, in rooms that play it, and only with both
+  -- over- and under-scorers
+  IF v_room.round_number > 1 AND (v_room.rules->>'cardPull')::BOOLEAN THEN
+    v_card_pull_state := game.initial_card_pull_state(
+      v_room.previous_round_results,
+      v_room.dealer_index
+    );
+  END IF;
+
+  UPDATE api.rooms SET
+    status = CASE WHEN v_card_pull_state IS NULL THEN 'playing' ELSE 'dealing' END,
+    dealing_phase = CASE WHEN v_card_pull_state IS NULL THEN 'playing' ELSE 'card_pull' END,
+    current_player_index = v_first_leader,
+    first_trick_leader = v_first_leader,
+    trump_led_at_start = NULL,
+    card_pull_state = v_card_pull_state
+  WHERE id = p_room_id;
+END;
+$$;
+
+-- ============================================================================
+-- RPC: PLAYING
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION api.play_card(p_room_id UUID, p_player_id UUID, p_card JSONB)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_current_trick JSONB;
+  v_hand JSONB;
+  v_trick_index INTEGER;
+  v_error TEXT;
+  v_trick JSONB;
+  v_winner INTEGER;
+BEGIN
+  IF v_room.status <> 'playing' THEN
+    RAISE EXCEPTION 'Cards cannot be played right now';
+  END IF;
+
+  IF v_position <> v_room.current_player_index THEN
+    RAISE EXCEPTION 'Not your turn';
+  END IF;
+
+  v_current_trick := COALESCE(v_room.current_trick, '[]'::jsonb);
+  IF jsonb_array_length(v_current_trick) >= 3 THEN
+    RAISE EXCEPTION 'Wait for the trick to clear';
+  END IF;
+
+  v_hand := game.hand_of(p_room_id, v_position);
+  v_trick_index := 10 - jsonb_array_length(v_hand);
+
+  v_error := game.move_error(
+    p_card, v_hand, v_current_trick, v_room.trump_suit, v_trick_index, v_room.trump_led_at_start,
+    v_room.rules
+  );
+  IF v_error IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_error;
+  END IF;
+
+  v_hand := game.remove_card(v_hand, p_card);
+  PERFORM game.set_hand(p_room_id, v_position, v_hand);
+
+  v_trick := v_current_trick || jsonb_build_array(
+    jsonb_build_object('position', v_position, 'card', p_card)
+  );
+
+  PERFORM game.log_event(p_room_id, v_room.round_number, 'card_play', v_position, jsonb_build_object(
+    'card', p_card,
+    'trickNumber', v_trick_index + 1
+  ));
+
+  -- Trick not complete: move to next player
+  IF jsonb_array_length(v_trick) < 3 THEN
+    UPDATE api.rooms SET
+      current_trick = v_trick,
+      current_player_index = (v_position + 1) % 3,
+      -- Track if trump was led on first trick
+      trump_led_at_start = CASE
+        WHEN v_trick_index = 0 AND jsonb_array_length(v_current_trick) = 0
+          THEN p_card->>'suit' = v_room.trump_suit
+        ELSE v_room.trump_led_at_start
+      END
+    WHERE id = p_room_id;
+    RETURN;
+  END IF;
+
+  -- Trick complete: award it and save to history
+  v_winner := game.evaluate_trick(v_trick, v_room.trump_suit);
+
+  UPDATE api.players SET tricks_won = COALESCE(tricks_won, 0) + 1
+  WHERE room_id = p_room_id AND position = v_winner;
+
+  INSERT INTO api.tricks (
+    room_id, round_number, trick_number, cards_played, winner_position, trump_suit, dealer_index
+  )
+  VALUES (
+    p_room_id, v_room.round_number, 10 - jsonb_array_length(v_hand), v_trick, v_winner,
+    v_room.trump_suit, v_room.dealer_index
+  );
+
+  UPDATE api.rooms SET
+    current_trick = v_trick,
+    current_player_index = v_winner
+  WHERE id = p_room_id;
+
+  IF jsonb_array_length(v_hand) = 0 THEN
+    PERFORM game.end_round(v_room);
+  END IF;
+END;
+$$;
@@ -0,0 +1,122 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Match Mode
+-- ============================================================================
+--
+-- Adds roundLimit to the house rules. Left null, the game runs until someone
+-- reaches the winning score as before. Set, the game is a match of exactly
+-- that many rounds (1-30, e.g. 9 so every seat deals three times) and the
+-- best cumulative overachievement wins, shared on a tie.
+--
+-- ============================================================================
+
+ALTER TABLE api.rooms ALTER COLUMN rules SET DEFAULT
+  '{"winningScore": 5, "roundLimit": null, "cardPull": true, "trumpLeadRule": true, "keptSevens": ["♠", "♥"]}'::jsonb;
+
+UPDATE api.rooms SET rules = rules || '{"roundLimit": null}'::jsonb
+WHERE NOT rules ? 'roundLimit';
+
+-- Same checks as validateRules
+ALTER TABLE api.rooms DROP CONSTRAINT IF EXISTS rooms_rules_valid;
+ALTER TABLE api.rooms ADD CONSTRAINT rooms_rules_valid CHECK (
+  jsonb_typeof(rules->'winningScore') = 'number'
+  AND (rules->>'winningScore')::NUMERIC BETWEEN 1 AND 15
+  AND (rules->>'winningScore')::NUMERIC % 1 = 0
+  AND (
+    jsonb_typeof(rules->'roundLimit') = 'null'
+    OR (
+      jsonb_typeof(rules->'roundLimit') = 'number'
+      AND (rules->>'roundLimit')::NUMERIC BETWEEN 1 AND 30
+      AND (rules->>'roundLimit')::NUMERIC % 1 = 0
+    )
+  )
+  AND jsonb_typeof(rules->'cardPull') = 'boolean'
+  AND jsonb_typeof(rules->'trumpLeadRule') = 'boolean'
+  AND jsonb_typeof(rules->'keptSevens') = 'array'
+  AND jsonb_array_length(rules->'keptSevens') = 2
+  AND rules->'keptSevens'->>0 <> rules->'keptSevens'->>1
+  AND rules->'keptSevens' <@ '["♠", "♥", "♦", "♣"]'::jsonb
+);
+
+-- ============================================================================
+-- ROUND END
+-- ============================================================================
+
+-- Scores the round, reveals how it was dealt, then finishes the game or
+-- moves to redistribution
+CREATE OR REPLACE FUNCTION game.end_round(p_room api.rooms)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_secrets game.room_secrets := game.secrets_of(p_room.id);
+  v_previous JSONB;
+  v_game_over BOOLEAN;
+BEGIN
+  UPDATE api.rooms SET
+    deal_seeds = COALESCE(deal_seeds, '[]'::jsonb) || jsonb_build_array(jsonb_strip_nulls(
+      jsonb_build_object(
+        'round', p_room.round_number,
+        'seed', v_secrets.deal_seed,
+        'commitment', p_room.deal_commitment,
+        'serverSecret', v_secrets.server_secret,
+        'entropy', v_secrets.deal_entropy,
+        'keptSevens', p_room.rules->'keptSevens'
+      )
+    ))
+  WHERE id = p_room.id;
+
+  UPDATE api.players SET
+    overachievement_score = COALESCE(overachievement_score, 0)
+      + COALESCE(tricks_won, 0) - COALESCE(target_tricks, 0)
+  WHERE room_id = p_room.id;
+
+  PERFORM game.log_event(p_room.id, p_room.round_number, 'round_end', NULL, jsonb_build_object(
+    'results', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'position', position,
+        'tricksWon', COALESCE(tricks_won, 0),
+        'targetTricks', COALESCE(target_tricks, 0),
+        'score', COALESCE(overachievement_score, 0)
+      ) ORDER BY position)
+      FROM api.players WHERE room_id = p_room.id
+    )
+  ));
+
+  -- A match ends after its last round; otherwise first to the winning score
+  -- wins (isGameOver)
+  IF jsonb_typeof(p_room.rules->'roundLimit') = 'number' THEN
+    v_game_over := p_room.round_number >= (p_room.rules->>'roundLimit')::INTEGER;
+  ELSE
+    v_game_over := EXISTS (
+      SELECT 1 FROM api.players
+      WHERE room_id = p_room.id AND overachievement_score >= (p_room.rules->>'winningScore')::INTEGER
+    );
+  END IF;
+
+  IF v_game_over THEN
+    UPDATE api.rooms SET status = 'finished', dealing_phase = 'finished'
+    WHERE id = p_room.id;
+    RETURN;
+  END IF;
+
+  -- Save results for card pull calculation
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'position', position,
+      'tricksWon', COALESCE(tricks_won, 0),
+      'targetTricks', COALESCE(target_tricks, 0)
+    ) ORDER BY position
+  )
+  INTO v_previous
+  FROM api.players
+  WHERE room_id = p_room.id;
+
+  -- Rotate dealer: 5-trick player becomes new dealer
+  UPDATE api.rooms SET
+    dealer_index = (p_room.dealer_index + 1) % 3,
+    round_number = p_room.round_number + 1,
+    dealing_phase = 'redistribution',
+    status = 'redistribution',
+    previous_round_results = v_previous
+  WHERE id = p_room.id;
+END;
+$$;
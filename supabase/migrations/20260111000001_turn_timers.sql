@@ -0,0 +1,281 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Turn Timers
+-- ============================================================================
+--
+-- One player who walks away no longer stalls the table. Each room sets how
+-- many seconds a seat gets for every kind of move (0 = no limit):
+--
+--   trumpSelection  the 5-trick player choosing trump
+--   dealing         the dealer dealing the final cards
+--   cardPull        each pull: target, card, return
+--   cardPlay        playing a card (or clearing a finished trick)
+--
+-- api.rooms.turn_deadline is kept by a trigger: whenever the seat or the
+-- kind of move that is awaited changes, the clock starts again. Once it has
+-- passed, the server moves for that seat (game.auto_play):
+--
+--   trump      the longest suit in hand
+--   deal       deals the final cards
+--   card pull  pulls the first card of the first under-scorer and gives the
+--              same card back, leaving both hands unchanged
+--   play       the first legal card in hand
+--
+-- Any seated client calls api.expire_turn when its countdown runs out, and
+-- a pg_cron sweep catches tables where every browser has gone away. Each
+-- forced move is logged as a 'timeout' event before the move itself.
+--
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+ALTER TABLE api.rooms ADD COLUMN IF NOT EXISTS turn_timers JSONB NOT NULL DEFAULT
+  '{"trumpSelection": 30, "dealing": 15, "cardPull": 30, "cardPlay": 30}'::jsonb;
+ALTER TABLE api.rooms ADD COLUMN IF NOT EXISTS turn_deadline TIMESTAMPTZ DEFAULT NULL;
+
+-- A whole number of seconds from 0 to 300
+CREATE OR REPLACE FUNCTION game.valid_turn_seconds(p_seconds JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT COALESCE(
+    jsonb_typeof(p_seconds) = 'number'
+      AND (p_seconds #>> '{}')::NUMERIC BETWEEN 0 AND 300
+      AND (p_seconds #>> '{}')::NUMERIC % 1 = 0,
+    false
+  );
+$$;
+
+-- Same checks as validateTurnTimers
+ALTER TABLE api.rooms ADD CONSTRAINT rooms_turn_timers_valid CHECK (
+  game.valid_turn_seconds(turn_timers->'trumpSelection')
+  AND game.valid_turn_seconds(turn_timers->'dealing')
+  AND game.valid_turn_seconds(turn_timers->'cardPull')
+  AND game.valid_turn_seconds(turn_timers->'cardPlay')
+);
+
+CREATE INDEX IF NOT EXISTS rooms_turn_deadline_idx ON api.rooms (turn_deadline)
+  WHERE turn_deadline IS NOT NULL;
+
+ALTER TABLE api.game_events DROP CONSTRAINT IF EXISTS game_events_event_type_check;
+ALTER TABLE api.game_events ADD CONSTRAINT game_events_event_type_check CHECK (event_type IN (
+  'deal', 'trump_select', 'pull_target', 'pulled_card', 'returned_card', 'card_play', 'round_end',
+  'timeout'
+));
+
+-- ============================================================================
+-- DEADLINES
+-- ============================================================================
+
+-- The kind of move the room is waiting for, as named in turn_timers, or
+-- NULL between rounds and outside the game
+CREATE OR REPLACE FUNCTION game.turn_stage(p_room api.rooms)
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE
+    WHEN p_room.status = 'playing' THEN 'cardPlay'
+    WHEN p_room.dealing_phase = 'trump_selection' THEN 'trumpSelection'
+    WHEN p_room.dealing_phase = 'dealing_3' THEN 'dealing'
+    WHEN p_room.dealing_phase = 'card_pull' THEN 'cardPull'
+  END;
+$$;
+
+-- Seat whose move the room is waiting for
+CREATE OR REPLACE FUNCTION game.turn_seat(p_room api.rooms)
+RETURNS INTEGER
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE game.turn_stage(p_room)
+    WHEN 'cardPlay' THEN p_room.current_player_index
+    WHEN 'trumpSelection' THEN (p_room.dealer_index + 1) % 3
+    WHEN 'dealing' THEN p_room.dealer_index
+    WHEN 'cardPull' THEN (
+      p_room.card_pull_state->'pullers'
+        ->((p_room.card_pull_state->>'currentPullerIndex')::INTEGER)->>'position'
+    )::INTEGER
+  END;
+$$;
+
+-- Changes whenever a new move is awaited: a new stage, seat, card in the
+-- trick or step of a pull
+CREATE OR REPLACE FUNCTION game.turn_key(p_room api.rooms)
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT concat_ws('|',
+    game.turn_stage(p_room),
+    game.turn_seat(p_room),
+    jsonb_array_length(COALESCE(p_room.current_trick, '[]'::jsonb)),
+    p_room.card_pull_state->>'phase',
+    p_room.card_pull_state->>'currentPullerIndex'
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION game.track_turn_deadline()
+RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_stage TEXT := game.turn_stage(NEW);
+  v_seconds INTEGER := (NEW.turn_timers->>v_stage)::INTEGER;
+BEGIN
+  IF TG_OP = 'INSERT' OR game.turn_key(NEW) IS DISTINCT FROM game.turn_key(OLD) THEN
+    NEW.turn_deadline := CASE
+      WHEN v_stage IS NULL OR COALESCE(v_seconds, 0) = 0 THEN NULL
+      ELSE now() + make_interval(secs => v_seconds)
+    END;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rooms_turn_deadline ON api.rooms;
+CREATE TRIGGER rooms_turn_deadline
+  BEFORE INSERT OR UPDATE ON api.rooms
+  FOR EACH ROW EXECUTE FUNCTION game.track_turn_deadline();
+
+-- ============================================================================
+-- SEAT ACCESS
+-- ============================================================================
+
+-- Position of the acting seat: the caller's own seat, a bot seat in a room
+-- the caller created, or the seat game.auto_play is moving for
+CREATE OR REPLACE FUNCTION game.seat_of(p_room_id UUID, p_player_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql STABLE AS $$
+DECLARE
+  v_position INTEGER;
+BEGIN
+  SELECT p.position INTO v_position
+  FROM api.players p
+  JOIN api.rooms r ON r.id = p.room_id
+  WHERE p.id = p_player_id
+    AND p.room_id = p_room_id
+    AND (
+      p.user_id = auth.uid()
+      OR (p.is_bot AND r.created_by = auth.uid())
+      OR p.position::TEXT = current_setting('game.timed_out_seat', true)
+    );
+
+  IF v_position IS NULL THEN
+    RAISE EXCEPTION 'You are not a player in this room';
+  END IF;
+  RETURN v_position;
+END;
+$$;
+
+-- ============================================================================
+-- AUTO-PLAY
+-- ============================================================================
+
+-- Makes the awaited move for the seat whose time ran out, through the same
+-- RPCs a player would call. The caller has locked the room.
+CREATE OR REPLACE FUNCTION game.auto_play(p_room api.rooms)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_stage TEXT := game.turn_stage(p_room);
+  v_position INTEGER := game.turn_seat(p_room);
+  v_state JSONB := p_room.card_pull_state;
+  v_trick JSONB := COALESCE(p_room.current_trick, '[]'::jsonb);
+  v_player_id UUID;
+  v_hand JSONB;
+  v_suit TEXT;
+  v_card JSONB;
+BEGIN
+  IF v_stage IS NULL OR v_position IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT id INTO v_player_id FROM api.players
+  WHERE room_id = p_room.id AND position = v_position;
+  v_hand := game.hand_of(p_room.id, v_position);
+
+  PERFORM game.log_event(p_room.id, p_room.round_number, 'timeout', v_position,
+    jsonb_build_object('stage', v_stage));
+
+  -- Lets game.seat_of accept this seat until the move is made
+  PERFORM set_config('game.timed_out_seat', v_position::TEXT, true);
+
+  CASE v_stage
+    WHEN 'trumpSelection' THEN
+      SELECT s INTO v_suit
+      FROM unnest(ARRAY['♠', '♥', '♦', '♣']) WITH ORDINALITY AS su(s, si)
+      ORDER BY game.count_suit(v_hand, s) DESC, si
+      LIMIT 1;
+      PERFORM api.select_trump(p_room.id, v_player_id, v_suit);
+
+    WHEN 'dealing' THEN
+      PERFORM api.deal_final(p_room.id, v_player_id);
+
+    WHEN 'cardPull' THEN
+      IF v_state->>'phase' = 'selecting_target' THEN
+        PERFORM api.select_pull_target(
+          p_room.id, v_player_id, (v_state->'underScorers'->0->>'position')::INTEGER
+        );
+      END IF;
+      IF v_state->>'phase' IN ('selecting_target', 'selecting_card') THEN
+        PERFORM api.pull_card(p_room.id, v_player_id, 0);
+      END IF;
+      PERFORM api.return_card(p_room.id, v_player_id, (game.secrets_of(p_room.id)).pulled_card);
+
+    WHEN 'cardPlay' THEN
+      IF jsonb_array_length(v_trick) = 3 THEN
+        PERFORM api.clear_trick(p_room.id, v_player_id);
+      ELSE
+        SELECT c INTO v_card
+        FROM jsonb_array_elements(v_hand) WITH ORDINALITY AS h(c, i)
+        WHERE game.move_error(
+          c, v_hand, v_trick, p_room.trump_suit, 10 - jsonb_array_length(v_hand),
+          p_room.trump_led_at_start, p_room.rules
+        ) IS NULL
+        ORDER BY i
+        LIMIT 1;
+        PERFORM api.play_card(p_room.id, v_player_id, v_card);
+      END IF;
+  END CASE;
+
+  PERFORM set_config('game.timed_out_seat', '', true);
+END;
+$$;
+
+-- Called by a seated client whose countdown ran out. Does nothing if the
+-- move was made in the meantime or the server's clock says time is left.
+CREATE OR REPLACE FUNCTION api.expire_turn(p_room_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM api.players WHERE room_id = p_room_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You are not a player in this room';
+  END IF;
+
+  IF v_room.turn_deadline IS NOT NULL AND v_room.turn_deadline <= now() THEN
+    PERFORM game.auto_play(v_room);
+  END IF;
+END;
+$$;
+
+-- Moves for every seat that is out of time. A room that fails is skipped
+-- and retried on the next sweep.
+CREATE OR REPLACE FUNCTION game.expire_turns()
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_room_id UUID;
+  v_room api.rooms;
+BEGIN
+  FOR v_room_id IN
+    SELECT id FROM api.rooms WHERE turn_deadline <= now()
+  LOOP
+    BEGIN
+      v_room := game.lock_room(v_room_id);
+      IF v_room.turn_deadline <= now() THEN
+        PERFORM game.auto_play(v_room);
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Turn timeout in room % failed: %', v_room_id, SQLERRM;
+    END;
+  END LOOP;
+END;
+$$;
+
+SELECT cron.schedule('expire-turns', '5 seconds', $$SELECT game.expire_turns()$$);
@@ -0,0 +1,230 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Disconnect Handling
+-- ============================================================================
+--
+-- Clients show who is online from Realtime presence on the room channel.
+-- Presence lives outside the database, so the server decides who has left
+-- from a heartbeat instead: every open game page calls api.heartbeat, and a
+-- human seat not heard from for 60 seconds counts as disconnected.
+--
+-- Each room picks what happens to a disconnected seat once the game has
+-- started (api.rooms.disconnect_policy):
+--
+--   pause    the table waits: that seat's turn timer never runs out
+--   bot      a medium bot stands in until the player comes back, driven by
+--            the host's browser like any bot (turn timers cover a missing
+--            host)
+--   forfeit  the game ends; the seat that left cannot win
+--
+-- Heartbeats are kept in a private table so they don't wake every client
+-- through the realtime publication on api.players.
+--
+-- ============================================================================
+
+ALTER TABLE api.rooms ADD COLUMN IF NOT EXISTS disconnect_policy TEXT NOT NULL DEFAULT 'pause'
+  CHECK (disconnect_policy IN ('pause', 'bot', 'forfeit'));
+ALTER TABLE api.rooms ADD COLUMN IF NOT EXISTS forfeited_position INTEGER DEFAULT NULL;
+
+-- A bot playing for a disconnected player; the seat returns on their heartbeat
+ALTER TABLE api.players ADD COLUMN IF NOT EXISTS bot_stand_in BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS game.seat_heartbeats (
+  room_id UUID REFERENCES api.rooms(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL CHECK (position >= 0 AND position <= 2),
+  last_seen_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  PRIMARY KEY (room_id, position)
+);
+
+REVOKE ALL ON game.seat_heartbeats FROM PUBLIC;
+
+ALTER TABLE api.game_events DROP CONSTRAINT IF EXISTS game_events_event_type_check;
+ALTER TABLE api.game_events ADD CONSTRAINT game_events_event_type_check CHECK (event_type IN (
+  'deal', 'trump_select', 'pull_target', 'pulled_card', 'returned_card', 'card_play', 'round_end',
+  'timeout', 'disconnect', 'reconnect'
+));
+
+-- Forfeits and stand-ins are server-managed
+DROP POLICY IF EXISTS "Signed-in users can create rooms" ON api.rooms;
+CREATE POLICY "Signed-in users can create rooms" ON api.rooms
+  FOR INSERT WITH CHECK (
+    created_by = auth.uid()
+    AND status = 'waiting'
+    AND COALESCE(deal_seeds, '[]'::jsonb) = '[]'::jsonb
+    AND deal_commitment IS NULL
+    AND forfeited_position IS NULL
+  );
+
+DROP POLICY IF EXISTS "Players can only join as themselves" ON api.players;
+CREATE POLICY "Players can only join as themselves" ON api.players
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND COALESCE(tricks_won, 0) = 0
+    AND COALESCE(overachievement_score, 0) = 0
+    AND COALESCE(hand_count, 0) = 0
+    AND NOT bot_stand_in
+    AND EXISTS (
+      SELECT 1 FROM api.rooms r WHERE r.id = room_id AND r.status = 'waiting'
+    )
+  );
+
+-- ============================================================================
+-- HEARTBEATS
+-- ============================================================================
+
+-- A human seat that has sent heartbeats but none in the last 60 seconds.
+-- Seats without any heartbeat yet (older clients) count as connected.
+CREATE OR REPLACE FUNCTION game.is_disconnected(p_room_id UUID, p_position INTEGER)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM game.seat_heartbeats h
+    JOIN api.players p ON p.room_id = h.room_id AND p.position = h.position
+    WHERE h.room_id = p_room_id
+      AND h.position = p_position
+      AND p.user_id IS NOT NULL
+      AND h.last_seen_at < now() - interval '60 seconds'
+  );
+$$;
+
+-- Called every few seconds by an open game page. Takes a stand-in seat back
+-- from its bot, and restarts a turn the table paused while the seat was away.
+CREATE OR REPLACE FUNCTION api.heartbeat(p_room_id UUID, p_player_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms;
+  v_player api.players;
+  v_was_away BOOLEAN;
+  v_seconds INTEGER;
+BEGIN
+  SELECT * INTO v_player FROM api.players
+  WHERE id = p_player_id AND room_id = p_room_id AND user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'You are not a player in this room';
+  END IF;
+
+  v_was_away := game.is_disconnected(p_room_id, v_player.position);
+
+  INSERT INTO game.seat_heartbeats (room_id, position, last_seen_at)
+  VALUES (p_room_id, v_player.position, now())
+  ON CONFLICT (room_id, position) DO UPDATE SET last_seen_at = EXCLUDED.last_seen_at;
+
+  IF NOT v_was_away AND NOT v_player.bot_stand_in THEN
+    RETURN;
+  END IF;
+
+  v_room := game.lock_room(p_room_id);
+
+  PERFORM game.log_event(p_room_id, v_room.round_number, 'reconnect', v_player.position, '{}'::jsonb);
+
+  IF v_player.bot_stand_in THEN
+    UPDATE api.players SET is_bot = false, bot_difficulty = NULL, bot_stand_in = false
+    WHERE id = p_player_id;
+  END IF;
+
+  -- A paused turn gets its full time again
+  IF v_room.turn_deadline <= now() AND game.turn_seat(v_room) = v_player.position THEN
+    v_seconds := (v_room.turn_timers->>game.turn_stage(v_room))::INTEGER;
+    UPDATE api.rooms SET turn_deadline = now() + make_interval(secs => v_seconds)
+    WHERE id = p_room_id;
+  END IF;
+END;
+$$;
+
+-- ============================================================================
+-- DISCONNECT POLICY
+-- ============================================================================
+
+-- Applies the room's policy to every seat that has gone away mid-game
+CREATE OR REPLACE FUNCTION game.handle_disconnects()
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_seat RECORD;
+  v_room api.rooms;
+BEGIN
+  FOR v_seat IN
+    SELECT p.id, p.room_id, p.position
+    FROM api.players p
+    JOIN api.rooms r ON r.id = p.room_id
+    WHERE r.status IN ('dealing', 'playing', 'redistribution')
+      AND r.disconnect_policy IN ('bot', 'forfeit')
+      AND NOT COALESCE(p.is_bot, false)
+      AND game.is_disconnected(p.room_id, p.position)
+  LOOP
+    v_room := game.lock_room(v_seat.room_id);
+    CONTINUE WHEN v_room.status NOT IN ('dealing', 'playing', 'redistribution');
+
+    PERFORM game.log_event(v_room.id, v_room.round_number, 'disconnect', v_seat.position,
+      jsonb_build_object('policy', v_room.disconnect_policy));
+
+    IF v_room.disconnect_policy = 'bot' THEN
+      UPDATE api.players SET is_bot = true, bot_difficulty = 'medium', bot_stand_in = true
+      WHERE id = v_seat.id;
+    ELSE
+      UPDATE api.rooms SET
+        status = 'finished',
+        dealing_phase = 'finished',
+        forfeited_position = v_seat.position
+      WHERE id = v_room.id;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Whether the server should move for the awaited seat now: its time is up
+-- and the table isn't paused waiting for it to come back
+CREATE OR REPLACE FUNCTION game.turn_expired(p_room api.rooms)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE AS $$
+  SELECT p_room.turn_deadline IS NOT NULL
+    AND p_room.turn_deadline <= now()
+    AND NOT (
+      p_room.disconnect_policy = 'pause'
+      AND game.is_disconnected(p_room.id, game.turn_seat(p_room))
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION api.expire_turn(p_room_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM api.players WHERE room_id = p_room_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You are not a player in this room';
+  END IF;
+
+  IF game.turn_expired(v_room) THEN
+    PERFORM game.auto_play(v_room);
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION game.expire_turns()
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_room_id UUID;
+  v_room api.rooms;
+BEGIN
+  FOR v_room_id IN
+    SELECT id FROM api.rooms WHERE turn_deadline <= now()
+  LOOP
+    BEGIN
+      v_room := game.lock_room(v_room_id);
+      IF game.turn_expired(v_room) THEN
+        PERFORM game.auto_play(v_room);
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Turn timeout in room % failed: %', v_room_id, SQLERRM;
+    END;
+  END LOOP;
+END;
+$$;
+
+SELECT cron.schedule('handle-disconnects', '15 seconds', $$SELECT game.handle_disconnects()$$);
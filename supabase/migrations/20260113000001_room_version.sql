@@ -0,0 +1,40 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Room Version
+-- ============================================================================
+--
+-- Clients apply realtime row payloads directly instead of re-reading the
+-- room on every change. A single move writes the room several times, and a
+-- fresh read can come back after newer payloads have already arrived, so
+-- every room row carries a version that goes up by one on each update.
+-- Clients keep the highest version they have seen and drop anything older.
+--
+-- ============================================================================
+
+ALTER TABLE api.rooms ADD COLUMN IF NOT EXISTS version BIGINT NOT NULL DEFAULT 0;
+
+-- Bumped by the database alone, so a client can't move it backwards
+CREATE OR REPLACE FUNCTION game.bump_room_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  NEW.version := OLD.version + 1;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rooms_version ON api.rooms;
+CREATE TRIGGER rooms_version
+  BEFORE UPDATE ON api.rooms
+  FOR EACH ROW EXECUTE FUNCTION game.bump_room_version();
+
+-- New rooms start at version 0
+DROP POLICY IF EXISTS "Signed-in users can create rooms" ON api.rooms;
+CREATE POLICY "Signed-in users can create rooms" ON api.rooms
+  FOR INSERT WITH CHECK (
+    created_by = auth.uid()
+    AND status = 'waiting'
+    AND COALESCE(deal_seeds, '[]'::jsonb) = '[]'::jsonb
+    AND deal_commitment IS NULL
+    AND forfeited_position IS NULL
+    AND version = 0
+  );
@@ -0,0 +1,244 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Compare-and-Set Phase Transitions
+-- ============================================================================
+--
+-- Starting the game, selecting trump, dealing the final cards and starting
+-- the next round can be requested by more than one client at once (every
+-- seat sees "Start Round"), and a double click sends the same request twice.
+--
+-- Each of these RPCs now takes the room version the caller was looking at
+-- (api.rooms.version, see 20260113000001_room_version.sql) and returns:
+--
+--   'done'          this call made the transition
+--   'already_done'  the room moved on since that version and the transition
+--                   has already happened; nothing was changed
+--
+-- A stale version whose transition hasn't happened yet is an error: the
+-- table changed under the caller and they should look again. Server-side
+-- callers (turn timeouts) pass no version and skip the check.
+--
+-- ============================================================================
+
+-- Whether a transition requested at p_expected_version was already made by
+-- someone else. Raises when the room changed but the transition is still due.
+CREATE OR REPLACE FUNCTION game.transition_done(
+  p_room api.rooms,
+  p_expected_version BIGINT,
+  p_has_happened BOOLEAN
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF p_expected_version IS NULL OR p_room.version = p_expected_version THEN
+    RETURN false;
+  END IF;
+
+  IF p_has_happened THEN
+    RETURN true;
+  END IF;
+
+  RAISE EXCEPTION 'The table changed before your move arrived, please try again';
+END;
+$$;
+
+-- The new signatures add a parameter and a result, so the old ones go first
+DROP FUNCTION IF EXISTS api.start_game(UUID, UUID);
+DROP FUNCTION IF EXISTS api.select_trump(UUID, UUID, TEXT);
+DROP FUNCTION IF EXISTS api.deal_final(UUID, UUID);
+DROP FUNCTION IF EXISTS api.start_new_round(UUID, UUID);
+
+-- ============================================================================
+-- RPC: DEALING PHASE
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION api.start_game(
+  p_room_id UUID,
+  p_player_id UUID,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+BEGIN
+  PERFORM game.seat_of(p_room_id, p_player_id);
+
+  IF game.transition_done(v_room, p_expected_version, v_room.status <> 'waiting') THEN
+    RETURN 'already_done';
+  END IF;
+
+  IF v_room.status <> 'waiting' THEN
+    RAISE EXCEPTION 'Game has already started';
+  END IF;
+
+  IF (SELECT count(*) FROM api.players WHERE room_id = p_room_id) <> 3 THEN
+    RAISE EXCEPTION 'Need 3 players to start';
+  END IF;
+
+  PERFORM game.deal_first_five(v_room);
+  RETURN 'done';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION api.select_trump(
+  p_room_id UUID,
+  p_player_id UUID,
+  p_trump TEXT,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_remaining JSONB;
+  v_player INTEGER;
+BEGIN
+  IF game.transition_done(v_room, p_expected_version, v_room.dealing_phase <> 'trump_selection') THEN
+    RETURN 'already_done';
+  END IF;
+
+  IF v_room.dealing_phase <> 'trump_selection' THEN
+    RAISE EXCEPTION 'Trump has already been selected';
+  END IF;
+
+  IF v_position <> (v_room.dealer_index + 1) % 3 THEN
+    RAISE EXCEPTION 'Only the 5-trick player can select trump';
+  END IF;
+
+  IF p_trump IS NULL OR p_trump NOT IN ('♠', '♥', '♦', '♣') THEN
+    RAISE EXCEPTION 'Invalid trump suit';
+  END IF;
+
+  v_remaining := COALESCE((game.secrets_of(p_room_id)).remaining_cards, '[]'::jsonb);
+  IF jsonb_array_length(v_remaining) <> 15 THEN
+    RAISE EXCEPTION 'Invalid remaining cards';
+  END IF;
+
+  PERFORM game.log_event(p_room_id, v_room.round_number, 'trump_select', v_position,
+    jsonb_build_object('trump', p_trump));
+
+  -- Add 3 more cards to each player's hand
+  FOR v_player IN 0..2 LOOP
+    PERFORM game.set_hand(
+      p_room_id,
+      v_player,
+      game.hand_of(p_room_id, v_player) || game.deal_slice(v_remaining, 3, v_player)
+    );
+    PERFORM game.log_event(p_room_id, v_room.round_number, 'deal', v_player, jsonb_build_object(
+      'stage', 'three',
+      'cards', game.deal_slice(v_remaining, 3, v_player)
+    ), v_player);
+  END LOOP;
+
+  UPDATE game.room_secrets SET remaining_cards = game.drop_cards(v_remaining, 9)
+  WHERE room_id = p_room_id;
+
+  UPDATE api.rooms SET
+    trump_suit = p_trump,
+    dealing_phase = 'dealing_3'
+  WHERE id = p_room_id;
+
+  RETURN 'done';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION api.deal_final(
+  p_room_id UUID,
+  p_player_id UUID,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_remaining JSONB;
+  v_first_leader INTEGER;
+  v_card_pull_state JSONB := NULL;
+  v_player INTEGER;
+BEGIN
+  IF game.transition_done(v_room, p_expected_version, v_room.dealing_phase <> 'dealing_3') THEN
+    RETURN 'already_done';
+  END IF;
+
+  IF v_room.dealing_phase <> 'dealing_3' THEN
+    RAISE EXCEPTION 'Final cards have already been dealt';
+  END IF;
+
+  IF v_position <> v_room.dealer_index THEN
+    RAISE EXCEPTION 'Only the dealer can deal the final cards';
+  END IF;
+
+  v_remaining := COALESCE((game.secrets_of(p_room_id)).remaining_cards, '[]'::jsonb);
+  IF jsonb_array_length(v_remaining) <> 6 THEN
+    RAISE EXCEPTION 'Invalid remaining cards';
+  END IF;
+
+  FOR v_player IN 0..2 LOOP
+    PERFORM game.set_hand(
+      p_room_id,
+      v_player,
+      game.hand_of(p_room_id, v_player) || game.deal_slice(v_remaining, 2, v_player)
+    );
+    PERFORM game.log_event(p_room_id, v_room.round_number, 'deal', v_player, jsonb_build_object(
+      'stage', 'final',
+      'cards', game.deal_slice(v_remaining, 2, v_player)
+    ), v_player);
+  END LOOP;
+
+  UPDATE game.room_secrets SET remaining_cards = NULL WHERE room_id = p_room_id;
+
+  -- 5-trick player leads first trick
+  v_first_leader := (v_room.dealer_index + 1) % 3;
+
+  -- Card pull only after round 1, in rooms that play it, and only with both
+  -- over- and under-scorers
+  IF v_room.round_number > 1 AND (v_room.rules->>'cardPull')::BOOLEAN THEN
+    v_card_pull_state := game.initial_card_pull_state(
+      v_room.previous_round_results,
+      v_room.dealer_index
+    );
+  END IF;
+
+  UPDATE api.rooms SET
+    status = CASE WHEN v_card_pull_state IS NULL THEN 'playing' ELSE 'dealing' END,
+    dealing_phase = CASE WHEN v_card_pull_state IS NULL THEN 'playing' ELSE 'card_pull' END,
+    current_player_index = v_first_leader,
+    first_trick_leader = v_first_leader,
+    trump_led_at_start = NULL,
+    card_pull_state = v_card_pull_state
+  WHERE id = p_room_id;
+
+  RETURN 'done';
+END;
+$$;
+
+-- ============================================================================
+-- RPC: ROUND MANAGEMENT
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION api.start_new_round(
+  p_room_id UUID,
+  p_player_id UUID,
+  p_expected_version BIGINT DEFAULT NULL
+)
+RETURNS TEXT
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+BEGIN
+  PERFORM game.seat_of(p_room_id, p_player_id);
+
+  IF game.transition_done(v_room, p_expected_version, v_room.status <> 'redistribution') THEN
+    RETURN 'already_done';
+  END IF;
+
+  IF v_room.status <> 'redistribution' THEN
+    RAISE EXCEPTION 'Round has already started';
+  END IF;
+
+  PERFORM game.deal_first_five(v_room);
+  RETURN 'done';
+END;
+$$;
@@ -0,0 +1,113 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Server-Driven Trick Clearing
+-- ============================================================================
+--
+-- A finished trick stays on the table for two seconds so everyone sees who
+-- took it. That pause used to be a setTimeout in the browser of whoever
+-- played the third card; if that tab closed, the trick never cleared.
+--
+-- The server now owns the pause. A trigger stamps api.rooms.trick_resolved_at
+-- when the third card lands and clears it with the trick. Clients render the
+-- pause from that timestamp and ask api.clear_trick to move on once it is
+-- over; the server only clears after the full pause, and a pg_cron sweep
+-- clears tables nobody is watching.
+--
+-- No turn timer runs during the pause: the next lead is timed from the
+-- moment the table is clear.
+--
+-- ============================================================================
+
+ALTER TABLE api.rooms ADD COLUMN IF NOT EXISTS trick_resolved_at TIMESTAMPTZ DEFAULT NULL;
+
+-- How long a finished trick stays on the table
+CREATE OR REPLACE FUNCTION game.trick_pause()
+RETURNS INTERVAL
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT interval '2 seconds';
+$$;
+
+CREATE OR REPLACE FUNCTION game.track_trick_resolution()
+RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF jsonb_array_length(COALESCE(NEW.current_trick, '[]'::jsonb)) < 3 THEN
+    NEW.trick_resolved_at := NULL;
+  ELSIF NEW.current_trick IS DISTINCT FROM OLD.current_trick THEN
+    NEW.trick_resolved_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rooms_trick_resolved ON api.rooms;
+CREATE TRIGGER rooms_trick_resolved
+  BEFORE UPDATE ON api.rooms
+  FOR EACH ROW EXECUTE FUNCTION game.track_trick_resolution();
+
+-- Tricks left on the table before this migration clear on the next sweep
+UPDATE api.rooms SET trick_resolved_at = now()
+WHERE jsonb_array_length(COALESCE(current_trick, '[]'::jsonb)) = 3;
+
+-- Nothing is awaited while a finished trick is on show
+CREATE OR REPLACE FUNCTION game.turn_stage(p_room api.rooms)
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT CASE
+    WHEN p_room.status = 'playing'
+      AND jsonb_array_length(COALESCE(p_room.current_trick, '[]'::jsonb)) = 3 THEN NULL
+    WHEN p_room.status = 'playing' THEN 'cardPlay'
+    WHEN p_room.dealing_phase = 'trump_selection' THEN 'trumpSelection'
+    WHEN p_room.dealing_phase = 'dealing_3' THEN 'dealing'
+    WHEN p_room.dealing_phase = 'card_pull' THEN 'cardPull'
+  END;
+$$;
+
+-- ============================================================================
+-- CLEARING
+-- ============================================================================
+
+-- Clears the finished trick once its pause is over. Returns whether it did.
+CREATE OR REPLACE FUNCTION game.clear_resolved_trick(p_room api.rooms)
+RETURNS BOOLEAN
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF p_room.trick_resolved_at IS NULL OR p_room.trick_resolved_at + game.trick_pause() > now() THEN
+    RETURN false;
+  END IF;
+
+  UPDATE api.rooms SET current_trick = '[]'::jsonb WHERE id = p_room.id;
+  RETURN true;
+END;
+$$;
+
+-- Any seat may ask; asking early (a clock running ahead) changes nothing
+CREATE OR REPLACE FUNCTION api.clear_trick(p_room_id UUID, p_player_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+BEGIN
+  PERFORM game.seat_of(p_room_id, p_player_id);
+  PERFORM game.clear_resolved_trick(v_room);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION game.clear_tricks()
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_room_id UUID;
+BEGIN
+  FOR v_room_id IN
+    SELECT id FROM api.rooms WHERE trick_resolved_at + game.trick_pause() <= now()
+  LOOP
+    BEGIN
+      PERFORM game.clear_resolved_trick(game.lock_room(v_room_id));
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Clearing the trick in room % failed: %', v_room_id, SQLERRM;
+    END;
+  END LOOP;
+END;
+$$;
+
+SELECT cron.schedule('clear-tricks', '1 seconds', $$SELECT game.clear_tricks()$$);
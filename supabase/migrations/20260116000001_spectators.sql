@@ -0,0 +1,65 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Spectators
+-- ============================================================================
+--
+-- Anyone who isn't seated can open a game to watch: the board, the trick
+-- history and the scores. Hands were never public (game.player_hands), so a
+-- spectator sees exactly what the public rows show.
+--
+-- The host decides when creating the room (api.rooms.allow_spectators).
+-- In a closed room the room, its seats, tricks and events are visible only
+-- to the people playing, except while it is still waiting for players, so
+-- that it can be found and joined.
+--
+-- ============================================================================
+
+ALTER TABLE api.rooms ADD COLUMN IF NOT EXISTS allow_spectators BOOLEAN NOT NULL DEFAULT true;
+
+-- Whether the caller may see this room's rows. SECURITY DEFINER so the
+-- rooms and players policies can both use it without recursing.
+CREATE OR REPLACE FUNCTION api.can_view_room(p_room_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = api, game AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM api.rooms r
+    WHERE r.id = p_room_id
+      AND (
+        r.allow_spectators
+        OR r.status = 'waiting'
+        OR r.created_by = auth.uid()
+        OR EXISTS (SELECT 1 FROM api.players p WHERE p.room_id = r.id AND p.user_id = auth.uid())
+      )
+  );
+$$;
+
+DROP POLICY IF EXISTS "Anyone can view rooms" ON api.rooms;
+CREATE POLICY "Rooms are visible to players and allowed spectators" ON api.rooms
+  FOR SELECT USING (api.can_view_room(id));
+
+DROP POLICY IF EXISTS "Anyone can view players" ON api.players;
+CREATE POLICY "Seats are visible to players and allowed spectators" ON api.players
+  FOR SELECT USING (api.can_view_room(room_id));
+
+DROP POLICY IF EXISTS "Anyone can view tricks" ON api.tricks;
+CREATE POLICY "Tricks are visible to players and allowed spectators" ON api.tricks
+  FOR SELECT USING (api.can_view_room(room_id));
+
+DROP POLICY IF EXISTS "Events are visible once their round is over" ON api.game_events;
+CREATE POLICY "Events are visible once their round is over" ON api.game_events
+  FOR SELECT USING (
+    api.can_view_room(room_id)
+    AND (
+      private_to IS NULL
+      OR EXISTS (
+        SELECT 1 FROM api.rooms r
+        WHERE r.id = game_events.room_id
+          AND (r.round_number > game_events.round_number OR r.status = 'finished')
+      )
+      OR EXISTS (
+        SELECT 1 FROM api.players p
+        WHERE p.room_id = game_events.room_id
+          AND p.position = game_events.private_to
+          AND p.user_id = auth.uid()
+      )
+    )
+  );
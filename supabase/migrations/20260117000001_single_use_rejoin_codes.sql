@@ -0,0 +1,96 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Single-Use Rejoin Codes
+-- ============================================================================
+--
+-- Rejoin codes (20251231000001_rejoin_codes.sql) were 8 hex characters of
+-- an md5, never changed, and could be tried without limit. Anyone who had
+-- once seen a code could take the seat back whenever they liked, and codes
+-- could be guessed across rooms.
+--
+-- - Codes are 20 hex characters (80 bits) from gen_random_bytes
+-- - A successful claim replaces the seat's code, so each code works once
+-- - A session gets 5 wrong codes per hour; after that claims are refused
+--
+-- Existing codes are dropped; seats get a new one the next time it is shown.
+--
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- 20 uppercase hex characters, e.g. "3F9A0C17B2D4E6F80A1C"
+CREATE OR REPLACE FUNCTION game.new_seat_code()
+RETURNS TEXT
+LANGUAGE sql VOLATILE AS $$
+  SELECT upper(encode(extensions.gen_random_bytes(10), 'hex'));
+$$;
+
+DELETE FROM game.seat_codes;
+
+-- Wrong codes per session, counted over the last hour
+CREATE TABLE IF NOT EXISTS game.seat_claim_failures (
+  user_id UUID PRIMARY KEY,
+  failures INTEGER NOT NULL DEFAULT 0,
+  last_failed_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+REVOKE ALL ON game.seat_claim_failures FROM PUBLIC;
+
+-- Moves the seat with this code to the caller's session and gives the seat a
+-- new code. Returns the room id, or NULL for a wrong code: raising would roll
+-- back the failure count with it.
+CREATE OR REPLACE FUNCTION api.claim_seat(p_code TEXT)
+RETURNS UUID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_player api.players;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not signed in';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM game.seat_claim_failures
+    WHERE user_id = auth.uid()
+      AND failures >= 5
+      AND last_failed_at > now() - interval '1 hour'
+  ) THEN
+    RAISE EXCEPTION 'Too many wrong rejoin codes, please try again later';
+  END IF;
+
+  SELECT p.* INTO v_player
+  FROM game.seat_codes c
+  JOIN api.players p ON p.id = c.player_id
+  WHERE c.code = upper(trim(p_code))
+  FOR UPDATE OF p;
+
+  IF NOT FOUND THEN
+    INSERT INTO game.seat_claim_failures (user_id, failures)
+    VALUES (auth.uid(), 1)
+    ON CONFLICT (user_id) DO UPDATE SET
+      failures = CASE
+        WHEN seat_claim_failures.last_failed_at > now() - interval '1 hour'
+          THEN seat_claim_failures.failures + 1
+        ELSE 1
+      END,
+      last_failed_at = now();
+    RETURN NULL;
+  END IF;
+
+  IF v_player.user_id IS DISTINCT FROM auth.uid() THEN
+    IF EXISTS (
+      SELECT 1 FROM api.players
+      WHERE room_id = v_player.room_id AND user_id = auth.uid()
+    ) THEN
+      RAISE EXCEPTION 'You already have a different seat in this room';
+    END IF;
+
+    UPDATE api.players SET user_id = auth.uid() WHERE id = v_player.id;
+  END IF;
+
+  -- The code has been used; the seat's holder can fetch the new one
+  UPDATE game.seat_codes SET code = game.new_seat_code(), created_at = now()
+  WHERE player_id = v_player.id;
+
+  RETURN v_player.room_id;
+END;
+$$;
@@ -0,0 +1,145 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Full-Entropy Deals
+-- ============================================================================
+--
+-- Commit-reveal deals (20260106000001_commit_reveal_deals.sql) kept only the
+-- first 32 bits of sha256('seed:' || material) and shuffled with mulberry32,
+-- so every deal was one of 2^32 decks. Knowing their own five cards, a
+-- player could search all the seeds offline and learn the other hands.
+--
+-- Rounds are now dealt from the whole hash:
+--
+--   seed = sha256('seed:' || material)                 (64 hex characters)
+--   deck = Fisher-Yates where each swap index comes from
+--          the first 32 bits of sha256(seed || ':' || counter)
+--
+-- counter starts at 0 and goes up by one for every hash. A 32-bit value at
+-- or above the largest multiple of (i + 1) is thrown away and the next one
+-- is used, so every index is equally likely. shuffledDeck in
+-- src/lib/fairness.ts does the same, so the reveals still verify.
+--
+-- room_secrets.deal_seed becomes JSONB: a hex string for these deals, a
+-- number for practice rounds and for rounds dealt before this change.
+--
+-- ============================================================================
+
+-- ============================================================================
+-- DECK
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION game.shuffled_deck(p_seed TEXT, p_rules JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql IMMUTABLE AS $$
+DECLARE
+  v_cards JSONB[] := game.ordered_deck(p_rules);
+  v_counter INTEGER := 0;
+  v_value BIGINT;
+  v_limit BIGINT;
+  v_i INTEGER;
+  v_j INTEGER;
+  v_swap JSONB;
+BEGIN
+  FOR v_i IN REVERSE array_length(v_cards, 1) - 1 .. 1 LOOP
+    v_limit := 4294967296 - 4294967296 % (v_i + 1);
+
+    LOOP
+      v_value := ('x' || left(game.sha256_hex(p_seed || ':' || v_counter), 8))::bit(32)::bigint;
+      v_counter := v_counter + 1;
+      EXIT WHEN v_value < v_limit;
+    END LOOP;
+
+    v_j := (v_value % (v_i + 1))::INTEGER;
+
+    -- Arrays are 1-based, the JS indexes 0-based
+    v_swap := v_cards[v_i + 1];
+    v_cards[v_i + 1] := v_cards[v_j + 1];
+    v_cards[v_j + 1] := v_swap;
+  END LOOP;
+
+  RETURN to_jsonb(v_cards);
+END;
+$$;
+
+DROP FUNCTION IF EXISTS game.seed_from_material(TEXT);
+
+CREATE OR REPLACE FUNCTION game.seed_from_material(p_material TEXT)
+RETURNS TEXT
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT game.sha256_hex('seed:' || p_material);
+$$;
+
+-- Seeds already stored keep their numbers, so a round in play when this
+-- runs is revealed the way it was dealt
+ALTER TABLE game.room_secrets ALTER COLUMN deal_seed TYPE JSONB USING to_jsonb(deal_seed);
+
+-- ============================================================================
+-- ROUND FLOW
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION game.deal_first_five(p_room api.rooms)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_secret TEXT;
+  v_entropy JSONB;
+  v_material TEXT;
+  v_commitment TEXT;
+  v_seed JSONB;
+  v_deck JSONB;
+  v_position INTEGER;
+BEGIN
+  IF p_room.practice_seed IS NOT NULL THEN
+    v_seed := to_jsonb((p_room.practice_seed + p_room.round_number - 1) & 4294967295);
+    v_deck := game.seeded_deck((v_seed #>> '{}')::BIGINT, p_room.rules);
+  ELSE
+    v_secret := game.random_hex();
+
+    SELECT jsonb_agg(COALESCE(e.entropy, game.random_hex()) ORDER BY s)
+    INTO v_entropy
+    FROM generate_series(0, 2) s
+    LEFT JOIN game.seat_entropy e ON e.room_id = p_room.id AND e.position = s;
+
+    v_material := game.deal_material(v_secret, v_entropy);
+    v_commitment := game.sha256_hex(v_material);
+    v_seed := to_jsonb(game.seed_from_material(v_material));
+    v_deck := game.shuffled_deck(v_seed #>> '{}', p_room.rules);
+  END IF;
+
+  -- Entropy is used for one deal only
+  DELETE FROM game.seat_entropy WHERE room_id = p_room.id;
+
+  -- Commit before dealing
+  UPDATE api.rooms SET deal_commitment = v_commitment WHERE id = p_room.id;
+
+  PERFORM game.secrets_of(p_room.id);
+  UPDATE game.room_secrets SET
+    remaining_cards = game.drop_cards(v_deck, 15),
+    pulled_card = NULL,
+    deal_seed = v_seed,
+    server_secret = v_secret,
+    deal_entropy = v_entropy
+  WHERE room_id = p_room.id;
+
+  UPDATE api.rooms SET
+    status = 'dealing',
+    dealing_phase = 'trump_selection',
+    trump_suit = NULL,
+    current_trick = '[]'::jsonb,
+    trump_led_at_start = NULL
+  WHERE id = p_room.id;
+
+  FOR v_position IN 0..2 LOOP
+    PERFORM game.set_hand(p_room.id, v_position, game.deal_slice(v_deck, 5, v_position));
+    PERFORM game.log_event(p_room.id, p_room.round_number, 'deal', v_position, jsonb_build_object(
+      'stage', 'first_five',
+      'dealerIndex', p_room.dealer_index,
+      'cards', game.deal_slice(v_deck, 5, v_position)
+    ), v_position);
+
+    UPDATE api.players SET
+      target_tricks = game.target_tricks(v_position, p_room.dealer_index),
+      tricks_won = 0
+    WHERE room_id = p_room.id AND position = v_position;
+  END LOOP;
+END;
+$$;
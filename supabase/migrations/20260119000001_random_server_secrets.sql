@@ -0,0 +1,24 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Random Server Secrets
+-- ============================================================================
+--
+-- The server secret behind each deal (and the entropy filled in for seats
+-- that sent none) came from a UUID with its dashes removed: 32 hex
+-- characters, but only 122 random bits. They are now 64 hex characters
+-- (256 bits) from pgcrypto's gen_random_bytes, so the seed of a deal
+-- (20260118000001_full_entropy_deals.sql) has its full 256 bits even when
+-- no seat sent entropy.
+--
+-- Practice rooms are unchanged: their seeds are public by design and the
+-- room is labelled as a practice game wherever it is shown.
+--
+-- ============================================================================
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto WITH SCHEMA extensions;
+
+-- 64 random hex characters
+CREATE OR REPLACE FUNCTION game.random_hex()
+RETURNS TEXT
+LANGUAGE sql VOLATILE AS $$
+  SELECT encode(extensions.gen_random_bytes(32), 'hex');
+$$;
@@ -0,0 +1,34 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Seat Version
+-- ============================================================================
+--
+-- Seat rows get the same version as room rows
+-- (20260113000001_room_version.sql). A full read and the realtime payloads
+-- for a seat can arrive in either order, and without a version a late
+-- payload could put back an older tricks_won, hand_count or bot_stand_in.
+-- Clients keep the highest version of each seat and drop anything older.
+--
+-- ============================================================================
+
+ALTER TABLE api.players ADD COLUMN IF NOT EXISTS version BIGINT NOT NULL DEFAULT 0;
+
+-- game.bump_room_version only touches NEW.version, so it serves seats too
+DROP TRIGGER IF EXISTS players_version ON api.players;
+CREATE TRIGGER players_version
+  BEFORE UPDATE ON api.players
+  FOR EACH ROW EXECUTE FUNCTION game.bump_room_version();
+
+-- New seats start at version 0
+DROP POLICY IF EXISTS "Players can only join as themselves" ON api.players;
+CREATE POLICY "Players can only join as themselves" ON api.players
+  FOR INSERT WITH CHECK (
+    user_id = auth.uid()
+    AND COALESCE(tricks_won, 0) = 0
+    AND COALESCE(overachievement_score, 0) = 0
+    AND COALESCE(hand_count, 0) = 0
+    AND NOT bot_stand_in
+    AND version = 0
+    AND EXISTS (
+      SELECT 1 FROM api.rooms r WHERE r.id = room_id AND r.status = 'waiting'
+    )
+  );
@@ -0,0 +1,86 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Disconnect Grace
+-- ============================================================================
+--
+-- A seat counted as disconnected after 60 seconds without a heartbeat
+-- (20260112000001_disconnects.sql), but browsers throttle timers in hidden
+-- tabs to about one a minute. Switching tabs could look like leaving, and
+-- under the forfeit policy lose the game.
+--
+-- - A seat is disconnected after 90 seconds without a heartbeat: several
+--   missed beats even in a throttled tab. The table pauses or a bot stands
+--   in from then.
+-- - A seat only forfeits after 5 minutes without one.
+--
+-- Clients also send a heartbeat whenever the page is hidden or shown.
+--
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION game.is_disconnected(p_room_id UUID, p_position INTEGER)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM game.seat_heartbeats h
+    JOIN api.players p ON p.room_id = h.room_id AND p.position = h.position
+    WHERE h.room_id = p_room_id
+      AND h.position = p_position
+      AND p.user_id IS NOT NULL
+      AND h.last_seen_at < now() - interval '90 seconds'
+  );
+$$;
+
+-- A human seat that has sent no heartbeat for 5 minutes
+CREATE OR REPLACE FUNCTION game.has_left(p_room_id UUID, p_position INTEGER)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM game.seat_heartbeats h
+    JOIN api.players p ON p.room_id = h.room_id AND p.position = h.position
+    WHERE h.room_id = p_room_id
+      AND h.position = p_position
+      AND p.user_id IS NOT NULL
+      AND h.last_seen_at < now() - interval '5 minutes'
+  );
+$$;
+
+-- Applies the room's policy to every seat that has gone away mid-game
+CREATE OR REPLACE FUNCTION game.handle_disconnects()
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_seat RECORD;
+  v_room api.rooms;
+BEGIN
+  FOR v_seat IN
+    SELECT p.id, p.room_id, p.position
+    FROM api.players p
+    JOIN api.rooms r ON r.id = p.room_id
+    WHERE r.status IN ('dealing', 'playing', 'redistribution')
+      AND r.disconnect_policy IN ('bot', 'forfeit')
+      AND NOT COALESCE(p.is_bot, false)
+      AND CASE r.disconnect_policy
+        WHEN 'forfeit' THEN game.has_left(p.room_id, p.position)
+        ELSE game.is_disconnected(p.room_id, p.position)
+      END
+  LOOP
+    v_room := game.lock_room(v_seat.room_id);
+    CONTINUE WHEN v_room.status NOT IN ('dealing', 'playing', 'redistribution');
+
+    PERFORM game.log_event(v_room.id, v_room.round_number, 'disconnect', v_seat.position,
+      jsonb_build_object('policy', v_room.disconnect_policy));
+
+    IF v_room.disconnect_policy = 'bot' THEN
+      UPDATE api.players SET is_bot = true, bot_difficulty = 'medium', bot_stand_in = true
+      WHERE id = v_seat.id;
+    ELSE
+      UPDATE api.rooms SET
+        status = 'finished',
+        dealing_phase = 'finished',
+        forfeited_position = v_seat.position
+      WHERE id = v_room.id;
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,71 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Private Room Visibility Check
+-- ============================================================================
+--
+-- api.can_view_room (20260116000001_spectators.sql) is SECURITY DEFINER and
+-- lived in the exposed api schema, so anyone could call it as an RPC and
+-- probe rooms they can't see. The row policies are its only callers.
+--
+-- It moves to the rls schema, which the API does not expose. The API roles
+-- get USAGE on the schema and EXECUTE on this one function, so policies
+-- evaluated as them can still call it; nothing else is granted there.
+--
+-- ============================================================================
+
+CREATE SCHEMA IF NOT EXISTS rls;
+REVOKE ALL ON SCHEMA rls FROM PUBLIC;
+GRANT USAGE ON SCHEMA rls TO anon, authenticated, service_role;
+
+-- Whether the caller may see this room's rows. SECURITY DEFINER so the
+-- rooms and players policies can both use it without recursing.
+CREATE OR REPLACE FUNCTION rls.can_view_room(p_room_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql STABLE SECURITY DEFINER SET search_path = api, game AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM api.rooms r
+    WHERE r.id = p_room_id
+      AND (
+        r.allow_spectators
+        OR r.status = 'waiting'
+        OR r.created_by = auth.uid()
+        OR EXISTS (SELECT 1 FROM api.players p WHERE p.room_id = r.id AND p.user_id = auth.uid())
+      )
+  );
+$$;
+
+REVOKE ALL ON FUNCTION rls.can_view_room(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION rls.can_view_room(UUID) TO anon, authenticated, service_role;
+
+DROP POLICY IF EXISTS "Rooms are visible to players and allowed spectators" ON api.rooms;
+CREATE POLICY "Rooms are visible to players and allowed spectators" ON api.rooms
+  FOR SELECT USING (rls.can_view_room(id));
+
+DROP POLICY IF EXISTS "Seats are visible to players and allowed spectators" ON api.players;
+CREATE POLICY "Seats are visible to players and allowed spectators" ON api.players
+  FOR SELECT USING (rls.can_view_room(room_id));
+
+DROP POLICY IF EXISTS "Tricks are visible to players and allowed spectators" ON api.tricks;
+CREATE POLICY "Tricks are visible to players and allowed spectators" ON api.tricks
+  FOR SELECT USING (rls.can_view_room(room_id));
+
+DROP POLICY IF EXISTS "Events are visible once their round is over" ON api.game_events;
+CREATE POLICY "Events are visible once their round is over" ON api.game_events
+  FOR SELECT USING (
+    rls.can_view_room(room_id)
+    AND (
+      private_to IS NULL
+      OR EXISTS (
+        SELECT 1 FROM api.rooms r
+        WHERE r.id = game_events.room_id
+          AND (r.round_number > game_events.round_number OR r.status = 'finished')
+      )
+      OR EXISTS (
+        SELECT 1 FROM api.players p
+        WHERE p.room_id = game_events.room_id
+          AND p.position = game_events.private_to
+          AND p.user_id = auth.uid()
+      )
+    )
+  );
+
+DROP FUNCTION IF EXISTS api.can_view_room(UUID);
@@ -0,0 +1,361 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Phase Versions
+-- ============================================================================
+--
+-- Phase transitions (20260114000001_phase_transitions.sql) compared the
+-- caller's room version with the current one, so any unrelated update in
+-- between, such as a reconnect restarting the turn timer, turned a valid
+-- move into "The table changed before your move arrived". Callers could
+-- also leave the version out and skip the check altogether.
+--
+-- - api.rooms.phase_version is the room version at which status,
+--   dealing_phase or round_number last changed. A transition is refused
+--   only when that happened after the version the caller looked at.
+-- - start_game, select_trump, deal_final and start_new_round require the
+--   version. Turn timeouts pass the version of the room they locked.
+--
+-- ============================================================================
+
+ALTER TABLE api.rooms ADD COLUMN IF NOT EXISTS phase_version BIGINT NOT NULL DEFAULT 0;
+
+-- Runs after rooms_version (triggers fire in name order), so NEW.version is
+-- already the new one
+CREATE OR REPLACE FUNCTION game.track_phase_version()
+RETURNS TRIGGER
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF (NEW.status, NEW.dealing_phase, NEW.round_number)
+    IS DISTINCT FROM (OLD.status, OLD.dealing_phase, OLD.round_number) THEN
+    NEW.phase_version := NEW.version;
+  ELSE
+    NEW.phase_version := OLD.phase_version;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rooms_version_phase ON api.rooms;
+CREATE TRIGGER rooms_version_phase
+  BEFORE UPDATE ON api.rooms
+  FOR EACH ROW EXECUTE FUNCTION game.track_phase_version();
+
+-- New rooms start at version 0
+DROP POLICY IF EXISTS "Signed-in users can create rooms" ON api.rooms;
+CREATE POLICY "Signed-in users can create rooms" ON api.rooms
+  FOR INSERT WITH CHECK (
+    created_by = auth.uid()
+    AND status = 'waiting'
+    AND COALESCE(deal_seeds, '[]'::jsonb) = '[]'::jsonb
+    AND deal_commitment IS NULL
+    AND forfeited_position IS NULL
+    AND version = 0
+    AND phase_version = 0
+  );
+
+-- Whether a transition requested at p_expected_version was already made by
+-- someone else. Raises when the phase moved on since that version but the
+-- transition is still due (e.g. it is due again in a later round).
+CREATE OR REPLACE FUNCTION game.transition_done(
+  p_room api.rooms,
+  p_expected_version BIGINT,
+  p_has_happened BOOLEAN
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF p_expected_version IS NULL THEN
+    RAISE EXCEPTION 'Missing room version';
+  END IF;
+
+  IF p_room.version = p_expected_version THEN
+    RETURN false;
+  END IF;
+
+  IF p_has_happened THEN
+    RETURN true;
+  END IF;
+
+  IF p_room.phase_version > p_expected_version THEN
+    RAISE EXCEPTION 'The table changed before your move arrived, please try again';
+  END IF;
+
+  RETURN false;
+END;
+$$;
+
+-- The version is no longer optional, so the old signatures go first
+DROP FUNCTION IF EXISTS api.start_game(UUID, UUID, BIGINT);
+DROP FUNCTION IF EXISTS api.select_trump(UUID, UUID, TEXT, BIGINT);
+DROP FUNCTION IF EXISTS api.deal_final(UUID, UUID, BIGINT);
+DROP FUNCTION IF EXISTS api.start_new_round(UUID, UUID, BIGINT);
+
+-- ============================================================================
+-- RPC: DEALING PHASE
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION api.start_game(
+  p_room_id UUID,
+  p_player_id UUID,
+  p_expected_version BIGINT
+)
+RETURNS TEXT
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+BEGIN
+  PERFORM game.seat_of(p_room_id, p_player_id);
+
+  IF game.transition_done(v_room, p_expected_version, v_room.status <> 'waiting') THEN
+    RETURN 'already_done';
+  END IF;
+
+  IF v_room.status <> 'waiting' THEN
+    RAISE EXCEPTION 'Game has already started';
+  END IF;
+
+  IF (SELECT count(*) FROM api.players WHERE room_id = p_room_id) <> 3 THEN
+    RAISE EXCEPTION 'Need 3 players to start';
+  END IF;
+
+  PERFORM game.deal_first_five(v_room);
+  RETURN 'done';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION api.select_trump(
+  p_room_id UUID,
+  p_player_id UUID,
+  p_trump TEXT,
+  p_expected_version BIGINT
+)
+RETURNS TEXT
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_remaining JSONB;
+  v_player INTEGER;
+BEGIN
+  IF game.transition_done(v_room, p_expected_version, v_room.dealing_phase <> 'trump_selection') THEN
+    RETURN 'already_done';
+  END IF;
+
+  IF v_room.dealing_phase <> 'trump_selection' THEN
+    RAISE EXCEPTION 'Trump has already been selected';
+  END IF;
+
+  IF v_position <> (v_room.dealer_index + 1) % 3 THEN
+    RAISE EXCEPTION 'Only the 5-trick player can select trump';
+  END IF;
+
+  IF p_trump IS NULL OR p_trump NOT IN ('♠', '♥', '♦', '♣') THEN
+    RAISE EXCEPTION 'Invalid trump suit';
+  END IF;
+
+  v_remaining := COALESCE((game.secrets_of(p_room_id)).remaining_cards, '[]'::jsonb);
+  IF jsonb_array_length(v_remaining) <> 15 THEN
+    RAISE EXCEPTION 'Invalid remaining cards';
+  END IF;
+
+  PERFORM game.log_event(p_room_id, v_room.round_number, 'trump_select', v_position,
+    jsonb_build_object('trump', p_trump));
+
+  -- Add 3 more cards to each player's hand
+  FOR v_player IN 0..2 LOOP
+    PERFORM game.set_hand(
+      p_room_id,
+      v_player,
+      game.hand_of(p_room_id, v_player) || game.deal_slice(v_remaining, 3, v_player)
+    );
+    PERFORM game.log_event(p_room_id, v_room.round_number, 'deal', v_player, jsonb_build_object(
+      'stage', 'three',
+      'cards', game.deal_slice(v_remaining, 3, v_player)
+    ), v_player);
+  END LOOP;
+
+  UPDATE game.room_secrets SET remaining_cards = game.drop_cards(v_remaining, 9)
+  WHERE room_id = p_room_id;
+
+  UPDATE api.rooms SET
+    trump_suit = p_trump,
+    dealing_phase = 'dealing_3'
+  WHERE id = p_room_id;
+
+  RETURN 'done';
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION api.deal_final(
+  p_room_id UUID,
+  p_player_id UUID,
+  p_expected_version BIGINT
+)
+RETURNS TEXT
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER := game.seat_of(p_room_id, p_player_id);
+  v_remaining JSONB;
+  v_first_leader INTEGER;
+  v_card_pull_state JSONB := NULL;
+  v_player INTEGER;
+BEGIN
+  IF game.transition_done(v_room, p_expected_version, v_room.dealing_phase <> 'dealing_3') THEN
+    RETURN 'already_done';
+  END IF;
+
+  IF v_room.dealing_phase <> 'dealing_3' THEN
+    RAISE EXCEPTION 'Final cards have already been dealt';
+  END IF;
+
+  IF v_position <> v_room.dealer_index THEN
+    RAISE EXCEPTION 'Only the dealer can deal the final cards';
+  END IF;
+
+  v_remaining := COALESCE((game.secrets_of(p_room_id)).remaining_cards, '[]'::jsonb);
+  IF jsonb_array_length(v_remaining) <> 6 THEN
+    RAISE EXCEPTION 'Invalid remaining cards';
+  END IF;
+
+  FOR v_player IN 0..2 LOOP
+    PERFORM game.set_hand(
+      p_room_id,
+      v_player,
+      game.hand_of(p_room_id, v_player) || game.deal_slice(v_remaining, 2, v_player)
+    );
+    PERFORM game.log_event(p_room_id, v_room.round_number, 'deal', v_player, jsonb_build_object(
+      'stage', 'final',
+      'cards', game.deal_slice(v_remaining, 2, v_player)
+    ), v_player);
+  END LOOP;
+
+  UPDATE game.room_secrets SET remaining_cards = NULL WHERE room_id = p_room_id;
+
+  -- 5-trick player leads first trick
+  v_first_leader := (v_room.dealer_index + 1) % 3;
+
+  -- Card pull only after round 1, in rooms that play it, and only with both
+  -- over- and under-scorers
+  IF v_room.round_number > 1 AND (v_room.rules->>'cardPull')::BOOLEAN THEN
+    v_card_pull_state := game.initial_card_pull_state(
+      v_room.previous_round_results,
+      v_room.dealer_index
+    );
+  END IF;
+
+  UPDATE api.rooms SET
+    status = CASE WHEN v_card_pull_state IS NULL THEN 'playing' ELSE 'dealing' END,
+    dealing_phase = CASE WHEN v_card_pull_state IS NULL THEN 'playing' ELSE 'card_pull' END,
+    current_player_index = v_first_leader,
+    first_trick_leader = v_first_leader,
+    trump_led_at_start = NULL,
+    card_pull_state = v_card_pull_state
+  WHERE id = p_room_id;
+
+  RETURN 'done';
+END;
+$$;
+
+-- ============================================================================
+-- RPC: ROUND MANAGEMENT
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION api.start_new_round(
+  p_room_id UUID,
+  p_player_id UUID,
+  p_expected_version BIGINT
+)
+RETURNS TEXT
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+BEGIN
+  PERFORM game.seat_of(p_room_id, p_player_id);
+
+  IF game.transition_done(v_room, p_expected_version, v_room.status <> 'redistribution') THEN
+    RETURN 'already_done';
+  END IF;
+
+  IF v_room.status <> 'redistribution' THEN
+    RAISE EXCEPTION 'Round has already started';
+  END IF;
+
+  PERFORM game.deal_first_five(v_room);
+  RETURN 'done';
+END;
+$$;
+
+-- ============================================================================
+-- TURN TIMEOUTS
+-- ============================================================================
+
+-- Makes the awaited move for the seat whose time ran out, through the same
+-- RPCs a player would call, at the version of the room the caller locked.
+CREATE OR REPLACE FUNCTION game.auto_play(p_room api.rooms)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_stage TEXT := game.turn_stage(p_room);
+  v_position INTEGER := game.turn_seat(p_room);
+  v_state JSONB := p_room.card_pull_state;
+  v_trick JSONB := COALESCE(p_room.current_trick, '[]'::jsonb);
+  v_player_id UUID;
+  v_hand JSONB;
+  v_suit TEXT;
+  v_card JSONB;
+BEGIN
+  IF v_stage IS NULL OR v_position IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT id INTO v_player_id FROM api.players
+  WHERE room_id = p_room.id AND position = v_position;
+  v_hand := game.hand_of(p_room.id, v_position);
+
+  PERFORM game.log_event(p_room.id, p_room.round_number, 'timeout', v_position,
+    jsonb_build_object('stage', v_stage));
+
+  -- Lets game.seat_of accept this seat until the move is made
+  PERFORM set_config('game.timed_out_seat', v_position::TEXT, true);
+
+  CASE v_stage
+    WHEN 'trumpSelection' THEN
+      SELECT s INTO v_suit
+      FROM unnest(ARRAY['♠', '♥', '♦', '♣']) WITH ORDINALITY AS su(s, si)
+      ORDER BY game.count_suit(v_hand, s) DESC, si
+      LIMIT 1;
+      PERFORM api.select_trump(p_room.id, v_player_id, v_suit, p_room.version);
+
+    WHEN 'dealing' THEN
+      PERFORM api.deal_final(p_room.id, v_player_id, p_room.version);
+
+    WHEN 'cardPull' THEN
+      IF v_state->>'phase' = 'selecting_target' THEN
+        PERFORM api.select_pull_target(
+          p_room.id, v_player_id, (v_state->'underScorers'->0->>'position')::INTEGER
+        );
+      END IF;
+      IF v_state->>'phase' IN ('selecting_target', 'selecting_card') THEN
+        PERFORM api.pull_card(p_room.id, v_player_id, 0);
+      END IF;
+      PERFORM api.return_card(p_room.id, v_player_id, (game.secrets_of(p_room.id)).pulled_card);
+
+    WHEN 'cardPlay' THEN
+      IF jsonb_array_length(v_trick) = 3 THEN
+        PERFORM api.clear_trick(p_room.id, v_player_id);
+      ELSE
+        SELECT c INTO v_card
+        FROM jsonb_array_elements(v_hand) WITH ORDINALITY AS h(c, i)
+        WHERE game.move_error(
+          c, v_hand, v_trick, p_room.trump_suit, 10 - jsonb_array_length(v_hand),
+          p_room.trump_led_at_start, p_room.rules
+        ) IS NULL
+        ORDER BY i
+        LIMIT 1;
+        PERFORM api.play_card(p_room.id, v_player_id, v_card);
+      END IF;
+  END CASE;
+
+  PERFORM set_config('game.timed_out_seat', '', true);
+END;
+$$;
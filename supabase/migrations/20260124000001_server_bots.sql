@@ -0,0 +1,355 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Server-Side Bots
+-- ============================================================================
+--
+-- Bots were driven by the host's browser (20260101000001_bot_players.sql):
+-- game.seat_of let the room creator act for bot seats, so the host could
+-- read a bot's hand through api.get_private_view. With one bot at the
+-- table, the host's hand and the bot's hand give away the other player's.
+--
+-- Bots now move on the server, like turn timeouts (game.auto_play):
+--
+-- - game.seat_of no longer accepts bot seats from anyone, so no session
+--   ever receives a bot's hand or pulled card
+-- - game.bot_move picks and makes the move with the rules of
+--   src/lib/bots.ts (easy, medium, hard); expert bots added before this
+--   play as hard bots, since the expert search needs the hand in a browser
+-- - api.play_bot_turn lets any seated player's browser ask for the awaited
+--   bot move once it has shown the table for a moment; a pg_cron sweep
+--   moves for bots at tables nobody is watching
+--
+-- ============================================================================
+
+-- ============================================================================
+-- SEAT ACCESS
+-- ============================================================================
+
+-- Position of the acting seat: the caller's own seat, or the seat the
+-- server is moving for (game.auto_play, game.bot_move)
+CREATE OR REPLACE FUNCTION game.seat_of(p_room_id UUID, p_player_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql STABLE AS $$
+DECLARE
+  v_position INTEGER;
+BEGIN
+  SELECT p.position INTO v_position
+  FROM api.players p
+  WHERE p.id = p_player_id
+    AND p.room_id = p_room_id
+    AND (
+      p.user_id = auth.uid()
+      OR p.position::TEXT = current_setting('game.timed_out_seat', true)
+    );
+
+  IF v_position IS NULL THEN
+    RAISE EXCEPTION 'You are not a player in this room';
+  END IF;
+  RETURN v_position;
+END;
+$$;
+
+-- New bots are easy, medium or hard
+CREATE OR REPLACE FUNCTION api.add_bot(p_room_id UUID, p_difficulty TEXT)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+  v_position INTEGER;
+BEGIN
+  PERFORM game.require_host_waiting(v_room);
+
+  IF p_difficulty IS NULL OR p_difficulty NOT IN ('easy', 'medium', 'hard') THEN
+    RAISE EXCEPTION 'Invalid bot difficulty';
+  END IF;
+
+  SELECT min(s) INTO v_position
+  FROM generate_series(0, 2) s
+  WHERE s NOT IN (SELECT position FROM api.players WHERE room_id = p_room_id);
+
+  IF v_position IS NULL THEN
+    RAISE EXCEPTION 'Room is full';
+  END IF;
+
+  INSERT INTO api.players (room_id, name, position, user_id, is_bot, bot_difficulty)
+  VALUES (
+    p_room_id,
+    format('Bot %s (%s)', v_position + 1, initcap(p_difficulty)),
+    v_position,
+    NULL,
+    true,
+    p_difficulty
+  );
+END;
+$$;
+
+-- ============================================================================
+-- BOT DECISIONS
+-- ============================================================================
+-- Same choices as src/lib/bots.ts. Ties go to the card earliest in the hand.
+
+-- Rough card strength: trump outranks every plain card (see cardStrength)
+CREATE OR REPLACE FUNCTION game.bot_card_strength(p_card JSONB, p_trump TEXT)
+RETURNS INTEGER
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT game.rank_value(p_card->>'rank') + CASE WHEN p_card->>'suit' = p_trump THEN 20 ELSE 0 END;
+$$;
+
+-- Every higher card of the suit is already played or in the hand (see isMaster)
+CREATE OR REPLACE FUNCTION game.bot_is_master(p_card JSONB, p_hand JSONB, p_played JSONB)
+RETURNS BOOLEAN
+LANGUAGE sql IMMUTABLE AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM unnest(ARRAY['A', 'K', 'Q', 'J', '10', '9', '8', '7']) AS r(rank)
+    WHERE game.rank_value(r.rank) > game.rank_value(p_card->>'rank')
+      AND NOT game.has_card(
+        p_played || p_hand,
+        jsonb_build_object('suit', p_card->>'suit', 'rank', r.rank)
+      )
+  );
+$$;
+
+-- Trump after seeing the first five cards (see chooseTrump)
+CREATE OR REPLACE FUNCTION game.bot_trump(p_hand JSONB, p_difficulty TEXT)
+RETURNS TEXT
+LANGUAGE sql VOLATILE AS $$
+  SELECT s
+  FROM unnest(ARRAY['♠', '♥', '♦', '♣']) WITH ORDINALITY AS su(s, si)
+  ORDER BY
+    CASE WHEN p_difficulty = 'easy' THEN random() END,
+    -- Longest suit, ties broken by total rank
+    game.count_suit(p_hand, s) * 100 + (
+      SELECT COALESCE(sum(game.rank_value(c->>'rank')), 0)
+      FROM jsonb_array_elements(p_hand) c
+      WHERE c->>'suit' = s
+    ) DESC,
+    si
+  LIMIT 1;
+$$;
+
+-- Card to play (see chooseCard). Hard bots remember this round's tricks.
+CREATE OR REPLACE FUNCTION game.bot_card(p_room api.rooms, p_position INTEGER, p_difficulty TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql VOLATILE AS $$
+DECLARE
+  v_hand JSONB := game.hand_of(p_room.id, p_position);
+  v_trick JSONB := COALESCE(p_room.current_trick, '[]'::jsonb);
+  v_trump TEXT := p_room.trump_suit;
+  v_tracks BOOLEAN := p_difficulty IN ('hard', 'expert');
+  v_legal JSONB;
+  v_played JSONB := '[]'::jsonb;
+  v_card JSONB;
+BEGIN
+  SELECT jsonb_agg(c ORDER BY i) INTO v_legal
+  FROM jsonb_array_elements(v_hand) WITH ORDINALITY AS h(c, i)
+  WHERE game.move_error(
+    c, v_hand, v_trick, v_trump, 10 - jsonb_array_length(v_hand),
+    p_room.trump_led_at_start, p_room.rules
+  ) IS NULL;
+
+  IF p_difficulty = 'easy' THEN
+    RETURN v_legal->(floor(random() * jsonb_array_length(v_legal)))::INTEGER;
+  END IF;
+
+  IF v_tracks THEN
+    SELECT COALESCE(jsonb_agg(p->'card'), '[]'::jsonb) INTO v_played
+    FROM api.tricks t, jsonb_array_elements(t.cards_played) p
+    WHERE t.room_id = p_room.id AND t.round_number = p_room.round_number;
+  END IF;
+
+  -- Leading: cash a sure winner (hard) or lead strong, otherwise lead low
+  IF jsonb_array_length(v_trick) = 0 THEN
+    SELECT c INTO v_card
+    FROM jsonb_array_elements(v_legal) WITH ORDINALITY AS l(c, i)
+    ORDER BY
+      CASE WHEN v_tracks THEN
+        CASE WHEN c->>'suit' IS DISTINCT FROM v_trump AND game.bot_is_master(c, v_hand, v_played)
+          THEN -game.bot_card_strength(c, v_trump)
+          ELSE 100 + game.bot_card_strength(c, v_trump)
+        END
+      ELSE -game.bot_card_strength(c, v_trump)
+      END,
+      i
+    LIMIT 1;
+    RETURN v_card;
+  END IF;
+
+  -- Following: win as cheaply as possible, preferring (hard, unless last
+  -- to play) a card nobody after us can beat in suit
+  SELECT c INTO v_card
+  FROM jsonb_array_elements(v_legal) WITH ORDINALITY AS l(c, i)
+  WHERE game.evaluate_trick(
+      v_trick || jsonb_build_array(jsonb_build_object('position', p_position, 'card', c)),
+      v_trump
+    ) = p_position
+  ORDER BY
+    CASE WHEN v_tracks AND jsonb_array_length(v_trick) < 2
+      AND game.bot_is_master(c, v_hand, v_played) THEN 0 ELSE 1 END,
+    game.bot_card_strength(c, v_trump),
+    i
+  LIMIT 1;
+
+  -- Otherwise throw the lowest card
+  IF v_card IS NULL THEN
+    SELECT c INTO v_card
+    FROM jsonb_array_elements(v_legal) WITH ORDINALITY AS l(c, i)
+    ORDER BY game.bot_card_strength(c, v_trump), i
+    LIMIT 1;
+  END IF;
+
+  RETURN v_card;
+END;
+$$;
+
+-- Card to give back after pulling; the pulled card itself is always
+-- allowed (see chooseReturnCard)
+CREATE OR REPLACE FUNCTION game.bot_return_card(
+  p_pulled JSONB,
+  p_hand JSONB,
+  p_trump TEXT,
+  p_difficulty TEXT
+)
+RETURNS JSONB
+LANGUAGE sql VOLATILE AS $$
+  SELECT card
+  FROM (
+    SELECT p_pulled AS card, 0::BIGINT AS i
+    UNION ALL
+    SELECT c, i
+    FROM jsonb_array_elements(p_hand) WITH ORDINALITY AS h(c, i)
+    WHERE NOT game.same_card(c, p_pulled)
+      AND game.return_error(c, p_pulled, p_hand) IS NULL
+  ) options
+  ORDER BY
+    CASE WHEN p_difficulty = 'easy' THEN random() END,
+    -- Keep the strongest cards, give back the weakest
+    game.bot_card_strength(card, p_trump),
+    i
+  LIMIT 1;
+$$;
+
+-- ============================================================================
+-- BOT MOVES
+-- ============================================================================
+
+-- Makes the awaited move for a bot seat, one step at a time, through the
+-- same RPCs a player would call. The caller has locked the room. Does
+-- nothing when the awaited seat is not a bot.
+CREATE OR REPLACE FUNCTION game.bot_move(p_room api.rooms)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_stage TEXT := game.turn_stage(p_room);
+  v_position INTEGER := game.turn_seat(p_room);
+  v_state JSONB := p_room.card_pull_state;
+  v_bot api.players;
+  v_difficulty TEXT;
+  v_target_count INTEGER;
+BEGIN
+  IF v_stage IS NULL OR v_position IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_bot FROM api.players
+  WHERE room_id = p_room.id AND position = v_position AND is_bot;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_difficulty := COALESCE(v_bot.bot_difficulty, 'medium');
+
+  -- Lets game.seat_of accept this seat until the move is made
+  PERFORM set_config('game.timed_out_seat', v_position::TEXT, true);
+
+  CASE v_stage
+    WHEN 'trumpSelection' THEN
+      PERFORM api.select_trump(
+        p_room.id, v_bot.id, game.bot_trump(game.hand_of(p_room.id, v_position), v_difficulty),
+        p_room.version
+      );
+
+    WHEN 'dealing' THEN
+      PERFORM api.deal_final(p_room.id, v_bot.id, p_room.version);
+
+    WHEN 'cardPull' THEN
+      -- Nothing is known about face-down hands: any target, any card
+      IF v_state->>'phase' = 'selecting_target' THEN
+        PERFORM api.select_pull_target(
+          p_room.id, v_bot.id,
+          (v_state->'underScorers'->(floor(random() * jsonb_array_length(v_state->'underScorers')))::INTEGER
+            ->>'position')::INTEGER
+        );
+      ELSIF v_state->>'phase' = 'selecting_card' THEN
+        SELECT hand_count INTO v_target_count FROM api.players
+        WHERE room_id = p_room.id AND position = (v_state->>'selectedTarget')::INTEGER;
+
+        PERFORM api.pull_card(
+          p_room.id, v_bot.id, floor(random() * GREATEST(COALESCE(v_target_count, 10), 1))::INTEGER
+        );
+      ELSE
+        PERFORM api.return_card(p_room.id, v_bot.id, game.bot_return_card(
+          (game.secrets_of(p_room.id)).pulled_card,
+          game.hand_of(p_room.id, v_position),
+          p_room.trump_suit,
+          v_difficulty
+        ));
+      END IF;
+
+    WHEN 'cardPlay' THEN
+      PERFORM api.play_card(p_room.id, v_bot.id, game.bot_card(p_room, v_position, v_difficulty));
+  END CASE;
+
+  PERFORM set_config('game.timed_out_seat', '', true);
+END;
+$$;
+
+-- Called by a seated player's browser once a bot's turn has been on show
+-- for a moment. Does nothing if the room changed since p_expected_version:
+-- the move was already made, by another browser or the sweep.
+CREATE OR REPLACE FUNCTION api.play_bot_turn(p_room_id UUID, p_expected_version BIGINT)
+RETURNS VOID
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+DECLARE
+  v_room api.rooms := game.lock_room(p_room_id);
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM api.players WHERE room_id = p_room_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'You are not a player in this room';
+  END IF;
+
+  IF p_expected_version IS NULL THEN
+    RAISE EXCEPTION 'Missing room version';
+  END IF;
+
+  IF v_room.version = p_expected_version THEN
+    PERFORM game.bot_move(v_room);
+  END IF;
+END;
+$$;
+
+-- Moves for bots at tables no browser is driving. A room that fails is
+-- skipped and retried on the next sweep.
+CREATE OR REPLACE FUNCTION game.play_bots()
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_room_id UUID;
+BEGIN
+  FOR v_room_id IN
+    SELECT r.id
+    FROM api.rooms r
+    JOIN api.players p ON p.room_id = r.id AND p.position = game.turn_seat(r)
+    WHERE r.status IN ('dealing', 'playing')
+      AND p.is_bot
+  LOOP
+    BEGIN
+      PERFORM game.bot_move(game.lock_room(v_room_id));
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Bot move in room % failed: %', v_room_id, SQLERRM;
+    END;
+  END LOOP;
+END;
+$$;
+
+SELECT cron.schedule('play-bots', '5 seconds', $$SELECT game.play_bots()$$);
@@ -0,0 +1,167 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Server-Side Stand-Ins
+-- ============================================================================
+--
+-- Under the 'bot' disconnect policy a seat that went away was turned into a
+-- bot (is_bot = true), which put its real hand in reach of the host's
+-- browser, and only that browser played for it: a host who disconnected
+-- became a bot nobody drove, and an untimed table stalled for good.
+--
+-- - A stand-in seat only sets bot_stand_in; is_bot stays false on human
+--   seats. The server plays stand-ins like bots
+--   (20260124000001_server_bots.sql): on request from any seated browser,
+--   and from the pg_cron sweep when no browser asks.
+-- - Each seat in game.handle_disconnects is handled on its own, so one
+--   failing room no longer aborts the sweep for every other room.
+--
+-- ============================================================================
+
+-- Seats taken over before this change get their player's seat back
+UPDATE api.players SET is_bot = false, bot_difficulty = NULL
+WHERE bot_stand_in AND user_id IS NOT NULL;
+
+-- ============================================================================
+-- DISCONNECT POLICY
+-- ============================================================================
+
+-- Applies the room's policy to every seat that has gone away mid-game. A
+-- seat that fails is skipped and retried on the next sweep.
+CREATE OR REPLACE FUNCTION game.handle_disconnects()
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_seat RECORD;
+  v_room api.rooms;
+BEGIN
+  FOR v_seat IN
+    SELECT p.id, p.room_id, p.position
+    FROM api.players p
+    JOIN api.rooms r ON r.id = p.room_id
+    WHERE r.status IN ('dealing', 'playing', 'redistribution')
+      AND r.disconnect_policy IN ('bot', 'forfeit')
+      AND NOT COALESCE(p.is_bot, false)
+      AND NOT p.bot_stand_in
+      AND CASE r.disconnect_policy
+        WHEN 'forfeit' THEN game.has_left(p.room_id, p.position)
+        ELSE game.is_disconnected(p.room_id, p.position)
+      END
+  LOOP
+    BEGIN
+      v_room := game.lock_room(v_seat.room_id);
+      CONTINUE WHEN v_room.status NOT IN ('dealing', 'playing', 'redistribution');
+
+      PERFORM game.log_event(v_room.id, v_room.round_number, 'disconnect', v_seat.position,
+        jsonb_build_object('policy', v_room.disconnect_policy));
+
+      IF v_room.disconnect_policy = 'bot' THEN
+        UPDATE api.players SET bot_stand_in = true WHERE id = v_seat.id;
+      ELSE
+        UPDATE api.rooms SET
+          status = 'finished',
+          dealing_phase = 'finished',
+          forfeited_position = v_seat.position
+        WHERE id = v_room.id;
+      END IF;
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Disconnect of seat % in room % failed: %', v_seat.position, v_seat.room_id, SQLERRM;
+    END;
+  END LOOP;
+END;
+$$;
+
+-- ============================================================================
+-- STAND-IN MOVES
+-- ============================================================================
+
+-- Bot seats and stand-ins: a stand-in plays as a medium bot
+CREATE OR REPLACE FUNCTION game.bot_move(p_room api.rooms)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_stage TEXT := game.turn_stage(p_room);
+  v_position INTEGER := game.turn_seat(p_room);
+  v_state JSONB := p_room.card_pull_state;
+  v_bot api.players;
+  v_difficulty TEXT;
+  v_target_count INTEGER;
+BEGIN
+  IF v_stage IS NULL OR v_position IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_bot FROM api.players
+  WHERE room_id = p_room.id AND position = v_position AND (is_bot OR bot_stand_in);
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_difficulty := COALESCE(v_bot.bot_difficulty, 'medium');
+
+  -- Lets game.seat_of accept this seat until the move is made
+  PERFORM set_config('game.timed_out_seat', v_position::TEXT, true);
+
+  CASE v_stage
+    WHEN 'trumpSelection' THEN
+      PERFORM api.select_trump(
+        p_room.id, v_bot.id, game.bot_trump(game.hand_of(p_room.id, v_position), v_difficulty),
+        p_room.version
+      );
+
+    WHEN 'dealing' THEN
+      PERFORM api.deal_final(p_room.id, v_bot.id, p_room.version);
+
+    WHEN 'cardPull' THEN
+      -- Nothing is known about face-down hands: any target, any card
+      IF v_state->>'phase' = 'selecting_target' THEN
+        PERFORM api.select_pull_target(
+          p_room.id, v_bot.id,
+          (v_state->'underScorers'->(floor(random() * jsonb_array_length(v_state->'underScorers')))::INTEGER
+            ->>'position')::INTEGER
+        );
+      ELSIF v_state->>'phase' = 'selecting_card' THEN
+        SELECT hand_count INTO v_target_count FROM api.players
+        WHERE room_id = p_room.id AND position = (v_state->>'selectedTarget')::INTEGER;
+
+        PERFORM api.pull_card(
+          p_room.id, v_bot.id, floor(random() * GREATEST(COALESCE(v_target_count, 10), 1))::INTEGER
+        );
+      ELSE
+        PERFORM api.return_card(p_room.id, v_bot.id, game.bot_return_card(
+          (game.secrets_of(p_room.id)).pulled_card,
+          game.hand_of(p_room.id, v_position),
+          p_room.trump_suit,
+          v_difficulty
+        ));
+      END IF;
+
+    WHEN 'cardPlay' THEN
+      PERFORM api.play_card(p_room.id, v_bot.id, game.bot_card(p_room, v_position, v_difficulty));
+  END CASE;
+
+  PERFORM set_config('game.timed_out_seat', '', true);
+END;
+$$;
+
+-- Sweeps stand-in seats along with bots
+CREATE OR REPLACE FUNCTION game.play_bots()
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_room_id UUID;
+BEGIN
+  FOR v_room_id IN
+    SELECT r.id
+    FROM api.rooms r
+    JOIN api.players p ON p.room_id = r.id AND p.position = game.turn_seat(r)
+    WHERE r.status IN ('dealing', 'playing')
+      AND (p.is_bot OR p.bot_stand_in)
+  LOOP
+    BEGIN
+      PERFORM game.bot_move(game.lock_room(v_room_id));
+    EXCEPTION WHEN OTHERS THEN
+      RAISE WARNING 'Bot move in room % failed: %', v_room_id, SQLERRM;
+    END;
+  END LOOP;
+END;
+$$;
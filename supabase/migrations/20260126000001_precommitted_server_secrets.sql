@@ -0,0 +1,250 @@
+-- ============================================================================
+-- 3-2-5 (Teen Do Paanch) Pre-Committed Server Secrets
+-- ============================================================================
+--
+-- game.deal_first_five drew the server secret at deal time, after every
+-- seat's entropy was stored, and published the commitment only then. The
+-- server could draw secrets until the deal suited it.
+--
+-- The secret for the next deal is now drawn before any entropy for it is
+-- accepted, and its hash is published on the room:
+--
+-- - api.rooms.secret_commitment = sha256(next server secret), set when a
+--   room is created and when it enters redistribution, the two states in
+--   which api.submit_entropy takes entropy
+-- - game.deal_first_five deals with that secret
+-- - game.end_round reveals the commitment with the secret
+--   (secretCommitment), so verifyDeal can check the secret was fixed
+--   before the entropy; seats also record it when they send theirs
+--
+-- Practice rooms have no secret. Rooms already waiting for a deal get a
+-- secret now; a round in play keeps the secret it was dealt with, and its
+-- reveal has no secretCommitment.
+--
+-- ============================================================================
+
+ALTER TABLE api.rooms ADD COLUMN IF NOT EXISTS secret_commitment TEXT DEFAULT NULL;
+ALTER TABLE game.room_secrets ADD COLUMN IF NOT EXISTS next_server_secret TEXT DEFAULT NULL;
+
+-- ============================================================================
+-- COMMITMENT
+-- ============================================================================
+
+-- Draws the secret for the room's next deal and returns its commitment
+CREATE OR REPLACE FUNCTION game.next_secret_commitment(p_room api.rooms)
+RETURNS TEXT
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_secret TEXT;
+BEGIN
+  IF p_room.practice_seed IS NOT NULL THEN
+    RETURN NULL;
+  END IF;
+
+  v_secret := game.random_hex();
+
+  PERFORM game.secrets_of(p_room.id);
+  UPDATE game.room_secrets SET next_server_secret = v_secret WHERE room_id = p_room.id;
+
+  RETURN game.sha256_hex(v_secret);
+END;
+$$;
+
+-- SECURITY DEFINER: rooms are created by players, who can't reach
+-- game.room_secrets
+CREATE OR REPLACE FUNCTION game.track_secret_commitment()
+RETURNS TRIGGER
+LANGUAGE plpgsql SECURITY DEFINER SET search_path = api, game AS $$
+BEGIN
+  -- The row must exist before its secrets can
+  IF TG_OP = 'INSERT' THEN
+    UPDATE api.rooms SET secret_commitment = game.next_secret_commitment(NEW)
+    WHERE id = NEW.id;
+    RETURN NULL;
+  END IF;
+
+  IF NEW.status = 'redistribution' AND OLD.status IS DISTINCT FROM 'redistribution' THEN
+    NEW.secret_commitment := game.next_secret_commitment(NEW);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS rooms_secret_commitment_insert ON api.rooms;
+CREATE TRIGGER rooms_secret_commitment_insert
+  AFTER INSERT ON api.rooms
+  FOR EACH ROW EXECUTE FUNCTION game.track_secret_commitment();
+
+DROP TRIGGER IF EXISTS rooms_secret_commitment ON api.rooms;
+CREATE TRIGGER rooms_secret_commitment
+  BEFORE UPDATE ON api.rooms
+  FOR EACH ROW EXECUTE FUNCTION game.track_secret_commitment();
+
+UPDATE api.rooms r SET secret_commitment = game.next_secret_commitment(r)
+WHERE status IN ('waiting', 'redistribution');
+
+-- ============================================================================
+-- ROUND FLOW
+-- ============================================================================
+
+CREATE OR REPLACE FUNCTION game.deal_first_five(p_room api.rooms)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_secret TEXT := (game.secrets_of(p_room.id)).next_server_secret;
+  v_secret_commitment TEXT := p_room.secret_commitment;
+  v_entropy JSONB;
+  v_material TEXT;
+  v_commitment TEXT;
+  v_seed JSONB;
+  v_deck JSONB;
+  v_position INTEGER;
+BEGIN
+  IF p_room.practice_seed IS NOT NULL THEN
+    v_seed := to_jsonb((p_room.practice_seed + p_room.round_number - 1) & 4294967295);
+    v_deck := game.seeded_deck((v_seed #>> '{}')::BIGINT, p_room.rules);
+  ELSE
+    -- Rooms that were mid-round when secrets started being committed early
+    IF v_secret IS NULL THEN
+      v_secret := game.random_hex();
+      v_secret_commitment := NULL;
+    END IF;
+
+    SELECT jsonb_agg(COALESCE(e.entropy, game.random_hex()) ORDER BY s)
+    INTO v_entropy
+    FROM generate_series(0, 2) s
+    LEFT JOIN game.seat_entropy e ON e.room_id = p_room.id AND e.position = s;
+
+    v_material := game.deal_material(v_secret, v_entropy);
+    v_commitment := game.sha256_hex(v_material);
+    v_seed := to_jsonb(game.seed_from_material(v_material));
+    v_deck := game.shuffled_deck(v_seed #>> '{}', p_room.rules);
+  END IF;
+
+  -- Entropy is used for one deal only
+  DELETE FROM game.seat_entropy WHERE room_id = p_room.id;
+
+  -- Commit before dealing
+  UPDATE api.rooms SET
+    deal_commitment = v_commitment,
+    secret_commitment = v_secret_commitment
+  WHERE id = p_room.id;
+
+  UPDATE game.room_secrets SET
+    remaining_cards = game.drop_cards(v_deck, 15),
+    pulled_card = NULL,
+    deal_seed = v_seed,
+    server_secret = v_secret,
+    next_server_secret = NULL,
+    deal_entropy = v_entropy
+  WHERE room_id = p_room.id;
+
+  UPDATE api.rooms SET
+    status = 'dealing',
+    dealing_phase = 'trump_selection',
+    trump_suit = NULL,
+    current_trick = '[]'::jsonb,
+    trump_led_at_start = NULL
+  WHERE id = p_room.id;
+
+  FOR v_position IN 0..2 LOOP
+    PERFORM game.set_hand(p_room.id, v_position, game.deal_slice(v_deck, 5, v_position));
+    PERFORM game.log_event(p_room.id, p_room.round_number, 'deal', v_position, jsonb_build_object(
+      'stage', 'first_five',
+      'dealerIndex', p_room.dealer_index,
+      'cards', game.deal_slice(v_deck, 5, v_position)
+    ), v_position);
+
+    UPDATE api.players SET
+      target_tricks = game.target_tricks(v_position, p_room.dealer_index),
+      tricks_won = 0
+    WHERE room_id = p_room.id AND position = v_position;
+  END LOOP;
+END;
+$$;
+
+-- ============================================================================
+-- ROUND END
+-- ============================================================================
+
+-- Scores the round, reveals how it was dealt, then finishes the game or
+-- moves to redistribution
+CREATE OR REPLACE FUNCTION game.end_round(p_room api.rooms)
+RETURNS VOID
+LANGUAGE plpgsql AS $$
+DECLARE
+  v_secrets game.room_secrets := game.secrets_of(p_room.id);
+  v_previous JSONB;
+  v_game_over BOOLEAN;
+BEGIN
+  UPDATE api.rooms SET
+    deal_seeds = COALESCE(deal_seeds, '[]'::jsonb) || jsonb_build_array(jsonb_strip_nulls(
+      jsonb_build_object(
+        'round', p_room.round_number,
+        'seed', v_secrets.deal_seed,
+        'secretCommitment', p_room.secret_commitment,
+        'commitment', p_room.deal_commitment,
+        'serverSecret', v_secrets.server_secret,
+        'entropy', v_secrets.deal_entropy,
+        'keptSevens', p_room.rules->'keptSevens'
+      )
+    ))
+  WHERE id = p_room.id;
+
+  UPDATE api.players SET
+    overachievement_score = COALESCE(overachievement_score, 0)
+      + COALESCE(tricks_won, 0) - COALESCE(target_tricks, 0)
+  WHERE room_id = p_room.id;
+
+  PERFORM game.log_event(p_room.id, p_room.round_number, 'round_end', NULL, jsonb_build_object(
+    'results', (
+      SELECT jsonb_agg(jsonb_build_object(
+        'position', position,
+        'tricksWon', COALESCE(tricks_won, 0),
+        'targetTricks', COALESCE(target_tricks, 0),
+        'score', COALESCE(overachievement_score, 0)
+      ) ORDER BY position)
+      FROM api.players WHERE room_id = p_room.id
+    )
+  ));
+
+  -- A match ends after its last round; otherwise first to the winning score
+  -- wins (isGameOver)
+  IF jsonb_typeof(p_room.rules->'roundLimit') = 'number' THEN
+    v_game_over := p_room.round_number >= (p_room.rules->>'roundLimit')::INTEGER;
+  ELSE
+    v_game_over := EXISTS (
+      SELECT 1 FROM api.players
+      WHERE room_id = p_room.id AND overachievement_score >= (p_room.rules->>'winningScore')::INTEGER
+    );
+  END IF;
+
+  IF v_game_over THEN
+    UPDATE api.rooms SET status = 'finished', dealing_phase = 'finished'
+    WHERE id = p_room.id;
+    RETURN;
+  END IF;
+
+  -- Save results for card pull calculation
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'position', position,
+      'tricksWon', COALESCE(tricks_won, 0),
+      'targetTricks', COALESCE(target_tricks, 0)
+    ) ORDER BY position
+  )
+  INTO v_previous
+  FROM api.players
+  WHERE room_id = p_room.id;
+
+  -- Rotate dealer: 5-trick player becomes new dealer. Entering
+  -- redistribution commits the next deal's secret.
+  UPDATE api.rooms SET
+    dealer_index = (p_room.dealer_index + 1) % 3,
+    round_number = p_room.round_number + 1,
+    dealing_phase = 'redistribution',
+    status = 'redistribution',
+    previous_round_results = v_previous
+  WHERE id = p_room.id;
+END;
+$$;